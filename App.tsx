@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, Platform } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import { ThemeProvider } from './src/contexts';
+import { ThemeProvider, NotificationProvider } from './src/contexts';
 import { AuthProvider } from './src/contexts/auth/AuthContext';
 import { RootNavigator } from './src/navigation';
 
@@ -49,10 +49,12 @@ export default function App() {
   return (
     <ErrorBoundary>
       <ThemeProvider>
-        <AuthProvider>
-          <RootNavigator />
-          <StatusBar style="auto" />
-        </AuthProvider>
+        <NotificationProvider>
+          <AuthProvider>
+            <RootNavigator />
+            <StatusBar style="auto" />
+          </AuthProvider>
+        </NotificationProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
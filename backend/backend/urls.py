@@ -1,9 +1,33 @@
 from django.contrib import admin
+from django.http import JsonResponse
 from django.urls import path
 from django.views.decorators.csrf import csrf_exempt
 from graphene_django.views import GraphQLView
+from rest_framework.exceptions import AuthenticationFailed
+from rest_framework_simplejwt.authentication import JWTAuthentication
+from rest_framework_simplejwt.views import TokenRefreshView
+
+
+class JWTGraphQLView(GraphQLView):
+    """GraphQL endpoint that resolves info.context.user from a simplejwt Bearer token.
+
+    Requests without a token stay anonymous; an invalid or expired token gets a
+    401 so the app refreshes it and retries.
+    """
+
+    def dispatch(self, request, *args, **kwargs):
+        try:
+            result = JWTAuthentication().authenticate(request)
+        except AuthenticationFailed:
+            return JsonResponse({'errors': [{'message': 'Invalid or expired token'}]}, status=401)
+        if result is not None:
+            request.user = result[0]
+        return super().dispatch(request, *args, **kwargs)
+
 
 urlpatterns = [
     path('admin/', admin.site.urls),
-    path('graphql/', csrf_exempt(GraphQLView.as_view(graphiql=True))),
+    path('graphql/', csrf_exempt(JWTGraphQLView.as_view(graphiql=True))),
+    # {"refresh": "<token>"} -> {"access": "<token>"}; 401 when the refresh token is invalid or expired
+    path('auth/refresh/', TokenRefreshView.as_view(), name='token_refresh'),
 ]
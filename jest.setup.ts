@@ -0,0 +1,4 @@
+// In-memory AsyncStorage for every test; clear it in beforeEach where state matters
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
@@ -0,0 +1,263 @@
+/**
+ * @fileoverview ElevationProfileChart - SVG elevation profile with a scrubbable cursor
+ * @purpose Shows how a route climbs and descends, and where along it a point is
+ *
+ * COMPONENT CONTRACT:
+ *
+ * Props:
+ * - profile: ElevationProfile - From computeElevationProfile (utils/elevation.ts)
+ * - activeDistance?: number | null - Cursor position in meters along the route
+ * - onScrub?: (distance: number) => void - Called while the user drags across the chart
+ * - markers?: { distance: number; label: string }[] - Waypoints drawn as dots on the line
+ * - height?: number - Chart height (default: 160)
+ *
+ * Visual Specifications:
+ * - Filled area under the profile in the primary color, line on top
+ * - Steep sections drawn over the line in the warning color
+ * - Min/max elevation labels on the left, total distance bottom right
+ * - Cursor: vertical line, dot on the profile and an "elevation · distance" label
+ * - Labels follow the user's unit and language preferences (useFormatter)
+ *
+ * Behavior:
+ * - Dragging moves the cursor; the parent owns activeDistance, so a list can
+ *   drive the cursor and the cursor can highlight the list
+ * - Claims the gesture from a parent ScrollView while scrubbing
+ *
+ * Accessibility:
+ * - Adjustable: swipe up/down moves the cursor by a tenth of the route
+ * - Label summarises ascent, descent and maximum grade
+ *
+ * EXAMPLE USAGE:
+ * ```tsx
+ * <ElevationProfileChart
+ *   profile={profile}
+ *   activeDistance={activeDistance}
+ *   onScrub={setActiveDistance}
+ * />
+ * ```
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder } from 'react-native';
+import type { AccessibilityActionEvent, GestureResponderEvent } from 'react-native';
+import Svg, { Circle, Line, Path, Text as SvgText } from 'react-native-svg';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { useFormatter } from '../hooks/useFormatter';
+import { elevationAt } from '../utils/elevation';
+import type { ElevationProfile } from '../utils/elevation';
+
+interface ElevationProfileChartProps {
+  profile: ElevationProfile;
+  activeDistance?: number | null;
+  onScrub?: (distance: number) => void;
+  markers?: { distance: number; label: string }[];
+  height?: number;
+}
+
+// Room for the elevation labels on the left and the distance label below
+const PADDING = { top: 12, right: 8, bottom: 18, left: 44 };
+// Upper bound on drawn vertices; more than this is lost at phone widths
+const MAX_POINTS = 200;
+
+export function ElevationProfileChart({
+  profile,
+  activeDistance = null,
+  onScrub,
+  markers = [],
+  height = 160,
+}: ElevationProfileChartProps) {
+  const colors = useThemeColors();
+  const format = useFormatter();
+  const [width, setWidth] = useState(0);
+  const containerRef = useRef<View>(null);
+  const pageXRef = useRef(0);
+
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const { minElevation, maxElevation, totalDistance } = profile;
+  // Keep flat routes from filling the chart with a few meters of noise
+  const range = Math.max(maxElevation - minElevation, 20);
+  const floor = minElevation - (range - (maxElevation - minElevation)) / 2;
+
+  const { x, y } = useMemo(
+    () => ({
+      x: (distance: number) =>
+        PADDING.left + (totalDistance > 0 ? (distance / totalDistance) * plotWidth : 0),
+      y: (elevation: number) => PADDING.top + (1 - (elevation - floor) / range) * plotHeight,
+    }),
+    [totalDistance, plotWidth, plotHeight, floor, range]
+  );
+
+  const { line, area, steep } = useMemo(() => {
+    if (plotWidth === 0) return { line: '', area: '', steep: [] as string[] };
+    const step = Math.max(1, Math.ceil(profile.samples.length / MAX_POINTS));
+    const points = profile.samples.filter(
+      (_, index) => index % step === 0 || index === profile.samples.length - 1
+    );
+    const toCommands = (samples: typeof points) =>
+      samples
+        .map(
+          (sample, index) =>
+            `${index === 0 ? 'M' : 'L'}${x(sample.distance)},${y(sample.elevation)}`
+        )
+        .join(' ');
+
+    const linePath = toCommands(points);
+    const baseline = PADDING.top + plotHeight;
+    const first = points[0];
+    const last = points[points.length - 1];
+    const areaPath =
+      first && last
+        ? `${linePath} L${x(last.distance)},${baseline} L${x(first.distance)},${baseline} Z`
+        : '';
+    const steepPaths = profile.steepSections.map(section =>
+      toCommands(
+        profile.samples.filter(
+          sample =>
+            sample.distance >= section.startDistance && sample.distance <= section.endDistance
+        )
+      )
+    );
+    return { line: linePath, area: areaPath, steep: steepPaths };
+  }, [profile, plotWidth, plotHeight, x, y]);
+
+  const scrubTo = (pageX: number) => {
+    if (!onScrub || plotWidth === 0) return;
+    const fraction = (pageX - pageXRef.current - PADDING.left) / plotWidth;
+    onScrub(Math.min(1, Math.max(0, fraction)) * totalDistance);
+  };
+  const scrubRef = useRef(scrubTo);
+  scrubRef.current = scrubTo;
+
+  // Only horizontal drags scrub; vertical ones are left to the enclosing ScrollView
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_event, { dx, dy }) => Math.abs(dx) > Math.abs(dy),
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event: GestureResponderEvent) =>
+        scrubRef.current(event.nativeEvent.pageX),
+      onPanResponderMove: (event: GestureResponderEvent) =>
+        scrubRef.current(event.nativeEvent.pageX),
+    })
+  ).current;
+
+  const handleLayout = () => {
+    containerRef.current?.measure((_x, _y, measuredWidth, _height, pageX) => {
+      pageXRef.current = pageX;
+      setWidth(measuredWidth);
+    });
+  };
+
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    const current = activeDistance ?? 0;
+    const step = totalDistance / 10;
+    const next = event.nativeEvent.actionName === 'increment' ? current + step : current - step;
+    onScrub?.(Math.min(totalDistance, Math.max(0, next)));
+  };
+
+  const cursor = activeDistance === null ? null : elevationAt(profile, activeDistance);
+  const cursorLabel = cursor
+    ? `${format.elevation(cursor.elevation)} · ${format.distance(cursor.distance)}`
+    : '';
+  const cursorX = cursor ? x(cursor.distance) : 0;
+  const labelAnchor = cursorX > PADDING.left + plotWidth * 0.7 ? 'end' : 'start';
+
+  return (
+    <View
+      ref={containerRef}
+      onLayout={handleLayout}
+      style={[styles.container, { height }]}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={`Elevation profile. Ascent ${format.elevation(profile.ascent)}, descent ${format.elevation(profile.descent)}, maximum grade ${format.percent(Math.abs(profile.maxGrade))}`}
+      accessibilityValue={cursorLabel ? { text: cursorLabel } : undefined}
+      accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+      onAccessibilityAction={handleAccessibilityAction}
+      {...panResponder.panHandlers}
+    >
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Path d={area} fill={`${colors.primary}25`} />
+          <Path d={line} stroke={colors.primary} strokeWidth={2} fill="none" />
+          {steep.map((d, index) => (
+            <Path key={index} d={d} stroke={colors.warning} strokeWidth={3} fill="none" />
+          ))}
+
+          {markers.map(marker => {
+            const sample = elevationAt(profile, marker.distance);
+            return sample ? (
+              <Circle
+                key={marker.label}
+                cx={x(sample.distance)}
+                cy={y(sample.elevation)}
+                r={3}
+                fill={colors.card}
+                stroke={colors.primary}
+                strokeWidth={1.5}
+              />
+            ) : null;
+          })}
+
+          <SvgText
+            x={PADDING.left - 6}
+            y={PADDING.top + 4}
+            fontSize={10}
+            fill={colors.textTertiary}
+            textAnchor="end"
+          >
+            {format.elevation(maxElevation)}
+          </SvgText>
+          <SvgText
+            x={PADDING.left - 6}
+            y={PADDING.top + plotHeight}
+            fontSize={10}
+            fill={colors.textTertiary}
+            textAnchor="end"
+          >
+            {format.elevation(minElevation)}
+          </SvgText>
+          <SvgText
+            x={PADDING.left + plotWidth}
+            y={height - 4}
+            fontSize={10}
+            fill={colors.textTertiary}
+            textAnchor="end"
+          >
+            {format.distance(totalDistance)}
+          </SvgText>
+
+          {cursor && (
+            <>
+              <Line
+                x1={cursorX}
+                x2={cursorX}
+                y1={PADDING.top}
+                y2={PADDING.top + plotHeight}
+                stroke={colors.textSecondary}
+                strokeWidth={1}
+                strokeDasharray="3,3"
+              />
+              <Circle cx={cursorX} cy={y(cursor.elevation)} r={5} fill={colors.primary} />
+              <SvgText
+                x={cursorX + (labelAnchor === 'start' ? 6 : -6)}
+                y={PADDING.top + 8}
+                fontSize={11}
+                fontWeight="600"
+                fill={colors.textPrimary}
+                textAnchor={labelAnchor}
+              >
+                {cursorLabel}
+              </SvgText>
+            </>
+          )}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview LocationShareBanner - App-wide indicator of a live location share
+ * @purpose Keeps the user aware that contacts can see their location, on every screen
+ *
+ * COMPONENT CONTRACT:
+ *
+ * Props:
+ * - onPress: () => void - Called when the banner is tapped (e.g. open the Safety tab)
+ *
+ * Visual Specifications:
+ * - Compact pill centered at the top of the screen, below the status bar
+ * - Success-colored background with a location icon
+ * - "Sharing location · 12 min left" or "Sharing location · until arrival"
+ * - "Stop" text button on the right
+ *
+ * Behavior:
+ * - Renders nothing while no share is active
+ * - Follows the share through useLocationShare, so it appears and disappears
+ *   as sharing starts and stops anywhere in the app
+ * - Touches outside the pill pass through to the screen
+ *
+ * Accessibility:
+ * - The pill and the Stop button are separate buttons with labels
+ *
+ * EXAMPLE USAGE:
+ * ```tsx
+ * // Rendered once by RootNavigator above all screens
+ * <LocationShareBanner onPress={() => navigationRef.navigate('Main', { screen: 'SafetyTab' })} />
+ * ```
+ */
+
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { useLocationShare } from '../hooks/useLocationShare';
+
+interface LocationShareBannerProps {
+  onPress: () => void;
+}
+
+export function LocationShareBanner({ onPress }: LocationShareBannerProps) {
+  const colors = useThemeColors();
+  const { share, remainingMs, stop } = useLocationShare();
+
+  if (!share) return null;
+
+  const remaining =
+    share.mode === 'arrival'
+      ? 'until arrival'
+      : `${Math.max(1, Math.ceil(remainingMs / 60000))} min left`;
+
+  return (
+    <SafeAreaView edges={['top']} style={styles.container} pointerEvents="box-none">
+      <View style={[styles.pill, { backgroundColor: colors.success, shadowColor: colors.shadow }]}>
+        <TouchableOpacity
+          onPress={onPress}
+          style={styles.body}
+          accessibilityRole="button"
+          accessibilityLabel={`Sharing location, ${remaining}`}
+          accessibilityHint="Opens the safety screen"
+        >
+          <Ionicons name="navigate" size={14} color={colors.buttonText} />
+          <Text style={[styles.label, { color: colors.buttonText }]} numberOfLines={1}>
+            Sharing location · {remaining}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => void stop()}
+          style={styles.stop}
+          accessibilityRole="button"
+          accessibilityLabel="Stop sharing location"
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Text style={[styles.stopText, { color: colors.buttonText }]}>Stop</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+  },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    borderRadius: 16,
+    paddingLeft: 12,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  body: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  stop: {
+    marginLeft: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+    borderLeftColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  stopText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
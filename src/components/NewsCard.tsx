@@ -34,6 +34,7 @@ import {
   ImageSourcePropType,
 } from 'react-native';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { useFormatter } from '../hooks/useFormatter';
 
 interface NewsCardProps {
   id: string;
@@ -62,9 +63,10 @@ export const NewsCard: React.FC<NewsCardProps> = React.memo(
     onPress,
   }) => {
     const colors = useThemeColors();
+    const format = useFormatter();
 
     // Format time for display
-    const timeAgo = formatTimeAgo(publishedAt);
+    const timeAgo = format.relativeTime(publishedAt);
 
     // Sentiment text for accessibility
     const sentimentText =
@@ -185,19 +187,6 @@ const getSentimentIcon = (sentiment: -1 | 0 | 1): string => {
   return '😐';
 };
 
-const formatTimeAgo = (timestamp: string): string => {
-  const now = new Date();
-  const past = new Date(timestamp);
-  const diffMs = now.getTime() - past.getTime();
-  const diffMinutes = Math.floor(diffMs / 60000);
-
-  if (diffMinutes < 60) return `${diffMinutes}m ago`;
-  const diffHours = Math.floor(diffMinutes / 60);
-  if (diffHours < 24) return `${diffHours}h ago`;
-  const diffDays = Math.floor(diffHours / 24);
-  return `${diffDays}d ago`;
-};
-
 const styles = StyleSheet.create({
   card: {
     borderRadius: 16,
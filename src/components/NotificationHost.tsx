@@ -0,0 +1,184 @@
+/**
+ * @fileoverview NotificationHost - Renders the active toast notifications
+ * @purpose Non-blocking, themed replacement for Alert-based error surfacing
+ *
+ * COMPONENT CONTRACT:
+ *
+ * Props:
+ * - notifications: AppNotification[] - Toasts to render, oldest first
+ * - onDismiss: (id: string) => void - Called when a toast is closed or its action runs
+ *
+ * Visual Specifications:
+ * - Stacked at the top of the screen, below the status bar
+ * - Card background with a 4px severity-colored leading bar
+ * - Severity colors: error, warning, success, info theme tokens
+ * - "×N" badge when the same message was raised N times
+ * - Optional action button (e.g. "Retry") in the primary color
+ *
+ * Behavior:
+ * - Touches outside the toasts pass through to the screen
+ * - Running an action dismisses the toast
+ *
+ * Accessibility:
+ * - accessibilityRole="alert" and live region so screen readers announce toasts
+ *
+ * EXAMPLE USAGE:
+ * ```tsx
+ * // Rendered once by NotificationProvider; screens call notify() instead
+ * <NotificationHost notifications={notifications} onDismiss={dismiss} />
+ * ```
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import type { ThemeTokens } from '../contexts/theme/tokens';
+import type { AppNotification, NotificationSeverity } from '../services/notificationService';
+
+interface NotificationHostProps {
+  notifications: AppNotification[];
+  onDismiss: (id: string) => void;
+}
+
+const SEVERITY_ICONS: Record<NotificationSeverity, keyof typeof Ionicons.glyphMap> = {
+  info: 'information-circle',
+  success: 'checkmark-circle',
+  warning: 'warning',
+  error: 'alert-circle',
+};
+
+const severityColor = (severity: NotificationSeverity, colors: ThemeTokens): string =>
+  colors[severity];
+
+export function NotificationHost({ notifications, onDismiss }: NotificationHostProps) {
+  const colors = useThemeColors();
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <SafeAreaView edges={['top']} style={styles.container} pointerEvents="box-none">
+      {notifications.map(notification => {
+        const accent = severityColor(notification.severity, colors);
+        const { action } = notification;
+
+        return (
+          <View
+            key={notification.id}
+            style={[
+              styles.toast,
+              {
+                backgroundColor: colors.card,
+                borderColor: colors.border,
+                shadowColor: colors.shadow,
+              },
+            ]}
+            accessibilityRole="alert"
+            accessibilityLiveRegion="polite"
+          >
+            <View style={[styles.accentBar, { backgroundColor: accent }]} />
+            <Ionicons
+              name={SEVERITY_ICONS[notification.severity]}
+              size={20}
+              color={accent}
+              style={styles.icon}
+            />
+            <View style={styles.body}>
+              {notification.title ? (
+                <Text style={[styles.title, { color: colors.textPrimary }]} numberOfLines={1}>
+                  {notification.title}
+                </Text>
+              ) : null}
+              <Text style={[styles.message, { color: colors.textSecondary }]} numberOfLines={3}>
+                {notification.message}
+                {notification.count > 1 ? ` (×${notification.count})` : ''}
+              </Text>
+            </View>
+            {action ? (
+              <TouchableOpacity
+                onPress={() => {
+                  onDismiss(notification.id);
+                  action.onPress();
+                }}
+                style={styles.action}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.actionText, { color: colors.primary }]}>{action.label}</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity
+              onPress={() => onDismiss(notification.id)}
+              style={styles.close}
+              accessibilityRole="button"
+              accessibilityLabel="Dismiss notification"
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons name="close" size={18} color={colors.textTertiary} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 12,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingVertical: 12,
+    paddingRight: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  accentBar: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    width: 4,
+  },
+  icon: {
+    marginLeft: 16,
+    marginRight: 10,
+  },
+  body: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  message: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  action: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  close: {
+    marginLeft: 4,
+    padding: 2,
+  },
+});
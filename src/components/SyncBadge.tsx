@@ -0,0 +1,83 @@
+/**
+ * @fileoverview SyncBadge - Small pill showing offline sync status
+ * @purpose Tells the user a like/save/comment is queued or was rejected
+ *
+ * COMPONENT CONTRACT:
+ *
+ * Props:
+ * - status: OutboxSyncStatus - 'pending', 'failed' or 'synced'
+ * - onRetry?: () => void - Called when a failed badge is pressed
+ * - compact?: boolean - Icon only, no label (default: false)
+ *
+ * Visual Specifications:
+ * - Renders nothing when status is 'synced'
+ * - Pending: cloud-upload icon, "Waiting to sync", warning color
+ * - Failed: alert icon, "Sync failed · Retry", error color
+ * - Pill shape with a tinted background of the status color
+ *
+ * Behavior:
+ * - Only the failed state is pressable (when onRetry is provided)
+ *
+ * Accessibility:
+ * - Pending badge is announced as text; failed badge has accessibilityRole="button"
+ *
+ * EXAMPLE USAGE:
+ * ```tsx
+ * <SyncBadge status={statusFor(`route:${routeId}`)} onRetry={() => retryFailed()} />
+ * ```
+ */
+
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import type { OutboxSyncStatus } from '../services/offlineQueue';
+
+interface SyncBadgeProps {
+  status: OutboxSyncStatus;
+  onRetry?: () => void;
+  compact?: boolean;
+}
+
+export function SyncBadge({ status, onRetry, compact = false }: SyncBadgeProps) {
+  const colors = useThemeColors();
+
+  if (status === 'synced') return null;
+
+  const isFailed = status === 'failed';
+  const color = isFailed ? colors.error : colors.warning;
+  const label = isFailed ? 'Sync failed · Retry' : 'Waiting to sync';
+
+  return (
+    <TouchableOpacity
+      onPress={onRetry}
+      disabled={!isFailed || !onRetry}
+      style={[styles.badge, { backgroundColor: `${color}20` }]}
+      accessibilityRole={isFailed ? 'button' : 'text'}
+      accessibilityLabel={label}
+    >
+      <Ionicons
+        name={isFailed ? 'alert-circle-outline' : 'cloud-upload-outline'}
+        size={14}
+        color={color}
+      />
+      {compact ? null : <Text style={[styles.label, { color }]}>{label}</Text>}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+  },
+  label: {
+    marginLeft: 4,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
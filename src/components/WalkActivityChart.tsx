@@ -0,0 +1,122 @@
+/**
+ * @fileoverview WalkActivityChart - SVG bar chart of distance walked over time
+ * @purpose Shows how much the user walked per day or month in the selected period
+ *
+ * COMPONENT CONTRACT:
+ *
+ * Props:
+ * - buckets: WalkChartBucket[] - From computeWalkStats (utils/walkStats.ts)
+ * - height?: number - Chart height (default: 140)
+ *
+ * Visual Specifications:
+ * - One rounded bar per bucket in the primary color; empty buckets show a
+ *   short track in the border color so the time axis stays visible
+ * - Bucket labels under the bars, the largest distance top left, in the
+ *   user's units (useFormatter)
+ *
+ * Accessibility:
+ * - Read as a single image whose label lists the walked buckets
+ *
+ * EXAMPLE USAGE:
+ * ```tsx
+ * <WalkActivityChart buckets={stats.buckets} />
+ * ```
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import type { LayoutChangeEvent } from 'react-native';
+import Svg, { Rect, Text as SvgText } from 'react-native-svg';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { useFormatter } from '../hooks/useFormatter';
+import type { WalkChartBucket } from '../utils/walkStats';
+
+interface WalkActivityChartProps {
+  buckets: WalkChartBucket[];
+  height?: number;
+}
+
+// Room for the scale label above and the bucket labels below
+const PADDING = { top: 18, bottom: 18 };
+const EMPTY_BAR_HEIGHT = 3;
+
+export function WalkActivityChart({ buckets, height = 140 }: WalkActivityChartProps) {
+  const colors = useThemeColors();
+  const format = useFormatter();
+  const [width, setWidth] = useState(0);
+
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const maxDistance = buckets.reduce((max, bucket) => Math.max(max, bucket.distanceMeters), 0);
+  const slot = buckets.length > 0 ? width / buckets.length : 0;
+  const barWidth = Math.max(2, Math.min(24, slot * 0.6));
+
+  const walked = buckets.filter(bucket => bucket.walks > 0);
+  const accessibilityLabel =
+    walked.length === 0
+      ? 'Activity chart. No walks in this period.'
+      : `Activity chart. ${walked
+          .map(
+            bucket =>
+              `${new Date(bucket.start).toDateString()}: ${format.distance(bucket.distanceMeters)}`
+          )
+          .join(', ')}`;
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  return (
+    <View
+      onLayout={handleLayout}
+      style={[styles.container, { height }]}
+      accessible
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+    >
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {maxDistance > 0 && (
+            <SvgText x={0} y={10} fontSize={10} fill={colors.textTertiary}>
+              {format.distance(maxDistance)}
+            </SvgText>
+          )}
+
+          {buckets.map((bucket, index) => {
+            const barHeight =
+              maxDistance > 0 && bucket.distanceMeters > 0
+                ? Math.max(EMPTY_BAR_HEIGHT, (bucket.distanceMeters / maxDistance) * plotHeight)
+                : EMPTY_BAR_HEIGHT;
+            const x = index * slot + (slot - barWidth) / 2;
+            return (
+              <React.Fragment key={bucket.start}>
+                <Rect
+                  x={x}
+                  y={PADDING.top + plotHeight - barHeight}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={Math.min(4, barWidth / 2)}
+                  fill={bucket.distanceMeters > 0 ? colors.primary : colors.border}
+                />
+                {bucket.label !== '' && (
+                  <SvgText
+                    x={index * slot + slot / 2}
+                    y={height - 4}
+                    fontSize={10}
+                    fill={colors.textTertiary}
+                    textAnchor="middle"
+                  >
+                    {bucket.label}
+                  </SvgText>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
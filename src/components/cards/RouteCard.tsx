@@ -11,6 +11,7 @@
  * - tags: string[] - Route characteristics (e.g., ["Safe", "Scenic"])
  * - mapPreview?: string - URL for map thumbnail
  * - isSaved?: boolean - Whether route is bookmarked
+ * - alert?: { title, severity } - Most urgent safety alert along the route
  * - onPress: () => void - Handler for card press
  * - onToggleSave: () => void - Handler for save/heart button
  * - style?: ViewStyle - Additional custom styles
@@ -23,6 +24,7 @@
  * - Stats: Inline, 14px, textSecondary, with icons
  * - Tags: Pill chips, horizontally scrollable
  * - Save button: Heart icon (filled when saved), top-right overlay
+ * - Alert: warning row under the stats, tinted info/warning/error by severity
  * - Card: Rounded 12px, shadow elevation
  *
  * Behavior:
@@ -63,6 +65,7 @@ import {
   ScrollView,
 } from 'react-native';
 import { useThemeColors } from '../../contexts';
+import type { SafetyAlertSeverity } from '../../utils/safetyAlerts';
 
 interface RouteCardProps {
   title: string;
@@ -71,6 +74,7 @@ interface RouteCardProps {
   tags: string[];
   mapPreview?: string;
   isSaved?: boolean;
+  alert?: { title: string; severity: SafetyAlertSeverity };
   onPress: () => void;
   onToggleSave: () => void;
   style?: ViewStyle;
@@ -85,6 +89,7 @@ export const RouteCard = React.memo<RouteCardProps>(
     tags,
     mapPreview,
     isSaved = false,
+    alert,
     onPress,
     onToggleSave,
     style,
@@ -109,6 +114,13 @@ export const RouteCard = React.memo<RouteCardProps>(
       }).start();
     };
 
+    const alertColor =
+      alert?.severity === 'info'
+        ? colors.info
+        : alert?.severity === 'warning'
+          ? colors.warning
+          : colors.error;
+
     const handleSavePress = (e: { stopPropagation: () => void }) => {
       e.stopPropagation();
       onToggleSave();
@@ -122,7 +134,7 @@ export const RouteCard = React.memo<RouteCardProps>(
           onPressOut={handlePressOut}
           activeOpacity={0.9}
           accessibilityRole="button"
-          accessibilityLabel={`Route: ${title}, ${distance}, ${duration}`}
+          accessibilityLabel={`Route: ${title}, ${distance}, ${duration}${alert ? `, safety alert: ${alert.title}` : ''}`}
           testID={testID}
           style={[
             styles.card,
@@ -163,6 +175,16 @@ export const RouteCard = React.memo<RouteCardProps>(
               <Text style={[styles.stat, { color: colors.textSecondary }]}>⏱️ {duration}</Text>
             </View>
 
+            {/* Safety Alert */}
+            {alert && (
+              <View style={[styles.alert, { backgroundColor: `${alertColor}20` }]}>
+                <Text style={styles.alertIcon}>⚠️</Text>
+                <Text style={[styles.alertText, { color: alertColor }]} numberOfLines={1}>
+                  {alert.title}
+                </Text>
+              </View>
+            )}
+
             {/* Tags */}
             {tags.length > 0 && (
               <ScrollView
@@ -250,6 +272,23 @@ const styles = StyleSheet.create({
   statDivider: {
     marginHorizontal: 8,
   },
+  alert: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  alertIcon: {
+    fontSize: 14,
+    marginRight: 6,
+  },
+  alertText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
   tagsContainer: {
     marginTop: 4,
   },
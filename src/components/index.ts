@@ -26,6 +26,11 @@ export { Loader, Skeleton } from './loaders/Loader';
 export { Avatar } from './Avatar';
 export { SearchBar } from './SearchBar';
 export { BottomSheet } from './BottomSheet';
+export { NotificationHost } from './NotificationHost';
+export { LocationShareBanner } from './LocationShareBanner';
+export { SyncBadge } from './SyncBadge';
+export { ElevationProfileChart } from './ElevationProfileChart';
+export { WalkActivityChart } from './WalkActivityChart';
 
 // Form Components
 export { ThemedTextInput } from './TextInput';
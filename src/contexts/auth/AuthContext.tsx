@@ -1,19 +1,51 @@
 /**
- * @fileoverview Auth Context - Authentication state management with mock sign-in flows
- * @purpose Provides authentication state, user management, and mock social login methods
+ * @fileoverview Auth Context - Authentication state management
+ * @purpose Provides authentication state, user management, and sign-in/sign-up methods
  * @inputs Sign-in credentials, user data, authentication tokens
  * @outputs Auth state, user object, sign-in/sign-out methods
  *
- * TODO: Replace mock authentication with expo-auth-session flows
- * TODO: Connect to Django REST API authentication endpoints (/auth/login, /auth/register)
- * TODO: Implement secure token storage using expo-secure-store
+ * Email sign-in and sign-up go through authService (GraphQL Login/Register).
+ * Tokens are persisted with an absolute expiry via tokenStorage, which keeps
+ * them in the device keychain (see secureTokenStore.ts), and on
+ * launch the session is restored by calling getCurrentUser(), which refreshes
+ * an expired access token through apiService. Failures are thrown as
+ * AuthError so screens can show field-level messages.
+ *
+ * Account data (the offline outbox, SOS log, walk history, recording,
+ * check-in and alert dismissals) is discarded on an explicit sign-out. When
+ * the session ends on its own (refresh token rejected, password changed) it is
+ * kept for the same account's next sign-in, together with the cached profile
+ * (city, interests, preferences), and the outbox is flushed then; a different
+ * account signing in discards it.
+ *
+ * Mock mode (demo accounts, no backend) is available in development builds
+ * with EXPO_PUBLIC_USE_MOCK_AUTH=true.
+ *
+ * TODO: Replace social sign-in with expo-auth-session / expo-apple-authentication flows
  * TODO: Add biometric authentication support
  */
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_KEYS } from '../../utils/constants';
 import * as authService from '../../services/authService';
+import { onSessionExpired } from '../../services/apiService';
+import { readStoredTokens, storeTokens, clearStoredTokens } from '../../services/tokenStorage';
+import { clearOutbox, flushOutbox } from '../../services/offlineQueue';
+import { clearRecording } from '../../services/routeRecorder';
+import { clearCompletions } from '../../services/completionHistory';
+import { clearSosEvents } from '../../services/sosService';
+import { stopSharing } from '../../services/locationSharing';
+import { clearCheckIn } from '../../services/checkInService';
+import { clearDismissedAlerts } from '../../services/alertDismissals';
+import type { UnitSystem } from '../../types';
 
 // User object structure as specified
 export interface User {
@@ -26,6 +58,151 @@ export interface User {
   // Optional emergency contact numbers
   primaryContact?: string;
   secondaryContact?: string;
+  // Display preferences; metric units and the device language when unset
+  preferences?: { units: UnitSystem; language?: string };
+}
+
+/**
+ * Sign in with demo accounts instead of the backend (development builds only)
+ */
+export const USE_MOCK_AUTH = __DEV__ && process.env.EXPO_PUBLIC_USE_MOCK_AUTH === 'true';
+
+export const DEMO_CREDENTIALS = {
+  email: 'demo@waytrove.com',
+  password: 'demo123',
+} as const;
+
+// Map the auth endpoint user onto the app's user shape, keeping the
+// app-only fields (city, interests, preferences) from the same account's
+// cached profile
+const toAppUser = (sessionUser: authService.AuthSessionUser, cached?: User | null): User => {
+  const profile = cached?.id === sessionUser.id ? cached : undefined;
+  return {
+    ...profile,
+    id: sessionUser.id,
+    name: sessionUser.fullName || sessionUser.username,
+    email: sessionUser.email,
+    avatarUrl: sessionUser.avatar ?? profile?.avatarUrl,
+    interests: profile?.interests ?? [],
+    primaryContact: sessionUser.primaryContact,
+    secondaryContact: sessionUser.secondaryContact,
+  };
+};
+
+const readStoredProfile = async (): Promise<User | null> => {
+  const storedProfile = await AsyncStorage.getItem(STORAGE_KEYS.USER_PROFILE);
+  if (!storedProfile) return null;
+  try {
+    return JSON.parse(storedProfile) as User;
+  } catch {
+    return null;
+  }
+};
+
+// Mock user data generator
+const getMockUser = (type: 'google' | 'apple' | 'email' | 'returning' = 'email'): User => {
+  const mockUsers = {
+    google: {
+      id: 'google_123456',
+      name: 'Aniket Singh',
+      email: 'aniket.singh@gmail.com',
+      avatarUrl: 'https://lh3.googleusercontent.com/a/default-user',
+      city: 'New York',
+      interests: ['hiking', 'photography', 'travel', 'food'],
+      primaryContact: '+1 (555) 123-4567',
+      secondaryContact: '+1 (555) 987-6543',
+    },
+    apple: {
+      id: 'apple_789012',
+      name: 'Rishik Gannavarapu',
+      email: 'rishik.g@icloud.com',
+      avatarUrl: undefined, // Apple often doesn't provide avatar
+      city: 'New York',
+      interests: ['architecture', 'art', 'cycling', 'coffee'],
+      primaryContact: '+1 (555) 123-4567',
+      secondaryContact: '+1 (555) 987-6543',
+    },
+    email: {
+      id: 'email_345678',
+      name: 'Rishik Kolli',
+      email: 'rishik.kolli@example.com',
+      avatarUrl: undefined,
+      city: 'New York',
+      interests: ['music', 'outdoor', 'tech', 'adventure'],
+      primaryContact: '+1 (555) 123-4567',
+      secondaryContact: '+1 (555) 987-6543',
+    },
+    returning: {
+      id: 'user_999999',
+      name: 'Abhinav Sivakumar',
+      email: 'taylor.smith@example.com',
+      avatarUrl: 'https://ui-avatars.com/api/?name=Taylor+Smith&background=6C63FF&color=fff',
+      city: 'New York',
+      interests: ['nature', 'backpacking', 'sustainable travel', 'local culture'],
+      primaryContact: '+1 (555) 123-4567',
+      secondaryContact: '+1 (555) 987-6543',
+    },
+  };
+
+  return mockUsers[type];
+};
+
+/**
+ * Validate stored tokens against the backend and load the current user
+ *
+ * The cached profile is kept when the backend cannot be reached, so the
+ * app opens offline; only a rejected session (401) signs the user out.
+ */
+async function restoreSession(): Promise<User | null> {
+  const cached = await readStoredProfile();
+
+  if (USE_MOCK_AUTH) {
+    const authFlag = await AsyncStorage.getItem(STORAGE_KEYS.AUTH);
+    return authFlag ? (cached ?? getMockUser('returning')) : null;
+  }
+
+  const tokens = await readStoredTokens().catch(() => null);
+  if (!tokens) return null;
+
+  try {
+    const restored = toAppUser(await authService.getCurrentUser(), cached);
+    await AsyncStorage.setItem(STORAGE_KEYS.USER_PROFILE, JSON.stringify(restored));
+    return restored;
+  } catch (error) {
+    if (authService.toAuthError(error).statusCode !== 401 && cached) return cached;
+    await clearLocalSession(true);
+    return null;
+  }
+}
+
+// Queued likes/saves and SOS reports, an unfinished recording, walk history,
+// SOS events, the check-in timer and dismissed alerts belong to the account
+async function clearAccountData(): Promise<void> {
+  await clearOutbox();
+  await clearRecording();
+  await clearCompletions();
+  await clearSosEvents();
+  await clearCheckIn();
+  await clearDismissedAlerts();
+  await AsyncStorage.removeItem(STORAGE_KEYS.RETAINED_ACCOUNT);
+}
+
+async function clearLocalSession(keepAccountData = false): Promise<void> {
+  // Stop a live location share and the check-in timer while the tokens can
+  // still end them on the server; a kept check-in stays registered there
+  await stopSharing();
+  if (!keepAccountData) await clearCheckIn();
+  await AsyncStorage.removeItem(STORAGE_KEYS.AUTH);
+  await clearStoredTokens();
+
+  // The stored profile says whose data is kept; without one it cannot be handed back
+  const profile = keepAccountData ? await readStoredProfile() : null;
+  if (profile) {
+    await AsyncStorage.setItem(STORAGE_KEYS.RETAINED_ACCOUNT, profile.id);
+  } else {
+    await clearAccountData();
+    await AsyncStorage.removeItem(STORAGE_KEYS.USER_PROFILE);
+  }
 }
 
 // Sign-in method types
@@ -51,6 +228,15 @@ export interface SignUpPayload {
   interests?: string[];
 }
 
+export interface SignOutOptions {
+  /**
+   * Keep the account's unsent and local data for its next sign-in
+   * (session expiry, password change) instead of discarding it
+   * @default false
+   */
+  keepAccountData?: boolean;
+}
+
 // Auth context interface
 interface AuthContextType {
   // User state
@@ -60,13 +246,13 @@ interface AuthContextType {
   // Update profile helper (merge patch into user)
   updateProfile: (patch: Partial<User>) => Promise<void>;
 
-  // Authentication methods
-  signInMock: (
+  // Authentication methods (reject with authService.AuthError)
+  signIn: (
     method: SignInMethod,
     payload: EmailSignInPayload | SocialSignInPayload
   ) => Promise<void>;
-  signUpMock: (payload: SignUpPayload) => Promise<void>;
-  signOut: () => Promise<void>;
+  signUp: (payload: SignUpPayload) => Promise<void>;
+  signOut: (options?: SignOutOptions) => Promise<void>;
 
   // Onboarding state
   hasSeenOnboarding: boolean;
@@ -89,29 +275,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
 
-  // Initialize auth state from AsyncStorage
+  // Restore the previous session on launch
   useEffect(() => {
     const initializeAuth = async () => {
       try {
-        // Check authentication status
-        const authData = await AsyncStorage.getItem(STORAGE_KEYS.AUTH);
-        if (authData) {
-          // User is logged in, but we only store the flag
-          // Try to load persisted user profile if present
-          const storedProfile = await AsyncStorage.getItem(STORAGE_KEYS.USER_PROFILE);
-          if (storedProfile) {
-            try {
-              const parsed = JSON.parse(storedProfile) as User;
-              setUser(parsed);
-            } catch (err) {
-              // If parsing fails, fall back to mock
-              setUser(getMockUser('returning'));
-            }
-          } else {
-            // No persisted profile; use mock returning user
-            setUser(getMockUser('returning'));
-          }
-        }
+        setUser(await restoreSession());
 
         // Check onboarding status
         const onboardingData = await AsyncStorage.getItem(STORAGE_KEYS.HAS_SEEN_ONBOARDING);
@@ -126,320 +294,181 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initializeAuth();
   }, []);
 
-  // Mock user data generator
-  const getMockUser = (type: 'google' | 'apple' | 'email' | 'returning' = 'email'): User => {
-    const mockUsers = {
-      google: {
-        id: 'google_123456',
-        name: 'Aniket Singh',
-        email: 'aniket.singh@gmail.com',
-        avatarUrl: 'https://lh3.googleusercontent.com/a/default-user',
-        city: 'New York',
-        interests: ['hiking', 'photography', 'travel', 'food'],
-        primaryContact: '+1 (555) 123-4567',
-        secondaryContact: '+1 (555) 987-6543',
-      },
-      apple: {
-        id: 'apple_789012',
-        name: 'Rishik Gannavarapu',
-        email: 'rishik.g@icloud.com',
-        avatarUrl: undefined, // Apple often doesn't provide avatar
-        city: 'New York',
-        interests: ['architecture', 'art', 'cycling', 'coffee'],
-        primaryContact: '+1 (555) 123-4567',
-        secondaryContact: '+1 (555) 987-6543',
-      },
-      email: {
-        id: 'email_345678',
-        name: 'Rishik Kolli',
-        email: 'rishik.kolli@example.com',
-        avatarUrl: undefined,
-        city: 'New York',
-        interests: ['music', 'outdoor', 'tech', 'adventure'],
-        primaryContact: '+1 (555) 123-4567',
-        secondaryContact: '+1 (555) 987-6543',
-      },
-      returning: {
-        id: 'user_999999',
-        name: 'Abhinav Sivakumar',
-        email: 'taylor.smith@example.com',
-        avatarUrl: 'https://ui-avatars.com/api/?name=Taylor+Smith&background=6C63FF&color=fff',
-        city: 'New York',
-        interests: ['nature', 'backpacking', 'sustainable travel', 'local culture'],
-        primaryContact: '+1 (555) 123-4567',
-        secondaryContact: '+1 (555) 987-6543',
-      },
-    };
+  // Sign out method
+  const signOut = useCallback(
+    async ({ keepAccountData = false }: SignOutOptions = {}): Promise<void> => {
+      try {
+        // TODO: Replace with actual sign-out flow:
+        // - POST to Django endpoint: /auth/logout
+        // - Invalidate refresh tokens on server
 
-    return mockUsers[type];
+        // Clear user from memory, then tokens, account data and profile
+        setUser(null);
+        await clearLocalSession(keepAccountData);
+      } catch (error) {
+        console.error('Sign-out failed:', error);
+        throw error;
+      }
+    },
+    []
+  );
+
+  // apiService reports a rejected refresh token; drop the session but keep
+  // queued SOS reports, walks and other unsent data for the next sign-in
+  useEffect(() => {
+    return onSessionExpired(() => {
+      signOut({ keepAccountData: true }).catch(error => {
+        if (__DEV__) console.warn('Failed to sign out after session expiry:', error);
+      });
+    });
+  }, [signOut]);
+
+  // Persist a signed-in user (tokens are stored by the caller)
+  const startSession = async (nextUser: User): Promise<void> => {
+    // Data kept from an expired session is sent now, or dropped if it is someone else's
+    const retainedAccountId = await AsyncStorage.getItem(STORAGE_KEYS.RETAINED_ACCOUNT);
+    if (retainedAccountId === nextUser.id) {
+      await AsyncStorage.removeItem(STORAGE_KEYS.RETAINED_ACCOUNT);
+      void flushOutbox();
+    } else if (retainedAccountId) {
+      await clearAccountData();
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEYS.AUTH, 'true');
+    await AsyncStorage.setItem(STORAGE_KEYS.USER_PROFILE, JSON.stringify(nextUser));
+    setUser(nextUser);
   };
 
-  // Mock sign-in method
-  const signInMock = async (
+  // Demo sign-in used when USE_MOCK_AUTH is set
+  const mockSignIn = async (
+    method: SignInMethod,
+    payload: EmailSignInPayload | SocialSignInPayload
+  ): Promise<User> => {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    if (method !== 'email') return getMockUser(method);
+
+    const emailPayload = payload as EmailSignInPayload;
+    if (
+      emailPayload.email !== DEMO_CREDENTIALS.email ||
+      emailPayload.password !== DEMO_CREDENTIALS.password
+    ) {
+      throw new authService.AuthError({
+        password: `Invalid credentials. Use ${DEMO_CREDENTIALS.email} / ${DEMO_CREDENTIALS.password}`,
+      });
+    }
+    return getMockUser('email');
+  };
+
+  // Sign in with email/password (social providers are mock-only for now)
+  const signIn = async (
     method: SignInMethod,
     payload: EmailSignInPayload | SocialSignInPayload
   ): Promise<void> => {
     setIsAuthenticating(true);
 
     try {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // TODO: Replace with actual authentication flows:
-      //
-      // For Google Sign-In:
-      // - Use expo-auth-session with Google OAuth2
-      // - POST to Django endpoint: /auth/google-signin
-      // - Expected response: { user: User, accessToken: string, refreshToken: string }
-      //
-      // For Apple Sign-In:
-      // - Use expo-apple-authentication
-      // - POST to Django endpoint: /auth/apple-signin
-      // - Expected response: { user: User, accessToken: string, refreshToken: string }
-      //
-      // For Email Sign-In:
-      // - POST to Django endpoint: /auth/login
-      // - Payload: { email: string, password: string }
-      // - Expected response: { user: User, accessToken: string, refreshToken: string }
-
       if (method === 'email') {
-        const emailPayload = payload as EmailSignInPayload;
-        if (!emailPayload.email || !emailPayload.password) {
-          throw new Error('Email and password are required');
-        }
-
-        // Try backend login if authService.login implemented
-        if (authService.login && typeof authService.login === 'function') {
-          const resp = await authService.login(emailPayload.email, emailPayload.password);
-
-          // Normalize token shapes and persist consistently
-          try {
-            const anyResp = resp as any;
-
-            // Priority: resp.tokens OR resp.access_token/refresh_token OR resp.accessToken/refreshToken
-            let normalizedTokens: {
-              accessToken?: string;
-              refreshToken?: string;
-              expiresIn?: number;
-            } | null = null;
-
-            if (anyResp?.tokens) {
-              const t = anyResp.tokens;
-              normalizedTokens = {
-                accessToken: t.accessToken ?? t.access_token,
-                refreshToken: t.refreshToken ?? t.refresh_token,
-                expiresIn: t.expiresIn ?? t.expires_in,
-              };
-            } else if (anyResp?.access_token || anyResp?.refresh_token || anyResp?.accessToken) {
-              normalizedTokens = {
-                accessToken: anyResp.access_token ?? anyResp.accessToken,
-                refreshToken: anyResp.refresh_token ?? anyResp.refreshToken,
-              };
-            } else if (anyResp?.data) {
-              // GraphQL envelope shapes: { data: { login: { user, access_token } } } or { data: { login: { tokens: {...} } } }
-              const candidate = anyResp.data?.login ?? anyResp.data;
-              if (candidate?.tokens) {
-                const t = candidate.tokens;
-                normalizedTokens = {
-                  accessToken: t.accessToken ?? t.access_token,
-                  refreshToken: t.refreshToken ?? t.refresh_token,
-                  expiresIn: t.expiresIn ?? t.expires_in,
-                };
-              } else if (candidate?.access_token || candidate?.accessToken) {
-                normalizedTokens = {
-                  accessToken: candidate.access_token ?? candidate.accessToken,
-                  refreshToken: candidate.refresh_token ?? candidate.refreshToken,
-                };
-              }
-            }
-
-            if (
-              normalizedTokens &&
-              (normalizedTokens.accessToken || normalizedTokens.refreshToken)
-            ) {
-              await AsyncStorage.setItem(
-                STORAGE_KEYS.AUTH_TOKENS,
-                JSON.stringify(normalizedTokens)
-              );
-            }
-
-            // user object may be at resp.user or resp.data.login.user
-            const userObj = (anyResp?.user ?? anyResp?.data?.login?.user ?? anyResp?.data?.user) as
-              | User
-              | undefined;
-            if (userObj) setUser(userObj as User);
-          } catch (e) {
-            if (__DEV__) console.warn('Failed to normalize login response', e);
-          }
-
-          // Persist auth flag
-          await AsyncStorage.setItem(STORAGE_KEYS.AUTH, 'true');
-          setIsAuthenticating(false);
-          return;
-        }
-
-        // Fall back to demo credentials for local testing
-        const DEMO_CREDENTIALS = {
-          email: 'demo@waytrove.com',
-          password: 'demo123',
-        };
-
-        if (
-          emailPayload.email !== DEMO_CREDENTIALS.email ||
-          emailPayload.password !== DEMO_CREDENTIALS.password
-        ) {
-          throw new Error('Invalid credentials. Use demo@waytrove.com / demo123');
+        const { email, password } = payload as EmailSignInPayload;
+        if (!email || !password) {
+          throw new authService.AuthError({
+            email: email ? undefined : 'Email is required',
+            password: password ? undefined : 'Password is required',
+          });
         }
+      }
 
-        const mockUser = getMockUser('email');
-        setUser(mockUser);
+      if (USE_MOCK_AUTH) {
+        await startSession(await mockSignIn(method, payload));
+        return;
+      }
 
-        // Persist auth flag (not user data for security)
-        await AsyncStorage.setItem(STORAGE_KEYS.AUTH, 'true');
-      } else {
-        // Social and other flows: still mock for now
-        const mockUser = getMockUser(method);
-        setUser(mockUser);
-        await AsyncStorage.setItem(STORAGE_KEYS.AUTH, 'true');
+      if (method !== 'email') {
+        const provider = method === 'google' ? 'Google' : 'Apple';
+        throw new authService.AuthError({ form: `${provider} sign-in is not available yet.` });
       }
 
-      console.log(`Mock ${method} sign-in successful`);
+      const { email, password } = payload as EmailSignInPayload;
+      const session = await authService.login(email.trim(), password);
+      await storeTokens(session.tokens);
+      await startSession(toAppUser(session.user, await readStoredProfile()));
     } catch (error) {
-      console.error('Sign-in failed:', error);
-      throw error;
+      throw authService.toAuthError(error);
     } finally {
       setIsAuthenticating(false);
     }
   };
 
-  // Mock sign-up method
-  const signUpMock = async (payload: SignUpPayload): Promise<void> => {
+  // Create an account and sign in
+  const signUp = async (payload: SignUpPayload): Promise<void> => {
     setIsAuthenticating(true);
 
     try {
-      // Try backend register if available
-      if (authService.register && typeof authService.register === 'function') {
-        const resp = await authService.register(payload.email, payload.password, '', payload.name);
-        try {
-          const anyResp = resp as any;
-          let normalizedTokens: {
-            accessToken?: string;
-            refreshToken?: string;
-            expiresIn?: number;
-          } | null = null;
-
-          if (anyResp?.tokens) {
-            const t = anyResp.tokens;
-            normalizedTokens = {
-              accessToken: t.accessToken ?? t.access_token,
-              refreshToken: t.refreshToken ?? t.refresh_token,
-              expiresIn: t.expiresIn ?? t.expires_in,
-            };
-          } else if (anyResp?.access_token || anyResp?.accessToken) {
-            normalizedTokens = {
-              accessToken: anyResp.access_token ?? anyResp.accessToken,
-              refreshToken: anyResp.access_token ?? anyResp.refreshToken,
-            };
-          } else if (anyResp?.data) {
-            const candidate = anyResp.data?.register ?? anyResp.data;
-            if (candidate?.tokens) {
-              const t = candidate.tokens;
-              normalizedTokens = {
-                accessToken: t.accessToken ?? t.access_token,
-                refreshToken: t.refreshToken ?? t.refresh_token,
-                expiresIn: t.expiresIn ?? t.expires_in,
-              };
-            } else if (candidate?.access_token || candidate?.accessToken) {
-              normalizedTokens = {
-                accessToken: candidate.access_token ?? candidate.accessToken,
-                refreshToken: candidate.refresh_token ?? candidate.refreshToken,
-              };
-            }
-          }
-
-          if (normalizedTokens && (normalizedTokens.accessToken || normalizedTokens.refreshToken)) {
-            await AsyncStorage.setItem(STORAGE_KEYS.AUTH_TOKENS, JSON.stringify(normalizedTokens));
-          }
-
-          const userObj = (anyResp?.user ??
-            anyResp?.data?.register?.user ??
-            anyResp?.data?.user) as User | undefined;
-          if (userObj) setUser(userObj as User);
-        } catch (e) {
-          if (__DEV__) console.warn('Failed to normalize register response', e);
-        }
-
-        await AsyncStorage.setItem(STORAGE_KEYS.AUTH, 'true');
-        setIsAuthenticating(false);
-        return;
+      if (!payload.name || !payload.email || !payload.password) {
+        throw new authService.AuthError({ form: 'Name, email, and password are required' });
       }
 
-      // Fallback mock
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      if (!payload.name || !payload.email || !payload.password) {
-        throw new Error('Name, email, and password are required');
+      if (USE_MOCK_AUTH) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        await startSession({
+          id: `signup_${Date.now()}`,
+          name: payload.name,
+          email: payload.email,
+          avatarUrl: `https://ui-avatars.com/api/?name=${encodeURIComponent(payload.name)}&background=6C63FF&color=fff`,
+          city: payload.city,
+          interests: payload.interests ?? [],
+        });
+        return;
       }
 
-      const newUser: User = {
-        id: `signup_${Date.now()}`,
-        name: payload.name,
-        email: payload.email,
-        avatarUrl: `https://ui-avatars.com/api/?name=${encodeURIComponent(payload.name)}&background=6C63FF&color=fff`,
+      // An empty username lets the backend derive one from the email
+      const session = await authService.register(
+        payload.email.trim(),
+        payload.password,
+        '',
+        payload.name.trim()
+      );
+      await storeTokens(session.tokens);
+      await startSession({
+        ...toAppUser(session.user),
         city: payload.city,
-        interests: payload.interests || [],
-      };
-
-      setUser(newUser);
-      await AsyncStorage.setItem(STORAGE_KEYS.AUTH, 'true');
-      console.log('Mock sign-up successful for:', newUser.name);
+        interests: payload.interests ?? [],
+      });
     } catch (error) {
-      console.error('Sign-up failed:', error);
-      throw error;
+      throw authService.toAuthError(error);
     } finally {
       setIsAuthenticating(false);
     }
   };
 
-  // Sign out method
-  const signOut = async (): Promise<void> => {
-    try {
-      // TODO: Replace with actual sign-out flow:
-      // - POST to Django endpoint: /auth/logout
-      // - Clear stored tokens from secure storage
-      // - Invalidate refresh tokens on server
-
-      // Clear auth flag
-      await AsyncStorage.removeItem(STORAGE_KEYS.AUTH);
-
-      // Clear user from memory
-      setUser(null);
-      // Remove persisted user profile
-      await AsyncStorage.removeItem(STORAGE_KEYS.USER_PROFILE);
-
-      console.log('User signed out successfully');
-    } catch (error) {
-      console.error('Sign-out failed:', error);
-      throw error;
-    }
-  };
-
-  // Update profile (merge patch into current user and persist minimal fields if needed)
+  // Update profile: the avatar and emergency contacts are saved to the backend
+  // first, then the patch is merged into the current user and cached
   const updateProfile = async (patch: Partial<User>): Promise<void> => {
     try {
+      let saved: Partial<User> = {};
+      const { avatarUrl, primaryContact, secondaryContact } = patch;
+      if (!USE_MOCK_AUTH && (avatarUrl ?? primaryContact ?? secondaryContact) !== undefined) {
+        const sessionUser = await authService.updateProfile({
+          avatarUrl,
+          primaryContact,
+          secondaryContact,
+        });
+        saved = {
+          avatarUrl: sessionUser.avatar,
+          primaryContact: sessionUser.primaryContact,
+          secondaryContact: sessionUser.secondaryContact,
+        };
+      }
+
       setUser(prev => {
         if (!prev) return prev;
-        const updated = { ...prev, ...patch } as User;
-        // Persist updated profile to AsyncStorage for demo persistence
+        const updated: User = { ...prev, ...patch, ...saved };
         AsyncStorage.setItem(STORAGE_KEYS.USER_PROFILE, JSON.stringify(updated)).catch(e => {
           console.warn('Failed to persist user profile:', e);
         });
         return updated;
       });
-
-      // In the mock implementation we only persist the auth flag. If you want
-      // to persist user profile to AsyncStorage temporarily for demo purposes,
-      // uncomment the following lines.
-      // await AsyncStorage.setItem(STORAGE_KEYS.USER_PROFILE, JSON.stringify({ ...user, ...patch }));
     } catch (error) {
       console.error('Failed to update profile:', error);
       throw error;
@@ -460,8 +489,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const value: AuthContextType = {
     user,
     isLoggedIn: !!user,
-    signInMock,
-    signUpMock,
+    signIn,
+    signUp,
     signOut,
     updateProfile,
     hasSeenOnboarding,
@@ -21,5 +21,8 @@ export type { Theme } from './theme/ThemeContext';
 export type { ThemeTokens, TokenName } from './theme/tokens';
 export { lightTokens, darkTokens, getMapStyleName } from './theme/tokens';
 
+// Notification Context exports
+export { NotificationProvider, useNotifications } from './notifications/NotificationContext';
+
 // Placeholder exports - will be populated as contexts are implemented
 // export { AuthProvider, useAuth } from './AuthContext';
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Notification Context - App-wide toast notifications
+ * @purpose Connects the notificationService store to React and renders NotificationHost
+ * @inputs Notifications pushed via notify() from services or useNotifications() in screens
+ * @outputs Visible notification list, notify/dismiss helpers
+ *
+ * Must be rendered inside ThemeProvider (NotificationHost uses theme colors).
+ */
+
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { NotificationHost } from '../../components/NotificationHost';
+import {
+  notify,
+  dismissNotification,
+  clearNotifications,
+  getNotifications,
+  subscribeToNotifications,
+} from '../../services/notificationService';
+import type { AppNotification, NotificationInput } from '../../services/notificationService';
+
+interface NotificationContextType {
+  notifications: AppNotification[];
+  notify: (input: NotificationInput) => string | null;
+  dismiss: (id: string) => void;
+  clearAll: () => void;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+export function NotificationProvider({ children }: NotificationProviderProps) {
+  const [notifications, setNotifications] = useState<AppNotification[]>(getNotifications);
+
+  useEffect(() => subscribeToNotifications(setNotifications), []);
+
+  const dismiss = (id: string) => dismissNotification(id);
+
+  const value: NotificationContextType = {
+    notifications,
+    notify,
+    dismiss,
+    clearAll: clearNotifications,
+  };
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {children}
+      <NotificationHost notifications={notifications} onDismiss={dismiss} />
+    </NotificationContext.Provider>
+  );
+}
+
+// Hook to use notification context
+export function useNotifications(): NotificationContextType {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
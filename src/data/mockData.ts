@@ -1,6 +1,10 @@
+import type { SafetyAlert } from '../types';
+
 /**
  * Mock Data - Featured Routes
  * Sample data for home screen featured routes carousel
+ *
+ * @deprecated Screens load Route from routesService; convert with fromFeaturedRoute()
  */
 
 export interface FeaturedRoute {
@@ -69,6 +73,8 @@ export const FEATURED_ROUTES: FeaturedRoute[] = [
 
 /**
  * Mock Data - Explore Items
+ *
+ * @deprecated Screens load Route from routesService; convert with fromExploreItem()
  */
 export interface ExploreItem {
   id: string;
@@ -133,49 +139,112 @@ export const EXPLORE_ITEMS: ExploreItem[] = [
 
 /**
  * Mock Data - Safety Alerts
+ * Geofenced alerts around the San Francisco sample routes, matched to
+ * positions and routes by utils/safetyAlerts.ts
  */
-export interface SafetyAlert {
-  id: string;
-  type: 'crowd' | 'accident' | 'closure' | 'weather' | 'crime';
-  lat: number;
-  lng: number;
-  severity: 1 | 2 | 3 | 4 | 5; // 1 = low, 5 = critical
-  timestamp: string;
-  detailText: string;
-  location: string;
-}
+const HOUR_MS = 3600000;
 
 export const SAFETY_ALERTS: SafetyAlert[] = [
   {
     id: 'alert-1',
-    type: 'crowd',
-    lat: 40.7580,
-    lng: -73.9855,
-    severity: 2,
-    timestamp: new Date().toISOString(),
-    detailText: 'Heavy pedestrian traffic near Times Square. Exercise caution.',
-    location: 'Times Square',
+    title: 'Phone Snatching Reported',
+    description: 'Several phone thefts reported near 24th St BART. Keep valuables out of sight.',
+    severity: 'warning',
+    type: 'security',
+    location: {
+      name: 'Mission District',
+      coordinates: { latitude: 37.759, longitude: -122.413 },
+      radius: 0.3,
+      country: 'US',
+      regions: ['California'],
+    },
+    validFrom: new Date(Date.now() - 2 * HOUR_MS).toISOString(),
+    validUntil: new Date(Date.now() + 22 * HOUR_MS).toISOString(),
+    source: { name: 'SFPD' },
+    recommendations: ['Stay on busy streets', 'Keep your phone in an inside pocket'],
+    isActive: true,
+    createdAt: new Date(Date.now() - 2 * HOUR_MS).toISOString(),
+    updatedAt: new Date(Date.now() - 2 * HOUR_MS).toISOString(),
   },
   {
     id: 'alert-2',
-    type: 'closure',
-    lat: 40.7614,
-    lng: -73.9776,
-    severity: 3,
-    timestamp: new Date(Date.now() - 3600000).toISOString(),
-    detailText:
-      'Street closure for construction on 5th Avenue. Find alternative route.',
-    location: '5th Avenue',
+    title: 'Phone Snatching Reported',
+    description: 'Community reports of phone thefts around Mission St and 24th St.',
+    severity: 'info',
+    type: 'security',
+    location: {
+      name: 'Mission District',
+      coordinates: { latitude: 37.7592, longitude: -122.4133 },
+      radius: 0.2,
+      country: 'US',
+    },
+    validFrom: new Date(Date.now() - 3 * HOUR_MS).toISOString(),
+    source: { name: 'Neighborhood Watch' },
+    recommendations: ['Stay aware of your surroundings'],
+    isActive: true,
+    createdAt: new Date(Date.now() - 3 * HOUR_MS).toISOString(),
+    updatedAt: new Date(Date.now() - 3 * HOUR_MS).toISOString(),
   },
   {
     id: 'alert-3',
+    title: 'High Winds on the Bridge',
+    description: 'Gusts up to 45 mph expected on and around the Golden Gate Bridge this afternoon.',
+    severity: 'danger',
     type: 'weather',
-    lat: 40.7061,
-    lng: -74.0087,
-    severity: 2,
-    timestamp: new Date(Date.now() - 7200000).toISOString(),
-    detailText: 'Strong winds near Brooklyn Bridge. Exercise caution.',
-    location: 'Brooklyn Bridge',
+    location: {
+      name: 'Golden Gate Bridge',
+      coordinates: { latitude: 37.8199, longitude: -122.4783 },
+      radius: 1.5,
+      country: 'US',
+    },
+    validFrom: new Date(Date.now() - HOUR_MS).toISOString(),
+    validUntil: new Date(Date.now() + 6 * HOUR_MS).toISOString(),
+    source: { name: 'National Weather Service', url: 'https://www.weather.gov/mtr/' },
+    recommendations: ['Avoid the bridge walkway', 'Secure loose items'],
+    isActive: true,
+    createdAt: new Date(Date.now() - HOUR_MS).toISOString(),
+    updatedAt: new Date(Date.now() - HOUR_MS).toISOString(),
+  },
+  {
+    id: 'alert-4',
+    title: 'Promenade Closure',
+    description: 'Part of the Embarcadero promenade is closed for a street event. Follow the detour signs.',
+    severity: 'info',
+    type: 'transportation',
+    location: {
+      name: 'Embarcadero',
+      coordinates: { latitude: 37.801, longitude: -122.399 },
+      radius: 0.2,
+      country: 'US',
+    },
+    validFrom: new Date(Date.now() - 30 * 60000).toISOString(),
+    validUntil: new Date(Date.now() + 8 * HOUR_MS).toISOString(),
+    source: { name: 'SF Public Works' },
+    recommendations: ['Use the detour along Davis St'],
+    affectedRoutes: ['route-5'],
+    isActive: true,
+    createdAt: new Date(Date.now() - 30 * 60000).toISOString(),
+    updatedAt: new Date(Date.now() - 30 * 60000).toISOString(),
+  },
+  {
+    id: 'alert-5',
+    title: 'Police Activity',
+    description: 'Police activity near Civic Center has ended.',
+    severity: 'warning',
+    type: 'security',
+    location: {
+      name: 'Civic Center',
+      coordinates: { latitude: 37.7793, longitude: -122.4193 },
+      radius: 0.3,
+      country: 'US',
+    },
+    validFrom: new Date(Date.now() - 6 * HOUR_MS).toISOString(),
+    validUntil: new Date(Date.now() - HOUR_MS).toISOString(),
+    source: { name: 'SFPD' },
+    recommendations: [],
+    isActive: true,
+    createdAt: new Date(Date.now() - 6 * HOUR_MS).toISOString(),
+    updatedAt: new Date(Date.now() - 6 * HOUR_MS).toISOString(),
   },
 ];
 
@@ -8,12 +8,33 @@
 export { useDebouncedValue } from './useDebouncedValue';
 export { useAsyncStorage } from './useAsyncStorage';
 export { useMockData } from './useMockData';
+export { useRoutes } from './useRoutes';
+export { useOfflineQueue } from './useOfflineQueue';
+export { useRouteNavigation } from './useRouteNavigation';
+export { useRouteRecording } from './useRouteRecording';
+export { useWalkStats } from './useWalkStats';
+export { useFormatter } from './useFormatter';
+export { useSos } from './useSos';
+export { useLocationShare } from './useLocationShare';
+export { useCheckIn } from './useCheckIn';
+export { useSafetyAlerts } from './useSafetyAlerts';
+export { useNeighborhoodSafety } from './useNeighborhoodSafety';
 export type { StorageKey, StorageValue } from './useAsyncStorage';
 export type {
   MockDataFile,
   UseMockDataOptions,
   UseMockDataReturn,
 } from './useMockData';
+export type { UseRoutesReturn } from './useRoutes';
+export type { UseOfflineQueueReturn } from './useOfflineQueue';
+export type { UseRouteNavigationOptions, UseRouteNavigationReturn } from './useRouteNavigation';
+export type { UseRouteRecordingOptions, UseRouteRecordingReturn } from './useRouteRecording';
+export type { UseWalkStatsReturn } from './useWalkStats';
+export type { UseSosReturn } from './useSos';
+export type { UseLocationShareReturn } from './useLocationShare';
+export type { CheckInOptions, UseCheckInReturn } from './useCheckIn';
+export type { UseSafetyAlertsOptions, UseSafetyAlertsReturn } from './useSafetyAlerts';
+export type { UseNeighborhoodSafetyReturn } from './useNeighborhoodSafety';
 
 // TODO: Implement useTheme hook for accessing and toggling app theme
 // TODO: Implement useAuth hook for authentication state and actions
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview useCheckIn Hook
+ * @purpose Drive the check-in timer (services/checkInService.ts) from a screen
+ *
+ * Follows the active check-in, refreshes the time left every REFRESH_MS and
+ * starts timers with the signed-in user's name and emergency contacts. The
+ * timer lives in the service, so reminders and escalation happen whichever
+ * screen is open.
+ *
+ * @example
+ * ```tsx
+ * const { checkIn, remainingMs, start, complete } = useCheckIn();
+ * await start({ expectedAt: Date.now() + 30 * 60000 });
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/auth/AuthContext';
+import {
+  completeCheckIn,
+  extendCheckIn,
+  startCheckIn,
+  subscribeToCheckIn,
+} from '../services/checkInService';
+import type { CheckIn, CheckInRequest } from '../services/checkInService';
+
+const REFRESH_MS = 15000;
+
+/**
+ * What a screen passes to start(); the user's details are added by the hook
+ */
+export type CheckInOptions = Omit<CheckInRequest, 'senderName' | 'contacts' | 'units'>;
+
+/**
+ * Hook return value
+ */
+export interface UseCheckInReturn {
+  /**
+   * Active check-in, null when no timer is running
+   */
+  checkIn: CheckIn | null;
+
+  /**
+   * Time until the expected arrival; negative once overdue (0 when idle)
+   */
+  remainingMs: number;
+
+  /**
+   * Start a timer
+   * @throws CheckInError while one is running, for a time in the past, or
+   * when the user has no emergency contact
+   */
+  start: (options: CheckInOptions) => Promise<void>;
+
+  /**
+   * Add time to the running timer
+   */
+  extend: (extraMs: number) => Promise<void>;
+
+  /**
+   * Check in: stop the timer without alerting anyone
+   */
+  complete: () => Promise<void>;
+}
+
+export function useCheckIn(): UseCheckInReturn {
+  const { user } = useAuth();
+  const [checkIn, setCheckIn] = useState<CheckIn | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => subscribeToCheckIn(setCheckIn), []);
+
+  const isActive = checkIn !== null;
+  useEffect(() => {
+    if (!isActive) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  const senderName = user?.name ?? 'A WayTrove user';
+  const primaryContact = user?.primaryContact;
+  const secondaryContact = user?.secondaryContact;
+  const units = user?.preferences?.units;
+  const start = useCallback(
+    async (options: CheckInOptions) => {
+      await startCheckIn({
+        ...options,
+        senderName,
+        contacts: [primaryContact, secondaryContact],
+        units,
+      });
+    },
+    [senderName, primaryContact, secondaryContact, units]
+  );
+
+  const extend = useCallback(async (extraMs: number) => {
+    await extendCheckIn(extraMs);
+  }, []);
+
+  return {
+    checkIn,
+    remainingMs: checkIn ? checkIn.expectedAt - now : 0,
+    start,
+    extend,
+    complete: completeCheckIn,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview useFormatter Hook
+ * @purpose Display formatting that follows the signed-in user's preferences
+ *
+ * Returns a Formatter (services/formatService.ts) for the user's
+ * preferences.units and preferences.language. Signed-out users, and users
+ * without preferences, get metric units in the device locale. The formatter
+ * only changes when the preferences do, so it is safe in dependency lists.
+ *
+ * @example
+ * ```tsx
+ * const format = useFormatter();
+ * <Text>{format.distance(route.distanceMeters)}</Text>
+ * <Text>{format.relativeTime(article.publishedAt)}</Text>
+ * ```
+ */
+
+import { useMemo } from 'react';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { createFormatter } from '../services/formatService';
+import type { Formatter } from '../services/formatService';
+
+export function useFormatter(): Formatter {
+  const { user } = useAuth();
+  const units = user?.preferences?.units;
+  const language = user?.preferences?.language;
+
+  return useMemo(() => createFormatter({ units, language }), [units, language]);
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview useLocationShare Hook
+ * @purpose Follow and control the live location share (services/locationSharing.ts)
+ *
+ * The share lives in the service, so it keeps running while the user moves
+ * between screens; every mounted hook sees the same share. The remaining
+ * time is refreshed every REFRESH_MS while a share is active.
+ *
+ * @example
+ * ```tsx
+ * const { share, remainingMs, start, stop } = useLocationShare();
+ * const started = await start({ mode: '15m' });
+ * ```
+ */
+
+import { useState, useEffect } from 'react';
+import { startSharing, stopSharing, subscribeToLocationShare } from '../services/locationSharing';
+import type { LocationShare, StartSharingOptions } from '../services/locationSharing';
+
+const REFRESH_MS = 15000;
+
+/**
+ * Hook return value
+ */
+export interface UseLocationShareReturn {
+  /**
+   * Active share, null when not sharing
+   */
+  share: LocationShare | null;
+
+  /**
+   * Time until the share expires (0 when not sharing)
+   */
+  remainingMs: number;
+
+  /**
+   * Start sharing
+   * @throws LocationShareError while already sharing
+   */
+  start: (options: StartSharingOptions) => Promise<LocationShare>;
+
+  stop: () => Promise<void>;
+}
+
+export function useLocationShare(): UseLocationShareReturn {
+  const [share, setShare] = useState<LocationShare | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => subscribeToLocationShare(setShare), []);
+
+  const isSharing = share !== null;
+  useEffect(() => {
+    if (!isSharing) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isSharing]);
+
+  const remainingMs = share ? Math.max(0, new Date(share.expiresAt).getTime() - now) : 0;
+
+  return { share, remainingMs, start: startSharing, stop: stopSharing };
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview useNeighborhoodSafety Hook
+ * @purpose Load the safety stats of the neighborhood around a position
+ *
+ * Reloads when the position moves by more than RELOAD_DISTANCE_METERS, so a
+ * stream of GPS fixes does not refetch the same neighborhood. Responses are
+ * cached by safetyService.
+ *
+ * @example
+ * ```tsx
+ * const { data, loading } = useNeighborhoodSafety(position);
+ * if (data) console.log(data.location.neighborhood, data.safetyScore);
+ * ```
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { toError } from '../services/apiService';
+import { fetchNeighborhoodSafety } from '../services/safetyService';
+import type { NeighborhoodSafety } from '../services/safetyService';
+import { haversineDistance } from '../utils/geo';
+import type { LatLng } from '../utils/geo';
+
+const RELOAD_DISTANCE_METERS = 250;
+
+/**
+ * Hook return value
+ */
+export interface UseNeighborhoodSafetyReturn {
+  /**
+   * Stats of the neighborhood, null until loaded or without a position
+   */
+  data: NeighborhoodSafety | null;
+
+  /**
+   * Whether the stats are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error from the most recent request, if any
+   */
+  error: Error | null;
+}
+
+export function useNeighborhoodSafety(position?: LatLng | null): UseNeighborhoodSafetyReturn {
+  const [data, setData] = useState<NeighborhoodSafety | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [center, setCenter] = useState<LatLng | null>(null);
+  const centerRef = useRef<LatLng | null>(null);
+
+  // Only a move past RELOAD_DISTANCE_METERS changes the point that is loaded
+  const lat = position?.lat;
+  const lng = position?.lng;
+  useEffect(() => {
+    if (lat === undefined || lng === undefined) return;
+    const previous = centerRef.current;
+    if (previous && haversineDistance(previous, { lat, lng }) < RELOAD_DISTANCE_METERS) return;
+    centerRef.current = { lat, lng };
+    setCenter({ lat, lng });
+  }, [lat, lng]);
+
+  useEffect(() => {
+    if (!center) return;
+    let isCurrent = true;
+    setLoading(true);
+    setError(null);
+    fetchNeighborhoodSafety(center.lat, center.lng)
+      .then(next => {
+        if (isCurrent) setData(next);
+      })
+      .catch(err => {
+        if (isCurrent) setError(toError(err, 'Failed to load neighborhood safety'));
+      })
+      .finally(() => {
+        if (isCurrent) setLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [center]);
+
+  return { data, loading, error };
+}
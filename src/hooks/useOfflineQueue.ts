@@ -0,0 +1,97 @@
+/**
+ * @fileoverview useOfflineQueue Hook
+ * @purpose Expose the offline mutation outbox and per-target sync status to screens
+ *
+ * Screens update their local state optimistically, call submit() and render a
+ * SyncBadge from statusFor(). Entries replay automatically; failed ones can be
+ * retried or discarded.
+ *
+ * @example
+ * ```tsx
+ * const { submit, statusFor, retryFailed } = useOfflineQueue();
+ *
+ * const handleLike = () => {
+ *   setIsLiked(!isLiked);
+ *   submit({ type: 'likeRoute', routeId, isLiked: !isLiked });
+ * };
+ *
+ * <SyncBadge status={statusFor(`route:${routeId}`)} onRetry={retryFailed} />
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  enqueueMutation,
+  retryFailedMutations,
+  discardMutation,
+  getOutboxEntries,
+  getTargetSyncStatus,
+  subscribeToOutbox,
+} from '../services/offlineQueue';
+import type { OutboxEntry, OutboxMutation, OutboxSyncStatus } from '../services/offlineQueue';
+
+/**
+ * Hook return value
+ */
+export interface UseOfflineQueueReturn {
+  /**
+   * Queued entries in replay order
+   */
+  entries: OutboxEntry[];
+
+  /**
+   * Number of entries waiting to be sent
+   */
+  pendingCount: number;
+
+  /**
+   * Number of entries the server rejected
+   */
+  failedCount: number;
+
+  /**
+   * Sync status for a target key such as "route:abc" or "news:42"
+   */
+  statusFor: (target: string) => OutboxSyncStatus;
+
+  /**
+   * Queue a mutation (apply the optimistic change before calling)
+   */
+  submit: (mutation: OutboxMutation) => Promise<void>;
+
+  /**
+   * Resend failed entries (one entry when id is given)
+   */
+  retryFailed: (id?: string) => Promise<void>;
+
+  /**
+   * Drop an entry without sending it
+   */
+  discard: (id: string) => Promise<void>;
+}
+
+/**
+ * Subscribe to the offline outbox
+ *
+ * @returns Outbox entries, counts, and submit/retry/discard handlers
+ */
+export function useOfflineQueue(): UseOfflineQueueReturn {
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutboxEntries);
+
+  useEffect(() => subscribeToOutbox(setEntries), []);
+
+  const statusFor = useCallback(
+    (target: string) => getTargetSyncStatus(entries, target),
+    [entries]
+  );
+
+  return {
+    entries,
+    pendingCount: entries.filter(entry => entry.status === 'pending').length,
+    failedCount: entries.filter(entry => entry.status === 'failed').length,
+    statusFor,
+    submit: enqueueMutation,
+    retryFailed: retryFailedMutations,
+    discard: discardMutation,
+  };
+}
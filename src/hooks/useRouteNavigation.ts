@@ -0,0 +1,147 @@
+/**
+ * @fileoverview useRouteNavigation Hook
+ * @purpose Run a navigation session for a route on a LocationProvider
+ *
+ * start() creates a fresh navigationEngine session and subscribes to the
+ * provider; progress updates on every accepted fix. The session stops by
+ * itself on arrival, on a provider error, and on unmount.
+ *
+ * Without an explicit provider the device GPS is used, or a simulated walk
+ * along the route when EXPO_PUBLIC_SIMULATE_LOCATION is enabled.
+ *
+ * @example
+ * ```tsx
+ * const { progress, isNavigating, start, stop } = useRouteNavigation(navigationRoute, {
+ *   onArrived: () => completeRoute(routeId),
+ * });
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { createNavigationEngine } from '../services/navigationEngine';
+import type {
+  NavigationEngineOptions,
+  NavigationProgress,
+  NavigationRoute,
+} from '../services/navigationEngine';
+import {
+  SIMULATE_LOCATION,
+  createDeviceLocationProvider,
+  createSimulatedLocationProvider,
+  fixesAlongPath,
+} from '../services/locationProvider';
+import type { LocationProvider } from '../services/locationProvider';
+
+export interface UseRouteNavigationOptions extends NavigationEngineOptions {
+  /**
+   * Source of fixes
+   * @default device GPS (simulated walk when EXPO_PUBLIC_SIMULATE_LOCATION=true)
+   */
+  provider?: LocationProvider;
+}
+
+/**
+ * Hook return value
+ */
+export interface UseRouteNavigationReturn {
+  /**
+   * Latest progress, null until the first fix of the session
+   */
+  progress: NavigationProgress | null;
+
+  /**
+   * Whether a session is running
+   */
+  isNavigating: boolean;
+
+  /**
+   * Why the last session could not start or stopped early
+   */
+  error: Error | null;
+
+  /**
+   * Start a new session (restarts a running one)
+   */
+  start: () => Promise<void>;
+
+  /**
+   * Stop the session and keep the last progress
+   */
+  stop: () => void;
+}
+
+const defaultProvider = (route: NavigationRoute): LocationProvider =>
+  SIMULATE_LOCATION
+    ? createSimulatedLocationProvider(fixesAlongPath(route.path, { speedMps: 5 }))
+    : createDeviceLocationProvider();
+
+export function useRouteNavigation(
+  route: NavigationRoute | null,
+  options: UseRouteNavigationOptions = {}
+): UseRouteNavigationReturn {
+  const [progress, setProgress] = useState<NavigationProgress | null>(null);
+  const [isNavigating, setIsNavigating] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Latest callbacks without restarting the session when they change
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const sessionRef = useRef(0);
+
+  const stop = useCallback(() => {
+    sessionRef.current++;
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    setIsNavigating(false);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!route) return;
+    stop();
+    const session = sessionRef.current;
+    const { provider = defaultProvider(route) } = optionsRef.current;
+
+    const engine = createNavigationEngine(route, {
+      ...optionsRef.current,
+      onWaypointReached: (waypoint, index) =>
+        optionsRef.current.onWaypointReached?.(waypoint, index),
+      onArrived: next => optionsRef.current.onArrived?.(next),
+      onOffRoute: next => optionsRef.current.onOffRoute?.(next),
+      onBackOnRoute: next => optionsRef.current.onBackOnRoute?.(next),
+    });
+
+    setProgress(null);
+    setError(null);
+    setIsNavigating(true);
+
+    try {
+      const unsubscribe = await provider.watch(
+        fix => {
+          if (session !== sessionRef.current) return;
+          const next = engine.update(fix);
+          if (!next) return;
+          setProgress(next);
+          if (next.status === 'arrived') stop();
+        },
+        watchError => {
+          if (session !== sessionRef.current) return;
+          setError(watchError);
+          stop();
+        }
+      );
+
+      // Stopped (or restarted) while the provider was starting
+      if (session !== sessionRef.current) unsubscribe();
+      else unsubscribeRef.current = unsubscribe;
+    } catch (startError) {
+      if (session !== sessionRef.current) return;
+      setError(startError instanceof Error ? startError : new Error(String(startError)));
+      setIsNavigating(false);
+    }
+  }, [route, stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return { progress, isNavigating, error, start, stop };
+}
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview useRouteRecording Hook
+ * @purpose Record a walk on a LocationProvider and save it as a new route
+ *
+ * Holds the RouteRecording (services/routeRecorder.ts) in state, feeds it
+ * fixes while recording and persists it, so a walk survives the app being
+ * closed: on mount the stored recording is restored and, if it was not
+ * paused, recording continues.
+ *
+ * Saves happen at most every SAVE_INTERVAL_MS for new fixes, and right away
+ * on start, pause, resume, waypoints and when the app leaves the foreground.
+ * Fixes are only collected while the hook is mounted.
+ *
+ * @example
+ * ```tsx
+ * const { recording, stats, start, pause, resume, finish } = useRouteRecording();
+ * const route = await finish({ title, category, isPublic });
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppState } from 'react-native';
+import { createRoute } from '../services/routesService';
+import { createDeviceLocationProvider } from '../services/locationProvider';
+import type { LocationFix, LocationProvider } from '../services/locationProvider';
+import {
+  RouteRecordingError,
+  addFix,
+  addRecordedWaypoint,
+  clearRecording,
+  createRecording,
+  loadRecording,
+  pauseRecording,
+  recordingDraft,
+  recordingStats,
+  resumeRecording,
+  saveRecording,
+} from '../services/routeRecorder';
+import type { RecordingDetails, RecordingStats, RouteRecording } from '../services/routeRecorder';
+import type { Route } from '../types/route';
+
+const SAVE_INTERVAL_MS = 10000;
+
+export interface UseRouteRecordingOptions {
+  /**
+   * Source of fixes
+   * @default device GPS
+   */
+  provider?: LocationProvider;
+}
+
+/**
+ * Hook return value
+ */
+export interface UseRouteRecordingReturn {
+  /**
+   * Recording in progress, null when there is none
+   */
+  recording: RouteRecording | null;
+
+  /**
+   * Live totals of the recording, updated every second while recording
+   */
+  stats: RecordingStats | null;
+
+  /**
+   * Whether a stored recording is still being loaded
+   */
+  isRestoring: boolean;
+
+  /**
+   * Why location updates stopped (the recording is paused when this is set)
+   */
+  error: Error | null;
+
+  /**
+   * Start a new recording (no-op while one is in progress)
+   */
+  start: () => Promise<void>;
+
+  pause: () => void;
+
+  /**
+   * Continue recording in a new segment
+   */
+  resume: () => Promise<void>;
+
+  /**
+   * Drop a waypoint at the current position
+   * @throws RouteRecordingError before the first location fix
+   */
+  addWaypoint: (name: string, note?: string) => void;
+
+  /**
+   * Stop and forget the recording
+   */
+  discard: () => Promise<void>;
+
+  /**
+   * Create the route and clear the recording
+   *
+   * On failure the recording is kept (paused) so saving can be retried.
+   * @throws RouteRecordingError when too little was recorded
+   */
+  finish: (details: RecordingDetails) => Promise<Route>;
+}
+
+export function useRouteRecording(options: UseRouteRecordingOptions = {}): UseRouteRecordingReturn {
+  const [recording, setRecording] = useState<RouteRecording | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const providerRef = useRef(options.provider);
+  providerRef.current = options.provider;
+  // Fix callbacks and finish() need the latest recording without re-subscribing
+  const recordingRef = useRef<RouteRecording | null>(null);
+  const lastFixRef = useRef<LocationFix | null>(null);
+  const lastSavedAtRef = useRef(0);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const sessionRef = useRef(0);
+
+  const commit = useCallback((next: RouteRecording | null, throttled = false) => {
+    recordingRef.current = next;
+    setRecording(next);
+    if (!next || (throttled && Date.now() - lastSavedAtRef.current < SAVE_INTERVAL_MS)) return;
+    lastSavedAtRef.current = Date.now();
+    void saveRecording(next);
+  }, []);
+
+  const stopWatching = useCallback(() => {
+    sessionRef.current++;
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+  }, []);
+
+  const startWatching = useCallback(async () => {
+    stopWatching();
+    const session = sessionRef.current;
+    const provider = providerRef.current ?? createDeviceLocationProvider({ distanceInterval: 3 });
+
+    const fail = (watchError: unknown) => {
+      if (session !== sessionRef.current) return;
+      stopWatching();
+      setError(watchError instanceof Error ? watchError : new Error(String(watchError)));
+      const current = recordingRef.current;
+      if (current) commit(pauseRecording(current, Date.now()));
+    };
+
+    setError(null);
+    try {
+      const unsubscribe = await provider.watch(fix => {
+        const current = recordingRef.current;
+        if (session !== sessionRef.current || !current) return;
+        lastFixRef.current = fix;
+        const next = addFix(current, fix);
+        if (next !== current) commit(next, true);
+      }, fail);
+
+      // Paused (or restarted) while the provider was starting
+      if (session !== sessionRef.current) unsubscribe();
+      else unsubscribeRef.current = unsubscribe;
+    } catch (startError) {
+      fail(startError);
+    }
+  }, [commit, stopWatching]);
+
+  // Pick up a recording left in progress by a previous run
+  useEffect(() => {
+    let cancelled = false;
+    void loadRecording().then(restored => {
+      if (cancelled) return;
+      setIsRestoring(false);
+      if (!restored || recordingRef.current) return;
+      recordingRef.current = restored;
+      setRecording(restored);
+      if (restored.status === 'recording') void startWatching();
+    });
+
+    return () => {
+      cancelled = true;
+      stopWatching();
+      if (recordingRef.current) void saveRecording(recordingRef.current);
+    };
+  }, [startWatching, stopWatching]);
+
+  // The OS may kill the app once it is in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      const current = recordingRef.current;
+      if (state === 'active' || !current) return;
+      lastSavedAtRef.current = Date.now();
+      void saveRecording(current);
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const isRecording = recording?.status === 'recording';
+  useEffect(() => {
+    if (!isRecording) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  const stats = useMemo(
+    () => (recording ? recordingStats(recording, now) : null),
+    [recording, now]
+  );
+
+  const start = useCallback(async () => {
+    if (recordingRef.current) return;
+    lastFixRef.current = null;
+    commit(createRecording(Date.now()));
+    await startWatching();
+  }, [commit, startWatching]);
+
+  const pause = useCallback(() => {
+    const current = recordingRef.current;
+    if (!current) return;
+    stopWatching();
+    commit(pauseRecording(current, Date.now()));
+  }, [commit, stopWatching]);
+
+  const resume = useCallback(async () => {
+    const current = recordingRef.current;
+    if (!current) return;
+    commit(resumeRecording(current, Date.now()));
+    await startWatching();
+  }, [commit, startWatching]);
+
+  const addWaypoint = useCallback(
+    (name: string, note?: string) => {
+      const current = recordingRef.current;
+      if (!current) return;
+      commit(addRecordedWaypoint(current, { name, note }, lastFixRef.current, Date.now()));
+    },
+    [commit]
+  );
+
+  const discard = useCallback(async () => {
+    stopWatching();
+    commit(null);
+    setError(null);
+    await clearRecording();
+  }, [commit, stopWatching]);
+
+  const finish = useCallback(
+    async (details: RecordingDetails) => {
+      const current = recordingRef.current;
+      if (!current) throw new RouteRecordingError('There is no recording to save.');
+
+      const finishedAt = Date.now();
+      const draft = recordingDraft(current, details, finishedAt);
+      stopWatching();
+      commit(pauseRecording(current, finishedAt));
+
+      const route = await createRoute(draft);
+      commit(null);
+      await clearRecording();
+      return route;
+    },
+    [commit, stopWatching]
+  );
+
+  return {
+    recording,
+    stats,
+    isRestoring,
+    error,
+    start,
+    pause,
+    resume,
+    addWaypoint,
+    discard,
+    finish,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview useRoutes Hook
+ * @purpose Load paginated routes from routesService with loading/error state
+ *
+ * Mirrors the useMockData interface (data, loading, error, refetch) so screens
+ * can migrate without restructuring, and adds offset-based pagination.
+ * Responses are cached by routesService; refetch() bypasses the cache.
+ *
+ * @example
+ * ```tsx
+ * const { data, loading, error, refetch, loadMore, hasMore } = useRoutes({
+ *   city: 'New York',
+ *   sortBy: 'popular',
+ * });
+ *
+ * <FlatList
+ *   data={data}
+ *   onEndReached={hasMore ? loadMore : undefined}
+ *   refreshing={loading}
+ *   onRefresh={refetch}
+ * />
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toError } from '../services/apiService';
+import { fetchRoutes } from '../services/routesService';
+import type { Route, RouteFilters } from '../services/routesService';
+
+/**
+ * Default page size when filters.limit is not provided
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Hook return value
+ */
+export interface UseRoutesReturn {
+  /**
+   * Routes loaded so far (all pages)
+   */
+  data: Route[];
+
+  /**
+   * Total number of routes matching the filters on the server
+   */
+  total: number;
+
+  /**
+   * Whether the first page is being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Whether a subsequent page is being loaded
+   */
+  loadingMore: boolean;
+
+  /**
+   * Error from the most recent request, if any
+   */
+  error: Error | null;
+
+  /**
+   * Whether more pages are available
+   */
+  hasMore: boolean;
+
+  /**
+   * Reload the first page, bypassing the cache
+   */
+  refetch: () => Promise<void>;
+
+  /**
+   * Append the next page
+   */
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Load routes matching filters with pagination
+ *
+ * @param filters - Route filters (offset is managed by the hook)
+ * @returns Routes, pagination state, and refetch/loadMore handlers
+ */
+export function useRoutes(filters: Omit<RouteFilters, 'offset'> = {}): UseRoutesReturn {
+  const [data, setData] = useState<Route[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Serialized filters keep callbacks stable when callers pass object literals
+  const filtersKey = JSON.stringify(filters);
+  const pageSize = filters.limit ?? DEFAULT_PAGE_SIZE;
+
+  // Ignore responses for filters that are no longer current
+  const requestId = useRef(0);
+
+  const loadFirstPage = useCallback(
+    async (forceRefresh: boolean) => {
+      const id = ++requestId.current;
+      setLoading(true);
+      setError(null);
+
+      try {
+        const parsed = JSON.parse(filtersKey) as RouteFilters;
+        const result = await fetchRoutes(
+          { ...parsed, limit: pageSize, offset: 0 },
+          { forceRefresh }
+        );
+        if (id !== requestId.current) return;
+        setData(result.routes);
+        setTotal(result.total);
+      } catch (err) {
+        if (id !== requestId.current) return;
+        setError(toError(err, 'Failed to load routes'));
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    },
+    [filtersKey, pageSize]
+  );
+
+  const refetch = useCallback(() => loadFirstPage(true), [loadFirstPage]);
+
+  const hasMore = data.length < total;
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const id = requestId.current;
+    setLoadingMore(true);
+
+    try {
+      const parsed = JSON.parse(filtersKey) as RouteFilters;
+      const result = await fetchRoutes({ ...parsed, limit: pageSize, offset: data.length });
+      if (id !== requestId.current) return;
+      setData(prev => [...prev, ...result.routes]);
+      setTotal(result.total);
+    } catch (err) {
+      if (id !== requestId.current) return;
+      setError(toError(err, 'Failed to load more routes'));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [data.length, filtersKey, hasMore, loading, loadingMore, pageSize]);
+
+  useEffect(() => {
+    loadFirstPage(false);
+  }, [loadFirstPage]);
+
+  return {
+    data,
+    total,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    refetch,
+    loadMore,
+  };
+}
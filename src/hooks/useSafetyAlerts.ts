@@ -0,0 +1,142 @@
+/**
+ * @fileoverview useSafetyAlerts Hook
+ * @purpose Safety alerts that apply to the user's position and to a list of routes
+ *
+ * Loads the alerts from safetyService and runs the alert matcher
+ * (utils/safetyAlerts.ts) over them. Both are redone every CLOCK_INTERVAL_MS,
+ * so alerts appear and expire on time while the screen stays open; the
+ * service cache keeps that from reaching the network more than once per TTL.
+ *
+ * Alerts the user dismissed (services/alertDismissals.ts) are left out of
+ * nearby. Route warnings keep them: they describe the route, and a dismissed
+ * alert still applies to it.
+ *
+ * @example
+ * ```tsx
+ * const { nearby, routeAlerts, dismiss } = useSafetyAlerts({ position, routes });
+ * const warning = routeAlerts[route.id]?.[0];
+ * ```
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { fetchSafetyAlerts } from '../services/safetyService';
+import type { SafetyAlert } from '../services/safetyService';
+import {
+  dismissAlert,
+  subscribeToDismissedAlerts,
+  syncDismissedAlerts,
+} from '../services/alertDismissals';
+import { getRoutePath } from '../services/routeModel';
+import { matchAlertsForRoute, matchAlertsNear } from '../utils/safetyAlerts';
+import type { SafetyAlertMatch } from '../utils/safetyAlerts';
+import type { LatLng } from '../utils/geo';
+import type { Route } from '../types/route';
+
+const CLOCK_INTERVAL_MS = 60000;
+export const NEARBY_ALERT_METERS = 5000;
+// A route counts as affected when it passes this close to an alert's area
+export const ROUTE_ALERT_BUFFER_METERS = 50;
+
+export interface UseSafetyAlertsOptions {
+  /**
+   * Where the user is; no nearby alerts without it
+   */
+  position?: LatLng | null;
+
+  /**
+   * Maximum distance to a nearby alert's area
+   * @default NEARBY_ALERT_METERS
+   */
+  withinMeters?: number;
+
+  /**
+   * Routes to check against the alerts
+   */
+  routes?: Route[];
+}
+
+/**
+ * Hook return value
+ */
+export interface UseSafetyAlertsReturn {
+  /**
+   * Alerts around the position, most urgent first
+   */
+  nearby: SafetyAlertMatch[];
+
+  /**
+   * Alerts along each route that has any, most urgent first, by route id
+   */
+  routeAlerts: Record<string, SafetyAlertMatch[]>;
+
+  /**
+   * Hide an alert from nearby for good (synced to the user's other devices)
+   */
+  dismiss: (alertId: string) => Promise<void>;
+}
+
+export function useSafetyAlerts(options: UseSafetyAlertsOptions = {}): UseSafetyAlertsReturn {
+  const { position, withinMeters = NEARBY_ALERT_METERS, routes } = options;
+  const [now, setNow] = useState(() => Date.now());
+  const [alerts, setAlerts] = useState<SafetyAlert[]>([]);
+  const [dismissedIds, setDismissedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    let isCurrent = true;
+    fetchSafetyAlerts()
+      .then(next => {
+        if (isCurrent) setAlerts(next);
+      })
+      .catch(error => {
+        // Keep the alerts from the last successful load
+        if (__DEV__) console.warn('Failed to load safety alerts', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [now]);
+
+  useEffect(() => {
+    syncDismissedAlerts().catch(error => {
+      if (__DEV__) console.warn('Failed to sync dismissed alerts', error);
+    });
+    return subscribeToDismissedAlerts(setDismissedIds);
+  }, []);
+
+  const lat = position?.lat;
+  const lng = position?.lng;
+  const nearby = useMemo(
+    () =>
+      lat === undefined || lng === undefined
+        ? []
+        : matchAlertsNear(
+            alerts.filter(alert => !dismissedIds.includes(alert.id)),
+            { lat, lng },
+            withinMeters,
+            now
+          ),
+    [alerts, dismissedIds, lat, lng, withinMeters, now]
+  );
+
+  // Decoding paths is the costly part; redo it only when the routes change
+  const routePaths = useMemo(
+    () => (routes ?? []).map(route => ({ id: route.id, path: getRoutePath(route) })),
+    [routes]
+  );
+
+  const routeAlerts = useMemo(() => {
+    const byRoute: Record<string, SafetyAlertMatch[]> = {};
+    routePaths.forEach(route => {
+      const matches = matchAlertsForRoute(alerts, route, ROUTE_ALERT_BUFFER_METERS, now);
+      if (matches.length > 0) byRoute[route.id] = matches;
+    });
+    return byRoute;
+  }, [alerts, routePaths, now]);
+
+  return { nearby, routeAlerts, dismiss: dismissAlert };
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview useSos Hook
+ * @purpose Drive the SOS workflow (services/sosService.ts) from a screen
+ *
+ * Follows the stored SOS events, counts down the seconds left before an SOS
+ * is sent and triggers it with the signed-in user's name and emergency
+ * contacts. The SOS itself lives in the service, so the countdown keeps
+ * running when the screen is left.
+ *
+ * @example
+ * ```tsx
+ * const { current, secondsLeft, trigger, cancel, resolve } = useSos();
+ * if (current?.status === 'countdown') return <Text>Sending in {secondsLeft}</Text>;
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/auth/AuthContext';
+import {
+  cancelSos,
+  currentSos,
+  resolveSos,
+  sendSosNow,
+  subscribeToSos,
+  triggerSos,
+} from '../services/sosService';
+import type { SosEvent } from '../services/sosService';
+
+const TICK_MS = 250;
+
+/**
+ * Hook return value
+ */
+export interface UseSosReturn {
+  /**
+   * SOS in countdown or active, null when there is none
+   */
+  current: SosEvent | null;
+
+  /**
+   * Whole seconds until the SOS in countdown is sent
+   */
+  secondsLeft: number;
+
+  /**
+   * Stored SOS events with their logs, newest first
+   */
+  history: SosEvent[];
+
+  /**
+   * Start the countdown
+   * @throws SosError while another SOS is in progress, or when the user has
+   * no emergency contact
+   */
+  trigger: () => Promise<void>;
+
+  /**
+   * Stop the countdown; nothing is sent
+   * @throws SosError once the SOS has been sent
+   */
+  cancel: () => Promise<void>;
+
+  /**
+   * Send right away instead of waiting for the countdown
+   */
+  sendNow: () => Promise<void>;
+
+  /**
+   * Tell the contacts the user is safe and close the SOS
+   */
+  resolve: () => Promise<void>;
+}
+
+export function useSos(): UseSosReturn {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<SosEvent[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => subscribeToSos(setHistory), []);
+
+  const current = currentSos(history);
+  const isCountingDown = current?.status === 'countdown';
+  useEffect(() => {
+    if (!isCountingDown) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isCountingDown]);
+
+  const secondsLeft =
+    current?.status === 'countdown'
+      ? Math.max(0, Math.ceil((new Date(current.activatesAt).getTime() - now) / 1000))
+      : 0;
+
+  const senderName = user?.name ?? 'A WayTrove user';
+  const primaryContact = user?.primaryContact;
+  const secondaryContact = user?.secondaryContact;
+  const units = user?.preferences?.units;
+  const trigger = useCallback(async () => {
+    await triggerSos({ senderName, contacts: [primaryContact, secondaryContact], units });
+  }, [senderName, primaryContact, secondaryContact, units]);
+
+  return {
+    current,
+    secondsLeft,
+    history,
+    trigger,
+    cancel: cancelSos,
+    sendNow: sendSosNow,
+    resolve: resolveSos,
+  };
+}
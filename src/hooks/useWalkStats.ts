@@ -0,0 +1,80 @@
+/**
+ * @fileoverview useWalkStats Hook
+ * @purpose Personal walking statistics from the completion history
+ *
+ * Re-computes when a walk is recorded and, while mounted, when the day
+ * changes (so "this week" and the current streak stay right overnight).
+ * Mounting also syncs the history with the walks stored on the server.
+ *
+ * @example
+ * ```tsx
+ * const [period, setPeriod] = useState<StatsPeriod>('week');
+ * const { stats, isLoading } = useWalkStats(period);
+ * ```
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { subscribeToCompletions, syncCompletions } from '../services/completionHistory';
+import type { WalkCompletion } from '../services/completionHistory';
+import { computeWalkStats } from '../utils/walkStats';
+import type { StatsPeriod, WalkStats } from '../utils/walkStats';
+
+// How often to check whether the day has changed
+const CLOCK_INTERVAL_MS = 60000;
+
+/**
+ * Hook return value
+ */
+export interface UseWalkStatsReturn {
+  /**
+   * Completed walks, newest first
+   */
+  completions: WalkCompletion[];
+
+  /**
+   * Statistics for the requested period
+   */
+  stats: WalkStats;
+
+  /**
+   * Whether the stored history is still loading
+   */
+  isLoading: boolean;
+}
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+export function useWalkStats(period: StatsPeriod): UseWalkStatsReturn {
+  const [completions, setCompletions] = useState<WalkCompletion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Only replaced when the day changes, so the stats are not recomputed every minute
+  const [today, setToday] = useState(() => new Date());
+
+  useEffect(() => {
+    syncCompletions().catch(error => {
+      if (__DEV__) console.warn('Failed to sync walk completions', error);
+    });
+    return subscribeToCompletions(next => {
+      setCompletions(next);
+      setIsLoading(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const now = new Date();
+      setToday(previous => (isSameDay(previous, now) ? previous : now));
+    }, CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const stats = useMemo(
+    () => computeWalkStats(completions, period, today),
+    [completions, period, today]
+  );
+
+  return { completions, stats, isLoading };
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Auth Stack Navigator - Sign-in, sign-up and password recovery screens
+ * @purpose Groups the signed-out screens under the root "Auth" route
+ * @inputs Optional Login.redirectTo from a deferred deep link
+ * @outputs Stack navigation between Login, Register, ForgotPassword and ResetPassword
+ */
+
+import React from 'react';
+import { createStackNavigator } from '@react-navigation/stack';
+import { useThemeColors } from '../contexts';
+import type { AuthStackParamList } from './types';
+
+// Import screens
+import { LoginScreen, SignUpScreen, ForgotPasswordScreen, ResetPasswordScreen } from '../screens';
+
+const Stack = createStackNavigator<AuthStackParamList>();
+
+export default function AuthStack() {
+  const colors = useThemeColors();
+
+  const backHeaderOptions = {
+    headerShown: true,
+    headerTitle: '',
+    headerStyle: { backgroundColor: colors.background },
+    headerTintColor: colors.textPrimary,
+    headerShadowVisible: false,
+  };
+
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerShown: false,
+        cardStyle: { backgroundColor: colors.background },
+      }}
+    >
+      <Stack.Screen
+        name="Login"
+        component={LoginScreen}
+        initialParams={{}}
+        options={{ gestureEnabled: false }}
+      />
+      <Stack.Screen name="Register" component={SignUpScreen} options={backHeaderOptions} />
+      <Stack.Screen
+        name="ForgotPassword"
+        component={ForgotPasswordScreen}
+        options={backHeaderOptions}
+      />
+      <Stack.Screen
+        name="ResetPassword"
+        component={ResetPasswordScreen}
+        options={backHeaderOptions}
+      />
+    </Stack.Navigator>
+  );
+}
@@ -4,45 +4,101 @@
  * @inputs Authentication state, onboarding completion status
  * @outputs Appropriate navigation stack (Onboarding, Auth, or Main)
  *
- * Deep Linking Patterns:
- * - waytrove://route/:routeId - Opens route details
- * - waytrove://news/:newsId - Opens news article
- * - waytrove://safety/:guideId - Opens safety guide
- * - waytrove://profile/:userId - Opens user profile
+ * Deep links are configured in linking.ts. A link that arrives during
+ * onboarding or while signed out is kept as pendingLink and opened here once
+ * the matching stack is mounted.
+ *
+ * Navigation state is persisted (persistence.ts) and restored on a cold
+ * start that was not opened by a link, so a killed app reopens on the same
+ * route.
+ *
+ * While the user shares their live location, LocationShareBanner is drawn
+ * above every signed-in screen.
  *
- * TODO: Implement navigation state persistence for better UX
  * TODO: Add loading screens with skeleton layouts
  * TODO: Add error boundaries for navigation failures
  */
 
-import React from 'react';
-import { View, ActivityIndicator, Platform } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, ActivityIndicator, Platform, Linking } from 'react-native';
+import { NavigationContainer, useNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { useThemeColors } from '../contexts';
 import { useAuth } from '../contexts/auth/AuthContext';
 import type { RootStackParamList } from './types';
+import { createLinking, getLinkAccess, openLinkPath, parseLinkPath } from './linking';
+import type { LinkState } from './linking';
+import { loadNavigationState, saveNavigationState } from './persistence';
+import { LocationShareBanner } from '../components';
 
 // Import screens
 import {
   OnboardingScreen,
-  LoginScreen,
   ThemeDemoScreen,
   RouteDetailsScreen,
+  NewsDetailsScreen,
+  SafeRouteScreen,
+  RecordRouteScreen,
   SettingsScreen,
+  VerifyEmailScreen,
+  SharedLocationScreen,
 } from '../screens';
-import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
 
 // Import navigators
 import MainTabs from './MainTabs';
+import AuthStack from './AuthStack';
 
 const Stack = createStackNavigator<RootStackParamList>();
 export default function RootNavigator() {
   const colors = useThemeColors();
   const { isLoggedIn, hasSeenOnboarding, isLoading } = useAuth();
+  const navigationRef = useNavigationContainerRef<RootStackParamList>();
+  const [isNavigationReady, setIsNavigationReady] = useState(false);
+  const [pendingLink, setPendingLink] = useState<string | null>(null);
+  const [isRestoringState, setIsRestoringState] = useState(true);
+  const [initialState, setInitialState] = useState<LinkState>();
+
+  // Restore the last navigation state once the session is known. Web keeps
+  // its place through the URL, and a launch link takes priority.
+  useEffect(() => {
+    if (isLoading || !isRestoringState) return;
+
+    const restoreState = async () => {
+      try {
+        if (Platform.OS !== 'web' && (await Linking.getInitialURL()) == null) {
+          setInitialState(await loadNavigationState({ isLoggedIn, hasSeenOnboarding }));
+        }
+      } finally {
+        setIsRestoringState(false);
+      }
+    };
+
+    restoreState();
+  }, [isLoading, isRestoringState, isLoggedIn, hasSeenOnboarding]);
+
+  const linking = useMemo(
+    () => createLinking({ hasSeenOnboarding, isLoggedIn, onDefer: setPendingLink }),
+    [hasSeenOnboarding, isLoggedIn]
+  );
 
-  // Show loading spinner during auth initialization
-  if (isLoading) {
+  const pendingAccess = useMemo(() => {
+    const state = pendingLink ? parseLinkPath(pendingLink) : undefined;
+    return state ? getLinkAccess(state) : null;
+  }, [pendingLink]);
+
+  // Open a deferred link once the stack that owns its screen is mounted
+  useEffect(() => {
+    if (!pendingLink || !isNavigationReady || !hasSeenOnboarding) return;
+    if (pendingAccess === 'signedIn' && !isLoggedIn) return; // Login shows redirectTo
+
+    if (pendingAccess === 'any' || (pendingAccess === 'signedIn') === isLoggedIn) {
+      openLinkPath(navigationRef, pendingLink);
+    }
+    setPendingLink(null);
+  }, [pendingLink, pendingAccess, isNavigationReady, hasSeenOnboarding, isLoggedIn, navigationRef]);
+
+  // Show loading spinner during auth initialization and state restoration
+  if (isLoading || isRestoringState) {
     return (
       <View
         style={{
@@ -70,6 +126,10 @@ export default function RootNavigator() {
 
   return (
     <NavigationContainer
+      ref={navigationRef}
+      initialState={initialState}
+      onReady={() => setIsNavigationReady(true)}
+      onStateChange={saveNavigationState}
       theme={{
         dark: false, // We handle theming manually
         colors: {
@@ -81,19 +141,7 @@ export default function RootNavigator() {
           notification: colors.error,
         },
       }}
-      linking={{
-        prefixes: ['waytrove://', 'https://waytrove.com'],
-        config: {
-          screens: {
-            Onboarding: 'onboarding',
-            Auth: 'auth',
-            Main: 'main',
-            RouteDetails: 'route/:routeId',
-            Settings: 'settings',
-            ThemeDemo: 'theme-demo',
-          },
-        },
-      }}
+      linking={linking}
     >
       <Stack.Navigator
         initialRouteName={getInitialStack()}
@@ -116,29 +164,35 @@ export default function RootNavigator() {
 
         {/* Authentication Stack - Shown when not logged in */}
         {!isLoggedIn && hasSeenOnboarding && (
-          <>
-            <Stack.Screen
-              name="Login"
-              component={LoginScreen}
-              options={{
-                animationTypeForReplace: 'push',
-                gestureEnabled: false, // Prevent swipe back
-              }}
-            />
-            <Stack.Screen
-              name="ForgotPassword"
-              component={ForgotPasswordScreen}
-              options={{
-                headerShown: true,
-                headerTitle: '',
-                headerStyle: { backgroundColor: colors.background },
-                headerTintColor: colors.textPrimary,
-                headerShadowVisible: false,
-              }}
-            />
-          </>
+          <Stack.Screen
+            name="Auth"
+            component={AuthStack}
+            initialParams={
+              pendingLink && pendingAccess === 'signedIn'
+                ? { screen: 'Login', params: { redirectTo: pendingLink } }
+                : undefined
+            }
+            options={{
+              animationTypeForReplace: 'push',
+              gestureEnabled: false, // Prevent swipe back
+            }}
+          />
         )}
 
+        {/* Email verification - reachable from a link whether signed in or not */}
+        <Stack.Screen
+          name="VerifyEmail"
+          component={VerifyEmailScreen}
+          options={{ gestureEnabled: false }}
+        />
+
+        {/* Shared live location - contacts may open the link signed in or not */}
+        <Stack.Screen
+          name="SharedLocation"
+          component={SharedLocationScreen}
+          options={{ presentation: Platform.OS === 'ios' ? 'modal' : 'card' }}
+        />
+
         {/* Main App Stack - Shown when logged in */}
         {isLoggedIn && (
           <>
@@ -160,6 +214,33 @@ export default function RootNavigator() {
               }}
             />
 
+            <Stack.Screen
+              name="NewsDetails"
+              component={NewsDetailsScreen}
+              options={{
+                presentation: Platform.OS === 'ios' ? 'modal' : 'card',
+                headerShown: false,
+              }}
+            />
+
+            <Stack.Screen
+              name="SafeRoute"
+              component={SafeRouteScreen}
+              options={{
+                presentation: Platform.OS === 'ios' ? 'modal' : 'card',
+                headerShown: false,
+              }}
+            />
+
+            <Stack.Screen
+              name="RecordRoute"
+              component={RecordRouteScreen}
+              options={{
+                presentation: Platform.OS === 'ios' ? 'modal' : 'card',
+                headerShown: false,
+              }}
+            />
+
             <Stack.Screen
               name="Settings"
               component={SettingsScreen}
@@ -184,6 +265,14 @@ export default function RootNavigator() {
           </>
         )}
       </Stack.Navigator>
+
+      {isLoggedIn && (
+        <LocationShareBanner
+          onPress={() =>
+            navigationRef.navigate('Main', { screen: 'SafetyTab', params: { screen: 'Safety' } })
+          }
+        />
+      )}
     </NavigationContainer>
   );
 }
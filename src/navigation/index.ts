@@ -8,4 +8,6 @@
 
 export { default as RootNavigator } from './RootNavigator';
 export { default as MainTabs } from './MainTabs';
+export { default as AuthStack } from './AuthStack';
+export * from './linking';
 export * from './types';
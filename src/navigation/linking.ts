@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Deep Linking - URL configuration for custom-scheme and universal links
+ * @purpose Maps waytrove:// and https://waytrove.com URLs onto typed navigation state
+ * @inputs Incoming URL path, current onboarding/auth state
+ * @outputs Navigation state for the link, or a deferred Onboarding/Login state
+ *
+ * Supported paths:
+ * - route/:routeId?initialWaypointIndex=2 - RouteDetails
+ * - news/:newsId - NewsDetails
+ * - safe-route?originLat=..&originLng=..&destinationLat=..&destinationLng=.. - SafeRoute
+ * - reset-password/:token - Auth > ResetPassword
+ * - verify-email/:token - VerifyEmail
+ * - share/:token - SharedLocation
+ * - login, signup, forgot-password - Auth screens
+ * - home, explore?initialCity=.., safety, news, profile/:userId? - Main tabs
+ * - record - RecordRoute
+ * - settings - Settings
+ *
+ * Params are decoded with the schemas below before React Navigation sees
+ * them, so screens receive the types declared in navigation/types.ts; a link
+ * with missing or malformed params shows a toast and is ignored. A bare
+ * prefix (waytrove://) and paths outside the list above are ignored silently.
+ *
+ * Links that need a session are deferred while the user is onboarding or
+ * signed out: the path is handed to onDefer() and the user lands on
+ * Onboarding or on Login with `redirectTo` set. RootNavigator opens the
+ * deferred path with openLinkPath() once the session starts.
+ *
+ * Universal links (iOS) and App Links (Android) are declared in app.json;
+ * waytrove.com must serve /.well-known/apple-app-site-association and
+ * /.well-known/assetlinks.json for them to open the app.
+ */
+
+import { getActionFromState, getStateFromPath } from '@react-navigation/native';
+import type { LinkingOptions, NavigationContainerRef } from '@react-navigation/native';
+import { notify } from '../services/notificationService';
+import { number, object, oneOf, optional, string, formatSchemaIssues } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import type {
+  AuthStackParamList,
+  ExploreStackParamList,
+  ProfileStackParamList,
+  RootStackParamList,
+} from './types';
+
+export const LINKING_PREFIXES = ['waytrove://', 'https://waytrove.com', 'https://www.waytrove.com'];
+
+export type LinkState = NonNullable<ReturnType<typeof getStateFromPath>>;
+
+export const linkingConfig: NonNullable<LinkingOptions<RootStackParamList>['config']> = {
+  // Keeps the tabs under a modal opened from a cold start; the stack drops
+  // Main again when it is not registered (signed out)
+  initialRouteName: 'Main',
+  screens: {
+    Auth: {
+      screens: {
+        Login: 'login',
+        Register: 'signup',
+        ForgotPassword: 'forgot-password',
+        ResetPassword: 'reset-password/:token',
+      },
+    },
+    VerifyEmail: 'verify-email/:token',
+    SharedLocation: 'share/:token',
+    Main: {
+      screens: {
+        HomeTab: { screens: { Home: 'home' } },
+        ExploreTab: { screens: { Explore: 'explore' } },
+        SafetyTab: { screens: { Safety: 'safety' } },
+        NewsTab: { screens: { News: 'news' } },
+        ProfileTab: { screens: { Profile: 'profile/:userId?' } },
+      },
+    },
+    RouteDetails: {
+      path: 'route/:routeId',
+      parse: { initialWaypointIndex: Number },
+    },
+    NewsDetails: 'news/:newsId',
+    SafeRoute: {
+      path: 'safe-route',
+      parse: {
+        originLat: Number,
+        originLng: Number,
+        destinationLat: Number,
+        destinationLng: Number,
+      },
+    },
+    RecordRoute: 'record',
+    Settings: 'settings',
+  },
+};
+
+type ScreenPaths = Record<string, string | { path?: string; screens?: ScreenPaths }>;
+
+/**
+ * First segment of every configured path ("route", "news", "safe-route", ...)
+ */
+function collectLinkRoots(screens: ScreenPaths, roots: Set<string>): Set<string> {
+  for (const screen of Object.values(screens)) {
+    const path = typeof screen === 'string' ? screen : screen.path;
+    if (path) roots.add(path.split('/')[0] ?? path);
+    if (typeof screen === 'object' && screen.screens) collectLinkRoots(screen.screens, roots);
+  }
+  return roots;
+}
+
+const LINK_ROOTS = collectLinkRoots(linkingConfig.screens as ScreenPaths, new Set());
+
+const linkRoot = (path: string) => path.replace(/^\/+/, '').split(/[/?#]/)[0] ?? '';
+
+const latitude = () => number({ min: -90, max: 90 });
+const longitude = () => number({ min: -180, max: 180 });
+
+// Keyed by route name; route names are unique across the nested navigators
+const LINK_PARAM_SCHEMAS: Record<string, Schema<object>> = {
+  RouteDetails: object<RootStackParamList['RouteDetails']>({
+    routeId: string({ nonEmpty: true }),
+    initialWaypointIndex: optional(number({ min: 0, integer: true })),
+    source: optional(oneOf(['explore', 'home', 'profile', 'notification'])),
+  }),
+  NewsDetails: object<RootStackParamList['NewsDetails']>({
+    newsId: string({ nonEmpty: true }),
+    category: optional(oneOf(['safety', 'travel', 'local', 'general'])),
+  }),
+  SafeRoute: object<RootStackParamList['SafeRoute']>({
+    originLat: latitude(),
+    originLng: longitude(),
+    originName: optional(string()),
+    destinationLat: latitude(),
+    destinationLng: longitude(),
+    destinationName: optional(string()),
+    transportMode: optional(oneOf(['walking', 'transit', 'driving'])),
+  }),
+  VerifyEmail: object<RootStackParamList['VerifyEmail']>({
+    token: string({ nonEmpty: true }),
+  }),
+  SharedLocation: object<RootStackParamList['SharedLocation']>({
+    token: string({ nonEmpty: true }),
+  }),
+  ResetPassword: object<AuthStackParamList['ResetPassword']>({
+    token: string({ nonEmpty: true }),
+  }),
+  Explore: object<ExploreStackParamList['Explore']>({
+    initialCity: optional(string({ nonEmpty: true })),
+    initialCategory: optional(oneOf(['restaurants', 'attractions', 'nightlife', 'outdoor'])),
+  }),
+  Profile: object<ProfileStackParamList['Profile']>({
+    userId: optional(string({ nonEmpty: true })),
+  }),
+};
+
+/**
+ * Session a root screen is registered under in RootNavigator
+ */
+export type LinkAccess = 'signedIn' | 'signedOut' | 'any';
+
+const LINK_ACCESS: Partial<Record<keyof RootStackParamList, LinkAccess>> = {
+  Auth: 'signedOut',
+  VerifyEmail: 'any',
+  SharedLocation: 'any',
+};
+
+/**
+ * Which session a root screen needs (signedIn unless listed)
+ */
+export function getScreenAccess(name: keyof RootStackParamList): LinkAccess {
+  return LINK_ACCESS[name] ?? 'signedIn';
+}
+
+/**
+ * Decode the params of every route in the state against LINK_PARAM_SCHEMAS
+ *
+ * Also used to check navigation state restored from storage.
+ *
+ * @returns The state with decoded params, or null if any route is invalid
+ */
+export function decodeLinkState(state: LinkState): LinkState | null {
+  const routes: LinkState['routes'][number][] = [];
+
+  for (const route of state.routes) {
+    let params = route.params;
+    const schema = LINK_PARAM_SCHEMAS[route.name];
+    if (schema) {
+      const result = schema.decode(params ?? {}, route.name);
+      if (!result.ok) {
+        if (__DEV__) console.warn(`Invalid route params: ${formatSchemaIssues(result.issues)}`);
+        return null;
+      }
+      params = result.value;
+    }
+
+    const nested = route.state ? decodeLinkState(route.state as LinkState) : undefined;
+    if (nested === null) return null;
+    routes.push({ ...route, params, ...(nested ? { state: nested } : {}) });
+  }
+
+  return { ...state, routes };
+}
+
+/**
+ * Parse and validate a link path (e.g. "route/abc?initialWaypointIndex=1")
+ *
+ * @returns Navigation state, or undefined for unknown paths and invalid params
+ */
+export function parseLinkPath(path: string): LinkState | undefined {
+  const state = getStateFromPath<RootStackParamList>(path, linkingConfig);
+  return state ? (decodeLinkState(state) ?? undefined) : undefined;
+}
+
+/**
+ * Which session the link's root screen needs
+ */
+export function getLinkAccess(state: LinkState): LinkAccess {
+  // Last route: initialRouteName puts Main underneath the target
+  const target = state.routes[state.routes.length - 1]?.name as
+    | keyof RootStackParamList
+    | undefined;
+  return target ? getScreenAccess(target) : 'signedIn';
+}
+
+/**
+ * Navigate an already-mounted container to a link path
+ *
+ * @returns Whether the path resolved to a navigation action
+ */
+export function openLinkPath(
+  navigation: NavigationContainerRef<RootStackParamList>,
+  path: string
+): boolean {
+  const state = parseLinkPath(path);
+  const action = state ? getActionFromState(state, linkingConfig) : undefined;
+  if (!action) return false;
+  navigation.dispatch(action);
+  return true;
+}
+
+export interface LinkingGate {
+  hasSeenOnboarding: boolean;
+  isLoggedIn: boolean;
+  /** Receives links that must wait for onboarding or sign-in */
+  onDefer: (path: string) => void;
+}
+
+/**
+ * Linking options for NavigationContainer
+ *
+ * @param gate - Current session state; recreate the options when it changes
+ */
+export function createLinking(gate: LinkingGate): LinkingOptions<RootStackParamList> {
+  return {
+    prefixes: LINKING_PREFIXES,
+    config: linkingConfig,
+    getStateFromPath: path => {
+      // Opening the app from a bare prefix is not a link
+      const root = linkRoot(path);
+      if (!root) return undefined;
+
+      const state = parseLinkPath(path);
+      if (!state) {
+        // Other pages of waytrove.com are not the app's links; ignore them quietly
+        if (LINK_ROOTS.has(root)) {
+          notify({ message: 'This link is invalid or has expired.', severity: 'warning' });
+        }
+        return undefined;
+      }
+
+      const access = getLinkAccess(state);
+      if (gate.isLoggedIn) {
+        if (access !== 'signedOut') return state;
+
+        // Auth links (reset password, sign up) have no screen while signed in
+        notify({ message: 'Sign out to open this link.', severity: 'info' });
+        return undefined;
+      }
+      if (gate.hasSeenOnboarding && access !== 'signedIn') return state;
+
+      gate.onDefer(path);
+      if (!gate.hasSeenOnboarding) return { routes: [{ name: 'Onboarding' }] };
+      return {
+        routes: [
+          { name: 'Auth', state: { routes: [{ name: 'Login', params: { redirectTo: path } }] } },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Navigation Persistence - Save and restore navigation state across app restarts
+ * @purpose Returns users to the screen they were on (e.g. RouteDetails mid-walk) after the OS kills the app
+ * @inputs Navigation state from NavigationContainer.onStateChange, current session
+ * @outputs Initial navigation state for a cold start, or undefined to start fresh
+ *
+ * State is stored as JSON tagged with NAVIGATION_STATE_VERSION. Bump the
+ * version whenever RootStackParamList or a nested param list changes in a way
+ * old state would not satisfy; stored state with another version is discarded.
+ *
+ * Restored state must also fit the current session: every root route has to
+ * be registered for it (getScreenAccess in linking.ts) and route params have
+ * to pass the deep link schemas. Otherwise the app starts on its usual
+ * entry screen.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { NavigationState } from '@react-navigation/native';
+import { STORAGE_KEYS } from '../utils/constants';
+import { number, object, plainObject, parseWithSchema } from '../utils/schema';
+import { decodeLinkState, getScreenAccess } from './linking';
+import type { LinkState } from './linking';
+import type { RootStackParamList } from './types';
+
+export const NAVIGATION_STATE_VERSION = 1;
+
+const persistedStateSchema = object<{ version: number; state: Record<string, unknown> }>({
+  version: number({ integer: true }),
+  state: plainObject(),
+});
+
+/**
+ * Session the restored state is checked against
+ */
+export interface NavigationSession {
+  isLoggedIn: boolean;
+  hasSeenOnboarding: boolean;
+}
+
+const isAllowedForSession = (state: LinkState, session: NavigationSession): boolean =>
+  session.hasSeenOnboarding &&
+  state.routes.length > 0 &&
+  state.routes.every(route => {
+    const name = route.name as keyof RootStackParamList;
+    if (name === 'Onboarding') return false;
+    const access = getScreenAccess(name);
+    return access === 'any' || (access === 'signedIn') === session.isLoggedIn;
+  });
+
+/**
+ * Persist the current navigation state
+ *
+ * @param state - State from NavigationContainer.onStateChange
+ */
+export async function saveNavigationState(state: NavigationState | undefined): Promise<void> {
+  try {
+    if (!state) {
+      await AsyncStorage.removeItem(STORAGE_KEYS.NAVIGATION_STATE);
+      return;
+    }
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.NAVIGATION_STATE,
+      JSON.stringify({ version: NAVIGATION_STATE_VERSION, state })
+    );
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to save navigation state:', error);
+  }
+}
+
+/**
+ * Load the persisted navigation state if it still applies
+ *
+ * @param session - Current onboarding/auth state
+ * @returns State for NavigationContainer.initialState, or undefined
+ */
+export async function loadNavigationState(
+  session: NavigationSession
+): Promise<LinkState | undefined> {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEYS.NAVIGATION_STATE);
+    if (!json) return undefined;
+
+    const persisted = parseWithSchema(persistedStateSchema, JSON.parse(json), 'navigation state');
+    if (persisted.version !== NAVIGATION_STATE_VERSION) {
+      await AsyncStorage.removeItem(STORAGE_KEYS.NAVIGATION_STATE);
+      return undefined;
+    }
+
+    const state = persisted.state as unknown as LinkState;
+    if (!Array.isArray(state.routes) || !isAllowedForSession(state, session)) return undefined;
+    return decodeLinkState(state) ?? undefined;
+  } catch (error) {
+    if (__DEV__) console.warn('Discarding stored navigation state:', error);
+    await AsyncStorage.removeItem(STORAGE_KEYS.NAVIGATION_STATE).catch(() => undefined);
+    return undefined;
+  }
+}
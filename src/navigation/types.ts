@@ -4,17 +4,8 @@
  * @inputs Route parameters for each screen
  * @outputs Type definitions for navigation props and route params
  *
- * Deep Linking Patterns:
- * - waytrove://route/:routeId - Opens route details screen
- * - waytrove://news/:newsId - Opens news article details
- * - waytrove://safety/:safetyGuideId - Opens safety guide
- * - waytrove://profile/:userId - Opens user profile
- * - waytrove://explore?city=:cityName - Opens explore with city filter
- *
- * TODO: Configure React Navigation deep linking configuration
- * TODO: Add URL parameter validation and error handling
- * TODO: Implement universal links for iOS (apple-app-site-association)
- * TODO: Implement app links for Android (assetlinks.json)
+ * Deep links map onto these param lists in linking.ts, which also
+ * validates URL params against them.
  */
 
 import type { NavigatorScreenParams } from '@react-navigation/native';
@@ -28,10 +19,18 @@ export type RootStackParamList = {
   Onboarding: undefined;
 
   // Authentication screens - shown when user is not logged in
-  Login: undefined;
-  ForgotPassword: undefined;
   Auth: NavigatorScreenParams<AuthStackParamList>;
 
+  // Email verification link target - available signed in or out
+  VerifyEmail: {
+    token: string; // Verification token from email
+  };
+
+  // Live location shared by a contact - viewable signed in or out
+  SharedLocation: {
+    token: string; // Share token from the link
+  };
+
   // Main app flow - shown when user is logged in
   Main: NavigatorScreenParams<MainTabParamList>;
 
@@ -58,6 +57,9 @@ export type RootStackParamList = {
     transportMode?: 'walking' | 'transit' | 'driving';
   };
 
+  // Records a walk and saves it as a new route
+  RecordRoute: undefined;
+
   CreatePostModal: {
     routeId?: string; // Optional - if sharing a specific route
     prefilledText?: string;
@@ -75,7 +77,7 @@ export type RootStackParamList = {
  */
 export type AuthStackParamList = {
   Login: {
-    redirectTo?: keyof RootStackParamList; // Where to go after successful login
+    redirectTo?: string; // Deep link path (see linking.ts) to open after successful login
   };
 
   Register: {
@@ -208,22 +210,3 @@ export type NavigationProps<
     params: ParamList[RouteName];
   };
 };
-
-/**
- * Deep Linking Configuration Types
- * These define the URL patterns for deep linking
- * TODO: Replace with proper linking types from @react-navigation/native
- */
-export type DeepLinkConfig = {
-  prefixes: string[]; // ['waytrove://', 'https://waytrove.com']
-  config: {
-    screens: {
-      [K in keyof RootStackParamList]:
-        | string
-        | {
-            path: string;
-            parse?: Record<string, (value: string) => string | number | boolean>;
-          };
-    };
-  };
-};
@@ -31,10 +31,13 @@ export default function ChangePassword() {
       {
         text: 'OK',
         onPress: () => {
-          // Sign out and send user to Login
-          signOut();
-          // Ensure we land on the Login screen in the root stack
-          navigation.reset({ index: 0, routes: [{ name: 'Login' as const }] });
+          // Sign out and send user to Login; unsent changes wait for the next sign-in
+          void signOut({ keepAccountData: true });
+          // Ensure we land on the Login screen of the auth stack
+          navigation.reset({
+            index: 0,
+            routes: [{ name: 'Auth', params: { screen: 'Login', params: {} } }],
+          });
         },
       },
     ]);
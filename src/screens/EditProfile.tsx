@@ -16,9 +16,16 @@ import { useNavigation } from '@react-navigation/native';
 import type { NavigationProp } from '@react-navigation/native';
 import type { ProfileStackParamList } from '../navigation/types';
 import { useAuth } from '../contexts/auth/AuthContext';
+import { SegmentedControl } from '../components/SegmentedControl';
+import { APP_CONFIG } from '../utils/constants';
+import { toError } from '../services/apiService';
 import CountryPicker, { Country } from 'react-native-country-picker-modal';
 import { parsePhoneNumberFromString } from 'libphonenumber-js';
 
+// Device language first, then the languages the app formats for
+const LANGUAGE_OPTIONS = [undefined, ...APP_CONFIG.SUPPORTED_LANGUAGES];
+const LANGUAGE_LABELS = LANGUAGE_OPTIONS.map(code => code?.toUpperCase() ?? 'Device');
+
 export default function EditProfile() {
   const colors = useThemeColors();
   const navigation = useNavigation<NavigationProp<ProfileStackParamList>>();
@@ -69,7 +76,10 @@ export default function EditProfile() {
       }
     }
   }, [user]);
-  const [unitsMetric, setUnitsMetric] = useState(MOCK_USER.preferences.units === 'metric');
+  const [unitsMetric, setUnitsMetric] = useState(
+    (user?.preferences?.units ?? 'metric') === 'metric'
+  );
+  const [language, setLanguage] = useState(user?.preferences?.language);
   const [safetyAlerts, setSafetyAlerts] = useState(
     MOCK_USER.preferences.notifications.safetyAlerts
   );
@@ -111,14 +121,19 @@ export default function EditProfile() {
         }
       }
 
+      updates.preferences = {
+        units: unitsMetric ? 'metric' : 'imperial',
+        ...(language && { language }),
+      };
+
       updateProfile(updates)
         .then(() => {
-          Alert.alert('Save Profile', 'Profile saved (mock).', [
+          Alert.alert('Save Profile', 'Profile saved.', [
             { text: 'OK', onPress: () => navigation.goBack() },
           ]);
         })
         .catch(err => {
-          Alert.alert('Save Failed', String(err));
+          Alert.alert('Save Failed', toError(err, 'Could not save your profile.').message);
         });
     } catch (err) {
       Alert.alert('Validation Error', String(err));
@@ -137,7 +152,8 @@ export default function EditProfile() {
           setEmail(MOCK_USER.email);
           setCity(MOCK_USER.city);
           setBio(MOCK_USER.bio || '');
-          setUnitsMetric(MOCK_USER.preferences.units === 'metric');
+          setUnitsMetric((user?.preferences?.units ?? 'metric') === 'metric');
+          setLanguage(user?.preferences?.language);
           setSafetyAlerts(MOCK_USER.preferences.notifications.safetyAlerts);
           // Reset contact fields to current user values (if any)
           setPrimaryContact(user?.primaryContact ?? '');
@@ -304,6 +320,21 @@ export default function EditProfile() {
             />
           </View>
 
+          <Text style={[styles.label, styles.languageLabel, { color: colors.textPrimary }]}>
+            Language
+          </Text>
+          <Text style={[styles.small, { color: colors.textSecondary }]}>
+            Number, date and time formats
+          </Text>
+          <SegmentedControl
+            segments={LANGUAGE_LABELS}
+            selectedIndex={Math.max(
+              0,
+              LANGUAGE_OPTIONS.findIndex(code => code === language)
+            )}
+            onChange={index => setLanguage(LANGUAGE_OPTIONS[index])}
+          />
+
           <View style={[styles.rowBetween, { marginTop: 8 }]}>
             <View style={{ flex: 1 }}>
               <Text style={[styles.label, { color: colors.textPrimary }]}>Safety Alerts</Text>
@@ -373,6 +404,7 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 6,
   },
+  languageLabel: { marginTop: 8, marginBottom: 0 },
   recommendationsCard: { padding: 12, borderRadius: 12 },
   sectionTitle: { fontSize: 18, fontWeight: '700', marginBottom: 8 },
   recommendationItem: { fontSize: 14, marginBottom: 6 },
@@ -4,110 +4,150 @@
  * LAYOUT:
  * - Sticky filter chips row (Category, Safety, Distance)
  * - Map placeholder (tall, non-functional for now)
- * - Vertical list of RouteCard items
+ * - Vertical list of RouteCard items, flagged with the most urgent safety
+ *   alert along each route
  * - FAB (Floating Action Button) bottom-right "Create Route"
  *
  * INTERACTIONS:
- * - Filters animate chip toggle; list re-sorts locally (mocked)
- * - Create Route button opens modal (UI only)
+ * - Filters animate chip toggle; list refetches from routesService
+ * - Create Route button offers recording a walk or importing a GPX/KML file
  * - Tapping route card navigates to details
  */
 
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NavigationProp } from '@react-navigation/native';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
 import { ThemeToggle, PillChip, RouteCard } from '../components';
-import { EXPLORE_ITEMS, ExploreItem } from '../data/mockData';
+import { useRoutes } from '../hooks/useRoutes';
+import { useSafetyAlerts } from '../hooks/useSafetyAlerts';
+import { useFormatter } from '../hooks/useFormatter';
+import { importRouteFile } from '../services/routesService';
+import type { Route, RouteFilters } from '../services/routesService';
+import { pickRouteFile } from '../services/routeFileTransfer';
+import type { RootStackParamList } from '../navigation/types';
 
 type FilterCategory = 'all' | 'culture' | 'nature' | 'food' | 'adventure';
 type SafetyFilter = 'all' | 'high' | 'medium';
 type DistanceFilter = 'all' | 'near' | 'medium' | 'far';
 
+/**
+ * Translate chip selections into server-side filters. Bands the API cannot
+ * express (upper safety bound, lower distance bound) are applied locally.
+ */
+const toRouteFilters = (
+  category: FilterCategory,
+  safety: SafetyFilter,
+  distance: DistanceFilter
+): Omit<RouteFilters, 'offset'> => {
+  const filters: Omit<RouteFilters, 'offset'> = { sortBy: 'popular' };
+
+  if (category !== 'all') {
+    filters.category = category.charAt(0).toUpperCase() + category.slice(1);
+  }
+
+  if (safety === 'high') filters.safetyScoreMin = 90;
+  else if (safety === 'medium') filters.safetyScoreMin = 70;
+
+  if (distance === 'near') filters.maxDistance = 2000;
+  else if (distance === 'medium') filters.maxDistance = 5000;
+
+  return filters;
+};
+
 export default function ExploreScreen() {
   const colors = useThemeColors();
+  const format = useFormatter();
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
 
   const [categoryFilter, setCategoryFilter] = useState<FilterCategory>('all');
   const [safetyFilter, setSafetyFilter] = useState<SafetyFilter>('all');
   const [distanceFilter, setDistanceFilter] = useState<DistanceFilter>('all');
-  const [items, setItems] = useState(EXPLORE_ITEMS);
-
-  const handleFilterChange = () => {
-    // Mock filtering - in real app would filter based on criteria
-    let filtered = [...EXPLORE_ITEMS];
-
-    // Apply category filter
-    if (categoryFilter !== 'all') {
-      filtered = filtered.filter(item =>
-        item.tags.some(tag => tag.toLowerCase().includes(categoryFilter))
-      );
-    }
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
 
-    // Apply safety filter
-    if (safetyFilter === 'high') {
-      filtered = filtered.filter(item => item.safetyScore >= 90);
-    } else if (safetyFilter === 'medium') {
-      filtered = filtered.filter(item => item.safetyScore >= 70 && item.safetyScore < 90);
-    }
+  const {
+    data: routes,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    refetch,
+    loadMore,
+  } = useRoutes(toRouteFilters(categoryFilter, safetyFilter, distanceFilter));
 
-    // Apply distance filter
-    if (distanceFilter === 'near') {
-      filtered = filtered.filter(item => item.distanceMeters < 2000);
-    } else if (distanceFilter === 'medium') {
-      filtered = filtered.filter(item => item.distanceMeters >= 2000 && item.distanceMeters < 5000);
-    } else if (distanceFilter === 'far') {
-      filtered = filtered.filter(item => item.distanceMeters >= 5000);
-    }
+  const items = useMemo(
+    () =>
+      routes.filter(route => {
+        if (safetyFilter === 'medium' && route.safetyScore >= 90) return false;
+        if (distanceFilter === 'medium' && route.distanceMeters < 2000) return false;
+        if (distanceFilter === 'far' && route.distanceMeters < 5000) return false;
+        return true;
+      }),
+    [routes, safetyFilter, distanceFilter]
+  );
 
-    setItems(filtered);
-  };
+  const { routeAlerts } = useSafetyAlerts({ routes: items });
 
   const handleCategoryChange = (category: FilterCategory) => {
     setCategoryFilter(category);
-    setTimeout(handleFilterChange, 100);
   };
 
   const handleSafetyChange = (safety: SafetyFilter) => {
     setSafetyFilter(safety);
-    setTimeout(handleFilterChange, 100);
   };
 
   const handleDistanceChange = (distance: DistanceFilter) => {
     setDistanceFilter(distance);
-    setTimeout(handleFilterChange, 100);
+  };
+
+  const handleImportRoute = async () => {
+    try {
+      const file = await pickRouteFile();
+      if (!file) return;
+      setIsImporting(true);
+      const imported = await importRouteFile(file.contents, file.name);
+      Alert.alert('Route Imported', `"${imported.title}" has been added to your routes.`);
+      refetch();
+    } catch (importError) {
+      // API failures are already shown as a toast by apiService
+      if (importError instanceof Error) Alert.alert('Import Failed', importError.message);
+    } finally {
+      setIsImporting(false);
+    }
   };
 
   const handleCreateRoute = () => {
-    Alert.alert(
-      'Create Route',
-      'Route creation feature coming soon! This will open a form to create a custom route.',
-      [{ text: 'OK' }]
-    );
+    Alert.alert('Create Route', 'Record a walk as you go, or bring in one planned elsewhere.', [
+      { text: 'Record a Walk', onPress: () => navigation.navigate('RecordRoute') },
+      { text: 'Import GPX/KML', onPress: () => void handleImportRoute() },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
   };
 
-  const handleRoutePress = (item: ExploreItem) => {
+  const handleRoutePress = (item: Route) => {
     console.log('Navigate to route/place:', item.id);
     // TODO: Navigate to details screen
   };
 
   const handleSaveToggle = (itemId: string) => {
-    setItems(prevItems =>
-      prevItems.map(item => (item.id === itemId ? { ...item, isSaved: !item.isSaved } : item))
-    );
-  };
-
-  const formatDistance = (meters: number): string => {
-    if (meters === 0) return 'Destination';
-    const km = meters / 1000;
-    return km < 1 ? `${meters}m away` : `${km.toFixed(1)}km away`;
-  };
-
-  const formatDuration = (minutes?: number): string => {
-    if (!minutes) return '';
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    if (hours === 0) return `${mins} min`;
-    return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+    setSavedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
   };
 
   return (
@@ -122,6 +162,9 @@ export default function ExploreScreen() {
         style={styles.scrollContainer}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refetch} tintColor={colors.primary} />
+        }
       >
         {/* Sticky Filter Chips */}
         <View style={[styles.filterContainer, { backgroundColor: colors.background }]}>
@@ -231,7 +274,21 @@ export default function ExploreScreen() {
           </Text>
         </View>
 
-        {items.length === 0 ? (
+        {loading && items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator color={colors.primary} />
+          </View>
+        ) : error && items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>⚠️</Text>
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              Couldn't load routes
+            </Text>
+            <TouchableOpacity onPress={refetch}>
+              <Text style={[styles.emptySubtext, { color: colors.primary }]}>Tap to retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : items.length === 0 ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyIcon}>🔍</Text>
             <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
@@ -246,17 +303,28 @@ export default function ExploreScreen() {
             <View key={item.id} style={styles.routeCardWrapper}>
               <RouteCard
                 title={item.title}
-                distance={formatDistance(item.distanceMeters)}
-                duration={formatDuration(item.estimatedMinutes)}
+                distance={format.distance(item.distanceMeters)}
+                duration={item.durationMinutes ? format.duration(item.durationMinutes * 60) : ''}
                 tags={item.tags}
-                mapPreview={item.thumbnailUrl}
-                isSaved={item.isSaved}
+                mapPreview={item.imageUrl}
+                isSaved={savedIds.has(item.id)}
+                alert={routeAlerts[item.id]?.[0]?.alert}
                 onPress={() => handleRoutePress(item)}
                 onToggleSave={() => handleSaveToggle(item.id)}
               />
             </View>
           ))
         )}
+
+        {hasMore && !loading && (
+          <TouchableOpacity style={styles.loadMore} onPress={loadMore} disabled={loadingMore}>
+            {loadingMore ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={[styles.loadMoreText, { color: colors.primary }]}>Load more</Text>
+            )}
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* FAB - Create Route */}
@@ -264,9 +332,14 @@ export default function ExploreScreen() {
         style={[styles.fab, { backgroundColor: colors.primary }]}
         onPress={handleCreateRoute}
         activeOpacity={0.8}
+        disabled={isImporting}
       >
-        <Text style={styles.fabIcon}>+</Text>
-        <Text style={styles.fabText}>Create</Text>
+        {isImporting ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.fabIcon}>+</Text>
+        )}
+        <Text style={styles.fabText}>{isImporting ? 'Importing' : 'Create'}</Text>
       </TouchableOpacity>
     </SafeAreaView>
   );
@@ -362,6 +435,14 @@ const styles = StyleSheet.create({
   emptySubtext: {
     fontSize: 14,
   },
+  loadMore: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   fab: {
     position: 'absolute',
     bottom: 24,
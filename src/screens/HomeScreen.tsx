@@ -5,16 +5,17 @@
  * - Header: Avatar (left) + ThemeToggle (right)
  * - Greeting: "Good [morning/afternoon/evening], {user.name}"
  * - SearchBar
- * - Featured Routes Carousel (horizontal scroll)
+ * - Featured Routes Carousel (horizontal scroll); routes crossing an active
+ *   safety alert carry a warning badge
  * - 2x2 Feature Grid (Explore, Safety, News, Profile)
  *
  * INTERACTIONS:
- * - Pull-to-refresh refreshes mock feed
+ * - Pull-to-refresh refetches featured routes (bypassing the cache)
  * - Tapping featured route navigates to RouteDetails
  * - Feature cards navigate to respective screens
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -24,6 +25,7 @@ import {
   RefreshControl,
   Dimensions,
   Image,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -33,7 +35,11 @@ import type { NavigationProp } from '@react-navigation/native';
 import type { MainTabParamList } from '../navigation/types';
 import { useAuth } from '../contexts/auth/AuthContext';
 import { ThemeToggle, SearchBar, Avatar } from '../components';
-import { FEATURED_ROUTES, MOCK_USER } from '../data/mockData';
+import { useFormatter } from '../hooks/useFormatter';
+import { useSafetyAlerts } from '../hooks/useSafetyAlerts';
+import { MOCK_USER } from '../data/mockData';
+import { fetchFeaturedRoutes } from '../services/routesService';
+import type { Route } from '../services/routesService';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CARD_WIDTH = SCREEN_WIDTH - 48;
@@ -48,16 +54,32 @@ const getGreeting = (): string => {
 export default function HomeScreen() {
   const colors = useThemeColors();
   const { user } = useAuth();
+  const format = useFormatter();
 
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [routes, setRoutes] = useState(FEATURED_ROUTES);
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [loadingRoutes, setLoadingRoutes] = useState(true);
+  const { routeAlerts } = useSafetyAlerts({ routes });
+
+  const loadRoutes = useCallback(async (forceRefresh = false) => {
+    try {
+      setRoutes(await fetchFeaturedRoutes({ forceRefresh }));
+    } catch (error) {
+      // apiService already surfaced the error; keep whatever is on screen
+      if (__DEV__) console.warn('Failed to load featured routes:', error);
+    } finally {
+      setLoadingRoutes(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRoutes();
+  }, [loadRoutes]);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    setRoutes([...FEATURED_ROUTES]);
+    await loadRoutes(true);
     setRefreshing(false);
   };
 
@@ -78,18 +100,6 @@ export default function HomeScreen() {
     navigation.navigate(tab as any);
   };
 
-  const formatDistance = (meters: number): string => {
-    const km = meters / 1000;
-    return km < 1 ? `${meters}m` : `${km.toFixed(1)}km`;
-  };
-
-  const formatDuration = (minutes: number): string => {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    if (hours === 0) return `${mins}min`;
-    return mins === 0 ? `${hours}h` : `${hours}h ${mins}min`;
-  };
-
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       <ScrollView
@@ -138,48 +148,79 @@ export default function HomeScreen() {
             snapToInterval={CARD_WIDTH + 16}
             decelerationRate="fast"
           >
-            {routes.map(route => (
-              <TouchableOpacity
-                key={route.id}
-                onPress={() => handleRoutePress(route.id)}
-                style={[styles.featuredCard, { backgroundColor: colors.card }]}
-                activeOpacity={0.9}
-              >
-                <Image
-                  source={{ uri: route.thumbnailUrl }}
-                  style={styles.featuredImage}
-                  resizeMode="cover"
-                />
-                <View style={styles.featuredOverlay}>
-                  <View style={styles.featuredContent}>
-                    <Text style={styles.featuredTitle} numberOfLines={2}>
-                      {route.title}
-                    </Text>
-                    <Text style={styles.featuredLocation} numberOfLines={1}>
-                      📍 {route.location}
-                    </Text>
-                    <View style={styles.featuredStats}>
-                      <Text style={styles.featuredStat}>
-                        🚶 {formatDistance(route.distanceMeters)}
+            {loadingRoutes && routes.length === 0 && (
+              <View style={styles.carouselLoading}>
+                <ActivityIndicator color={colors.primary} />
+              </View>
+            )}
+            {routes.map(route => {
+              const alert = routeAlerts[route.id]?.[0]?.alert;
+              return (
+                <TouchableOpacity
+                  key={route.id}
+                  onPress={() => handleRoutePress(route.id)}
+                  style={[styles.featuredCard, { backgroundColor: colors.card }]}
+                  activeOpacity={0.9}
+                >
+                  <Image
+                    source={{ uri: route.imageUrl }}
+                    style={styles.featuredImage}
+                    resizeMode="cover"
+                  />
+                  <View style={styles.featuredOverlay}>
+                    <View style={styles.featuredContent}>
+                      <Text style={styles.featuredTitle} numberOfLines={2}>
+                        {route.title}
                       </Text>
-                      <Text style={styles.featuredStat}>•</Text>
-                      <Text style={styles.featuredStat}>
-                        ⏱️ {formatDuration(route.estimatedMinutes)}
+                      <Text style={styles.featuredLocation} numberOfLines={1}>
+                        📍 {route.city}
                       </Text>
-                      <Text style={styles.featuredStat}>•</Text>
-                      <Text style={styles.featuredStat}>⭐ {route.rating}</Text>
-                    </View>
-                    <View style={styles.tagsRow}>
-                      {route.tags.slice(0, 3).map((tag, index) => (
-                        <View key={index} style={styles.tag}>
-                          <Text style={styles.tagText}>{tag}</Text>
-                        </View>
-                      ))}
+                      <View style={styles.featuredStats}>
+                        <Text style={styles.featuredStat}>
+                          🚶 {format.distance(route.distanceMeters)}
+                        </Text>
+                        <Text style={styles.featuredStat}>•</Text>
+                        <Text style={styles.featuredStat}>
+                          ⏱️ {format.duration(route.durationMinutes * 60)}
+                        </Text>
+                        <Text style={styles.featuredStat}>•</Text>
+                        <Text style={styles.featuredStat}>⭐ {route.averageRating}</Text>
+                      </View>
+                      <View style={styles.tagsRow}>
+                        {route.tags.slice(0, 3).map((tag, index) => (
+                          <View key={index} style={styles.tag}>
+                            <Text style={styles.tagText}>{tag}</Text>
+                          </View>
+                        ))}
+                      </View>
                     </View>
                   </View>
-                </View>
-              </TouchableOpacity>
-            ))}
+                  {alert && (
+                    <View
+                      style={[
+                        styles.alertBadge,
+                        {
+                          backgroundColor:
+                            alert.severity === 'info'
+                              ? colors.info
+                              : alert.severity === 'warning'
+                                ? colors.warning
+                                : colors.error,
+                        },
+                      ]}
+                      accessibilityLabel={`Safety alert: ${alert.title}`}
+                    >
+                      <Text
+                        style={[styles.alertBadgeText, { color: colors.buttonText }]}
+                        numberOfLines={1}
+                      >
+                        ⚠️ {alert.title}
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
           </ScrollView>
         </View>
 
@@ -312,6 +353,12 @@ const styles = StyleSheet.create({
     marginRight: 16,
     overflow: 'hidden',
   },
+  carouselLoading: {
+    width: CARD_WIDTH,
+    height: 240,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   featuredImage: {
     width: '100%',
     height: '100%',
@@ -324,6 +371,19 @@ const styles = StyleSheet.create({
   featuredContent: {
     padding: 16,
   },
+  alertBadge: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    maxWidth: CARD_WIDTH - 24,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  alertBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
   featuredTitle: {
     fontSize: 20,
     fontWeight: 'bold',
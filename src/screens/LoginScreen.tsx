@@ -6,7 +6,6 @@
  *
  * TODO: Integrate expo-auth-session for Google OAuth2 flow
  * TODO: Integrate expo-apple-authentication for Apple Sign-In
- * TODO: Add form validation with proper error handling
  * TODO: Implement "Remember Me" functionality
  * TODO: Add "Forgot Password" flow with email reset
  */
@@ -18,7 +17,6 @@ import {
   TextInput,
   TouchableOpacity,
   StyleSheet,
-  Alert,
   KeyboardAvoidingView,
   Platform,
   ScrollView,
@@ -26,38 +24,62 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeColors } from '../contexts';
-import { useAuth, SignInMethod } from '../contexts/auth/AuthContext';
-import { useNavigation } from '@react-navigation/native';
-import { StackNavigationProp } from '@react-navigation/stack';
-import { RootStackParamList } from '../types';
+import {
+  useAuth,
+  SignInMethod,
+  USE_MOCK_AUTH,
+  DEMO_CREDENTIALS,
+} from '../contexts/auth/AuthContext';
+import { toAuthError } from '../services/authService';
+import type { AuthFieldErrors } from '../services/authService';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { AuthStackParamList } from '../navigation/types';
 
 export default function LoginScreen() {
   const colors = useThemeColors();
-  const { signInMock, isAuthenticating } = useAuth();
-  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const { signIn, isAuthenticating } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<AuthStackParamList, 'Login'>>();
+  // Set when a deep link was deferred until sign-in; RootNavigator opens it afterwards
+  const { redirectTo } = useRoute<RouteProp<AuthStackParamList, 'Login'>>().params ?? {};
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [errors, setErrors] = useState<AuthFieldErrors>({});
 
   const handleEmailSignIn = async () => {
+    setErrors({});
     try {
-      await signInMock('email', { email, password });
+      await signIn('email', { email, password });
     } catch (error) {
-      Alert.alert('Sign In Failed', 'Please check your credentials and try again.');
+      setErrors(toAuthError(error).fields);
     }
   };
 
   const handleSocialSignIn = async (method: SignInMethod) => {
+    setErrors({});
     try {
       // TODO: Integrate actual social authentication
       // For Google: Use expo-auth-session with Google OAuth2
       // For Apple: Use expo-apple-authentication
 
-      await signInMock(method, {});
+      await signIn(method, {});
     } catch (error) {
-      Alert.alert('Sign In Failed', `Failed to sign in with ${method}. Please try again.`);
+      setErrors(toAuthError(error).fields);
     }
   };
 
+  // Editing a field clears its message and any form-level message
+  const handleEmailChange = (value: string) => {
+    setEmail(value);
+    setErrors(prev => ({ ...prev, email: undefined, form: undefined }));
+  };
+
+  const handlePasswordChange = (value: string) => {
+    setPassword(value);
+    setErrors(prev => ({ ...prev, password: undefined, form: undefined }));
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       <KeyboardAvoidingView
@@ -73,24 +95,30 @@ export default function LoginScreen() {
           <View style={styles.header}>
             <Text style={[styles.title, { color: colors.textPrimary }]}>Welcome Back</Text>
             <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
-              Sign in to continue your travel journey
+              {redirectTo
+                ? 'Sign in to open the link you followed'
+                : 'Sign in to continue your travel journey'}
             </Text>
 
-            {/* Demo Credentials Box */}
-            <View
-              style={[
-                styles.demoBox,
-                { backgroundColor: colors.card, borderColor: colors.primary },
-              ]}
-            >
-              <Text style={[styles.demoTitle, { color: colors.primary }]}>🎉 Demo Credentials</Text>
-              <Text style={[styles.demoText, { color: colors.textSecondary }]}>
-                Email: demo@waytrove.com
-              </Text>
-              <Text style={[styles.demoText, { color: colors.textSecondary }]}>
-                Password: demo123
-              </Text>
-            </View>
+            {/* Demo Credentials Box (mock auth only) */}
+            {USE_MOCK_AUTH ? (
+              <View
+                style={[
+                  styles.demoBox,
+                  { backgroundColor: colors.card, borderColor: colors.primary },
+                ]}
+              >
+                <Text style={[styles.demoTitle, { color: colors.primary }]}>
+                  🎉 Demo Credentials
+                </Text>
+                <Text style={[styles.demoText, { color: colors.textSecondary }]}>
+                  Email: {DEMO_CREDENTIALS.email}
+                </Text>
+                <Text style={[styles.demoText, { color: colors.textSecondary }]}>
+                  Password: {DEMO_CREDENTIALS.password}
+                </Text>
+              </View>
+            ) : null}
           </View>
 
           {/* Social Sign In */}
@@ -138,12 +166,12 @@ export default function LoginScreen() {
                   styles.input,
                   {
                     backgroundColor: colors.card,
-                    borderColor: colors.border,
+                    borderColor: errors.email ? colors.error : colors.border,
                     color: colors.textPrimary,
                   },
                 ]}
                 value={email}
-                onChangeText={setEmail}
+                onChangeText={handleEmailChange}
                 placeholder="Enter your email"
                 placeholderTextColor={colors.muted}
                 keyboardType="email-address"
@@ -151,6 +179,14 @@ export default function LoginScreen() {
                 autoCorrect={false}
                 editable={!isAuthenticating}
               />
+              {errors.email ? (
+                <Text
+                  style={[styles.fieldError, { color: colors.error }]}
+                  accessibilityRole="alert"
+                >
+                  {errors.email}
+                </Text>
+              ) : null}
             </View>
 
             <View style={styles.inputContainer}>
@@ -160,19 +196,33 @@ export default function LoginScreen() {
                   styles.input,
                   {
                     backgroundColor: colors.card,
-                    borderColor: colors.border,
+                    borderColor: errors.password ? colors.error : colors.border,
                     color: colors.textPrimary,
                   },
                 ]}
                 value={password}
-                onChangeText={setPassword}
+                onChangeText={handlePasswordChange}
                 placeholder="Enter your password"
                 placeholderTextColor={colors.muted}
                 secureTextEntry
                 editable={!isAuthenticating}
               />
+              {errors.password ? (
+                <Text
+                  style={[styles.fieldError, { color: colors.error }]}
+                  accessibilityRole="alert"
+                >
+                  {errors.password}
+                </Text>
+              ) : null}
             </View>
 
+            {errors.form ? (
+              <Text style={[styles.formError, { color: colors.error }]} accessibilityRole="alert">
+                {errors.form}
+              </Text>
+            ) : null}
+
             <TouchableOpacity
               style={[
                 styles.signInButton,
@@ -202,7 +252,7 @@ export default function LoginScreen() {
               Don't have an account?{' '}
               <Text
                 style={[styles.signUpLink, { color: colors.primary }]}
-                onPress={() => (navigation as any).navigate('Auth', { screen: 'Register' })}
+                onPress={() => navigation.navigate('Register', {})}
               >
                 Sign Up
               </Text>
@@ -288,6 +338,15 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     fontSize: 16,
   },
+  fieldError: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formError: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   signInButton: {
     paddingVertical: 14,
     borderRadius: 8,
@@ -11,6 +11,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { useFormatter } from '../hooks/useFormatter';
 import type { RootStackParamList } from '../navigation/types';
 import type { StackScreenProps } from '@react-navigation/stack';
 
@@ -50,6 +51,7 @@ const FLAG_REASONS = [
 
 export default function NewsDetailsScreen({ route, navigation }: Props) {
   const colors = useThemeColors();
+  const format = useFormatter();
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const { newsId } = route.params || { newsId: 'news-1' };
 
@@ -78,20 +80,6 @@ export default function NewsDetailsScreen({ route, navigation }: Props) {
     );
   };
 
-  const formatTimeAgo = (timestamp: string): string => {
-    const now = new Date();
-    const publishTime = new Date(timestamp);
-    const diffMs = now.getTime() - publishTime.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    const diffHours = Math.floor(diffMins / 60);
-    if (diffHours < 24) return `${diffHours}h ago`;
-    const diffDays = Math.floor(diffHours / 24);
-    return `${diffDays}d ago`;
-  };
-
   const getSentimentIcon = (): string => {
     if (MOCK_ARTICLE.sentiment === 1) return '😊';
     if (MOCK_ARTICLE.sentiment === -1) return '😟';
@@ -182,7 +170,7 @@ export default function NewsDetailsScreen({ route, navigation }: Props) {
                   style={[styles.sourceName, { color: colors.textSecondary }]}
                 >
                   {MOCK_ARTICLE.source} •{' '}
-                  {formatTimeAgo(MOCK_ARTICLE.publishedAt)}
+                  {format.relativeTime(MOCK_ARTICLE.publishedAt)}
                 </Text>
               </View>
             </View>
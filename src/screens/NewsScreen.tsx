@@ -12,6 +12,10 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
 import { ThemeToggle } from '../components/ThemeToggle';
 import { PillChip } from '../components/chips/PillChip';
+import { SyncBadge } from '../components/SyncBadge';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { useFormatter } from '../hooks/useFormatter';
+import type { OutboxSyncStatus } from '../services/offlineQueue';
 import { NEWS_ITEMS } from '../data/mockData';
 import type { NewsItem } from '../data/mockData';
 
@@ -22,6 +26,8 @@ interface ArticleCardProps extends NewsItem {
   onPress: () => void;
   onToggleBookmark: () => void;
   isBookmarked: boolean;
+  syncStatus: OutboxSyncStatus;
+  onRetrySync: () => void;
 }
 
 const ArticleCard: React.FC<ArticleCardProps> = ({
@@ -36,22 +42,11 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
   onPress,
   onToggleBookmark,
   isBookmarked,
+  syncStatus,
+  onRetrySync,
 }) => {
   const colors = useThemeColors();
-
-  const formatTimeAgo = (timestamp: string): string => {
-    const now = new Date();
-    const publishTime = new Date(timestamp);
-    const diffMs = now.getTime() - publishTime.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    const diffHours = Math.floor(diffMins / 60);
-    if (diffHours < 24) return `${diffHours}h ago`;
-    const diffDays = Math.floor(diffHours / 24);
-    return `${diffDays}d ago`;
-  };
+  const format = useFormatter();
 
   const getCategoryColor = (): string => {
     switch (category) {
@@ -128,10 +123,11 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
           <View style={styles.metaLeft}>
             <Text style={[styles.articleSource, { color: colors.textTertiary }]}>{source}</Text>
             <Text style={[styles.articleTime, { color: colors.textTertiary }]}>
-              • {formatTimeAgo(publishedAt)}
+              • {format.relativeTime(publishedAt)}
             </Text>
           </View>
           <View style={styles.metaRight}>
+            <SyncBadge status={syncStatus} onRetry={onRetrySync} compact />
             <Text style={styles.sentimentIcon}>{getSentimentIcon()}</Text>
             <TouchableOpacity
               onPress={onToggleBookmark}
@@ -152,6 +148,7 @@ export default function NewsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [readArticles, setReadArticles] = useState<Set<string>>(new Set());
   const [bookmarkedArticles, setBookmarkedArticles] = useState<Set<string>>(new Set());
+  const { submit, statusFor, retryFailed } = useOfflineQueue();
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
@@ -168,6 +165,7 @@ export default function NewsScreen() {
   };
 
   const handleToggleBookmark = (articleId: string) => {
+    submit({ type: 'saveNews', newsId: articleId, isSaved: !bookmarkedArticles.has(articleId) });
     setBookmarkedArticles(prev => {
       const newSet = new Set(prev);
       if (newSet.has(articleId)) {
@@ -293,6 +291,8 @@ export default function NewsScreen() {
                 onPress={() => handleArticlePress(article.id)}
                 onToggleBookmark={() => handleToggleBookmark(article.id)}
                 isBookmarked={bookmarkedArticles.has(article.id)}
+                syncStatus={statusFor(`news:${article.id}`)}
+                onRetrySync={() => retryFailed()}
               />
             ))}
           </>
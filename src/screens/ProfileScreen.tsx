@@ -5,15 +5,40 @@ import { useThemeColors } from '../contexts/theme/ThemeContext';
 import { useAuth } from '../contexts/auth/AuthContext';
 import { ThemeToggle } from '../components/ThemeToggle';
 import { Avatar } from '../components/Avatar';
+import { SegmentedControl } from '../components/SegmentedControl';
+import { WalkActivityChart } from '../components/WalkActivityChart';
+import { useWalkStats } from '../hooks/useWalkStats';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { useFormatter } from '../hooks/useFormatter';
+import type { StatsPeriod, WalkBreakdownEntry } from '../utils/walkStats';
 import { MOCK_USER } from '../data/mockData';
+import { APP_CONFIG } from '../utils/constants';
 import { useNavigation } from '@react-navigation/native';
 import type { NavigationProp } from '@react-navigation/native';
 import type { ProfileStackParamList } from '../navigation/types';
 
+const STATS_PERIODS: StatsPeriod[] = ['week', 'month', 'all'];
+const STATS_PERIOD_LABELS = ['Week', 'Month', 'All Time'];
+const EMPTY_PERIOD_TEXT: Record<StatsPeriod, string> = {
+  week: 'No walks this week yet.',
+  month: 'No walks this month yet.',
+  all: 'No walks yet.',
+};
+// Longest breakdown lists shown on the profile
+const MAX_BREAKDOWN_ENTRIES = 5;
+
+const LANGUAGE_NAMES: Record<string, string> = APP_CONFIG.LANGUAGE_NAMES;
+const languageName = (language?: string): string =>
+  (language && LANGUAGE_NAMES[language]) ?? 'Device language';
+
 export default function ProfileScreen() {
   const colors = useThemeColors();
-  const { signOut } = useAuth();
+  const { user, signOut } = useAuth();
+  const outbox = useOfflineQueue();
   const navigation = useNavigation<NavigationProp<ProfileStackParamList>>();
+  const format = useFormatter();
+  const [statsPeriod, setStatsPeriod] = useState<StatsPeriod>('week');
+  const { stats } = useWalkStats(statsPeriod);
   const [safetyAlerts, setSafetyAlerts] = useState(
     MOCK_USER.preferences.notifications.safetyAlerts
   );
@@ -25,15 +50,25 @@ export default function ProfileScreen() {
   );
 
   const handleSignOut = () => {
-    Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
+    // Signing out discards the outbox; say what would be lost
+    const unsent = outbox.entries.length;
+    const hasSos = outbox.entries.some(entry => entry.mutation.type === 'reportSos');
+    const message =
+      unsent === 0
+        ? 'Are you sure you want to sign out?'
+        : `${unsent} ${unsent === 1 ? 'change has' : 'changes have'} not been sent yet${
+            hasSos ? ', including an emergency alert' : ''
+          }. Signing out now discards ${unsent === 1 ? 'it' : 'them'}.`;
+
+    Alert.alert(unsent === 0 ? 'Sign Out' : 'Unsent Changes', message, [
       {
         text: 'Cancel',
         style: 'cancel',
       },
       {
-        text: 'Sign Out',
+        text: unsent === 0 ? 'Sign Out' : 'Sign Out Anyway',
         style: 'destructive',
-        onPress: signOut,
+        onPress: () => void signOut(),
       },
     ]);
   };
@@ -47,6 +82,37 @@ export default function ProfileScreen() {
     Alert.alert(setting, `${setting} settings coming soon!`);
   };
 
+  const renderBreakdown = (title: string, entries: WalkBreakdownEntry[]) => {
+    const mostWalks = entries[0]?.walks ?? 0;
+    return (
+      <View style={[styles.statsPanel, { backgroundColor: colors.card }]}>
+        <Text style={[styles.panelTitle, { color: colors.textPrimary }]}>{title}</Text>
+        {entries.slice(0, MAX_BREAKDOWN_ENTRIES).map(entry => (
+          <View key={entry.key} style={styles.breakdownRow}>
+            <View style={styles.breakdownHeader}>
+              <Text style={[styles.breakdownName, { color: colors.textPrimary }]}>{entry.key}</Text>
+              <Text style={[styles.breakdownValue, { color: colors.textSecondary }]}>
+                {entry.walks} {entry.walks === 1 ? 'walk' : 'walks'} •{' '}
+                {format.distance(entry.distanceMeters)}
+              </Text>
+            </View>
+            <View style={[styles.breakdownTrack, { backgroundColor: colors.border }]}>
+              <View
+                style={[
+                  styles.breakdownFill,
+                  {
+                    backgroundColor: colors.primary,
+                    width: `${mostWalks > 0 ? (entry.walks / mostWalks) * 100 : 0}%`,
+                  },
+                ]}
+              />
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   return (
     <SafeAreaView
       style={[styles.container, { backgroundColor: colors.background }]}
@@ -102,32 +168,72 @@ export default function ProfileScreen() {
           )}
         </View>
 
-        {/* Stats Grid */}
-        <View style={styles.statsGrid}>
-          <View style={[styles.statCard, { backgroundColor: colors.card }]}>
-            <Text style={[styles.statNumber, { color: colors.primary }]}>
-              {MOCK_USER.stats.routesCreated}
-            </Text>
-            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Routes Created</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: colors.card }]}>
-            <Text style={[styles.statNumber, { color: colors.success }]}>
-              {MOCK_USER.stats.savedRoutes}
-            </Text>
-            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Saved Routes</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: colors.card }]}>
-            <Text style={[styles.statNumber, { color: colors.accent }]}>
-              {MOCK_USER.stats.followers}
-            </Text>
-            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Followers</Text>
+        {/* Walking Stats */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Walking Stats</Text>
+          <SegmentedControl
+            segments={STATS_PERIOD_LABELS}
+            selectedIndex={STATS_PERIODS.indexOf(statsPeriod)}
+            onChange={index => setStatsPeriod(STATS_PERIODS[index] ?? 'week')}
+          />
+
+          <View style={styles.statsGrid}>
+            <View style={[styles.statCard, { backgroundColor: colors.card }]}>
+              <Text style={[styles.statNumber, { color: colors.primary }]}>
+                {stats.totals.walks}
+              </Text>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Walks</Text>
+            </View>
+            <View style={[styles.statCard, { backgroundColor: colors.card }]}>
+              <Text
+                style={[styles.statNumber, { color: colors.success }]}
+                numberOfLines={1}
+                adjustsFontSizeToFit
+              >
+                {format.distance(stats.totals.distanceMeters)}
+              </Text>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Distance</Text>
+            </View>
+            <View style={[styles.statCard, { backgroundColor: colors.card }]}>
+              <Text
+                style={[styles.statNumber, { color: colors.accent }]}
+                numberOfLines={1}
+                adjustsFontSizeToFit
+              >
+                {stats.totals.durationSeconds > 0
+                  ? format.duration(stats.totals.durationSeconds)
+                  : '0 min'}
+              </Text>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Time Walking</Text>
+            </View>
+            <View style={[styles.statCard, { backgroundColor: colors.card }]}>
+              <Text style={[styles.statNumber, { color: colors.info }]}>
+                🔥 {stats.streaks.current}
+              </Text>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                Day Streak • Best {stats.streaks.longest}
+              </Text>
+            </View>
           </View>
-          <View style={[styles.statCard, { backgroundColor: colors.card }]}>
-            <Text style={[styles.statNumber, { color: colors.info }]}>
-              {MOCK_USER.stats.following}
-            </Text>
-            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Following</Text>
+
+          <View style={[styles.statsPanel, { backgroundColor: colors.card }]}>
+            <Text style={[styles.panelTitle, { color: colors.textPrimary }]}>Activity</Text>
+            {stats.totals.walks > 0 ? (
+              <WalkActivityChart buckets={stats.buckets} />
+            ) : (
+              <Text style={[styles.emptyStatsText, { color: colors.textSecondary }]}>
+                {EMPTY_PERIOD_TEXT[statsPeriod]} Finish a route to see it here.
+              </Text>
+            )}
+            {stats.averageRating !== null && (
+              <Text style={[styles.panelFootnote, { color: colors.textSecondary }]}>
+                Average rating ★ {stats.averageRating.toFixed(1)}
+              </Text>
+            )}
           </View>
+
+          {stats.byCity.length > 0 && renderBreakdown('Cities', stats.byCity)}
+          {stats.byCategory.length > 0 && renderBreakdown('Categories', stats.byCategory)}
         </View>
 
         {/* Account Section */}
@@ -273,7 +379,7 @@ export default function ProfileScreen() {
           <View style={[styles.settingsCard, { backgroundColor: colors.card }]}>
             <TouchableOpacity
               style={styles.settingItem}
-              onPress={() => handleSettingPress('Language')}
+              onPress={() => navigation.navigate('EditProfile')}
             >
               <View style={styles.settingLeft}>
                 <View style={[styles.settingIcon, { backgroundColor: `${colors.primary}20` }]}>
@@ -282,7 +388,9 @@ export default function ProfileScreen() {
                 <Text style={[styles.settingText, { color: colors.textPrimary }]}>Language</Text>
               </View>
               <View style={styles.settingRight}>
-                <Text style={[styles.settingValue, { color: colors.textSecondary }]}>English</Text>
+                <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+                  {languageName(user?.preferences?.language)}
+                </Text>
                 <Text style={[styles.settingArrow, { color: colors.textTertiary }]}>›</Text>
               </View>
             </TouchableOpacity>
@@ -301,7 +409,7 @@ export default function ProfileScreen() {
               </View>
               <View style={styles.settingRight}>
                 <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
-                  {MOCK_USER.preferences.units === 'metric' ? 'Metric' : 'Imperial'}
+                  {user?.preferences?.units === 'imperial' ? 'Imperial' : 'Metric'}
                 </Text>
                 <Text style={[styles.settingArrow, { color: colors.textTertiary }]}>›</Text>
               </View>
@@ -462,7 +570,8 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     flexWrap: 'wrap',
     marginHorizontal: -6,
-    marginBottom: 24,
+    marginTop: 12,
+    marginBottom: 12,
   },
   statCard: {
     width: '48%',
@@ -485,6 +594,53 @@ const styles = StyleSheet.create({
     fontSize: 12,
     textAlign: 'center',
   },
+  statsPanel: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  panelTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  panelFootnote: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  emptyStatsText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  breakdownRow: {
+    marginBottom: 12,
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  breakdownName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  breakdownValue: {
+    fontSize: 12,
+  },
+  breakdownTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  breakdownFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
   section: {
     marginBottom: 24,
   },
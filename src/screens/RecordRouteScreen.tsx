@@ -0,0 +1,523 @@
+/**
+ * RecordRouteScreen - Record a walk as a new route
+ *
+ * LAYOUT:
+ * - Header with back button
+ * - Before starting: short explanation and a Start Recording button
+ * - While recording: status, live stats (distance, time, climb),
+ *   Pause/Resume and Add Waypoint controls, list of dropped waypoints
+ * - Finish form: title, description, category chips, public switch, Save/Discard
+ *
+ * INTERACTIONS:
+ * - Fixes come from useRouteRecording; the recording is stored on the device,
+ *   so leaving the screen or closing the app does not lose it and it picks up
+ *   again when the screen is reopened
+ * - Losing location access pauses the recording and shows why
+ * - Saving creates the route through routesService.createRoute
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import type { StackScreenProps } from '@react-navigation/stack';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { PrimaryButton, PillChip, ThemedTextInput } from '../components';
+import { useRouteRecording } from '../hooks/useRouteRecording';
+import { useFormatter } from '../hooks/useFormatter';
+import type { RootStackParamList } from '../navigation/types';
+
+type Props = StackScreenProps<RootStackParamList, 'RecordRoute'>;
+
+// Same categories as the Explore filters
+const CATEGORIES = ['Culture', 'Nature', 'Food', 'Adventure'] as const;
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+export default function RecordRouteScreen({ navigation }: Props) {
+  const colors = useThemeColors();
+  const format = useFormatter();
+  const {
+    recording,
+    stats,
+    isRestoring,
+    error,
+    start,
+    pause,
+    resume,
+    addWaypoint,
+    discard,
+    finish,
+  } = useRouteRecording();
+
+  const [isWaypointFormOpen, setIsWaypointFormOpen] = useState(false);
+  const [waypointName, setWaypointName] = useState('');
+  const [waypointNote, setWaypointNote] = useState('');
+
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<string>(CATEGORIES[0]);
+  const [isPublic, setIsPublic] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isRecording = recording?.status === 'recording';
+
+  const handleAddWaypoint = () => {
+    try {
+      addWaypoint(waypointName, waypointNote);
+      setWaypointName('');
+      setWaypointNote('');
+      setIsWaypointFormOpen(false);
+    } catch (waypointError) {
+      if (waypointError instanceof Error) Alert.alert('No Location Yet', waypointError.message);
+    }
+  };
+
+  const handleFinish = () => {
+    pause();
+    setIsFinishing(true);
+  };
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      Alert.alert('Title Required', 'Give your walk a name before saving it.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const route = await finish({ title, description, category, isPublic });
+      Alert.alert('Route Saved', `"${route.title}" has been added to your routes.`);
+      navigation.goBack();
+    } catch (saveError) {
+      // API failures are already shown as a toast by apiService
+      if (saveError instanceof Error) Alert.alert('Could Not Save', saveError.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    Alert.alert('Discard Recording?', 'The path and waypoints you recorded will be lost.', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => {
+          setIsFinishing(false);
+          void discard();
+        },
+      },
+    ]);
+  };
+
+  const renderStats = () => (
+    <View style={[styles.statsCard, { backgroundColor: colors.card }]}>
+      <View style={styles.stat}>
+        <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Distance</Text>
+        <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+          {format.distance(stats?.distanceMeters ?? 0)}
+        </Text>
+      </View>
+      <View style={[styles.statDivider, { backgroundColor: colors.border }]} />
+      <View style={styles.stat}>
+        <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Time</Text>
+        <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+          {formatElapsed(stats?.durationMs ?? 0)}
+        </Text>
+      </View>
+      <View style={[styles.statDivider, { backgroundColor: colors.border }]} />
+      <View style={styles.stat}>
+        <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Climb</Text>
+        <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+          {format.elevation(stats?.elevationGain ?? 0)}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderWaypointForm = () => (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <Text style={[styles.cardTitle, { color: colors.textPrimary }]}>Add Waypoint</Text>
+      <ThemedTextInput
+        label="Waypoint name"
+        placeholder="Name (e.g. Viewpoint)"
+        value={waypointName}
+        onChangeText={setWaypointName}
+      />
+      <ThemedTextInput
+        label="Waypoint note"
+        placeholder="Note (optional)"
+        value={waypointNote}
+        onChangeText={setWaypointNote}
+        multiline
+      />
+      <View style={styles.formActions}>
+        <TouchableOpacity onPress={() => setIsWaypointFormOpen(false)} style={styles.textButton}>
+          <Text style={[styles.textButtonLabel, { color: colors.textSecondary }]}>Cancel</Text>
+        </TouchableOpacity>
+        <PrimaryButton label="Drop Here" onPress={handleAddWaypoint} style={styles.formButton} />
+      </View>
+    </View>
+  );
+
+  const renderFinishForm = () => (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <Text style={[styles.cardTitle, { color: colors.textPrimary }]}>Save Route</Text>
+      <ThemedTextInput
+        label="Route title"
+        placeholder="Title"
+        value={title}
+        onChangeText={setTitle}
+      />
+      <ThemedTextInput
+        label="Route description"
+        placeholder="Description (optional)"
+        value={description}
+        onChangeText={setDescription}
+        multiline
+      />
+
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Category</Text>
+      <View style={styles.chips}>
+        {CATEGORIES.map(option => (
+          <PillChip
+            key={option}
+            label={option}
+            selected={category === option}
+            onToggle={() => setCategory(option)}
+          />
+        ))}
+      </View>
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchText}>
+          <Text style={[styles.switchLabel, { color: colors.textPrimary }]}>Public route</Text>
+          <Text style={[styles.switchHint, { color: colors.textTertiary }]}>
+            Other walkers can find it in Explore
+          </Text>
+        </View>
+        <Switch value={isPublic} onValueChange={setIsPublic} />
+      </View>
+
+      <PrimaryButton label="Save Route" onPress={handleSave} loading={isSaving} />
+      <View style={styles.formActions}>
+        <TouchableOpacity onPress={() => setIsFinishing(false)} style={styles.textButton}>
+          <Text style={[styles.textButtonLabel, { color: colors.textSecondary }]}>
+            Back to Recording
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleDiscard} style={styles.textButton}>
+          <Text style={[styles.textButtonLabel, { color: colors.error }]}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderRecording = () => (
+    <>
+      <View style={styles.statusRow}>
+        <View
+          style={[
+            styles.statusDot,
+            { backgroundColor: isRecording ? colors.error : colors.textTertiary },
+          ]}
+        />
+        <Text style={[styles.statusText, { color: colors.textPrimary }]}>
+          {isRecording ? 'Recording' : 'Paused'}
+        </Text>
+      </View>
+
+      {renderStats()}
+
+      {error && (
+        <View style={[styles.errorCard, { backgroundColor: `${colors.error}15` }]}>
+          <Text style={[styles.errorText, { color: colors.error }]}>{error.message}</Text>
+        </View>
+      )}
+
+      {isFinishing ? (
+        renderFinishForm()
+      ) : (
+        <>
+          <View style={styles.controls}>
+            <TouchableOpacity
+              style={[styles.controlButton, { backgroundColor: colors.card }]}
+              onPress={() => (isRecording ? pause() : void resume())}
+            >
+              <Text style={[styles.controlLabel, { color: colors.textPrimary }]}>
+                {isRecording ? '⏸ Pause' : '▶ Resume'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, { backgroundColor: colors.card }]}
+              onPress={() => setIsWaypointFormOpen(true)}
+            >
+              <Text style={[styles.controlLabel, { color: colors.textPrimary }]}>
+                📍 Add Waypoint
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {isWaypointFormOpen && renderWaypointForm()}
+
+          <PrimaryButton label="Finish" onPress={handleFinish} style={styles.finishButton} />
+        </>
+      )}
+
+      {recording && recording.waypoints.length > 0 && (
+        <View style={[styles.card, { backgroundColor: colors.card }]}>
+          <Text style={[styles.cardTitle, { color: colors.textPrimary }]}>
+            Waypoints ({recording.waypoints.length})
+          </Text>
+          {recording.waypoints.map(waypoint => (
+            <View key={waypoint.id} style={[styles.waypointRow, { borderTopColor: colors.border }]}>
+              <Text style={[styles.waypointName, { color: colors.textPrimary }]}>
+                📍 {waypoint.name}
+              </Text>
+              {waypoint.note && (
+                <Text style={[styles.waypointNote, { color: colors.textSecondary }]}>
+                  {waypoint.note}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+    </>
+  );
+
+  const renderIntro = () => (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <Text style={styles.introIcon}>🥾</Text>
+      <Text style={[styles.cardTitle, { color: colors.textPrimary }]}>Record a walk</Text>
+      <Text style={[styles.introText, { color: colors.textSecondary }]}>
+        Your path is traced from GPS as you walk. Pause whenever you stop, drop waypoints at places
+        worth sharing, and save it as a route when you are done.
+      </Text>
+      <PrimaryButton label="Start Recording" onPress={() => void start()} />
+    </View>
+  );
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      edges={['top']}
+    >
+      <View
+        style={[styles.header, { backgroundColor: colors.card, borderBottomColor: colors.border }]}
+      >
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={[styles.backText, { color: colors.primary }]}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>Record Walk</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {isRestoring ? (
+          <ActivityIndicator color={colors.primary} style={styles.loader} />
+        ) : recording ? (
+          renderRecording()
+        ) : (
+          renderIntro()
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+  },
+  backText: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  introIcon: {
+    fontSize: 40,
+  },
+  introText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  statusText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  statsCard: {
+    flexDirection: 'row',
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statLabel: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  statDivider: {
+    width: 1,
+    marginHorizontal: 8,
+  },
+  errorCard: {
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  controlButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  controlLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  finishButton: {
+    marginBottom: 16,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formButton: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  textButton: {
+    paddingVertical: 8,
+  },
+  textButtonLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  switchHint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  waypointRow: {
+    paddingTop: 10,
+    borderTopWidth: 1,
+  },
+  waypointName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  waypointNote: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
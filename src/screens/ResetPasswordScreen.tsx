@@ -0,0 +1,176 @@
+/**
+ * ResetPasswordScreen
+ *
+ * New password form opened from the reset link (waytrove://reset-password/:token).
+ *
+ * VISUAL SPECIFICATIONS:
+ * - Title: 28px bold, "Choose a New Password"
+ * - Description text below title
+ * - New password and confirmation inputs
+ * - Primary button: "Reset Password"
+ * - Form error line under the inputs
+ *
+ * BEHAVIOR:
+ * - Validate length and confirmation locally
+ * - Submit the token from the link with the new password
+ * - Navigate to Login after success; an expired token points back to ForgotPassword
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import type { StackScreenProps } from '@react-navigation/stack';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import type { AuthStackParamList } from '../navigation/types';
+import { ThemedTextInput, PrimaryButton } from '../components';
+import { resetPassword, toAuthError } from '../services/authService';
+
+type Props = StackScreenProps<AuthStackParamList, 'ResetPassword'>;
+
+interface ResetPasswordErrors {
+  password?: string;
+  confirm?: string;
+  form?: string;
+}
+
+export default function ResetPasswordScreen({ navigation, route }: Props) {
+  const colors = useThemeColors();
+  const { token } = route.params;
+
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [errors, setErrors] = useState<ResetPasswordErrors>({});
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async () => {
+    const fieldErrors: ResetPasswordErrors = {
+      password: password.length >= 8 ? undefined : 'Password must be at least 8 characters',
+      confirm: confirm === password ? undefined : 'Passwords do not match',
+    };
+    setErrors(fieldErrors);
+    if (fieldErrors.password ?? fieldErrors.confirm) return;
+
+    setLoading(true);
+    try {
+      await resetPassword(token, password);
+      Alert.alert('Password Reset', 'Your password has been changed. Please sign in.', [
+        { text: 'OK', onPress: () => navigation.replace('Login', {}) },
+      ]);
+    } catch (error) {
+      const { fields } = toAuthError(error);
+      setErrors({ password: fields.password, form: fields.form });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: colors.textPrimary }]}>Choose a New Password</Text>
+          <Text style={[styles.description, { color: colors.textSecondary }]}>
+            Your new password must be at least 8 characters long.
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <ThemedTextInput
+            label="New password"
+            placeholder="Enter a new password"
+            value={password}
+            onChangeText={text => {
+              setPassword(text);
+              setErrors(prev => ({ ...prev, password: undefined, form: undefined }));
+            }}
+            secureTextEntry
+            error={errors.password}
+          />
+          <ThemedTextInput
+            label="Confirm password"
+            placeholder="Re-enter the new password"
+            value={confirm}
+            onChangeText={text => {
+              setConfirm(text);
+              setErrors(prev => ({ ...prev, confirm: undefined, form: undefined }));
+            }}
+            secureTextEntry
+            error={errors.confirm}
+          />
+
+          {errors.form ? (
+            <Text style={[styles.formError, { color: colors.error }]} accessibilityRole="alert">
+              {errors.form}
+            </Text>
+          ) : null}
+
+          <PrimaryButton
+            label="Reset Password"
+            onPress={handleSubmit}
+            loading={loading}
+            disabled={loading}
+          />
+        </View>
+
+        {errors.form ? (
+          <Text
+            style={[styles.link, { color: colors.primary }]}
+            onPress={() => navigation.replace('ForgotPassword')}
+          >
+            Request a new reset link
+          </Text>
+        ) : null}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 80,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  form: {
+    marginBottom: 24,
+  },
+  formError: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,9 +9,29 @@ import {
   Alert,
   Animated,
   TextInput,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { SyncBadge } from '../components/SyncBadge';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { useRouteNavigation } from '../hooks/useRouteNavigation';
+import { useFormatter } from '../hooks/useFormatter';
+import { useLocationShare } from '../hooks/useLocationShare';
+import type { NavigationRoute } from '../services/navigationEngine';
+import type { LocationFix } from '../services/locationProvider';
+import { toError } from '../services/apiService';
+import { fetchRouteDetails } from '../services/routesService';
+import type { Route } from '../services/routesService';
+import { rateCompletion, recordCompletion } from '../services/completionHistory';
+import type { WalkCompletion } from '../services/completionHistory';
+import { routeFileFromRoute } from '../services/routeFiles';
+import type { RouteFileFormat, RouteFilePoint } from '../services/routeFiles';
+import { shareRouteFile } from '../services/routeFileTransfer';
+import { composeShareMessage, stopSharingForRoute } from '../services/locationSharing';
+import { ElevationProfileChart } from '../components/ElevationProfileChart';
+import { computeElevationProfile } from '../utils/elevation';
+import { cumulativeDistances, pathLength } from '../utils/geo';
 import type { RootStackParamList } from '../navigation/types';
 import type { StackScreenProps } from '@react-navigation/stack';
 
@@ -19,120 +39,232 @@ type Props = StackScreenProps<RootStackParamList, 'RouteDetails'>;
 
 interface Waypoint {
   id: string;
+  lat: number;
+  lng: number;
+  elevation: number; // meters
   title: string;
   description: string;
-  distance: string;
   icon: string;
 }
 
 const MOCK_WAYPOINTS: Waypoint[] = [
   {
     id: '1',
+    lat: 48.8584,
+    lng: 2.2945,
+    elevation: 33,
     title: 'Eiffel Tower',
     description: 'Starting point • Iconic landmark',
-    distance: '0 km',
     icon: '🗼',
   },
   {
     id: '2',
+    lat: 48.8556,
+    lng: 2.2986,
+    elevation: 35,
     title: 'Champ de Mars',
     description: 'Beautiful gardens with views',
-    distance: '0.5 km',
     icon: '🌳',
   },
   {
     id: '3',
+    lat: 48.8639,
+    lng: 2.3019,
+    elevation: 30,
     title: "Pont de l'Alma",
     description: 'Historic bridge over Seine',
-    distance: '1.2 km',
     icon: '🌉',
   },
   {
     id: '4',
+    lat: 48.8609,
+    lng: 2.2977,
+    elevation: 32,
     title: 'Musée du Quai Branly',
     description: 'Art and culture museum',
-    distance: '2.1 km',
     icon: '🎨',
   },
   {
     id: '5',
+    lat: 48.8566,
+    lng: 2.3126,
+    elevation: 38,
     title: 'Les Invalides',
     description: 'Historic military complex',
-    distance: '3.5 km',
     icon: '🏛️',
   },
   {
     id: '6',
+    lat: 48.8553,
+    lng: 2.3158,
+    elevation: 41,
     title: 'Musée Rodin',
     description: 'Beautiful sculpture gardens',
-    distance: '4.2 km',
     icon: '🗿',
   },
   {
     id: '7',
+    lat: 48.854,
+    lng: 2.3339,
+    elevation: 36,
     title: 'Saint-Germain-des-Prés',
     description: 'Historic neighborhood',
-    distance: '5.2 km',
     icon: '⛪',
   },
 ];
 
+const ROUTE_TITLE = 'Historic Paris Walking Tour';
+const RATINGS = [1, 2, 3, 4, 5];
+
+// Walk through every listed stop, at the 5.2 km / 2h 30m pace shown in the stats
+const NAVIGATION_ROUTE: NavigationRoute = {
+  path: MOCK_WAYPOINTS.map(({ lat, lng, elevation }) => ({ lat, lng, elevation })),
+  waypoints: MOCK_WAYPOINTS.map(({ id, title, lat, lng }) => ({ id, name: title, lat, lng })),
+  plannedSpeedMps: 5200 / (150 * 60),
+};
+
+const ELEVATION_PROFILE = computeElevationProfile(NAVIGATION_ROUTE.path);
+
+// Live location shares started during the walk last until the last stop
+const LAST_WAYPOINT = MOCK_WAYPOINTS[MOCK_WAYPOINTS.length - 1];
+const SHARE_DESTINATION = LAST_WAYPOINT && {
+  lat: LAST_WAYPOINT.lat,
+  lng: LAST_WAYPOINT.lng,
+  name: LAST_WAYPOINT.title,
+};
+
+const toTrackPoint = ({ lat, lng, altitude, timestamp }: LocationFix): RouteFilePoint => ({
+  lat,
+  lng,
+  time: timestamp,
+  ...(typeof altitude === 'number' && { elevation: altitude }),
+});
+const WAYPOINT_DISTANCES = cumulativeDistances(NAVIGATION_ROUTE.path);
+
+const nearestWaypointIndex = (distance: number): number =>
+  WAYPOINT_DISTANCES.reduce(
+    (nearest, waypointDistance, index) =>
+      Math.abs(waypointDistance - distance) <
+      Math.abs((WAYPOINT_DISTANCES[nearest] ?? 0) - distance)
+        ? index
+        : nearest,
+    0
+  );
+
 export default function RouteDetailsScreen({ route, navigation }: Props) {
   const colors = useThemeColors();
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const { routeId } = route.params || { routeId: 'route-1' };
+  const { submit, statusFor, retryFailed } = useOfflineQueue();
+  const format = useFormatter();
+  const syncStatus = statusFor(`route:${routeId}`);
+  const locationShare = useLocationShare();
+  const isSharingWalk = locationShare.share?.routeId === routeId;
 
   const [isSaved, setIsSaved] = useState(false);
   const [isLiked, setIsLiked] = useState(false);
   const [likeCount, setLikeCount] = useState(342);
-  const [isNavigating, setIsNavigating] = useState(false);
-  const [navigationProgress, setNavigationProgress] = useState(0);
   const [commentText, setCommentText] = useState('');
   const [comments, setComments] = useState<string[]>([
     'Amazing route! Felt very safe walking even at night.',
     'Beautiful sights, highly recommended for first-time visitors.',
   ]);
 
-  const progressAnim = useRef(new Animated.Value(0)).current;
+  // Elevation chart cursor, shared with the waypoint list
+  const [activeDistance, setActiveDistance] = useState<number | null>(null);
+  const activeWaypointIndex = activeDistance === null ? null : nearestWaypointIndex(activeDistance);
+
   const likeScaleAnim = useRef(new Animated.Value(1)).current;
 
-  const handleStartNavigation = () => {
-    setIsNavigating(true);
-    setNavigationProgress(0);
+  // City and category of recorded walks come from the route as the API has it
+  const [routeDetails, setRouteDetails] = useState<Route | null>(null);
+  useEffect(() => {
+    let isCurrent = true;
+    fetchRouteDetails(routeId)
+      .then(details => {
+        if (isCurrent) setRouteDetails(details);
+      })
+      .catch(() => undefined); // the request has already shown its error
+    return () => {
+      isCurrent = false;
+    };
+  }, [routeId]);
 
-    // Animate progress from 0% to 100% over 5 seconds
-    Animated.timing(progressAnim, {
-      toValue: 100,
-      duration: 5000,
-      useNativeDriver: false,
-    }).start(() => {
+  // Walk recorded on arrival, shown until the user is done rating it
+  const [finishedWalk, setFinishedWalk] = useState<WalkCompletion | null>(null);
+  const [walkRating, setWalkRating] = useState(0);
+
+  const {
+    progress,
+    isNavigating,
+    error: navigationError,
+    start: handleStartNavigation,
+    stop: handleCancelNavigation,
+  } = useRouteNavigation(NAVIGATION_ROUTE, {
+    onArrived: ({ fix }) => {
+      const track = [...walkedTrackRef.current, toTrackPoint(fix)];
+      const startedAt = track[0]?.time ?? fix.timestamp;
+      setWalkRating(0);
+      recordCompletion({
+        routeId,
+        routeTitle: routeDetails?.title ?? ROUTE_TITLE,
+        city: routeDetails?.city ?? '',
+        category: routeDetails?.category ?? '',
+        durationSeconds: (fix.timestamp - startedAt) / 1000,
+        distanceMeters: pathLength(track),
+        path: track,
+      })
+        .then(setFinishedWalk)
+        .catch((error: unknown) => {
+          if (__DEV__) console.warn('Failed to record the walk', error);
+        });
+      void stopSharingForRoute(routeId);
       Alert.alert('Route Complete!', 'You have completed this route. Great job!');
-      setIsNavigating(false);
-      setNavigationProgress(0);
-      progressAnim.setValue(0);
-    });
-
-    // Update progress state for display
-    const interval = setInterval(() => {
-      setNavigationProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          return 100;
-        }
-        return prev + 2;
-      });
-    }, 100);
+    },
+  });
+
+  const handleRateWalk = (rating: number) => {
+    if (!finishedWalk) return;
+    setWalkRating(rating);
+    void rateCompletion(finishedWalk.id, rating);
   };
 
-  const handleCancelNavigation = () => {
-    progressAnim.stopAnimation();
-    progressAnim.setValue(0);
-    setIsNavigating(false);
-    setNavigationProgress(0);
+  useEffect(() => {
+    if (navigationError) Alert.alert('Navigation Unavailable', navigationError.message);
+  }, [navigationError]);
+
+  // Fixes of the current walk, exported instead of the planned path once completed
+  const walkedTrackRef = useRef<RouteFilePoint[]>([]);
+  useEffect(() => {
+    if (!progress) return;
+    walkedTrackRef.current.push(toTrackPoint(progress.fix));
+  }, [progress]);
+
+  const handleStartRoute = () => {
+    setFinishedWalk(null);
+    walkedTrackRef.current = [];
+    handleStartNavigation();
+  };
+
+  const handleShareWalk = async () => {
+    if (isSharingWalk) {
+      await locationShare.stop();
+      return;
+    }
+    try {
+      const share = await locationShare.start({
+        mode: 'arrival',
+        routeId,
+        destination: SHARE_DESTINATION,
+      });
+      await Share.share({ message: composeShareMessage(share) });
+    } catch (error) {
+      if (error instanceof Error) Alert.alert('Share Location', error.message);
+    }
   };
 
   const handleSave = () => {
     setIsSaved(!isSaved);
+    submit({ type: 'saveRoute', routeId, isSaved: !isSaved });
     Alert.alert(
       isSaved ? 'Removed from Saved' : 'Saved!',
       isSaved ? 'Route removed from your saved routes' : 'Route saved for later'
@@ -155,24 +287,43 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
 
     setIsLiked(!isLiked);
     setLikeCount(isLiked ? likeCount - 1 : likeCount + 1);
+    submit({ type: 'likeRoute', routeId, isLiked: !isLiked });
+  };
+
+  const handleExport = (format: RouteFileFormat) => {
+    const isCompleted = progress?.status === 'arrived' && walkedTrackRef.current.length >= 2;
+    const track = isCompleted ? walkedTrackRef.current : undefined;
+    fetchRouteDetails(routeId)
+      .then(details => shareRouteFile(routeFileFromRoute(details, track), format))
+      .catch((error: unknown) =>
+        Alert.alert('Export Failed', toError(error, 'The route could not be exported.').message)
+      );
   };
 
   const handleShare = () => {
-    Alert.alert('Share Route', 'Share this route with friends and family!');
+    Alert.alert(
+      'Export Route',
+      progress?.status === 'arrived'
+        ? 'Export your completed walk for use in other apps.'
+        : 'Export this route for use in other apps.',
+      [
+        { text: 'GPX', onPress: () => handleExport('gpx') },
+        { text: 'KML', onPress: () => handleExport('kml') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
   };
 
   const handleAddComment = () => {
     if (commentText.trim()) {
       setComments([commentText, ...comments]);
+      submit({ type: 'addRouteComment', routeId, text: commentText.trim() });
       setCommentText('');
       Alert.alert('Comment Added!', 'Your comment has been posted.');
     }
   };
 
-  const progressWidth = progressAnim.interpolate({
-    inputRange: [0, 100],
-    outputRange: ['0%', '100%'],
-  });
+  const progressPercent = Math.round((progress?.progress ?? 0) * 100);
 
   return (
     <SafeAreaView
@@ -201,7 +352,7 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
             resizeMode="cover"
           />
           <View style={[styles.bannerOverlay, { backgroundColor: colors.overlay }]}>
-            <Text style={styles.bannerTitle}>Historic Paris Walking Tour</Text>
+            <Text style={styles.bannerTitle}>{ROUTE_TITLE}</Text>
             <Text style={styles.bannerSubtitle}>Downtown • Cultural Route</Text>
           </View>
         </View>
@@ -210,7 +361,9 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
         <View style={[styles.statsRow, { backgroundColor: colors.card }]}>
           <View style={styles.statItem}>
             <Text style={styles.statIcon}>📏</Text>
-            <Text style={[styles.statValue, { color: colors.textPrimary }]}>5.2 km</Text>
+            <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+              {format.distance(5200)}
+            </Text>
             <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Distance</Text>
           </View>
           <View style={[styles.statDivider, { backgroundColor: colors.border }]} />
@@ -222,11 +375,38 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
           <View style={[styles.statDivider, { backgroundColor: colors.border }]} />
           <View style={styles.statItem}>
             <Text style={styles.statIcon}>⛰️</Text>
-            <Text style={[styles.statValue, { color: colors.textPrimary }]}>45m</Text>
+            <Text style={[styles.statValue, { color: colors.textPrimary }]}>
+              {format.elevation(ELEVATION_PROFILE?.ascent ?? 0)}
+            </Text>
             <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Elevation</Text>
           </View>
         </View>
 
+        {/* Elevation Profile */}
+        {ELEVATION_PROFILE && (
+          <View style={[styles.elevationCard, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+              ⛰️ Elevation Profile
+            </Text>
+            <Text style={[styles.elevationSummary, { color: colors.textSecondary }]}>
+              ↑ {format.elevation(ELEVATION_PROFILE.ascent)} • ↓{' '}
+              {format.elevation(ELEVATION_PROFILE.descent)} • Max grade{' '}
+              {format.percent(Math.abs(ELEVATION_PROFILE.maxGrade))}
+              {ELEVATION_PROFILE.steepSections.length > 0 &&
+                ` • ${ELEVATION_PROFILE.steepSections.length} steep sections`}
+            </Text>
+            <ElevationProfileChart
+              profile={ELEVATION_PROFILE}
+              activeDistance={activeDistance}
+              onScrub={setActiveDistance}
+              markers={MOCK_WAYPOINTS.map((waypoint, index) => ({
+                distance: WAYPOINT_DISTANCES[index] ?? 0,
+                label: waypoint.title,
+              }))}
+            />
+          </View>
+        )}
+
         {/* Community Indicator */}
         <View style={[styles.communityCard, { backgroundColor: colors.card }]}>
           <Text style={styles.communityIcon}>👥</Text>
@@ -245,6 +425,9 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
               <Text style={[styles.likeCount, { color: colors.textSecondary }]}>
                 {likeCount} likes
               </Text>
+              <View style={styles.syncBadge}>
+                <SyncBadge status={syncStatus} onRetry={() => retryFailed()} />
+              </View>
             </View>
           </View>
         </View>
@@ -256,16 +439,36 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
               Navigation Active
             </Text>
             <View style={[styles.progressBarContainer, { backgroundColor: colors.border }]}>
-              <Animated.View
+              <View
                 style={[
                   styles.progressBar,
-                  { backgroundColor: colors.primary, width: progressWidth },
+                  { backgroundColor: colors.primary, width: `${progressPercent}%` },
                 ]}
               />
             </View>
             <Text style={[styles.progressText, { color: colors.textSecondary }]}>
-              {Math.round(navigationProgress)}% Complete
+              {progress
+                ? `${progressPercent}% Complete • ${format.distance(progress.distanceRemaining)} left • ${format.duration(progress.etaSeconds)}`
+                : 'Waiting for GPS...'}
             </Text>
+            {progress?.status === 'offRoute' && (
+              <Text style={[styles.progressText, { color: colors.error }]}>
+                You are {format.distance(progress.distanceFromRoute)} off the route
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[
+                styles.cancelButton,
+                styles.shareButton,
+                { backgroundColor: `${colors.primary}20` },
+              ]}
+              onPress={() => void handleShareWalk()}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.cancelButtonText, { color: colors.primary }]}>
+                {isSharingWalk ? 'Stop Sharing Location' : 'Share Live Location'}
+              </Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={[styles.cancelButton, { backgroundColor: `${colors.error}20` }]}
               onPress={handleCancelNavigation}
@@ -277,6 +480,47 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
           </View>
         )}
 
+        {/* Completed Walk */}
+        {finishedWalk && (
+          <View style={[styles.navigationCard, { backgroundColor: colors.card }]}>
+            <Text style={[styles.navigationTitle, { color: colors.textPrimary }]}>
+              🎉 Walk Complete
+            </Text>
+            <Text style={[styles.progressText, { color: colors.textSecondary }]}>
+              {format.distance(finishedWalk.distanceMeters)} in{' '}
+              {format.duration(finishedWalk.durationSeconds)} • How was it?
+            </Text>
+            <View style={styles.ratingRow}>
+              {RATINGS.map(rating => (
+                <TouchableOpacity
+                  key={rating}
+                  onPress={() => handleRateWalk(rating)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Rate ${rating} out of 5`}
+                  accessibilityState={{ selected: rating === walkRating }}
+                >
+                  <Text
+                    style={[
+                      styles.ratingStar,
+                      { color: rating <= walkRating ? colors.warning : colors.border },
+                    ]}
+                  >
+                    ★
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[styles.cancelButton, { backgroundColor: `${colors.primary}20` }]}
+              onPress={() => setFinishedWalk(null)}
+            >
+              <Text style={[styles.cancelButtonText, { color: colors.primary }]}>
+                {walkRating > 0 ? 'Done' : 'Skip Rating'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Waypoints List */}
         <View style={[styles.waypointsCard, { backgroundColor: colors.card }]}>
           <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
@@ -284,7 +528,17 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
           </Text>
           {MOCK_WAYPOINTS.map((waypoint, index) => (
             <View key={waypoint.id}>
-              <View style={styles.waypoint}>
+              <TouchableOpacity
+                style={[
+                  styles.waypoint,
+                  index === activeWaypointIndex && [
+                    styles.waypointActive,
+                    { backgroundColor: `${colors.primary}15` },
+                  ],
+                ]}
+                onPress={() => setActiveDistance(WAYPOINT_DISTANCES[index] ?? 0)}
+                activeOpacity={0.7}
+              >
                 <View style={styles.waypointLeft}>
                   <Text style={styles.waypointIcon}>{waypoint.icon}</Text>
                   <View style={styles.waypointInfo}>
@@ -297,9 +551,11 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
                   </View>
                 </View>
                 <Text style={[styles.waypointDistance, { color: colors.textTertiary }]}>
-                  {waypoint.distance}
+                  {isNavigating && index < (progress?.nextWaypointIndex ?? 0)
+                    ? '✓'
+                    : format.distance(WAYPOINT_DISTANCES[index] ?? 0)}
                 </Text>
-              </View>
+              </TouchableOpacity>
               {index < MOCK_WAYPOINTS.length - 1 && (
                 <View style={[styles.waypointLine, { backgroundColor: colors.border }]} />
               )}
@@ -316,7 +572,7 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
                 backgroundColor: isNavigating ? colors.textSecondary : colors.primary,
               },
             ]}
-            onPress={handleStartNavigation}
+            onPress={handleStartRoute}
             disabled={isNavigating}
           >
             <Text style={styles.primaryButtonText}>
@@ -332,7 +588,9 @@ export default function RouteDetailsScreen({ route, navigation }: Props) {
               onPress={handleShare}
             >
               <Text style={styles.secondaryButtonIcon}>📤</Text>
-              <Text style={[styles.secondaryButtonText, { color: colors.textPrimary }]}>Share</Text>
+              <Text style={[styles.secondaryButtonText, { color: colors.textPrimary }]}>
+                Export
+              </Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={[
@@ -493,6 +751,22 @@ const styles = StyleSheet.create({
     width: 1,
     marginHorizontal: 12,
   },
+  elevationCard: {
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  elevationSummary: {
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 12,
+  },
   communityCard: {
     flexDirection: 'row',
     marginHorizontal: 20,
@@ -529,6 +803,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  syncBadge: {
+    marginLeft: 8,
+  },
   navigationCard: {
     marginHorizontal: 20,
     marginTop: 16,
@@ -568,6 +845,18 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  shareButton: {
+    marginBottom: 8,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  ratingStar: {
+    fontSize: 32,
+  },
   waypointsCard: {
     marginHorizontal: 20,
     marginTop: 16,
@@ -590,6 +879,11 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     paddingVertical: 8,
   },
+  waypointActive: {
+    borderRadius: 8,
+    marginHorizontal: -8,
+    paddingHorizontal: 8,
+  },
   waypointLeft: {
     flexDirection: 'row',
     alignItems: 'center',
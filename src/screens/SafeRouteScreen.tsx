@@ -1,23 +1,26 @@
-import React, { useState, useRef, useEffect } from 'react';
-import {
-  View,
-  Text,
-  ScrollView,
-  StyleSheet,
-  TouchableOpacity,
-  Animated,
-  Alert,
-} from 'react-native';
+import React, { useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
 import type { RootStackParamList } from '../navigation/types';
 import type { StackScreenProps } from '@react-navigation/stack';
+import { useRouteNavigation } from '../hooks/useRouteNavigation';
+import { useFormatter } from '../hooks/useFormatter';
+import { useCheckIn } from '../hooks/useCheckIn';
+import { pathLength } from '../utils/geo';
+import type { NavigationRoute } from '../services/navigationEngine';
 
 type Props = StackScreenProps<RootStackParamList, 'SafeRoute'>;
 
+const WALKING_SPEED_MPS = 1.4;
+// Slack added to the walking time before the check-in is due
+const CHECK_IN_BUFFER_MS = 10 * 60000;
+
 const MOCK_WAYPOINTS = [
   {
     id: '1',
+    lat: 37.7932,
+    lng: -122.3964,
     name: 'Current Location',
     address: '123 Market St, San Francisco',
     icon: '📍',
@@ -26,6 +29,8 @@ const MOCK_WAYPOINTS = [
   },
   {
     id: '2',
+    lat: 37.788,
+    lng: -122.4075,
     name: 'Union Square',
     address: '333 Post St',
     icon: '🏛️',
@@ -34,6 +39,8 @@ const MOCK_WAYPOINTS = [
   },
   {
     id: '3',
+    lat: 37.7986,
+    lng: -122.4098,
     name: 'Police Station',
     address: '766 Vallejo St',
     icon: '🚓',
@@ -42,6 +49,8 @@ const MOCK_WAYPOINTS = [
   },
   {
     id: '4',
+    lat: 37.7796,
+    lng: -122.4139,
     name: 'Civic Center Station',
     address: 'Market St & Hyde St',
     icon: '🚇',
@@ -50,6 +59,8 @@ const MOCK_WAYPOINTS = [
   },
   {
     id: '5',
+    lat: 37.7897,
+    lng: -122.3987,
     name: 'Destination',
     address: '456 Mission St, San Francisco',
     icon: '🎯',
@@ -58,63 +69,81 @@ const MOCK_WAYPOINTS = [
   },
 ];
 
-export default function SafeRouteScreen({ navigation }: Props) {
+export default function SafeRouteScreen({ navigation, route }: Props) {
   const colors = useThemeColors();
-  const [isNavigating, setIsNavigating] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [currentWaypoint, setCurrentWaypoint] = useState(0);
-  const progressAnim = useRef(new Animated.Value(0)).current;
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const format = useFormatter();
+  const { originLat, originLng, destinationLat, destinationLng } = route.params;
 
-  useEffect(() => {
-    return () => {
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
+  // Mock stops between the requested origin and destination
+  const navigationRoute = useMemo((): NavigationRoute => {
+    const points = MOCK_WAYPOINTS.map((waypoint, index) => {
+      if (index === 0) return { ...waypoint, lat: originLat, lng: originLng };
+      if (index === MOCK_WAYPOINTS.length - 1) {
+        return { ...waypoint, lat: destinationLat, lng: destinationLng };
       }
+      return waypoint;
+    });
+    return {
+      path: points.map(({ lat, lng }) => ({ lat, lng })),
+      waypoints: points.map(({ id, name, lat, lng }) => ({ id, name, lat, lng })),
     };
-  }, []);
+  }, [originLat, originLng, destinationLat, destinationLng]);
 
-  const handleStartNavigation = () => {
-    setIsNavigating(true);
-    setProgress(0);
-    setCurrentWaypoint(0);
-    progressAnim.setValue(0);
+  const checkIn = useCheckIn();
 
-    // Animate progress bar from 0 to 100% over 8 seconds
-    Animated.timing(progressAnim, {
-      toValue: 100,
-      duration: 8000,
-      useNativeDriver: false,
-    }).start(() => {
-      setIsNavigating(false);
+  const { progress, isNavigating, error, start, stop } = useRouteNavigation(navigationRoute, {
+    onArrived: () => {
+      // Reaching the end point checks in a running walk-me-home timer
+      void checkIn.complete();
       Alert.alert('Arrived! 🎉', 'You have safely reached your destination.', [
         { text: 'OK', onPress: () => navigation.goBack() },
       ]);
-    });
+    },
+  });
+
+  useEffect(() => {
+    if (error) Alert.alert('Navigation Unavailable', error.message);
+  }, [error]);
+
+  const currentWaypoint = Math.min(progress?.nextWaypointIndex ?? 0, MOCK_WAYPOINTS.length - 1);
+  const progressPercent = Math.round((progress?.progress ?? 0) * 100);
 
-    // Update progress state and waypoint every 2 seconds
-    progressIntervalRef.current = setInterval(() => {
-      setProgress(prev => {
-        const newProgress = Math.min(prev + 25, 100);
-        const newWaypoint = Math.floor((newProgress / 100) * MOCK_WAYPOINTS.length);
-        setCurrentWaypoint(Math.min(newWaypoint, MOCK_WAYPOINTS.length - 1));
-        return newProgress;
-      });
-    }, 2000);
+  const handleStartNavigation = () => {
+    start();
   };
 
   const handleCancel = () => {
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-      progressIntervalRef.current = null;
-    }
-    setIsNavigating(false);
-    setProgress(0);
-    setCurrentWaypoint(0);
-    progressAnim.setValue(0);
+    stop();
     Alert.alert('Navigation Cancelled', 'Safe route navigation has been stopped.');
   };
 
+  const handleStartCheckIn = () => {
+    const walkMs = (pathLength(navigationRoute.path) / WALKING_SPEED_MPS) * 1000;
+    const expectedAt = Date.now() + walkMs + CHECK_IN_BUFFER_MS;
+    const arrivalTime = new Date(expectedAt).toLocaleTimeString(format.locale, {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    const startAt = (time: number) =>
+      checkIn
+        .start({
+          expectedAt: time,
+          destination: { lat: destinationLat, lng: destinationLng, name: 'Destination' },
+        })
+        .catch((startError: unknown) => {
+          if (startError instanceof Error) Alert.alert('Walk Me Home', startError.message);
+        });
+    Alert.alert(
+      'Walk Me Home',
+      "You'll be checked in when you reach the destination. If you don't arrive or check in, your emergency contacts will be alerted.",
+      [
+        { text: `By ${arrivalTime}`, onPress: () => void startAt(expectedAt) },
+        { text: 'In 1 hour', onPress: () => void startAt(Date.now() + 60 * 60000) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
   const handleEmergency = () => {
     Alert.alert(
       '🚨 Emergency Services',
@@ -123,11 +152,6 @@ export default function SafeRouteScreen({ navigation }: Props) {
     );
   };
 
-  const progressInterpolate = progressAnim.interpolate({
-    inputRange: [0, 100],
-    outputRange: ['0%', '100%'],
-  });
-
   return (
     <SafeAreaView
       style={[styles.container, { backgroundColor: colors.background }]}
@@ -193,20 +217,32 @@ export default function SafeRouteScreen({ navigation }: Props) {
               </TouchableOpacity>
             </View>
             <View style={[styles.progressBarTrack, { backgroundColor: colors.border }]}>
-              <Animated.View
+              <View
                 style={[
                   styles.progressBarFill,
                   {
                     backgroundColor: colors.success,
-                    width: progressInterpolate,
+                    width: `${progressPercent}%`,
                   },
                 ]}
               />
             </View>
             <Text style={[styles.progressText, { color: colors.textSecondary }]}>
-              {Math.round(progress)}% complete • Waypoint {currentWaypoint + 1} of{' '}
-              {MOCK_WAYPOINTS.length}
+              {progress
+                ? `${progressPercent}% complete • Waypoint ${currentWaypoint + 1} of ${MOCK_WAYPOINTS.length}`
+                : 'Waiting for GPS...'}
             </Text>
+            {progress && (
+              <Text style={[styles.progressText, { color: colors.textSecondary }]}>
+                {format.distance(progress.distanceRemaining)} left • ETA{' '}
+                {format.duration(progress.etaSeconds)}
+              </Text>
+            )}
+            {progress?.status === 'offRoute' && (
+              <Text style={[styles.progressText, { color: colors.error }]}>
+                ⚠️ You are {format.distance(progress.distanceFromRoute)} off the safe route
+              </Text>
+            )}
           </View>
         )}
 
@@ -336,6 +372,20 @@ export default function SafeRouteScreen({ navigation }: Props) {
           </TouchableOpacity>
         )}
 
+        {/* Check-in Timer */}
+        <TouchableOpacity
+          style={[styles.startButton, styles.checkInButton, { borderColor: colors.primary }]}
+          onPress={handleStartCheckIn}
+          disabled={checkIn.checkIn !== null}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: checkIn.checkIn !== null }}
+        >
+          <Text style={styles.startButtonIcon}>⏱️</Text>
+          <Text style={[styles.checkInButtonText, { color: colors.primary }]}>
+            {checkIn.checkIn ? 'Check-in Timer Running' : 'Walk Me Home Timer'}
+          </Text>
+        </TouchableOpacity>
+
         {/* Emergency Contact Card */}
         <View style={[styles.emergencyCard, { backgroundColor: `${colors.error}15` }]}>
           <Text style={styles.emergencyCardIcon}>🚨</Text>
@@ -610,6 +660,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  checkInButton: {
+    borderWidth: 2,
+  },
+  checkInButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
   emergencyCard: {
     flexDirection: 'row',
     alignItems: 'center',
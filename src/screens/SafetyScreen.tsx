@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useRef } from 'react';
 import {
   View,
   Text,
@@ -8,22 +8,52 @@ import {
   Animated,
   Dimensions,
   Alert,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NavigationProp } from '@react-navigation/native';
+import type { MainTabParamList } from '../navigation/types';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
 import { ThemeToggle } from '../components/ThemeToggle';
-import { SAFETY_ALERTS } from '../data/mockData';
-import type { SafetyAlert } from '../data/mockData';
+import type { SafetyAlert } from '../types';
 import { useAuth } from '../contexts/auth/AuthContext';
+import { useFormatter } from '../hooks/useFormatter';
+import { useSos } from '../hooks/useSos';
+import { useLocationShare } from '../hooks/useLocationShare';
+import { useCheckIn } from '../hooks/useCheckIn';
+import { useSafetyAlerts } from '../hooks/useSafetyAlerts';
+import { useNeighborhoodSafety } from '../hooks/useNeighborhoodSafety';
+import { CHECK_IN_ESCALATION_MS } from '../services/checkInService';
+import { composeShareMessage } from '../services/locationSharing';
+import type { LocationShare } from '../services/locationSharing';
+import type { LocationShareMode, NeighborhoodSafety } from '../services/safetyService';
+import type { LatLng } from '../utils/geo';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 type SafetyStatus = 'safe' | 'caution' | 'alert';
 
+// Downtown San Francisco, where the mock alerts are placed
+const MOCK_USER_LOCATION: LatLng = { lat: 37.7749, lng: -122.4194 };
+
 export default function SafetyScreen() {
   const colors = useThemeColors();
-  const [safetyStatus, setSafetyStatus] = useState<SafetyStatus>('safe');
-  const [alerts, setAlerts] = useState<SafetyAlert[]>(SAFETY_ALERTS);
+  const format = useFormatter();
+  const navigation = useNavigation<NavigationProp<MainTabParamList>>();
+  const { user } = useAuth();
+  const primary = user?.primaryContact;
+  const secondary = user?.secondaryContact;
+  const hasContact = Boolean(primary) || Boolean(secondary);
+  const sos = useSos();
+  const locationShare = useLocationShare();
+  const checkIn = useCheckIn();
+  const safetyStatus: SafetyStatus =
+    sos.current?.status === 'active' ? 'alert' : sos.current ? 'caution' : 'safe';
+  const { nearby: alerts, dismiss: dismissAlert } = useSafetyAlerts({
+    position: MOCK_USER_LOCATION,
+  });
+  const { data: neighborhood } = useNeighborhoodSafety(MOCK_USER_LOCATION);
   const emergencyScale = useRef(new Animated.Value(1)).current;
   const statusPulse = useRef(new Animated.Value(1)).current;
 
@@ -49,6 +79,26 @@ export default function SafetyScreen() {
     }
   }, [safetyStatus, statusPulse]);
 
+  const openEditProfile = () => {
+    navigation.navigate('ProfileTab', { screen: 'EditProfile', initial: false });
+  };
+
+  // SOS and the check-in timer alert the emergency contacts, so they need one
+  const requireContact = (action: () => void) => {
+    if (hasContact) {
+      action();
+      return;
+    }
+    Alert.alert(
+      'No Emergency Contact',
+      'Add an emergency contact to your profile so we know who to alert.',
+      [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Add Contact', onPress: openEditProfile },
+      ]
+    );
+  };
+
   const handleEmergencyPress = () => {
     // Bounce animation
     Animated.sequence([
@@ -63,36 +113,92 @@ export default function SafetyScreen() {
       }),
     ]).start();
 
+    // The countdown gives time to cancel an accidental press
+    sos.trigger().catch(showSosError);
+  };
+
+  const showSosError = (error: unknown) => {
+    if (error instanceof Error) Alert.alert('SOS', error.message);
+  };
+
+  const handleImSafe = () => {
+    Alert.alert('Are you safe?', 'Your emergency contacts will be told that you are safe.', [
+      { text: 'Not Yet', style: 'cancel' },
+      { text: "I'm Safe", onPress: () => sos.resolve().catch(showSosError) },
+    ]);
+  };
+
+  const getStatusSubtitle = (): string => {
+    if (sos.current?.status === 'countdown') {
+      return `Sending SOS in ${sos.secondsLeft}s`;
+    }
+    if (sos.current?.status === 'active') {
+      return `SOS sent ${format.relativeTime(sos.current.activatesAt)}`;
+    }
+    return 'Last updated: Just now';
+  };
+
+  const sendShareLink = (share: LocationShare) => {
+    Share.share({ message: composeShareMessage(share) }).catch(error => {
+      if (__DEV__) console.warn('Failed to open the share sheet', error);
+    });
+  };
+
+  const startLocationShare = async (mode: LocationShareMode) => {
+    try {
+      sendShareLink(await locationShare.start({ mode }));
+    } catch (error) {
+      if (error instanceof Error) Alert.alert('Share Location', error.message);
+    }
+  };
+
+  const handleShareLocation = () => {
+    const { share } = locationShare;
+    if (share) {
+      Alert.alert('Sharing Location', 'Your trusted contacts can see your live location.', [
+        { text: 'Send Link Again', onPress: () => sendShareLink(share) },
+        { text: 'Stop Sharing', style: 'destructive', onPress: () => void locationShare.stop() },
+        { text: 'Close', style: 'cancel' },
+      ]);
+      return;
+    }
+    Alert.alert('Share Location', 'Share your live location with trusted contacts for:', [
+      { text: '15 minutes', onPress: () => void startLocationShare('15m') },
+      { text: '1 hour', onPress: () => void startLocationShare('1h') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const formatClockTime = (time: number): string =>
+    new Date(time).toLocaleTimeString(format.locale, { hour: '2-digit', minute: '2-digit' });
+
+  const showCheckInError = (error: unknown) => {
+    if (error instanceof Error) Alert.alert('Check-in Timer', error.message);
+  };
+
+  const handleStartCheckIn = () => {
+    const startIn = (minutes: number) =>
+      checkIn.start({ expectedAt: Date.now() + minutes * 60000 }).catch(showCheckInError);
     Alert.alert(
-      '🚨 Emergency Alert',
-      'Are you sure you want to trigger an emergency alert? This will notify your emergency contacts and local authorities.',
+      'Check-in Timer',
+      "When do you expect to arrive? If you don't check in, your emergency contacts will be alerted.",
       [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Confirm',
-          style: 'destructive',
-          onPress: () => {
-            setSafetyStatus('alert');
-            Alert.alert(
-              'Alert Sent',
-              'Emergency services have been notified and your location has been shared with emergency contacts.'
-            );
-          },
-        },
+        { text: 'In 30 minutes', onPress: () => void startIn(30) },
+        { text: 'In 1 hour', onPress: () => void startIn(60) },
+        { text: 'Cancel', style: 'cancel' },
       ]
     );
   };
 
+  const getCheckInSubtitle = (expectedAt: number): string => {
+    if (checkIn.remainingMs > 0) return `${Math.ceil(checkIn.remainingMs / 60000)} min left`;
+    return `Your contacts will be alerted at ${formatClockTime(expectedAt + CHECK_IN_ESCALATION_MS)}`;
+  };
+
   const handleQuickAction = (action: string) => {
     switch (action) {
       case 'share-location':
-        Alert.alert(
-          'Share Location',
-          'Your live location is now being shared with trusted contacts.'
-        );
+        handleShareLocation();
         break;
       case 'call-emergency':
         Alert.alert('Emergency Call', 'Calling emergency services...');
@@ -107,7 +213,9 @@ export default function SafetyScreen() {
   };
 
   const handleDismissAlert = (alertId: string) => {
-    setAlerts(prevAlerts => prevAlerts.filter(alert => alert.id !== alertId));
+    dismissAlert(alertId).catch(error => {
+      if (__DEV__) console.warn('Failed to dismiss alert', error);
+    });
   };
 
   const getStatusColor = (): string => {
@@ -126,9 +234,9 @@ export default function SafetyScreen() {
       case 'safe':
         return 'You are safe';
       case 'caution':
-        return 'Exercise caution';
+        return 'SOS countdown';
       case 'alert':
-        return 'Alert active';
+        return 'SOS active';
     }
   };
 
@@ -144,60 +252,39 @@ export default function SafetyScreen() {
   };
 
   const getAlertIcon = (severity: SafetyAlert['severity']): string => {
-    if (severity >= 4) return '🚨';
-    if (severity >= 3) return '⚠️';
+    if (severity === 'critical' || severity === 'danger') return '🚨';
+    if (severity === 'warning') return '⚠️';
     return 'ℹ️';
   };
 
   const getAlertColor = (severity: SafetyAlert['severity']): string => {
-    if (severity >= 4) return '#EF4444'; // high
-    if (severity >= 3) return '#F59E0B'; // medium
+    if (severity === 'critical' || severity === 'danger') return '#EF4444'; // high
+    if (severity === 'warning') return '#F59E0B'; // medium
     return '#3B82F6'; // low
   };
 
-  const formatTimeAgo = (timestamp: string): string => {
-    const now = new Date();
-    const alertTime = new Date(timestamp);
-    const diffMs = now.getTime() - alertTime.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins} min ago`;
-    const diffHours = Math.floor(diffMins / 60);
-    if (diffHours < 24) return `${diffHours}h ago`;
-    const diffDays = Math.floor(diffHours / 24);
-    return `${diffDays}d ago`;
+  const getScoreColor = (score: number): string => {
+    if (score >= 80) return colors.success;
+    if (score >= 60) return colors.warning;
+    return colors.error;
   };
 
-  const getAlertTitle = (alert: SafetyAlert): string => {
-    // Generate a title from the type
-    switch (alert.type) {
-      case 'crowd':
-        return 'High Crowd Density';
-      case 'accident':
-        return 'Traffic Accident';
-      case 'closure':
-        return 'Road Closure';
-      case 'weather':
-        return 'Weather Alert';
-      case 'crime':
-        return 'Safety Alert';
-      default:
-        return 'Alert';
-    }
+  // "very_high" -> "Very high"
+  const describeLevel = (level: string): string => {
+    const words = level.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
   };
 
-  const { user } = useAuth();
-  const primary = user?.primaryContact ?? '+1 (555) 123-4567';
-  const secondary = user?.secondaryContact ?? '+1 (555) 987-6543';
-
-  const calculateDistance = (lat: number, lng: number): string => {
-    // Simple mock distance calculation (in real app, use user's location)
-    const mockDistance = Math.abs(lat - 37.7749) + Math.abs(lng + 122.4194);
-    const km = mockDistance * 100; // approximate conversion
-    if (km < 1) return `${Math.round(km * 1000)}m away`;
-    return `${km.toFixed(1)}km away`;
-  };
+  const nearestPolice = neighborhood?.policeStations.reduce<
+    NeighborhoodSafety['policeStations'][number] | undefined
+  >(
+    (nearest, station) => (!nearest || station.distance < nearest.distance ? station : nearest),
+    undefined
+  );
+
+  // Distance from the mock user location until the screen reads real fixes
+  const describeAlertDistance = (distanceMeters: number): string =>
+    distanceMeters > 0 ? `${format.distance(distanceMeters)} away` : "You're in this area";
 
   return (
     <SafeAreaView
@@ -239,20 +326,40 @@ export default function SafetyScreen() {
                 {getStatusText()}
               </Text>
               <Text style={[styles.statusSubtitle, { color: colors.textSecondary }]}>
-                Last updated: Just now
+                {getStatusSubtitle()}
               </Text>
             </View>
           </View>
 
-          {safetyStatus === 'alert' && (
+          {sos.current?.status === 'countdown' && (
+            <View style={styles.statusActions}>
+              <TouchableOpacity
+                style={[styles.cancelButton, { backgroundColor: `${colors.error}20` }]}
+                onPress={() => sos.cancel().catch(showSosError)}
+                accessibilityRole="button"
+                accessibilityLabel={`Cancel SOS, sending in ${sos.secondsLeft} seconds`}
+              >
+                <Text style={[styles.cancelButtonText, { color: colors.error }]}>Cancel SOS</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.cancelButton, { backgroundColor: colors.error }]}
+                onPress={() => sos.sendNow().catch(showSosError)}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.cancelButtonText, { color: colors.buttonText }]}>
+                  Send Now
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {sos.current?.status === 'active' && (
             <TouchableOpacity
-              style={[styles.cancelButton, { backgroundColor: `${colors.error}20` }]}
-              onPress={() => {
-                setSafetyStatus('safe');
-                Alert.alert('Alert Cancelled', 'Emergency alert has been cancelled.');
-              }}
+              style={[styles.cancelButton, { backgroundColor: `${colors.success}20` }]}
+              onPress={handleImSafe}
+              accessibilityRole="button"
             >
-              <Text style={[styles.cancelButtonText, { color: colors.error }]}>Cancel Alert</Text>
+              <Text style={[styles.cancelButtonText, { color: colors.success }]}>I'm Safe</Text>
             </TouchableOpacity>
           )}
         </View>
@@ -261,17 +368,89 @@ export default function SafetyScreen() {
         <Animated.View style={[{ transform: [{ scale: emergencyScale }] }]}>
           <TouchableOpacity
             style={[styles.emergencyButton, { backgroundColor: colors.error }]}
-            onPress={handleEmergencyPress}
+            onPress={() => requireContact(handleEmergencyPress)}
             activeOpacity={0.8}
+            disabled={sos.current !== null}
+            accessibilityRole="button"
+            accessibilityLabel="Emergency SOS"
+            accessibilityHint="Alerts your emergency contacts with your location after a short countdown"
           >
             <View style={styles.emergencyContent}>
               <Text style={styles.emergencyIcon}>🚨</Text>
               <Text style={styles.emergencyTitle}>EMERGENCY</Text>
-              <Text style={styles.emergencySubtitle}>Tap to alert</Text>
+              <Text style={styles.emergencySubtitle}>
+                {sos.current
+                  ? 'SOS in progress'
+                  : hasContact
+                    ? 'Tap to alert'
+                    : 'Add an emergency contact first'}
+              </Text>
             </View>
           </TouchableOpacity>
         </Animated.View>
 
+        {/* Check-in Timer */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Check-in Timer</Text>
+          <View style={[styles.statusCard, styles.checkInCard, { backgroundColor: colors.card }]}>
+            {checkIn.checkIn ? (
+              <>
+                <Text
+                  style={[
+                    styles.statusTitle,
+                    { color: checkIn.remainingMs > 0 ? colors.textPrimary : colors.warning },
+                  ]}
+                >
+                  {checkIn.remainingMs > 0
+                    ? `Check in by ${formatClockTime(checkIn.checkIn.expectedAt)}`
+                    : 'Check-in overdue'}
+                </Text>
+                <Text style={[styles.statusSubtitle, { color: colors.textSecondary }]}>
+                  {getCheckInSubtitle(checkIn.checkIn.expectedAt)}
+                  {checkIn.checkIn.destination ? ' · checks in when you arrive' : ''}
+                </Text>
+                <View style={styles.statusActions}>
+                  <TouchableOpacity
+                    style={[styles.cancelButton, { backgroundColor: `${colors.success}20` }]}
+                    onPress={() => checkIn.complete().catch(showCheckInError)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={[styles.cancelButtonText, { color: colors.success }]}>
+                      I'm Safe
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.cancelButton, { backgroundColor: `${colors.primary}20` }]}
+                    onPress={() => checkIn.extend(15 * 60000).catch(showCheckInError)}
+                    accessibilityRole="button"
+                    accessibilityLabel="Add 15 minutes"
+                  >
+                    <Text style={[styles.cancelButtonText, { color: colors.primary }]}>
+                      +15 min
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <>
+                <Text style={[styles.statusSubtitle, { color: colors.textSecondary }]}>
+                  Walking home? Set when you expect to arrive and we'll alert your emergency
+                  contacts if you don't check in, even if WayTrove is closed.
+                </Text>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { backgroundColor: `${colors.primary}20` }]}
+                  onPress={() => requireContact(handleStartCheckIn)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.cancelButtonText, { color: colors.primary }]}>
+                    Start Check-in Timer
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+
         {/* Quick Actions */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Quick Actions</Text>
@@ -284,7 +463,7 @@ export default function SafetyScreen() {
                 <Text style={styles.quickActionEmoji}>📍</Text>
               </View>
               <Text style={[styles.quickActionText, { color: colors.textPrimary }]}>
-                Share Location
+                {locationShare.share ? 'Sharing Location' : 'Share Location'}
               </Text>
             </TouchableOpacity>
 
@@ -347,7 +526,7 @@ export default function SafetyScreen() {
               </Text>
             </View>
           ) : (
-            alerts.map(alert => (
+            alerts.map(({ alert, distanceMeters }) => (
               <View
                 key={alert.id}
                 style={[
@@ -363,10 +542,10 @@ export default function SafetyScreen() {
                     <Text style={styles.alertIcon}>{getAlertIcon(alert.severity)}</Text>
                     <View style={styles.alertTitleContainer}>
                       <Text style={[styles.alertTitle, { color: colors.textPrimary }]}>
-                        {getAlertTitle(alert)}
+                        {alert.title}
                       </Text>
                       <Text style={[styles.alertType, { color: getAlertColor(alert.severity) }]}>
-                        {alert.type.toUpperCase()}
+                        {alert.type.replace('_', ' ').toUpperCase()}
                       </Text>
                     </View>
                   </View>
@@ -379,20 +558,20 @@ export default function SafetyScreen() {
                 </View>
 
                 <Text style={[styles.alertDescription, { color: colors.textSecondary }]}>
-                  {alert.detailText}
+                  {alert.description}
                 </Text>
 
                 <View style={styles.alertFooter}>
                   <View style={styles.alertLocationRow}>
                     <Text style={[styles.alertLocation, { color: colors.textSecondary }]}>
-                      📍 {alert.location}
+                      📍 {alert.location.name}
                     </Text>
                     <Text style={[styles.alertDistance, { color: colors.textSecondary }]}>
-                      {calculateDistance(alert.lat, alert.lng)}
+                      {describeAlertDistance(distanceMeters)}
                     </Text>
                   </View>
                   <Text style={[styles.alertTime, { color: colors.textTertiary }]}>
-                    {formatTimeAgo(alert.timestamp)}
+                    {format.relativeTime(alert.validFrom)}
                   </Text>
                 </View>
               </View>
@@ -400,6 +579,73 @@ export default function SafetyScreen() {
           )}
         </View>
 
+        {/* Neighborhood Safety */}
+        {neighborhood && (
+          <View style={styles.section}>
+            <Text
+              style={[
+                styles.sectionTitle,
+                styles.sectionTitleSpacing,
+                { color: colors.textPrimary },
+              ]}
+            >
+              Your Area
+            </Text>
+            <View style={[styles.areaCard, { backgroundColor: colors.card }]}>
+              <View style={styles.areaHeader}>
+                <View style={styles.areaTitleContainer}>
+                  <Text style={[styles.areaName, { color: colors.textPrimary }]}>
+                    {neighborhood.location.neighborhood}
+                  </Text>
+                  <Text style={[styles.areaUpdated, { color: colors.textTertiary }]}>
+                    Updated {format.relativeTime(neighborhood.lastUpdated)}
+                  </Text>
+                </View>
+                <View
+                  style={[
+                    styles.areaScore,
+                    { backgroundColor: `${getScoreColor(neighborhood.safetyScore)}20` },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.areaScoreText,
+                      { color: getScoreColor(neighborhood.safetyScore) },
+                    ]}
+                  >
+                    {Math.round(neighborhood.safetyScore)}
+                  </Text>
+                </View>
+              </View>
+              {[
+                {
+                  label: `Incidents (${neighborhood.period.replace(/_/g, ' ')})`,
+                  value: `${neighborhood.crimeStats.totalIncidents} · ${neighborhood.crimeStats.violent} violent`,
+                },
+                { label: 'Lighting', value: describeLevel(neighborhood.lightingQuality) },
+                { label: 'Foot traffic', value: describeLevel(neighborhood.footTraffic) },
+                ...(nearestPolice
+                  ? [
+                      {
+                        label: 'Nearest police',
+                        value: `${nearestPolice.name} · ${format.distance(nearestPolice.distance * 1000)}`,
+                      },
+                    ]
+                  : []),
+              ].map(row => (
+                <View key={row.label} style={[styles.areaRow, { borderTopColor: colors.border }]}>
+                  <Text style={[styles.areaLabel, { color: colors.textSecondary }]}>
+                    {row.label}
+                  </Text>
+                  <Text style={[styles.areaValue, { color: colors.textPrimary }]} numberOfLines={1}>
+                    {row.value}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Emergency Contacts */}
         <View style={[styles.section, { marginBottom: 24 }]}>
           <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
@@ -422,39 +668,67 @@ export default function SafetyScreen() {
             <Text style={[styles.contactArrow, { color: colors.textTertiary }]}>→</Text>
           </TouchableOpacity>
 
-          <TouchableOpacity
-            style={[styles.contactCard, { backgroundColor: colors.card }]}
-            onPress={() => Alert.alert('Primary Contact', `Calling ${primary}...`)}
-          >
-            <View style={[styles.contactIcon, { backgroundColor: `${colors.primary}20` }]}>
-              <Text style={styles.contactEmoji}>👤</Text>
-            </View>
-            <View style={styles.contactInfo}>
-              <Text style={[styles.contactName, { color: colors.textPrimary }]}>
-                Primary Contact
-              </Text>
-              <Text style={[styles.contactNumber, { color: colors.textSecondary }]}>{primary}</Text>
-            </View>
-            <Text style={[styles.contactArrow, { color: colors.textTertiary }]}>→</Text>
-          </TouchableOpacity>
+          {!hasContact && (
+            <TouchableOpacity
+              style={[styles.contactCard, { backgroundColor: colors.card }]}
+              onPress={openEditProfile}
+              accessibilityRole="button"
+              accessibilityHint="Opens Edit Profile to add an emergency contact"
+            >
+              <View style={[styles.contactIcon, { backgroundColor: `${colors.warning}20` }]}>
+                <Text style={styles.contactEmoji}>👤</Text>
+              </View>
+              <View style={styles.contactInfo}>
+                <Text style={[styles.contactName, { color: colors.textPrimary }]}>
+                  No emergency contact set
+                </Text>
+                <Text style={[styles.contactNumber, { color: colors.textSecondary }]}>
+                  Add one to use SOS and the check-in timer
+                </Text>
+              </View>
+              <Text style={[styles.contactArrow, { color: colors.textTertiary }]}>→</Text>
+            </TouchableOpacity>
+          )}
 
-          <TouchableOpacity
-            style={[styles.contactCard, { backgroundColor: colors.card }]}
-            onPress={() => Alert.alert('Secondary Contact', `Calling ${secondary}...`)}
-          >
-            <View style={[styles.contactIcon, { backgroundColor: `${colors.primary}20` }]}>
-              <Text style={styles.contactEmoji}>👤</Text>
-            </View>
-            <View style={styles.contactInfo}>
-              <Text style={[styles.contactName, { color: colors.textPrimary }]}>
-                Secondary Contact
-              </Text>
-              <Text style={[styles.contactNumber, { color: colors.textSecondary }]}>
-                {secondary}
-              </Text>
-            </View>
-            <Text style={[styles.contactArrow, { color: colors.textTertiary }]}>→</Text>
-          </TouchableOpacity>
+          {primary && (
+            <TouchableOpacity
+              style={[styles.contactCard, { backgroundColor: colors.card }]}
+              onPress={() => Alert.alert('Primary Contact', `Calling ${primary}...`)}
+            >
+              <View style={[styles.contactIcon, { backgroundColor: `${colors.primary}20` }]}>
+                <Text style={styles.contactEmoji}>👤</Text>
+              </View>
+              <View style={styles.contactInfo}>
+                <Text style={[styles.contactName, { color: colors.textPrimary }]}>
+                  Primary Contact
+                </Text>
+                <Text style={[styles.contactNumber, { color: colors.textSecondary }]}>
+                  {primary}
+                </Text>
+              </View>
+              <Text style={[styles.contactArrow, { color: colors.textTertiary }]}>→</Text>
+            </TouchableOpacity>
+          )}
+
+          {secondary && (
+            <TouchableOpacity
+              style={[styles.contactCard, { backgroundColor: colors.card }]}
+              onPress={() => Alert.alert('Secondary Contact', `Calling ${secondary}...`)}
+            >
+              <View style={[styles.contactIcon, { backgroundColor: `${colors.primary}20` }]}>
+                <Text style={styles.contactEmoji}>👤</Text>
+              </View>
+              <View style={styles.contactInfo}>
+                <Text style={[styles.contactName, { color: colors.textPrimary }]}>
+                  Secondary Contact
+                </Text>
+                <Text style={[styles.contactNumber, { color: colors.textSecondary }]}>
+                  {secondary}
+                </Text>
+              </View>
+              <Text style={[styles.contactArrow, { color: colors.textTertiary }]}>→</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -522,7 +796,16 @@ const styles = StyleSheet.create({
   statusSubtitle: {
     fontSize: 13,
   },
+  statusActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  checkInCard: {
+    marginTop: 16,
+    marginBottom: 0,
+  },
   cancelButton: {
+    flex: 1,
     marginTop: 16,
     paddingVertical: 12,
     borderRadius: 12,
@@ -576,6 +859,55 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: '700',
   },
+  sectionTitleSpacing: {
+    marginBottom: 16,
+  },
+  areaCard: {
+    borderRadius: 12,
+    padding: 16,
+  },
+  areaHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  areaTitleContainer: {
+    flex: 1,
+  },
+  areaName: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  areaUpdated: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  areaScore: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  areaScoreText: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  areaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  areaLabel: {
+    fontSize: 14,
+  },
+  areaValue: {
+    flexShrink: 1,
+    marginLeft: 12,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   liveBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,329 @@
+/**
+ * SharedLocationScreen
+ *
+ * Shows a live location a contact shared (waytrove://share/:token). Works
+ * signed in or out: the token in the link is the only credential.
+ *
+ * LAYOUT:
+ * - Header: "‹ Back" and "Shared Location"
+ * - Status card: sender name, "Live" or why the share ended, time left
+ *   (or "Until they arrive" for arrival shares)
+ * - Position card: last update time, accuracy, distance to the destination
+ * - "Open in Maps" button for the last position
+ *
+ * INTERACTIONS:
+ * - The share is polled every POLL_MS while it is active
+ * - Back returns to the previous screen, or to the app's entry screen when
+ *   the link opened the app
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import type { StackScreenProps } from '@react-navigation/stack';
+import type { AxiosRequestConfig } from 'axios';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { useAuth } from '../contexts/auth/AuthContext';
+import type { RootStackParamList } from '../navigation/types';
+import { PrimaryButton } from '../components';
+import { useFormatter } from '../hooks/useFormatter';
+import { fetchSharedLocation } from '../services/safetyService';
+import type { LocationShareEndReason, SharedLocation } from '../services/safetyService';
+import { haversineDistance, mapsLink } from '../utils/geo';
+
+type Props = StackScreenProps<RootStackParamList, 'SharedLocation'>;
+
+const POLL_MS = 15000;
+
+// Errors are shown on the screen instead of as toasts on every poll
+const QUIET_REQUEST: AxiosRequestConfig = { headers: { 'X-Show-Error': 'false' } };
+
+const END_REASONS: Record<LocationShareEndReason, string> = {
+  stopped: 'Stopped sharing',
+  expired: 'Sharing ended',
+  arrived: 'Arrived safely',
+};
+
+export default function SharedLocationScreen({ navigation, route }: Props) {
+  const colors = useThemeColors();
+  const format = useFormatter();
+  const { isLoggedIn } = useAuth();
+  const { token } = route.params;
+  const [shared, setShared] = useState<SharedLocation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const load = useCallback(async () => {
+    try {
+      const next = await fetchSharedLocation(token, QUIET_REQUEST);
+      setShared(next);
+      setLoadFailed(false);
+    } catch (error) {
+      // Keep showing the last position; the next poll tries again
+      setLoadFailed(true);
+      if (__DEV__) console.warn('Failed to load shared location', error);
+    } finally {
+      setNow(Date.now());
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  const isActive = shared?.status === 'active';
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => void load(), POLL_MS);
+    return () => clearInterval(timer);
+  }, [isActive, load]);
+
+  const handleBack = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+      return;
+    }
+    navigation.reset({
+      index: 0,
+      routes: [
+        isLoggedIn
+          ? { name: 'Main', params: { screen: 'HomeTab', params: { screen: 'Home' } } }
+          : { name: 'Auth', params: { screen: 'Login', params: {} } },
+      ],
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      );
+    }
+
+    if (!shared) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.emptyIcon}>📍</Text>
+          <Text style={[styles.emptyTitle, { color: colors.textPrimary }]}>
+            Location Unavailable
+          </Text>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            This link is invalid or could not be loaded. Check your connection and try again.
+          </Text>
+          <PrimaryButton label="Try Again" onPress={() => void load()} />
+        </View>
+      );
+    }
+
+    const { lastPosition, destination } = shared;
+    const senderName = shared.senderName || 'Your contact';
+    const remainingMs = new Date(shared.expiresAt).getTime() - now;
+    const statusLabel = isActive
+      ? 'Live'
+      : END_REASONS[shared.endReason ?? (remainingMs <= 0 ? 'expired' : 'stopped')];
+    const statusColor = isActive
+      ? colors.success
+      : shared.endReason === 'arrived'
+        ? colors.primary
+        : colors.textSecondary;
+
+    let timing: string;
+    if (!isActive) timing = `Started ${format.relativeTime(shared.startedAt, new Date(now))}`;
+    else if (shared.mode === 'arrival') timing = 'Until they arrive';
+    else timing = `${Math.max(1, Math.ceil(remainingMs / 60000))} min left`;
+
+    return (
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.card, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sender, { color: colors.textPrimary }]}>{senderName}</Text>
+          <View style={styles.statusRow}>
+            <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+            <Text style={[styles.statusText, { color: statusColor }]}>{statusLabel}</Text>
+            <Text style={[styles.timing, { color: colors.textSecondary }]}>· {timing}</Text>
+          </View>
+          {loadFailed && (
+            <Text style={[styles.note, { color: colors.warning }]}>
+              Couldn't refresh. Showing the last known position.
+            </Text>
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: colors.card }]}>
+          <Text style={[styles.cardTitle, { color: colors.textPrimary }]}>Last Position</Text>
+          {lastPosition ? (
+            <>
+              <View style={styles.infoRow}>
+                <Text style={[styles.infoLabel, { color: colors.textSecondary }]}>Updated</Text>
+                <Text style={[styles.infoValue, { color: colors.textPrimary }]}>
+                  {format.relativeTime(lastPosition.recordedAt, new Date(now))}
+                </Text>
+              </View>
+              {lastPosition.accuracy !== undefined && (
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, { color: colors.textSecondary }]}>Accuracy</Text>
+                  <Text style={[styles.infoValue, { color: colors.textPrimary }]}>
+                    ±{format.distance(lastPosition.accuracy)}
+                  </Text>
+                </View>
+              )}
+              {destination && (
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, { color: colors.textSecondary }]}>
+                    To {destination.name ?? 'destination'}
+                  </Text>
+                  <Text style={[styles.infoValue, { color: colors.textPrimary }]}>
+                    {format.distance(haversineDistance(lastPosition, destination))}
+                  </Text>
+                </View>
+              )}
+            </>
+          ) : (
+            <Text style={[styles.note, { color: colors.textSecondary }]}>
+              {isActive ? 'Waiting for the first position...' : 'No position available.'}
+            </Text>
+          )}
+        </View>
+
+        {lastPosition && (
+          <PrimaryButton
+            label="Open in Maps"
+            onPress={() => void Linking.openURL(mapsLink(lastPosition))}
+          />
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      edges={['top']}
+    >
+      <View
+        style={[styles.header, { backgroundColor: colors.card, borderBottomColor: colors.border }]}
+      >
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <Text style={[styles.backText, { color: colors.primary }]}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>Shared Location</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+  },
+  backText: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  emptyIcon: {
+    fontSize: 56,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sender: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  statusText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  timing: {
+    fontSize: 15,
+    marginLeft: 6,
+  },
+  note: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    fontSize: 14,
+  },
+  infoValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
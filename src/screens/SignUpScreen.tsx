@@ -12,41 +12,49 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ThemedTextInput, PrimaryButton } from '../components';
 import { useThemeColors } from '../contexts/theme/ThemeContext';
 import { useAuth } from '../contexts/auth/AuthContext';
+import { toAuthError } from '../services/authService';
+import type { AuthFieldErrors } from '../services/authService';
 
 export default function SignUpScreen() {
   const colors = useThemeColors();
-  const { signUpMock } = useAuth();
+  const { signUp } = useAuth();
 
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<AuthFieldErrors>({});
 
-  const validate = (): string | null => {
-    if (!name.trim()) return 'Name is required';
+  const validate = (): AuthFieldErrors => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) return 'Enter a valid email';
-    if (password.length < 8) return 'Password must be at least 8 characters';
-    return null;
+    return {
+      name: name.trim() ? undefined : 'Name is required',
+      email: emailRegex.test(email) ? undefined : 'Enter a valid email',
+      password: password.length >= 8 ? undefined : 'Password must be at least 8 characters',
+    };
   };
 
   const handleSignUp = async () => {
-    const err = validate();
-    if (err) return Alert.alert('Validation error', err);
+    const fieldErrors = validate();
+    setErrors(fieldErrors);
+    if (fieldErrors.name ?? fieldErrors.email ?? fieldErrors.password) return;
 
     setLoading(true);
     try {
       // Use AuthContext signUp flow which handles backend/register and sets auth state
-      await signUpMock({ name, email, password });
+      await signUp({ name, email, password });
       Alert.alert('Success', 'Account created. You are now signed in.');
     } catch (error) {
-      console.error('Sign up failed', error);
-      Alert.alert('Sign Up Failed', (error as Error).message || 'Please try again');
+      setErrors(toAuthError(error).fields);
     } finally {
       setLoading(false);
     }
   };
 
+  // Editing a field clears its message and any form-level message
+  const clearError = (field: keyof AuthFieldErrors) =>
+    setErrors(prev => ({ ...prev, [field]: undefined, form: undefined }));
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       <KeyboardAvoidingView
@@ -65,24 +73,42 @@ export default function SignUpScreen() {
             <ThemedTextInput
               label="Full name"
               value={name}
-              onChangeText={setName}
+              onChangeText={value => {
+                setName(value);
+                clearError('name');
+              }}
               placeholder="Jane Doe"
+              error={errors.name}
             />
             <ThemedTextInput
               label="Email"
               value={email}
-              onChangeText={setEmail}
+              onChangeText={value => {
+                setEmail(value);
+                clearError('email');
+              }}
               placeholder="you@domain.com"
               type="email"
+              error={errors.email}
             />
             <ThemedTextInput
               label="Password"
               value={password}
-              onChangeText={setPassword}
+              onChangeText={value => {
+                setPassword(value);
+                clearError('password');
+              }}
               placeholder="Create a password"
               secureTextEntry
+              error={errors.password}
             />
 
+            {errors.form ? (
+              <Text style={[styles.formError, { color: colors.error }]} accessibilityRole="alert">
+                {errors.form}
+              </Text>
+            ) : null}
+
             <PrimaryButton
               label="Create account"
               onPress={handleSignUp}
@@ -104,4 +130,5 @@ const styles = StyleSheet.create({
   title: { fontSize: 28, fontWeight: '700', marginBottom: 8 },
   subtitle: { fontSize: 15, color: '#666', lineHeight: 22 },
   form: { marginTop: 12 },
+  formError: { fontSize: 14, textAlign: 'center', marginBottom: 12 },
 });
@@ -0,0 +1,135 @@
+/**
+ * VerifyEmailScreen
+ *
+ * Confirms the account email from the verification link (waytrove://verify-email/:token).
+ *
+ * VISUAL SPECIFICATIONS:
+ * - Centered spinner while the token is submitted
+ * - Result: large icon, 24px bold title, description
+ * - Primary button: "Continue"
+ *
+ * BEHAVIOR:
+ * - Submit the token once on mount
+ * - Continue returns to the previous screen, or to the app's entry screen
+ *   when the link opened the app
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import type { StackScreenProps } from '@react-navigation/stack';
+import { useThemeColors } from '../contexts/theme/ThemeContext';
+import { useAuth } from '../contexts/auth/AuthContext';
+import type { RootStackParamList } from '../navigation/types';
+import { PrimaryButton } from '../components';
+import { toAuthError, verifyEmail } from '../services/authService';
+
+type Props = StackScreenProps<RootStackParamList, 'VerifyEmail'>;
+
+type VerifyStatus =
+  | { state: 'pending' }
+  | { state: 'verified' }
+  | { state: 'failed'; message: string };
+
+export default function VerifyEmailScreen({ navigation, route }: Props) {
+  const colors = useThemeColors();
+  const { isLoggedIn } = useAuth();
+  const { token } = route.params;
+  const [status, setStatus] = useState<VerifyStatus>({ state: 'pending' });
+
+  useEffect(() => {
+    let cancelled = false;
+    verifyEmail(token)
+      .then(() => {
+        if (!cancelled) setStatus({ state: 'verified' });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        const { fields } = toAuthError(error);
+        setStatus({
+          state: 'failed',
+          message:
+            fields.form ?? fields.email ?? 'This verification link is invalid or has expired.',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleContinue = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+      return;
+    }
+    navigation.reset({
+      index: 0,
+      routes: [
+        isLoggedIn
+          ? { name: 'Main', params: { screen: 'HomeTab', params: { screen: 'Home' } } }
+          : { name: 'Auth', params: { screen: 'Login', params: {} } },
+      ],
+    });
+  };
+
+  if (status.state === 'pending') {
+    return (
+      <View style={[styles.centered, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={[styles.description, { color: colors.textSecondary }]}>
+          Verifying your email...
+        </Text>
+      </View>
+    );
+  }
+
+  const verified = status.state === 'verified';
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.content}>
+        <Text style={styles.icon}>{verified ? '✅' : '⚠️'}</Text>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>
+          {verified ? 'Email Verified' : 'Verification Failed'}
+        </Text>
+        <Text style={[styles.description, { color: colors.textSecondary }]}>
+          {verified ? 'Thanks for confirming your email address.' : status.message}
+        </Text>
+      </View>
+      <PrimaryButton label="Continue" onPress={handleContinue} />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  icon: {
+    fontSize: 56,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
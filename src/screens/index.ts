@@ -12,6 +12,9 @@ export { default as ThemeDemoScreen } from './ThemeDemoScreen';
 export { default as OnboardingScreen } from './OnboardingScreen';
 export { default as LoginScreen } from './LoginScreen';
 export { default as SignUpScreen } from './SignUpScreen';
+export { default as ForgotPasswordScreen } from './ForgotPasswordScreen';
+export { default as ResetPasswordScreen } from './ResetPasswordScreen';
+export { default as VerifyEmailScreen } from './VerifyEmailScreen';
 
 // Main App Screens
 export { default as HomeScreen } from './HomeScreen';
@@ -26,4 +29,6 @@ export { default as ChangePassword } from './ChangePassword';
 export { default as RouteDetailsScreen } from './RouteDetailsScreen';
 export { default as NewsDetailsScreen } from './NewsDetailsScreen';
 export { default as SafeRouteScreen } from './SafeRouteScreen';
+export { default as RecordRouteScreen } from './RecordRouteScreen';
+export { default as SharedLocationScreen } from './SharedLocationScreen';
 export { default as SettingsScreen } from './SettingsScreen';
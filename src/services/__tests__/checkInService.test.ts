@@ -0,0 +1,331 @@
+import {
+  applyCheckInAction,
+  CHECK_IN_ESCALATION_MS,
+  CHECK_IN_REMINDERS_MS,
+  createCheckIn,
+  dueCheckInAction,
+  hasReachedDestination,
+  nextCheckInWakeUp,
+  postponeCheckIn,
+  recordDeparture,
+} from '../checkInService';
+import type { CheckIn, CheckInAction } from '../checkInService';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../../utils/constants';
+
+jest.mock('../sosService', () => ({
+  SosError: class SosError extends Error {},
+  triggerSos: jest.fn(async () => undefined),
+}));
+jest.mock('../notificationService', () => ({
+  notify: jest.fn(() => 'toast-1'),
+  dismissNotification: jest.fn(),
+}));
+jest.mock('../localNotifications', () => ({
+  scheduleLocalNotifications: jest.fn(async () => true),
+  cancelLocalNotifications: jest.fn(async () => undefined),
+}));
+jest.mock('../offlineQueue', () => ({ enqueueMutation: jest.fn(async () => undefined) }));
+jest.mock('../safetyService', () => ({ reportCheckIn: jest.fn(async () => undefined) }));
+jest.mock('../locationProvider', () => ({ createDeviceLocationProvider: jest.fn() }));
+
+const MINUTE = 60000;
+const START = Date.UTC(2025, 5, 1, 21, 0);
+const EXPECTED = START + 30 * MINUTE;
+const HOME = { lat: 37.7599, lng: -122.4148, name: 'Home' };
+
+const newCheckIn = (destination?: typeof HOME): CheckIn =>
+  createCheckIn(
+    {
+      expectedAt: EXPECTED,
+      senderName: 'Alex',
+      contacts: [' +14155550123 ', '', undefined, '+14155550123', '+14155550199'],
+      ...(destination && { destination }),
+    },
+    'check-in-1',
+    START
+  );
+
+/**
+ * Drive a check-in the way the runtime does: sleep until the next wake-up,
+ * then apply whatever is due
+ */
+function runUntil(checkIn: CheckIn, until: number): { checkIn: CheckIn; actions: CheckInAction[] } {
+  const actions: CheckInAction[] = [];
+  let current = checkIn;
+  let wakeUp = nextCheckInWakeUp(current);
+  while (wakeUp !== null && wakeUp <= until) {
+    const action = dueCheckInAction(current, wakeUp);
+    if (!action) break;
+    actions.push(action);
+    current = applyCheckInAction(current, action, wakeUp);
+    wakeUp = nextCheckInWakeUp(current);
+  }
+  return { checkIn: current, actions };
+}
+
+describe('createCheckIn', () => {
+  it('keeps each contact once and drops empty entries', () => {
+    expect(newCheckIn()).toMatchObject({
+      id: 'check-in-1',
+      status: 'active',
+      contacts: ['+14155550123', '+14155550199'],
+      startedAt: START,
+      expectedAt: EXPECTED,
+      remindersSent: 0,
+    });
+  });
+});
+
+describe('dueCheckInAction', () => {
+  it('has nothing due before the expected arrival', () => {
+    expect(dueCheckInAction(newCheckIn(), EXPECTED - 1)).toBeNull();
+  });
+
+  it('reminds at the expected arrival and again later', () => {
+    const checkIn = newCheckIn();
+
+    expect(dueCheckInAction(checkIn, EXPECTED)).toEqual({
+      type: 'remind',
+      reminder: 0,
+      overdueMs: 0,
+    });
+    const reminded = applyCheckInAction(checkIn, { type: 'remind', reminder: 0, overdueMs: 0 }, 0);
+    expect(dueCheckInAction(reminded, EXPECTED + MINUTE)).toBeNull();
+    expect(dueCheckInAction(reminded, EXPECTED + 5 * MINUTE)).toMatchObject({
+      type: 'remind',
+      reminder: 1,
+    });
+  });
+
+  it('collapses reminders missed while the app was closed into the latest one', () => {
+    expect(dueCheckInAction(newCheckIn(), EXPECTED + 7 * MINUTE)).toEqual({
+      type: 'remind',
+      reminder: 1,
+      overdueMs: 7 * MINUTE,
+    });
+  });
+
+  it('escalates once the escalation time has passed', () => {
+    expect(dueCheckInAction(newCheckIn(), EXPECTED + CHECK_IN_ESCALATION_MS)).toEqual({
+      type: 'escalate',
+    });
+  });
+
+  it('has nothing due once the check-in has ended', () => {
+    const ended: CheckIn = { ...newCheckIn(), status: 'checked-in', endedAt: EXPECTED };
+
+    expect(dueCheckInAction(ended, EXPECTED + CHECK_IN_ESCALATION_MS)).toBeNull();
+    expect(nextCheckInWakeUp(ended)).toBeNull();
+  });
+});
+
+describe('nextCheckInWakeUp', () => {
+  it('walks through every reminder to the escalation', () => {
+    const { checkIn, actions } = runUntil(newCheckIn(), EXPECTED + CHECK_IN_ESCALATION_MS);
+
+    expect(actions.map(action => action.type)).toEqual([
+      ...CHECK_IN_REMINDERS_MS.map(() => 'remind'),
+      'escalate',
+    ]);
+    expect(checkIn).toMatchObject({
+      status: 'escalated',
+      endedAt: EXPECTED + CHECK_IN_ESCALATION_MS,
+    });
+  });
+
+  it('sleeps until the expected arrival first', () => {
+    expect(nextCheckInWakeUp(newCheckIn())).toBe(EXPECTED);
+  });
+});
+
+describe('postponeCheckIn', () => {
+  it('moves the expected arrival and starts the reminders over', () => {
+    const { checkIn: reminded } = runUntil(newCheckIn(), EXPECTED);
+    expect(reminded.remindersSent).toBe(1);
+
+    const postponed = postponeCheckIn(reminded, 15 * MINUTE, EXPECTED - 10 * MINUTE);
+
+    expect(postponed).toMatchObject({ expectedAt: EXPECTED + 15 * MINUTE, remindersSent: 0 });
+    expect(nextCheckInWakeUp(postponed)).toBe(EXPECTED + 15 * MINUTE);
+  });
+
+  it('extends an overdue check-in from now', () => {
+    const now = EXPECTED + 8 * MINUTE;
+    const { checkIn: overdue } = runUntil(newCheckIn(), now);
+
+    const postponed = postponeCheckIn(overdue, 10 * MINUTE, now);
+
+    expect(postponed.expectedAt).toBe(now + 10 * MINUTE);
+    expect(dueCheckInAction(postponed, now + 9 * MINUTE)).toBeNull();
+  });
+});
+
+describe('arrival detection', () => {
+  const nearHome = { lat: HOME.lat + 0.0002, lng: HOME.lng }; // about 22 m away
+  const awayFromHome = { lat: HOME.lat + 0.005, lng: HOME.lng }; // about 560 m away
+
+  it('does not check in on the first fix at the destination', () => {
+    const checkIn = recordDeparture(newCheckIn(HOME), nearHome, START);
+
+    expect(checkIn.departedAt).toBeUndefined();
+    expect(hasReachedDestination(checkIn, nearHome)).toBe(false);
+  });
+
+  it('checks in on returning after leaving the destination', () => {
+    const departed = recordDeparture(newCheckIn(HOME), awayFromHome, START + MINUTE);
+
+    expect(departed.departedAt).toBe(START + MINUTE);
+    expect(hasReachedDestination(departed, awayFromHome)).toBe(false);
+    expect(hasReachedDestination(departed, nearHome)).toBe(true);
+    expect(recordDeparture(departed, awayFromHome, START + 2 * MINUTE)).toBe(departed);
+  });
+
+  it('never checks in without a destination', () => {
+    const checkIn = recordDeparture(newCheckIn(), awayFromHome, START);
+
+    expect(checkIn.departedAt).toBeUndefined();
+    expect(hasReachedDestination(checkIn, nearHome)).toBe(false);
+  });
+});
+
+/**
+ * Fresh copies of the service and its mocked dependencies, as after an app
+ * restart; AsyncStorage is shared, like the device's storage
+ */
+function launchApp() {
+  let app!: {
+    service: typeof import('../checkInService');
+    triggerSos: jest.Mock;
+    notify: jest.Mock;
+    scheduleLocalNotifications: jest.Mock;
+    cancelLocalNotifications: jest.Mock;
+    enqueueMutation: jest.Mock;
+  };
+  jest.isolateModules(() => {
+    app = {
+      service: require('../checkInService'),
+      triggerSos: require('../sosService').triggerSos,
+      notify: require('../notificationService').notify,
+      scheduleLocalNotifications: require('../localNotifications').scheduleLocalNotifications,
+      cancelLocalNotifications: require('../localNotifications').cancelLocalNotifications,
+      enqueueMutation: require('../offlineQueue').enqueueMutation,
+    };
+  });
+  return app;
+}
+
+const reportedStatuses = (enqueueMutation: jest.Mock): string[] =>
+  enqueueMutation.mock.calls.map(([mutation]) => mutation.report.status);
+
+describe('check-in timer', () => {
+  const request = { expectedAt: EXPECTED, senderName: 'Alex', contacts: ['+14155550123', ''] };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('reminds, then starts an SOS for the contacts when nobody checks in', async () => {
+    const app = launchApp();
+    await app.service.startCheckIn(request);
+
+    expect(app.enqueueMutation).toHaveBeenCalledWith({
+      type: 'reportCheckIn',
+      report: expect.objectContaining({
+        status: 'active',
+        contacts: ['+14155550123'],
+        escalatesAt: new Date(EXPECTED + CHECK_IN_ESCALATION_MS).toISOString(),
+      }),
+    });
+    const scheduled = app.scheduleLocalNotifications.mock.calls[0]?.[0] as { at: number }[];
+    expect(scheduled.map(notification => notification.at)).toEqual([
+      ...CHECK_IN_REMINDERS_MS.map(offset => EXPECTED + offset),
+      EXPECTED + CHECK_IN_ESCALATION_MS,
+    ]);
+
+    await jest.advanceTimersByTimeAsync(EXPECTED - START);
+    expect(app.notify).toHaveBeenCalledTimes(1);
+    expect(app.notify).toHaveBeenLastCalledWith(
+      expect.objectContaining({ title: 'Time to check in' })
+    );
+    expect(app.triggerSos).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(CHECK_IN_ESCALATION_MS);
+    expect(app.notify).toHaveBeenCalledTimes(2);
+    expect(app.triggerSos).toHaveBeenCalledTimes(1);
+    expect(app.triggerSos).toHaveBeenCalledWith(
+      expect.objectContaining({ senderName: 'Alex', contacts: ['+14155550123'] })
+    );
+    expect(await app.service.getCheckIn()).toBeNull();
+    expect(reportedStatuses(app.enqueueMutation)).toEqual(['active', 'escalated']);
+  });
+
+  it('stops reminders and tells the server when the user checks in', async () => {
+    const app = launchApp();
+    await app.service.startCheckIn(request);
+    await app.service.completeCheckIn();
+    await jest.advanceTimersByTimeAsync(EXPECTED - START + CHECK_IN_ESCALATION_MS);
+
+    expect(app.notify).not.toHaveBeenCalled();
+    expect(app.triggerSos).not.toHaveBeenCalled();
+    expect(app.cancelLocalNotifications).toHaveBeenLastCalledWith(
+      expect.arrayContaining([expect.stringMatching(/escalation$/)])
+    );
+    expect(reportedStatuses(app.enqueueMutation)).toEqual(['active', 'checked-in']);
+  });
+
+  it('says reminders need the app open when notifications are off', async () => {
+    const app = launchApp();
+    app.scheduleLocalNotifications.mockResolvedValueOnce(false);
+    await app.service.startCheckIn(request);
+
+    expect(app.notify).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('only appear while') })
+    );
+  });
+
+  it('refuses to start without an emergency contact', async () => {
+    const app = launchApp();
+    await expect(
+      app.service.startCheckIn({ ...request, contacts: [' ', undefined] })
+    ).rejects.toThrow('emergency contact');
+    expect(await app.service.getCheckIn()).toBeNull();
+  });
+
+  it('catches up on a stored check-in after a restart', async () => {
+    await launchApp().service.startCheckIn(request);
+    jest.clearAllTimers();
+
+    // Closed through both reminders: only the latest one is shown
+    jest.setSystemTime(EXPECTED + 6 * MINUTE);
+    const after = launchApp();
+    expect(await after.service.getCheckIn()).toMatchObject({ status: 'active' });
+    expect(after.notify).toHaveBeenCalledTimes(1);
+    expect(after.notify).toHaveBeenCalledWith(expect.objectContaining({ title: 'Are you OK?' }));
+
+    await jest.advanceTimersByTimeAsync(4 * MINUTE);
+    expect(after.triggerSos).toHaveBeenCalledWith(
+      expect.objectContaining({ contacts: ['+14155550123'] })
+    );
+  });
+
+  it('escalates right away when the deadline passed while the app was closed', async () => {
+    await launchApp().service.startCheckIn(request);
+    jest.clearAllTimers();
+
+    jest.setSystemTime(EXPECTED + CHECK_IN_ESCALATION_MS + MINUTE);
+    const after = launchApp();
+
+    expect(await after.service.getCheckIn()).toBeNull();
+    expect(after.notify).not.toHaveBeenCalled();
+    expect(after.triggerSos).toHaveBeenCalledTimes(1);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.CHECK_IN)).toBeNull();
+  });
+});
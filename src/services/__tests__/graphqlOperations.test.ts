@@ -0,0 +1,30 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { buildSchema, parse, validate } from 'graphql';
+import { GRAPHQL_OPERATIONS } from '../graphqlOperations';
+
+// Exported from graphene with `npm run graphql:schema`
+const schema = buildSchema(
+  readFileSync(join(__dirname, '..', '..', '..', 'backend', 'schema.graphql'), 'utf8')
+);
+
+const validationErrors = (document: string) =>
+  validate(schema, parse(document)).map(error => error.message);
+
+describe('GRAPHQL_OPERATIONS', () => {
+  it.each(GRAPHQL_OPERATIONS.map(operation => [operation.name, operation.document]))(
+    '%s is valid against the backend schema',
+    (_name, document) => {
+      expect(validationErrors(document)).toEqual([]);
+    }
+  );
+
+  it('reports fields and arguments the backend does not have', () => {
+    expect(validationErrors('query Me { me { id phone } }')).toEqual([
+      'Cannot query field "phone" on type "UserType".',
+    ]);
+    expect(validationErrors('mutation Login { login(email: "a@b.c") { accessToken } }')).toEqual([
+      'Field "login" argument "password" of type "String!" is required, but it was not provided.',
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { createNavigationEngine } from '../navigationEngine';
+import type { NavigationProgress, NavigationRoute } from '../navigationEngine';
+import {
+  createSimulatedLocationProvider,
+  fixesAlongPath,
+  parseGpxFixes,
+} from '../locationProvider';
+import type { LocationFix } from '../locationProvider';
+import { serializeGpx } from '../routeFiles';
+import type { LatLng } from '../../utils/geo';
+
+const ORIGIN = { lat: 37.7749, lng: -122.4194 };
+
+// Point the given meters north and east of ORIGIN
+const offset = (north: number, east: number): LatLng => ({
+  lat: ORIGIN.lat + north / 111320,
+  lng: ORIGIN.lng + east / (111320 * Math.cos((ORIGIN.lat * Math.PI) / 180)),
+});
+
+// 300 m north, then 300 m east
+const L_PATH = [offset(0, 0), offset(150, 0), offset(300, 0), offset(300, 150), offset(300, 300)];
+const L_ROUTE: NavigationRoute = {
+  path: L_PATH,
+  waypoints: [
+    { id: 'corner', name: 'Corner', ...offset(300, 0) },
+    { id: 'finish', name: 'Finish', ...offset(300, 300) },
+  ],
+};
+
+// Around a 200 m square, back to the start
+const LOOP_PATH = [offset(0, 0), offset(200, 0), offset(200, 200), offset(0, 200), offset(0, 0)];
+
+/**
+ * Walk a path as a recorded GPX track and read it back, as a replay would
+ */
+function gpxTrack(path: LatLng[]): LocationFix[] {
+  const fixes = fixesAlongPath(path, { startTime: Date.UTC(2025, 0, 1, 8) });
+  const gpx = serializeGpx({
+    name: 'Recorded walk',
+    description: '',
+    track: fixes.map(({ lat, lng, timestamp }) => ({ lat, lng, time: timestamp })),
+    waypoints: [],
+  });
+  return parseGpxFixes(gpx).map(fix => ({ ...fix, accuracy: 5 }));
+}
+
+describe('createNavigationEngine', () => {
+  it('follows a replayed GPX track to the finish', () => {
+    const reached: string[] = [];
+    const onArrived = jest.fn();
+    const engine = createNavigationEngine(L_ROUTE, {
+      onWaypointReached: waypoint => reached.push(waypoint.id),
+      onArrived,
+    });
+
+    const progress = gpxTrack(L_PATH).flatMap(fix => engine.update(fix) ?? []);
+
+    expect(reached).toEqual(['corner', 'finish']);
+    expect(onArrived).toHaveBeenCalledTimes(1);
+    const last = progress[progress.length - 1];
+    expect(last).toMatchObject({ status: 'arrived', distanceRemaining: 0, progress: 1 });
+    for (let index = 1; index < progress.length; index++) {
+      const previous = progress[index - 1] as NavigationProgress;
+      expect(progress[index]?.distanceTravelled).toBeGreaterThanOrEqual(previous.distanceTravelled);
+    }
+  });
+
+  it('reports the distance and ETA left halfway along', () => {
+    const engine = createNavigationEngine(L_ROUTE);
+    const track = gpxTrack(L_PATH);
+    const halfway = track.slice(0, Math.floor(track.length / 2));
+
+    halfway.forEach(fix => engine.update(fix));
+
+    const progress = engine.getProgress();
+    expect(progress?.status).toBe('navigating');
+    expect(progress?.nextWaypointIndex).toBe(1);
+    expect(progress?.distanceRemaining).toBeGreaterThan(250);
+    expect(progress?.distanceRemaining).toBeLessThan(350);
+    // 1.4 m/s walking pace
+    expect(progress?.etaSeconds).toBeCloseTo((progress?.distanceRemaining ?? 0) / 1.4, 0);
+  });
+
+  it('does not arrive at the start of a loop', () => {
+    const engine = createNavigationEngine({ path: LOOP_PATH, waypoints: [] });
+    const track = gpxTrack(LOOP_PATH);
+
+    // A fix just behind the start lies on the closing side of the loop
+    const first = engine.update({ ...offset(0, 1), timestamp: 0, accuracy: 5 });
+    expect(first?.status).toBe('navigating');
+    expect(first?.distanceTravelled).toBeLessThan(5);
+
+    const statuses = track.map(fix => engine.update(fix)?.status);
+    expect(statuses.indexOf('arrived')).toBeGreaterThan(track.length * 0.9);
+  });
+
+  it('ignores fixes that are not accurate enough', () => {
+    const engine = createNavigationEngine(L_ROUTE);
+
+    expect(engine.update({ ...offset(10, 0), timestamp: 0, accuracy: 120 })).toBeNull();
+    expect(engine.getProgress()).toBeNull();
+  });
+
+  it('reroutes once when the user leaves the route', async () => {
+    const onOffRoute = jest.fn();
+    const detour = [offset(100, 200), offset(300, 300)];
+    const reroute = jest.fn().mockResolvedValue(detour);
+    const engine = createNavigationEngine(L_ROUTE, { onOffRoute, reroute });
+
+    engine.update({ ...offset(0, 0), timestamp: 0, accuracy: 5 });
+    [1, 2, 3, 4].forEach(second =>
+      engine.update({ ...offset(100, 200), timestamp: second * 1000, accuracy: 5 })
+    );
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(onOffRoute).toHaveBeenCalledTimes(1);
+    expect(reroute).toHaveBeenCalledTimes(1);
+    expect(engine.getProgress()?.status).toBe('navigating');
+    // The detour replaced the rest of the route
+    const next = engine.update({ ...offset(150, 225), timestamp: 5000, accuracy: 5 });
+    expect(next?.distanceFromRoute).toBeLessThan(5);
+  });
+
+  it('replays a GPX track through the simulated provider', async () => {
+    jest.useFakeTimers();
+    try {
+      const onArrived = jest.fn();
+      const engine = createNavigationEngine(L_ROUTE, { onArrived });
+      const provider = createSimulatedLocationProvider(gpxTrack(L_PATH), {
+        speedMultiplier: 10,
+      });
+
+      const stop = await provider.watch(fix => engine.update(fix));
+      await jest.runAllTimersAsync();
+      stop();
+
+      expect(onArrived).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('fixesAlongPath', () => {
+  it('ends at the last point of the path', () => {
+    const fixes = fixesAlongPath(L_PATH, { speedMps: 5, startTime: 0 });
+
+    expect(fixes[fixes.length - 1]).toMatchObject(L_PATH[L_PATH.length - 1] ?? {});
+    expect(fixes[1]?.timestamp).toBe(1000);
+  });
+
+  it('rejects speeds that would never reach the end', () => {
+    expect(() => fixesAlongPath(L_PATH, { speedMps: 0 })).toThrow(RangeError);
+    expect(() => fixesAlongPath(L_PATH, { speedMps: -1 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,177 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  detectRouteFileFormat,
+  parseGpx,
+  parseKml,
+  parseRouteFile,
+  routeDraftFromFile,
+  routeFileFromRoute,
+  RouteFileError,
+  serializeGpx,
+  serializeKml,
+} from '../routeFiles';
+import type { RouteFile } from '../routeFiles';
+import { getRoutePath, parseRoutes } from '../routeModel';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const GARMIN_GPX = fixture('embarcadero-walk.gpx');
+const GOOGLE_KML = fixture('twin-peaks.kml');
+
+describe('parseGpx', () => {
+  it('reads every track segment in order, with elevation and time', () => {
+    const file = parseGpx(GARMIN_GPX);
+
+    expect(file.name).toBe('Embarcadero Morning Walk');
+    expect(file.description).toBe('Ferry Building to Pier 39 & back to the water');
+    expect(file.track).toHaveLength(5);
+    expect(file.track[0]).toEqual({
+      lat: 37.7955,
+      lng: -122.3937,
+      elevation: 4.2,
+      time: Date.parse('2025-03-02T08:00:00Z'),
+    });
+    expect(file.track[4]).toMatchObject({ lat: 37.8087, lng: -122.4098 });
+  });
+
+  it('reads named waypoints', () => {
+    expect(parseGpx(GARMIN_GPX).waypoints).toEqual([
+      {
+        lat: 37.7955,
+        lng: -122.3937,
+        name: 'Ferry Building',
+        description: 'Farmers market on Saturdays',
+      },
+      { lat: 37.8087, lng: -122.4098, name: 'Pier 39' },
+    ]);
+  });
+
+  it('rejects documents that are not GPX', () => {
+    expect(() => parseGpx(GOOGLE_KML)).toThrow(RouteFileError);
+    expect(() => parseGpx('lat,lng\n37.8,-122.4')).toThrow(RouteFileError);
+  });
+
+  it('rejects character references outside Unicode', () => {
+    expect(() => parseGpx('<gpx><trk><name>&#99999999;</name></trk></gpx>')).toThrow(
+      RouteFileError
+    );
+    expect(() => parseGpx('<gpx><wpt lat="1" lon="2" name="&#x110000;"/></gpx>')).toThrow(
+      RouteFileError
+    );
+  });
+});
+
+describe('parseKml', () => {
+  it('reads LineString coordinates and Point placemarks', () => {
+    const file = parseKml(GOOGLE_KML);
+
+    expect(file.name).toBe('Twin Peaks Summit');
+    expect(file.description).toBe('Steep climb with the best view of the city');
+    expect(file.track).toEqual([
+      { lat: 37.7544, lng: -122.4381, elevation: 180 },
+      { lat: 37.753, lng: -122.442, elevation: 215 },
+      { lat: 37.7525, lng: -122.4455, elevation: 250 },
+      { lat: 37.7519, lng: -122.4475, elevation: 281 },
+    ]);
+    expect(file.waypoints).toEqual([
+      { lat: 37.7519, lng: -122.4475, name: 'Summit', description: 'Viewpoint' },
+    ]);
+  });
+});
+
+describe('round trips', () => {
+  it('keeps a GPX file through export and import', () => {
+    const file = parseGpx(GARMIN_GPX);
+
+    expect(parseGpx(serializeGpx(file))).toEqual(file);
+  });
+
+  it('keeps a KML file through export and import', () => {
+    const file = parseKml(GOOGLE_KML);
+
+    expect(parseKml(serializeKml(file))).toEqual(file);
+  });
+
+  it('keeps track times in KML as a gx:Track', () => {
+    const file = parseGpx(GARMIN_GPX);
+    const kml = serializeKml(file);
+
+    expect(kml).toContain('<gx:Track>');
+    expect(parseKml(kml)).toEqual(file);
+  });
+
+  it('converts KML to GPX and back', () => {
+    const file = parseKml(GOOGLE_KML);
+
+    expect(parseKml(serializeKml(parseGpx(serializeGpx(file))))).toEqual(file);
+  });
+
+  it('escapes names and descriptions', () => {
+    const file: RouteFile = {
+      name: 'Fish & Chips <Loop>',
+      description: 'Say "hi" at O\'Reilly\'s',
+      track: [
+        { lat: 37.8, lng: -122.4 },
+        { lat: 37.801, lng: -122.401 },
+      ],
+      waypoints: [{ lat: 37.8, lng: -122.4, name: 'A & B' }],
+    };
+
+    expect(parseGpx(serializeGpx(file))).toEqual(file);
+    expect(parseKml(serializeKml(file))).toEqual(file);
+  });
+
+  it('exports a route and imports it as the same path and waypoints', () => {
+    const [route] = parseRoutes(require('../../assets/mocks/routes.json'));
+    if (!route) throw new Error('routes.json has no routes');
+
+    const imported = parseRouteFile(serializeGpx(routeFileFromRoute(route)));
+    const draft = routeDraftFromFile(imported);
+
+    const round = (value: number) => Number(value.toFixed(6));
+    expect(imported.track.map(({ lat, lng }) => [round(lat), round(lng)])).toEqual(
+      getRoutePath(route).map(({ lat, lng }) => [round(lat), round(lng)])
+    );
+    expect(draft.waypoints?.map(waypoint => waypoint.name)).toEqual(
+      route.waypoints.map(waypoint => waypoint.name)
+    );
+  });
+});
+
+describe('routeDraftFromFile', () => {
+  it('measures distance, duration and climb from the track', () => {
+    const draft = routeDraftFromFile(parseGpx(GARMIN_GPX), { city: 'San Francisco' });
+
+    expect(draft).toMatchObject({
+      title: 'Embarcadero Morning Walk',
+      durationMinutes: 28,
+      tags: ['imported'],
+      city: 'San Francisco',
+      startPoint: { lat: 37.7955, lng: -122.3937, address: '' },
+      endPoint: { lat: 37.8087, lng: -122.4098, address: '' },
+    });
+    expect(draft.distanceMeters).toBeGreaterThan(1900);
+    expect(draft.distanceMeters).toBeLessThan(2200);
+    expect(draft.waypoints?.map(waypoint => waypoint.id)).toEqual(['wpt-1', 'wpt-2']);
+  });
+
+  it('rejects files without a path', () => {
+    const empty: RouteFile = { name: '', description: '', track: [], waypoints: [] };
+
+    expect(() => routeDraftFromFile(empty)).toThrow(RouteFileError);
+  });
+});
+
+describe('detectRouteFileFormat', () => {
+  it('uses the file extension, then the root element', () => {
+    expect(detectRouteFileFormat('', 'walk.GPX')).toBe('gpx');
+    expect(detectRouteFileFormat(GOOGLE_KML)).toBe('kml');
+    expect(detectRouteFileFormat(GARMIN_GPX, 'download')).toBe('gpx');
+    expect(detectRouteFileFormat('{"type":"FeatureCollection"}', 'walk.json')).toBeNull();
+  });
+
+  it('refuses to import other formats', () => {
+    expect(() => parseRouteFile('{"type":"FeatureCollection"}')).toThrow(RouteFileError);
+  });
+});
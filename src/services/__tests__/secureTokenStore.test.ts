@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createEncryptedTokenStore,
+  createMemoryTokenStore,
+  migratePlaintextTokens,
+} from '../secureTokenStore';
+import { STORAGE_KEYS } from '../../utils/constants';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (count: number) => new Uint8Array(require('crypto').randomBytes(count)),
+}));
+
+const TOKENS = {
+  accessToken: 'access-token-value',
+  refreshToken: 'refresh-token-value',
+  expiresAt: '2030-01-01T00:00:00.000Z',
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('createMemoryTokenStore', () => {
+  it('starts with the initial tokens and forgets them on clear', async () => {
+    const store = createMemoryTokenStore(TOKENS);
+
+    expect(await store.read()).toEqual(TOKENS);
+    await store.clear();
+    expect(await store.read()).toBeNull();
+  });
+
+  it('returns copies, so callers cannot change the stored tokens', async () => {
+    const store = createMemoryTokenStore();
+    await store.write(TOKENS);
+
+    const read = await store.read();
+    if (read) read.accessToken = 'changed';
+
+    expect(await store.read()).toEqual(TOKENS);
+  });
+});
+
+describe('createEncryptedTokenStore', () => {
+  it('reads back what it wrote', async () => {
+    const store = createEncryptedTokenStore();
+    await store.write(TOKENS);
+
+    expect(await store.read()).toEqual(TOKENS);
+  });
+
+  it('keeps no plaintext tokens in AsyncStorage', async () => {
+    await createEncryptedTokenStore().write(TOKENS);
+
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS_ENCRYPTED);
+    expect(stored).toMatch(/^[A-Za-z0-9+/=]+\.[A-Za-z0-9+/=]+$/);
+    expect(stored).not.toContain(TOKENS.accessToken);
+  });
+
+  it('reads tokens written by an earlier instance with the stored key', async () => {
+    await createEncryptedTokenStore().write(TOKENS);
+
+    expect(await createEncryptedTokenStore().read()).toEqual(TOKENS);
+  });
+
+  it('reads a tampered value as no tokens', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = createEncryptedTokenStore();
+    await store.write(TOKENS);
+    const stored = (await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS_ENCRYPTED)) ?? '';
+    const [nonce = '', ciphertext = ''] = stored.split('.');
+    const flipped = `${ciphertext[0] === 'A' ? 'B' : 'A'}${ciphertext.slice(1)}`;
+    await AsyncStorage.setItem(STORAGE_KEYS.AUTH_TOKENS_ENCRYPTED, `${nonce}.${flipped}`);
+
+    expect(await store.read()).toBeNull();
+  });
+
+  it('reads as no tokens once the key entry is lost', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await createEncryptedTokenStore().write(TOKENS);
+    await AsyncStorage.removeItem(STORAGE_KEYS.AUTH_TOKENS_KEY);
+
+    expect(await createEncryptedTokenStore().read()).toBeNull();
+  });
+
+  it('forgets the tokens on clear', async () => {
+    const store = createEncryptedTokenStore();
+    await store.write(TOKENS);
+    await store.clear();
+
+    expect(await store.read()).toBeNull();
+  });
+});
+
+describe('migratePlaintextTokens', () => {
+  it('moves plaintext tokens into the store', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.AUTH_TOKENS, JSON.stringify(TOKENS));
+    const store = createMemoryTokenStore();
+
+    await migratePlaintextTokens(store);
+
+    expect(await store.read()).toEqual(TOKENS);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS)).toBeNull();
+  });
+
+  it('keeps the tokens already in the store', async () => {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.AUTH_TOKENS,
+      JSON.stringify({ accessToken: 'older-token' })
+    );
+    const store = createMemoryTokenStore(TOKENS);
+
+    await migratePlaintextTokens(store);
+
+    expect(await store.read()).toEqual(TOKENS);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS)).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Alert Dismissals
+ * @purpose Remember which safety alerts the user dismissed, on the device and on the backend
+ *
+ * Dismissed alerts are kept in AsyncStorage (STORAGE_KEYS.DISMISSED_ALERTS),
+ * newest first, and belong to the signed-in account: they are cleared on
+ * sign-out. Dismissing an alert also queues POST /safety-alerts/:alertId/dismiss
+ * in the offline outbox, and syncDismissedAlerts adds the alerts dismissed on
+ * other devices.
+ *
+ * Only the newest MAX_DISMISSALS are kept; alerts end long before that many
+ * pile up.
+ *
+ * @example
+ * ```ts
+ * await dismissAlert(alert.id);
+ * const dismissedIds = await getDismissedAlertIds();
+ * const visible = alerts.filter(alert => !dismissedIds.includes(alert.id));
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AxiosRequestConfig } from 'axios';
+import { STORAGE_KEYS } from '../utils/constants';
+import { array, object, parseWithSchema, string } from '../utils/schema';
+import { fetchDismissedAlertIds } from './safetyService';
+import { enqueueMutation } from './offlineQueue';
+
+const MAX_DISMISSALS = 200;
+
+// Syncing is a background refresh; failures are not shown to the user
+const QUIET_REQUEST: AxiosRequestConfig = { headers: { 'X-Show-Error': 'false' }, retry: false };
+
+/**
+ * Dismissed alert as stored on the device
+ */
+export interface AlertDismissal {
+  alertId: string;
+  dismissedAt: string; // ISO date string
+}
+
+type DismissalListener = (alertIds: string[]) => void;
+
+const dismissalSchema = object<AlertDismissal>({
+  alertId: string({ nonEmpty: true }),
+  dismissedAt: string({ nonEmpty: true }),
+});
+
+let dismissals: AlertDismissal[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<DismissalListener>();
+
+const alertIdsOf = (list: AlertDismissal[]): string[] => list.map(item => item.alertId);
+
+function emit(): void {
+  const alertIds = alertIdsOf(dismissals);
+  listeners.forEach(listener => listener(alertIds));
+}
+
+async function update(next: AlertDismissal[]): Promise<void> {
+  dismissals = next.slice(0, MAX_DISMISSALS);
+  emit();
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.DISMISSED_ALERTS, JSON.stringify(dismissals));
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to persist dismissed alerts', error);
+  }
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.DISMISSED_ALERTS);
+        if (!raw) return;
+        dismissals = parseWithSchema(array(dismissalSchema), JSON.parse(raw), 'dismissed alerts');
+        emit();
+      } catch (error) {
+        if (__DEV__) console.warn('Discarding stored dismissed alerts', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Hide an alert for this user and report the dismissal to the backend
+ *
+ * Dismissing an alert that is already dismissed does nothing.
+ */
+export async function dismissAlert(alertId: string): Promise<void> {
+  await ensureLoaded();
+  if (dismissals.some(item => item.alertId === alertId)) return;
+
+  await update([{ alertId, dismissedAt: new Date().toISOString() }, ...dismissals]);
+  await enqueueMutation({ type: 'dismissSafetyAlert', alertId });
+}
+
+/**
+ * Add the alerts the user dismissed on other devices
+ *
+ * Local dismissals are kept even when the server does not list them yet:
+ * their requests may still be waiting in the outbox.
+ *
+ * @throws ApiErrorEnvelope when the list cannot be fetched
+ */
+export async function syncDismissedAlerts(): Promise<void> {
+  await ensureLoaded();
+  const remoteIds = await fetchDismissedAlertIds(QUIET_REQUEST);
+
+  const known = new Set(alertIdsOf(dismissals));
+  const syncedAt = new Date().toISOString();
+  const added = remoteIds
+    .filter(alertId => !known.has(alertId))
+    .map(alertId => ({ alertId, dismissedAt: syncedAt }));
+  if (added.length > 0) await update([...added, ...dismissals]);
+}
+
+/**
+ * Ids of the dismissed alerts, newest first
+ */
+export async function getDismissedAlertIds(): Promise<string[]> {
+  await ensureLoaded();
+  return alertIdsOf(dismissals);
+}
+
+/**
+ * Listen for dismissals
+ *
+ * The listener is called with the stored ids once they have loaded.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToDismissedAlerts(listener: DismissalListener): () => void {
+  listeners.add(listener);
+  void ensureLoaded().then(() => {
+    if (listeners.has(listener)) listener(alertIdsOf(dismissals));
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget every dismissal (used on sign-out)
+ */
+export async function clearDismissedAlerts(): Promise<void> {
+  await ensureLoaded();
+  await update([]);
+}
@@ -7,7 +7,9 @@
  *   error: boolean,       // true if request failed
  *   message: string,      // human-readable error message
  *   data?: any,          // optional error details or response data
- *   statusCode?: number  // HTTP status code
+ *   statusCode?: number, // HTTP status code
+ *   code?: ApiErrorCode, // DECODE_ERROR or GRAPHQL_ERROR (see below)
+ *   issues?: SchemaIssue[] // field paths and messages for DECODE_ERROR
  * }
  *
  * Success Response Shape:
@@ -16,6 +18,17 @@
  *   message: string,      // success message
  *   data: any            // actual response payload
  * }
+ *
+ * Payload Decoding:
+ * Every helper accepts `schema` in its config. The envelope's `data` is run
+ * through it before the promise resolves, so callers receive a typed,
+ * validated payload or an ApiErrorEnvelope with code DECODE_ERROR.
+ *
+ * @example
+ * ```ts
+ * const res = await get('/routes/featured', { schema: object({ routes: array(routeSchema) }) });
+ * res.data.routes; // Route[]
+ * ```
  */
 
 import axios, {
@@ -25,14 +38,70 @@ import axios, {
   AxiosResponse,
   AxiosError,
 } from 'axios';
-import { Alert } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { STORAGE_KEYS } from '../utils/constants';
+import { USE_MOCK_API, mockAdapter } from './mockApi';
+import { notify } from './notificationService';
+import { refreshAccessToken } from './authService';
+import {
+  readStoredTokens,
+  storeTokens,
+  clearStoredTokens,
+  isAccessTokenExpired,
+} from './tokenStorage';
+import {
+  IDEMPOTENCY_HEADER,
+  resolveRetryPolicy,
+  isRetryableError,
+  getRetryDelay,
+} from './retryPolicy';
+import type { RetryPolicy } from './retryPolicy';
+import { formatSchemaIssues } from '../utils/schema';
+import type { Schema, SchemaIssue } from '../utils/schema';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Skip automatic token refresh for this request (used by the refresh call itself)
+     */
+    skipAuthRefresh?: boolean;
+
+    /**
+     * Set once a request has been replayed after a refresh
+     */
+    _authRetried?: boolean;
+
+    /**
+     * Override the retry policy, or false to disable retries (see retryPolicy.ts)
+     */
+    retry?: Partial<RetryPolicy> | false;
+
+    /**
+     * Sent as the Idempotency-Key header; opts POST/PATCH into retries
+     */
+    idempotencyKey?: string;
+
+    /**
+     * Number of retries already made for this request
+     */
+    _retryCount?: number;
+
+    /**
+     * Adds a "Retry" action to the error notification for this request
+     */
+    onRetry?: () => void;
+  }
+}
 
 // Base URL from environment variable (fallback to backend dev server)
 // Backend Django + Graphene in this repo runs on port 8000 by default (docker-compose)
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:8000';
 
+/**
+ * Machine-readable error codes set by apiService
+ * - DECODE_ERROR: the response payload did not match the caller's schema
+ * - GRAPHQL_ERROR: a GraphQL response carried errors[] (set by graphqlClient)
+ */
+export type ApiErrorCode = 'DECODE_ERROR' | 'GRAPHQL_ERROR';
+
 /**
  * Standard API Error Envelope
  */
@@ -42,6 +111,8 @@ export interface ApiErrorEnvelope {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data?: any;
   statusCode?: number;
+  code?: ApiErrorCode;
+  issues?: SchemaIssue[]; // set with code DECODE_ERROR
 }
 
 /**
@@ -60,6 +131,16 @@ export interface ApiSuccessEnvelope<T = any> {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type ApiResponse<T = any> = ApiSuccessEnvelope<T> | ApiErrorEnvelope;
 
+/**
+ * Config accepted by the request helpers
+ */
+export interface ApiRequestConfig<T> extends AxiosRequestConfig {
+  /**
+   * Schema for the envelope's `data`; a mismatch rejects with code DECODE_ERROR
+   */
+  schema?: Schema<T>;
+}
+
 /**
  * Axios instance with pre-configured settings
  */
@@ -72,27 +153,141 @@ const apiClient: AxiosInstance = axios.create({
   },
 });
 
+// Serve requests from src/assets/mocks instead of the network (see mockApi.ts)
+if (USE_MOCK_API) {
+  apiClient.defaults.adapter = mockAdapter;
+}
+
+/**
+ * Session expiry listeners (AuthContext signs the user out)
+ */
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+/**
+ * Statuses with which the refresh endpoint rejects the refresh token itself.
+ * Anything else (network errors, timeouts, 5xx) is transient and keeps the session.
+ */
+const REJECTED_REFRESH_STATUSES = [400, 401, 403];
+
+/**
+ * Thrown by refreshSession when the session is over: no refresh token is
+ * stored or the backend rejected it
+ */
+export class SessionExpiredError extends Error {
+  constructor(message = 'Your session has expired. Please log in again.') {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Subscribe to session expiry (refresh token rejected or missing)
+ *
+ * @param listener - Called once per failed refresh
+ * @returns Unsubscribe function
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+/**
+ * In-flight refresh shared by every request that needs a new token.
+ * Concurrent 401s and requests issued mid-refresh all await this promise,
+ * so the refresh endpoint is hit once. A 401 that arrives after the refresh
+ * settled is replayed with the stored token instead (see the response
+ * interceptor).
+ */
+let refreshPromise: Promise<string> | null = null;
+
+function isRefreshRejected(error: unknown): boolean {
+  const status = (error as Partial<ApiErrorEnvelope> | null)?.statusCode;
+  return status !== undefined && REJECTED_REFRESH_STATUSES.includes(status);
+}
+
+/**
+ * Exchange the stored refresh token for a new access token
+ *
+ * The refresh request itself is retried by the retry policy. When it still
+ * fails transiently, the tokens are kept and only the error is passed on: a
+ * user who is offline with an expired access token stays signed in, and the
+ * next request tries again.
+ *
+ * @returns The new access token
+ * @throws SessionExpiredError when no refresh token is stored or the backend
+ * rejects it; stored tokens are cleared and session-expired listeners are notified
+ * @throws The refresh request's ApiErrorEnvelope on transient failures
+ */
+function refreshSession(): Promise<string> {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    try {
+      const current = await readStoredTokens();
+      if (!current?.refreshToken) throw new SessionExpiredError();
+
+      const tokens = await refreshAccessToken(current.refreshToken);
+      const stored = await storeTokens(tokens);
+      if (!stored) throw new Error('Refresh response did not include an access token');
+      return stored.accessToken;
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError) && !isRefreshRejected(error)) {
+        if (__DEV__) console.warn('Token refresh failed, keeping the session', error);
+        throw error;
+      }
+      if (__DEV__) console.warn('Refresh token rejected, ending the session', error);
+      await clearStoredTokens().catch(() => undefined);
+      sessionExpiredListeners.forEach(listener => listener());
+      throw error instanceof SessionExpiredError ? error : new SessionExpiredError();
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+}
+
 /**
  * Request Interceptor
- * - Adds authentication token to requests
+ * - Adds authentication token to requests, refreshing it first if expired
+ * - Waits for an in-flight refresh before sending
  * - Logs outgoing requests in development
  * - Can add custom headers or modify request config
  */
 apiClient.interceptors.request.use(
   async (config: InternalAxiosRequestConfig) => {
     // Retrieve auth token from AsyncStorage (AUTH_TOKENS)
-    try {
-      const tokenJson = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS);
-      if (tokenJson) {
-        const parsed = JSON.parse(tokenJson) as { accessToken?: string };
-        const authToken = parsed?.accessToken;
-        if (authToken && config.headers) {
-          config.headers.Authorization = `Bearer ${authToken}`;
+    if (!config.skipAuthRefresh) {
+      let authToken: string | undefined;
+      try {
+        if (refreshPromise) {
+          authToken = await refreshPromise;
+        } else {
+          const tokens = await readStoredTokens();
+          authToken = tokens?.accessToken;
+          if (tokens?.refreshToken && isAccessTokenExpired(tokens)) {
+            authToken = await refreshSession();
+          }
         }
+      } catch (e) {
+        // Send with the token as stored (none after an expired session); a 401
+        // response goes through the refresh handling below
+        if (__DEV__) console.warn('Failed to get a fresh auth token', e);
+        if (!authToken && !(e instanceof SessionExpiredError)) {
+          authToken = (await readStoredTokens().catch(() => null))?.accessToken;
+        }
+      }
+
+      if (authToken && config.headers) {
+        config.headers.Authorization = `Bearer ${authToken}`;
       }
-    } catch (e) {
-      // ignore token retrieval errors
-      if (__DEV__) console.warn('Failed to read auth token from storage', e);
+    }
+
+    if (config.idempotencyKey) {
+      config.headers[IDEMPOTENCY_HEADER] = config.idempotencyKey;
     }
 
     // Log requests in development mode
@@ -147,7 +342,70 @@ apiClient.interceptors.response.use(
 
     return response;
   },
-  (error: AxiosError<ApiErrorEnvelope>) => {
+  async (error: AxiosError<ApiErrorEnvelope>) => {
+    // Rejected access token: refresh once and replay the original request
+    const originalConfig = error.config;
+    if (
+      error.response?.status === 401 &&
+      originalConfig &&
+      !originalConfig.skipAuthRefresh &&
+      !originalConfig._authRetried
+    ) {
+      const tokens = await readStoredTokens().catch(() => null);
+      const sentToken = String(originalConfig.headers?.Authorization ?? '');
+
+      // The token was replaced after this request went out (a refresh that
+      // already finished): replay with it rather than spending the refresh token again
+      if (!refreshPromise && tokens?.accessToken && sentToken !== `Bearer ${tokens.accessToken}`) {
+        originalConfig._authRetried = true;
+        originalConfig.headers.Authorization = `Bearer ${tokens.accessToken}`;
+        return apiClient(originalConfig);
+      }
+
+      if (tokens?.refreshToken) {
+        originalConfig._authRetried = true;
+        try {
+          const accessToken = await refreshSession();
+          originalConfig.headers.Authorization = `Bearer ${accessToken}`;
+          return apiClient(originalConfig);
+        } catch (refreshError) {
+          // Transient refresh failures reject this request only; the session is kept
+          const envelope: ApiErrorEnvelope =
+            refreshError instanceof SessionExpiredError
+              ? { error: true, message: refreshError.message, statusCode: 401 }
+              : isApiErrorEnvelope(refreshError)
+                ? refreshError
+                : {
+                    error: true,
+                    message: 'Could not renew your session. Please try again.',
+                    statusCode: 0,
+                  };
+          if (originalConfig.headers?.['X-Show-Error'] !== 'false') {
+            surfaceErrorToUser(envelope, originalConfig);
+          }
+          return Promise.reject(envelope);
+        }
+      }
+    }
+
+    // Transient failure: back off and replay if the request's retry policy allows it
+    if (originalConfig) {
+      const policy = resolveRetryPolicy(originalConfig);
+      const attempt = originalConfig._retryCount ?? 0;
+      if (policy && attempt < policy.attempts && isRetryableError(error, policy)) {
+        originalConfig._retryCount = attempt + 1;
+        const delay = getRetryDelay(attempt, policy, error);
+        if (__DEV__) {
+          console.warn(`Retrying ${originalConfig.url} in ${Math.round(delay)}ms`, {
+            attempt: attempt + 1,
+            status: error.response?.status,
+          });
+        }
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return apiClient(originalConfig);
+      }
+    }
+
     // Log errors in development mode
     if (__DEV__) {
       console.error('❌ API Error:', {
@@ -181,8 +439,8 @@ apiClient.interceptors.response.use(
             errorEnvelope.message = 'Bad request. Please check your input.';
             break;
           case 401:
+            // Reached only when no refresh was possible (see above)
             errorEnvelope.message = 'Unauthorized. Please log in again.';
-            // TODO: Clear auth token and redirect to login
             break;
           case 403:
             errorEnvelope.message = 'Access denied. You do not have permission.';
@@ -211,7 +469,7 @@ apiClient.interceptors.response.use(
 
     // Surface errors to users (can be disabled or customized per-request)
     if (error.config?.headers?.['X-Show-Error'] !== 'false') {
-      surfaceErrorToUser(errorEnvelope);
+      surfaceErrorToUser(errorEnvelope, error.config);
     }
 
     return Promise.reject(errorEnvelope);
@@ -219,92 +477,165 @@ apiClient.interceptors.response.use(
 );
 
 /**
- * Surface error messages to users via Alert
- * Can be customized to use toast notifications or other UI patterns
+ * Surface error messages to users as a non-blocking toast
+ * Identical errors are deduplicated and rate-limited by notificationService,
+ * so parallel background requests failing together show a single toast.
  */
-function surfaceErrorToUser(error: ApiErrorEnvelope): void {
-  // In production, you might want to filter out certain errors
-  // or use a more sophisticated notification system
-  Alert.alert('Error', error.message, [{ text: 'OK' }]);
+function surfaceErrorToUser(error: ApiErrorEnvelope, config?: AxiosRequestConfig): void {
+  const onRetry = config?.onRetry;
+  notify({
+    message: error.message,
+    severity: error.statusCode === 0 || error.statusCode === 401 ? 'warning' : 'error',
+    dedupeKey: `api:${error.statusCode ?? 'unknown'}:${error.message}`,
+    action: onRetry ? { label: 'Retry', onPress: onRetry } : undefined,
+  });
+}
+
+/**
+ * Whether a rejection is an apiService error envelope
+ */
+export function isApiErrorEnvelope(error: unknown): error is ApiErrorEnvelope {
+  return typeof error === 'object' && error !== null && (error as ApiErrorEnvelope).error === true;
+}
+
+/**
+ * Rejection as an Error, keeping the server message of an error envelope
+ */
+export function toError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof Error) return error;
+  return new Error(isApiErrorEnvelope(error) ? error.message : fallbackMessage);
+}
+
+/**
+ * Whether a rejection came from a payload that failed schema validation
+ */
+export function isDecodeError(error: unknown): error is ApiErrorEnvelope {
+  return isApiErrorEnvelope(error) && error.code === 'DECODE_ERROR';
+}
+
+/**
+ * Run the envelope's data through the request schema, if one was given
+ */
+function decodeResponse<T>(
+  response: AxiosResponse<ApiSuccessEnvelope>,
+  schema: Schema<T> | undefined
+): ApiSuccessEnvelope<T> {
+  const envelope = response.data;
+  if (!schema) return envelope;
+
+  const result = schema.decode(envelope.data);
+  if (result.ok) return { ...envelope, data: result.value };
+
+  const decodeError: ApiErrorEnvelope = {
+    error: true,
+    code: 'DECODE_ERROR',
+    message: 'Received an unexpected response from the server.',
+    issues: result.issues,
+    statusCode: response.status,
+  };
+
+  if (__DEV__) {
+    console.error('❌ API Decode Error:', {
+      url: response.config.url,
+      issues: formatSchemaIssues(result.issues, 10),
+    });
+  }
+  return throwApiError(decodeError, response.config);
+}
+
+/**
+ * Surface and throw an error detected after a successful HTTP response
+ * (schema mismatch, GraphQL errors[]); X-Show-Error: 'false' keeps it silent
+ */
+export function throwApiError(error: ApiErrorEnvelope, config?: AxiosRequestConfig): never {
+  if (config?.headers?.['X-Show-Error'] !== 'false') {
+    surfaceErrorToUser(error, config);
+  }
+  throw error;
 }
 
 /**
  * Helper function to make GET requests
+ * Retried on network errors, 429 and 502-504 (override with config.retry)
  * @param url - Endpoint URL (relative to baseURL)
- * @param config - Optional axios config
+ * @param config - Optional axios config; `schema` validates the response data
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function get<T = any>(
   url: string,
-  config?: AxiosRequestConfig
+  config: ApiRequestConfig<T> = {}
 ): Promise<ApiSuccessEnvelope<T>> {
-  const response = await apiClient.get<ApiSuccessEnvelope<T>>(url, config);
-  return response.data;
+  const { schema, ...axiosConfig } = config;
+  return decodeResponse(await apiClient.get<ApiSuccessEnvelope>(url, axiosConfig), schema);
 }
 
 /**
  * Helper function to make POST requests
+ * Not retried unless config.idempotencyKey is set
  * @param url - Endpoint URL (relative to baseURL)
  * @param data - Request body
- * @param config - Optional axios config
+ * @param config - Optional axios config; `schema` validates the response data
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function post<T = any>(
   url: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data?: any,
-  config?: AxiosRequestConfig
+  config: ApiRequestConfig<T> = {}
 ): Promise<ApiSuccessEnvelope<T>> {
-  const response = await apiClient.post<ApiSuccessEnvelope<T>>(url, data, config);
-  return response.data;
+  const { schema, ...axiosConfig } = config;
+  return decodeResponse(await apiClient.post<ApiSuccessEnvelope>(url, data, axiosConfig), schema);
 }
 
 /**
  * Helper function to make PUT requests
+ * Retried on network errors, 429 and 502-504 (override with config.retry)
  * @param url - Endpoint URL (relative to baseURL)
  * @param data - Request body
- * @param config - Optional axios config
+ * @param config - Optional axios config; `schema` validates the response data
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function put<T = any>(
   url: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data?: any,
-  config?: AxiosRequestConfig
+  config: ApiRequestConfig<T> = {}
 ): Promise<ApiSuccessEnvelope<T>> {
-  const response = await apiClient.put<ApiSuccessEnvelope<T>>(url, data, config);
-  return response.data;
+  const { schema, ...axiosConfig } = config;
+  return decodeResponse(await apiClient.put<ApiSuccessEnvelope>(url, data, axiosConfig), schema);
 }
 
 /**
  * Helper function to make PATCH requests
+ * Not retried unless config.idempotencyKey is set
  * @param url - Endpoint URL (relative to baseURL)
  * @param data - Request body
- * @param config - Optional axios config
+ * @param config - Optional axios config; `schema` validates the response data
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function patch<T = any>(
   url: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data?: any,
-  config?: AxiosRequestConfig
+  config: ApiRequestConfig<T> = {}
 ): Promise<ApiSuccessEnvelope<T>> {
-  const response = await apiClient.patch<ApiSuccessEnvelope<T>>(url, data, config);
-  return response.data;
+  const { schema, ...axiosConfig } = config;
+  return decodeResponse(await apiClient.patch<ApiSuccessEnvelope>(url, data, axiosConfig), schema);
 }
 
 /**
  * Helper function to make DELETE requests
+ * Retried on network errors, 429 and 502-504 (override with config.retry)
  * @param url - Endpoint URL (relative to baseURL)
- * @param config - Optional axios config
+ * @param config - Optional axios config; `schema` validates the response data
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function del<T = any>(
   url: string,
-  config?: AxiosRequestConfig
+  config: ApiRequestConfig<T> = {}
 ): Promise<ApiSuccessEnvelope<T>> {
-  const response = await apiClient.delete<ApiSuccessEnvelope<T>>(url, config);
-  return response.data;
+  const { schema, ...axiosConfig } = config;
+  return decodeResponse(await apiClient.delete<ApiSuccessEnvelope>(url, axiosConfig), schema);
 }
 
 /**
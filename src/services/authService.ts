@@ -5,32 +5,23 @@
  * All functions return ApiResponse<T> from apiService
  */
 
-// import { get, post, put } from './apiService';
+import { isApiErrorEnvelope, post } from './apiService';
+import type { ApiErrorEnvelope } from './apiService';
+import { graphqlRequest, isGraphQLError } from './graphqlClient';
+import { createIdempotencyKey } from './retryPolicy';
+import {
+  LOGIN_MUTATION,
+  ME_QUERY,
+  REGISTER_MUTATION,
+  UPDATE_PROFILE_MUTATION,
+} from './graphqlOperations';
+import type { GraphQLAuthPayload, GraphQLUser } from './graphqlOperations';
+import { API_ENDPOINTS } from '../utils/constants';
+import { object, optional, string } from '../utils/schema';
 
 /**
  * User object shape returned from authentication endpoints
  */
-/**
- * Register a new user account
- *
- * @param email - User's email address
- * @param password - User's password (min 8 chars, must include uppercase, lowercase, number)
- * @param username - Unique username (3-20 chars, alphanumeric + underscore)
- * @param fullName - User's full name
- * @returns User object and authentication tokens
- *
- * TODO: Backend Integration
- * - Endpoint: POST /auth/register
- * - Request body: { email: string, password: string, username: string, fullName: string }
- * - Response: { error: false, message: "Registration successful", data: { user: User, tokens: AuthTokens } }
- * - Error codes:
- *   - 400: Validation error (weak password, invalid email, etc.)
- *   - 409: Email or username already exists
- * - Backend should send verification email
- * - Auto-login user after successful registration
- */
-import { post } from './apiService';
-
 export interface User {
   id: string;
   email: string;
@@ -58,7 +49,154 @@ export interface User {
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
-  expiresIn: number; // seconds until token expires
+  expiresIn?: number; // seconds until token expires (not returned by the GraphQL mutations)
+}
+
+/**
+ * User fields returned with login/register
+ */
+export type AuthSessionUser = Pick<User, 'id' | 'email' | 'username' | 'fullName' | 'avatar'> & {
+  primaryContact?: string;
+  secondaryContact?: string;
+};
+
+/**
+ * Profile fields the backend stores; omitted fields are left unchanged
+ */
+export interface ProfileUpdate {
+  avatarUrl?: string;
+  primaryContact?: string;
+  secondaryContact?: string;
+}
+
+/**
+ * Payload of a successful login or registration
+ */
+export interface AuthSession {
+  user: AuthSessionUser;
+  tokens: AuthTokens;
+}
+
+const refreshPayloadSchema = object<{ access: string; refresh?: string }>({
+  access: string({ nonEmpty: true }),
+  refresh: optional(string({ nonEmpty: true })),
+});
+
+/**
+ * Field-level messages for the login and sign-up forms
+ */
+export interface AuthFieldErrors {
+  name?: string;
+  email?: string;
+  password?: string;
+  form?: string; // not tied to one field (lockout, network, server errors)
+}
+
+/**
+ * Sign-in/sign-up failure with messages ready to show next to form fields
+ */
+export class AuthError extends Error {
+  readonly fields: AuthFieldErrors;
+  readonly statusCode?: number;
+
+  constructor(fields: AuthFieldErrors, statusCode?: number) {
+    super(fields.form ?? fields.email ?? fields.password ?? fields.name ?? 'Authentication failed');
+    this.name = 'AuthError';
+    this.fields = fields;
+    this.statusCode = statusCode;
+  }
+}
+
+// Auth errors are shown on the form, not as toasts
+const SILENT = { headers: { 'X-Show-Error': 'false' } };
+
+// graphene reports resolver exceptions as errors[] with HTTP 200; map the
+// backend's messages (backend/users/schema.py) onto the REST status codes
+const GRAPHQL_MESSAGE_STATUS: [RegExp, number][] = [
+  [/invalid credentials/i, 401],
+  [/authentication required/i, 401],
+  [/not found|no account/i, 404],
+  [/already in use|already exists/i, 409],
+  [/too many|locked/i, 429],
+];
+
+// Backend validation errors may arrive as { email: ["..."], password: "..." }
+const firstMessage = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+  return undefined;
+};
+
+/**
+ * Convert a failed login/register/session call into form errors
+ *
+ * - 401: wrong email or password (password field)
+ * - 404: unknown account (email field)
+ * - 409: email already registered (email field)
+ * - 429: too many attempts / account locked (form)
+ * - 400: per-field validation messages when the backend sends them
+ */
+export function toAuthError(error: unknown): AuthError {
+  if (error instanceof AuthError) return error;
+  if (!isApiErrorEnvelope(error)) {
+    return new AuthError({
+      form: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+    });
+  }
+
+  const statusCode = isGraphQLError(error)
+    ? GRAPHQL_MESSAGE_STATUS.find(([pattern]) => pattern.test(error.message))?.[1]
+    : error.statusCode;
+
+  switch (statusCode) {
+    case 401:
+      return new AuthError({ password: 'Incorrect email or password.' }, statusCode);
+    case 404:
+      return new AuthError({ email: 'No account found with this email.' }, statusCode);
+    case 409:
+      return new AuthError({ email: 'An account with this email already exists.' }, statusCode);
+    case 429:
+      return new AuthError(
+        { form: 'Too many sign-in attempts. Please wait a few minutes and try again.' },
+        statusCode
+      );
+    case 400: {
+      const data = (error.data ?? {}) as Record<string, unknown>;
+      const fields: AuthFieldErrors = {
+        name: firstMessage(data.fullName) ?? firstMessage(data.username),
+        email: firstMessage(data.email),
+        password: firstMessage(data.password) ?? firstMessage(data.newPassword),
+      };
+      if (fields.name ?? fields.email ?? fields.password) return new AuthError(fields, statusCode);
+      return new AuthError({ form: error.message }, statusCode);
+    }
+    default:
+      return new AuthError({ form: error.message }, statusCode);
+  }
+}
+
+// Blank contact fields come back as empty strings
+const optionalText = (value: string | null): string | undefined =>
+  value === null || value === '' ? undefined : value;
+
+const toSessionUser = (user: GraphQLUser): AuthSessionUser => ({
+  id: user.id,
+  email: user.email,
+  username: user.username,
+  fullName: [user.firstName, user.lastName].filter(Boolean).join(' '),
+  avatar: user.avatarUrl ?? undefined,
+  primaryContact: optionalText(user.primaryContact),
+  secondaryContact: optionalText(user.secondaryContact),
+});
+
+/**
+ * Map the graphene auth payload onto the app's session shape
+ */
+function toAuthSession(payload: GraphQLAuthPayload): AuthSession {
+  return {
+    user: toSessionUser(payload.user),
+    tokens: { accessToken: payload.accessToken, refreshToken: payload.refreshToken },
+  };
 }
 
 /**
@@ -68,82 +206,48 @@ export interface AuthTokens {
  * @param password - User's password
  * @returns User object and authentication tokens
  *
- * TODO: Backend Integration
- * - Endpoint: POST /auth/login
- * - Request body: { email: string, password: string }
- * - Response: { error: false, message: "Login successful", data: { user: User, tokens: AuthTokens } }
- * - Error codes:
- *   - 401: Invalid credentials
- *   - 404: User not found
- *   - 429: Too many login attempts
+ * Backend Contract:
+ * - GraphQL: mutation Login (graphqlOperations.ts)
+ * - Response: { login: { user: UserType, accessToken, refreshToken } }
+ * - Errors: errors[] with "Invalid credentials" (ApiErrorEnvelope, code GRAPHQL_ERROR)
+ * - Errors are not surfaced as toasts; convert them with toAuthError()
  * - Store tokens in secure storage (AsyncStorage/SecureStore)
  * - Store user object in global state/context
  */
-export async function login(_email: string, _password: string) {
-  try {
-    const graphqlMutation = `mutation Login($input: LoginInput!) {\n  login(input: $input) {\n    user { id email username fullName }\n    tokens { accessToken refreshToken expiresIn }\n  }\n}`;
-
-    const variables = { input: { email: _email, password: _password } };
-    const res = await post('/graphql', { query: graphqlMutation, variables });
-    // If calling GraphQL, our api wrapper returns an envelope: { error:false, message, data }
-    // where data is the raw GraphQL response (e.g. { data: { login: { ... } } }).
-    if (res && (res as any).data) {
-      const gqlResp = (res as any).data as any;
-      // Common shapes:
-      // 1) gqlResp = { data: { login: { user, tokens } } }
-      // 2) gqlResp = { login: { user, tokens } }
-      const candidate = gqlResp?.data?.login ?? gqlResp?.login ?? gqlResp?.data ?? gqlResp;
-      return candidate;
-    }
-    return res;
-  } catch (err) {
-    // Fallback to REST-style endpoint
-    try {
-      const res = await post('/auth/login', { email: _email, password: _password });
-      // REST style might return envelope { error:false, message, data }
-      return (res as any).data ?? res;
-    } catch (err2) {
-      throw err2;
-    }
-  }
+export async function login(email: string, password: string): Promise<AuthSession> {
+  const data = await graphqlRequest(LOGIN_MUTATION, { email, password }, SILENT);
+  return toAuthSession(data.login);
 }
 
+/**
+ * Register a new user account
+ *
+ * @param email - User's email address
+ * @param password - User's password (min 8 chars, must include uppercase, lowercase, number)
+ * @param username - Unique username (3-20 chars, alphanumeric + underscore)
+ * @param fullName - User's full name (split into firstName/lastName for the backend)
+ * @returns User object and authentication tokens
+ *
+ * Backend Contract:
+ * - GraphQL: mutation Register (graphqlOperations.ts)
+ * - Response: { register: { user: UserType, accessToken, refreshToken } }
+ * - Errors: errors[] with "Email already in use" (ApiErrorEnvelope, code GRAPHQL_ERROR)
+ * - Errors are not surfaced as toasts; convert them with toAuthError()
+ * - Auto-login user after successful registration
+ */
 export async function register(
   email: string,
   password: string,
   username: string,
   fullName: string
-) {
-  // Prefer GraphQL mutation if backend exposes /graphql
-  try {
-    const graphqlMutation = `mutation Register($input: RegisterInput!) {\n  register(input: $input) {\n    user { id email username fullName }\n    tokens { accessToken refreshToken expiresIn }\n  }\n}`;
-
-    const variables = {
-      input: {
-        email,
-        password,
-        username,
-        fullName,
-      },
-    };
-
-    const res = await post('/graphql', { query: graphqlMutation, variables });
-    if (res && (res as any).data) {
-      const gqlResp = (res as any).data as any;
-      const candidate = gqlResp?.data?.register ?? gqlResp?.register ?? gqlResp?.data ?? gqlResp;
-      return candidate;
-    }
-    return res;
-  } catch (err) {
-    // Fallback to REST-style endpoint
-    try {
-      const res = await post('/auth/register', { email, password, username, fullName });
-      return (res as any).data ?? res;
-    } catch (err2) {
-      // If both fail, surface original error
-      throw err2;
-    }
-  }
+): Promise<AuthSession> {
+  const [firstName = '', ...rest] = fullName.trim().split(/\s+/);
+  const data = await graphqlRequest(
+    REGISTER_MUTATION,
+    { email, password, username: username || undefined, firstName, lastName: rest.join(' ') },
+    SILENT
+  );
+  return toAuthSession(data.register);
 }
 
 /**
@@ -172,22 +276,32 @@ export async function logout() {
  * Refresh access token using refresh token
  *
  * @param refreshToken - Current refresh token
- * @returns New authentication tokens
+ * @returns New authentication tokens (the same refresh token unless the backend rotates it)
  *
- * TODO: Backend Integration
- * - Endpoint: POST /auth/refresh
- * - Request body: { refreshToken: string }
- * - Response: { error: false, message: "Token refreshed", data: { tokens: AuthTokens } }
+ * Backend Contract:
+ * - Endpoint: POST /auth/refresh/ (simplejwt TokenRefreshView, see backend/backend/urls.py)
+ * - Request body: { refresh: string }
+ * - Response: { access: string, refresh?: string } - refresh only with ROTATE_REFRESH_TOKENS
  * - Error codes:
- *   - 401: Invalid or expired refresh token (force logout)
- * - Store new tokens in secure storage
- * - This should be called automatically when access token expires
+ *   - 400/401/403: Invalid or expired refresh token (force logout)
+ *   - Anything else is transient: the session is kept
+ * - Called automatically by apiService when the access token expires or is rejected;
+ *   apiService persists the returned tokens
  */
-export async function refreshAccessToken(_refreshToken: string) {
-  // TODO: Replace with actual API call
-  // return post<{ tokens: AuthTokens }>('/auth/refresh', { refreshToken });
-
-  throw new Error('refreshAccessToken() not implemented - connect to backend endpoint');
+export async function refreshAccessToken(refreshToken: string): Promise<AuthTokens> {
+  // skipAuthRefresh keeps a rejected refresh from triggering another refresh; the
+  // idempotency key lets the retry policy retry it on network errors and 5xx
+  const res = await post(
+    API_ENDPOINTS.REFRESH_TOKEN,
+    { refresh: refreshToken },
+    {
+      skipAuthRefresh: true,
+      idempotencyKey: createIdempotencyKey(),
+      headers: { 'X-Show-Error': 'false' },
+      schema: refreshPayloadSchema,
+    }
+  );
+  return { accessToken: res.data.access, refreshToken: res.data.refresh ?? refreshToken };
 }
 
 /**
@@ -195,42 +309,45 @@ export async function refreshAccessToken(_refreshToken: string) {
  *
  * @returns Current user object
  *
- * TODO: Backend Integration
- * - Endpoint: GET /auth/me
- * - Headers: Authorization: Bearer {accessToken}
- * - Response: { error: false, message: "User profile retrieved", data: { user: User } }
+ * Backend Contract:
+ * - GraphQL: query Me (graphqlOperations.ts), Authorization: Bearer {accessToken}
+ * - Response: { me: UserType | null } - null when the token identifies no user
  * - Error codes:
- *   - 401: Invalid or expired token
+ *   - 401: Invalid or expired token (apiService refreshes once and replays)
  * - Use this to verify session validity and sync user data
+ * - Errors are not surfaced as toasts
+ *
+ * @throws ApiErrorEnvelope with statusCode 401 when the backend returns no user
  */
-export async function getCurrentUser() {
-  // TODO: Replace with actual API call
-  // return get<{ user: User }>('/auth/me');
-
-  throw new Error('getCurrentUser() not implemented - connect to backend endpoint');
+export async function getCurrentUser(): Promise<AuthSessionUser> {
+  const { me } = await graphqlRequest(ME_QUERY, {}, SILENT);
+  if (!me) {
+    const unauthenticated: ApiErrorEnvelope = {
+      error: true,
+      message: 'Your session has expired. Please log in again.',
+      statusCode: 401,
+    };
+    throw unauthenticated;
+  }
+  return toSessionUser(me);
 }
 
 /**
- * Update user profile
+ * Update the signed-in user's avatar and emergency contacts
  *
- * @param userId - User ID
- * @param updates - Partial user object with fields to update
- * @returns Updated user object
+ * @param updates - Fields to change; an empty string clears a contact
+ * @returns The updated user
  *
- * TODO: Backend Integration
- * - Endpoint: PUT /auth/profile
+ * Backend Contract:
+ * - GraphQL: mutation UpdateProfile (graphqlOperations.ts)
  * - Headers: Authorization: Bearer {accessToken}
- * - Request body: Partial<User> (only fields to update)
- * - Response: { error: false, message: "Profile updated", data: { user: User } }
- * - Allowed fields: fullName, username, bio, avatar, phoneNumber, location, safetyPreferences
- * - Email changes may require verification
- * - Update user object in global state
+ * - Response: { updateProfile: { user: UserType } }
+ * - Errors: errors[] with "Authentication required" (ApiErrorEnvelope, code GRAPHQL_ERROR)
+ * - Name, city, interests and display preferences are not stored by the backend yet
  */
-export async function updateProfile(_userId: string, _updates: Partial<User>) {
-  // TODO: Replace with actual API call
-  // return put<{ user: User }>('/auth/profile', updates);
-
-  throw new Error('updateProfile() not implemented - connect to backend endpoint');
+export async function updateProfile(updates: ProfileUpdate): Promise<AuthSessionUser> {
+  const data = await graphqlRequest(UPDATE_PROFILE_MUTATION, updates, SILENT);
+  return toSessionUser(data.updateProfile.user);
 }
 
 /**
@@ -246,17 +363,9 @@ export async function updateProfile(_userId: string, _updates: Partial<User>) {
  * - Backend sends email with reset token/link
  * - Return success even if email not found (security best practice)
  */
-export async function forgotPassword(_email: string) {
-  try {
-    // Try GraphQL forgotPassword mutation first
-    const gql = `mutation ForgotPassword($email: String!) {\n  forgotPassword(email: $email) { success message }\n}`;
-    await post('/graphql', { query: gql, variables: { email: _email } });
-    return { success: true };
-  } catch (err) {
-    // Fallback to REST endpoint
-    const res = await post('/auth/forgot-password', { email: _email });
-    return res.data;
-  }
+export async function forgotPassword(email: string): Promise<{ success: boolean }> {
+  await post('/auth/forgot-password', { email });
+  return { success: true };
 }
 
 /**
@@ -266,20 +375,22 @@ export async function forgotPassword(_email: string) {
  * @param newPassword - New password
  * @returns Success confirmation
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: POST /auth/reset-password
  * - Request body: { token: string, newPassword: string }
  * - Response: { error: false, message: "Password reset successful", data: null }
  * - Error codes:
  *   - 400: Invalid or expired token
- *   - 400: Weak password
- * - Invalidate all existing sessions for that user
+ *   - 400: Weak password ({ newPassword: [...] } in data)
+ * - Invalidates all existing sessions for that user
+ * - Errors are not surfaced as toasts; convert them with toAuthError()
  */
-export async function resetPassword(_token: string, _newPassword: string) {
-  // TODO: Replace with actual API call
-  // return post('/auth/reset-password', { token, newPassword });
-
-  throw new Error('resetPassword() not implemented - connect to backend endpoint');
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<{ success: boolean }> {
+  await post('/auth/reset-password', { token, newPassword }, SILENT);
+  return { success: true };
 }
 
 /**
@@ -288,17 +399,20 @@ export async function resetPassword(_token: string, _newPassword: string) {
  * @param token - Email verification token from email
  * @returns Success confirmation
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: POST /auth/verify-email
  * - Request body: { token: string }
  * - Response: { error: false, message: "Email verified", data: null }
  * - Error codes:
  *   - 400: Invalid or expired token
- *   - 409: Email already verified
+ *   - 409: Email already verified (treated as success)
+ * - Errors are not surfaced as toasts; the caller shows them
  */
-export async function verifyEmail(_token: string) {
-  // TODO: Replace with actual API call
-  // return post('/auth/verify-email', { token });
-
-  throw new Error('verifyEmail() not implemented - connect to backend endpoint');
+export async function verifyEmail(token: string): Promise<{ success: boolean }> {
+  try {
+    await post('/auth/verify-email', { token }, SILENT);
+  } catch (error) {
+    if (!isApiErrorEnvelope(error) || error.statusCode !== 409) throw error;
+  }
+  return { success: true };
 }
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Cache Service
+ * @purpose Two-level (in-memory + AsyncStorage) cache for API payloads
+ *
+ * Entries are keyed by a caller-supplied string (usually endpoint + serialized
+ * query) and stored with the time they were written. Reads within the TTL are
+ * served from memory first, then AsyncStorage. When a loader fails, the last
+ * persisted value is returned even if it is stale so screens keep rendering
+ * while offline.
+ *
+ * @example
+ * ```ts
+ * const result = await withCache('routes?city=SF', () => get('/routes?city=SF'), {
+ *   ttlMs: 5 * 60 * 1000,
+ * });
+ *
+ * // After a mutation
+ * await invalidateCache('routes');
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../utils/constants';
+
+/**
+ * Default time-to-live for cached entries (5 minutes)
+ */
+export const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Stored cache entry shape
+ */
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // epoch milliseconds
+}
+
+/**
+ * Options for withCache
+ */
+export interface CacheOptions {
+  /**
+   * Maximum age of an entry before the loader is called again
+   * @default DEFAULT_CACHE_TTL_MS
+   */
+  ttlMs?: number;
+
+  /**
+   * Skip fresh cache entries and always call the loader
+   * @default false
+   */
+  forceRefresh?: boolean;
+}
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+
+const storageKeyFor = (key: string): string => `${STORAGE_KEYS.API_CACHE}:${key}`;
+
+const isFresh = (entry: CacheEntry<unknown>, ttlMs: number): boolean =>
+  Date.now() - entry.storedAt < ttlMs;
+
+/**
+ * Read an entry from memory, falling back to AsyncStorage
+ */
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  const inMemory = memoryCache.get(key) as CacheEntry<T> | undefined;
+  if (inMemory) return inMemory;
+
+  try {
+    const raw = await AsyncStorage.getItem(storageKeyFor(key));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as CacheEntry<T>;
+    memoryCache.set(key, parsed);
+    return parsed;
+  } catch (e) {
+    if (__DEV__) console.warn(`Failed to read cache entry "${key}"`, e);
+    return null;
+  }
+}
+
+/**
+ * Get a cached value if it is younger than ttlMs
+ *
+ * @param key - Cache key
+ * @param ttlMs - Maximum age in milliseconds
+ * @returns Cached value, or null when missing or stale
+ */
+export async function getCached<T>(
+  key: string,
+  ttlMs: number = DEFAULT_CACHE_TTL_MS
+): Promise<T | null> {
+  const entry = await readEntry<T>(key);
+  if (!entry || !isFresh(entry, ttlMs)) return null;
+  return entry.value;
+}
+
+/**
+ * Store a value in memory and AsyncStorage
+ *
+ * @param key - Cache key
+ * @param value - JSON-serializable value
+ */
+export async function setCached<T>(key: string, value: T): Promise<void> {
+  const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+  memoryCache.set(key, entry);
+
+  try {
+    await AsyncStorage.setItem(storageKeyFor(key), JSON.stringify(entry));
+  } catch (e) {
+    if (__DEV__) console.warn(`Failed to persist cache entry "${key}"`, e);
+  }
+}
+
+/**
+ * Remove cached entries whose key starts with prefix (all entries if omitted)
+ *
+ * @param prefix - Key prefix to match, e.g. "routes"
+ */
+export async function invalidateCache(prefix = ''): Promise<void> {
+  for (const key of Array.from(memoryCache.keys())) {
+    if (key.startsWith(prefix)) memoryCache.delete(key);
+  }
+
+  try {
+    const storagePrefix = storageKeyFor(prefix);
+    const keys = await AsyncStorage.getAllKeys();
+    const matching = keys.filter(key => key.startsWith(storagePrefix));
+    if (matching.length > 0) {
+      await AsyncStorage.multiRemove(matching);
+    }
+  } catch (e) {
+    if (__DEV__) console.warn(`Failed to invalidate cache prefix "${prefix}"`, e);
+  }
+}
+
+/**
+ * Serve a value from cache or load and store it
+ *
+ * Falls back to a stale entry when the loader throws; rethrows if there is
+ * nothing cached for the key.
+ *
+ * @param key - Cache key
+ * @param loader - Function that fetches a fresh value
+ * @param options - TTL and refresh options
+ * @returns Cached or freshly loaded value
+ */
+export async function withCache<T>(
+  key: string,
+  loader: () => Promise<T>,
+  options: CacheOptions = {}
+): Promise<T> {
+  const { ttlMs = DEFAULT_CACHE_TTL_MS, forceRefresh = false } = options;
+
+  const entry = await readEntry<T>(key);
+  if (entry && !forceRefresh && isFresh(entry, ttlMs)) {
+    return entry.value;
+  }
+
+  try {
+    const value = await loader();
+    await setCached(key, value);
+    return value;
+  } catch (error) {
+    if (entry) {
+      if (__DEV__) console.warn(`Serving stale cache for "${key}"`, error);
+      return entry.value;
+    }
+    throw error;
+  }
+}
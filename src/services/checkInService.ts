@@ -0,0 +1,560 @@
+/**
+ * @fileoverview Check-in Service
+ * @purpose "Walk me home" timer that alerts the emergency contacts when the user does not check in
+ *
+ * The user sets when they expect to arrive. If they have not checked in by
+ * then, they get staged reminders (CHECK_IN_REMINDERS_MS after the expected
+ * time) and, CHECK_IN_ESCALATION_MS after it, the SOS workflow starts for
+ * them (sosService.triggerSos, whose countdown can still be cancelled).
+ *
+ * A check-in with a destination (the end point of the route being walked)
+ * follows the device location and checks in by itself within
+ * CHECK_IN_ARRIVAL_RADIUS_METERS of it, once the user has first been further
+ * away than that: a timer started at the destination does not end on its
+ * first fix.
+ *
+ * The rules live in pure functions of a CheckIn value and the current time
+ * (dueCheckInAction, nextCheckInWakeUp, ...), so they can be driven by a
+ * fake clock; the runtime below only sets a timer for the next wake-up and
+ * applies what is due. The check-in is kept in AsyncStorage
+ * (STORAGE_KEYS.CHECK_IN): after a restart, reminders missed while the app
+ * was closed collapse into the latest one, and a passed escalation time
+ * escalates right away. It is cleared on sign-out.
+ *
+ * The timers above stop while the app is suspended, so two things do not
+ * depend on them:
+ * - The reminders and a missed check-in notice are also scheduled as OS
+ *   notifications (localNotifications.ts). Without notification permission
+ *   the user is told that reminders only appear while the app is open.
+ * - Every start, extension and end is reported to the server (POST
+ *   /safety/check-ins, through the offline outbox), which alerts the
+ *   contacts itself when the timer is still active at its escalation time.
+ *
+ * @example
+ * ```ts
+ * await startCheckIn({
+ *   expectedAt: Date.now() + 30 * 60000,
+ *   senderName: user.name,
+ *   contacts: [user.primaryContact],
+ * });
+ * // ...later
+ * await completeCheckIn();
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AxiosRequestConfig } from 'axios';
+import { STORAGE_KEYS } from '../utils/constants';
+import { haversineDistance } from '../utils/geo';
+import type { LatLng } from '../utils/geo';
+import { array, number, object, oneOf, optional, parseWithSchema, string } from '../utils/schema';
+import { createDeviceLocationProvider } from './locationProvider';
+import type { LocationProvider } from './locationProvider';
+import { createIdempotencyKey } from './retryPolicy';
+import { dismissNotification, notify } from './notificationService';
+import { cancelLocalNotifications, scheduleLocalNotifications } from './localNotifications';
+import { enqueueMutation } from './offlineQueue';
+import { reportCheckIn } from './safetyService';
+import type { CheckInReport } from './safetyService';
+import { SosError, triggerSos } from './sosService';
+import type { UnitSystem } from '../types';
+
+// Reminders, measured from the expected arrival time
+export const CHECK_IN_REMINDERS_MS = [0, 5 * 60000];
+export const CHECK_IN_ESCALATION_MS = 10 * 60000;
+export const CHECK_IN_ARRIVAL_RADIUS_METERS = 50;
+
+export type CheckInStatus = 'active' | 'checked-in' | 'escalated';
+
+/**
+ * Check-in timer as stored on the device
+ */
+export interface CheckIn {
+  id: string;
+  status: CheckInStatus;
+  senderName: string;
+  contacts: string[]; // phone numbers, as entered in the profile
+  units?: UnitSystem; // passed on to the SOS of a missed check-in
+  startedAt: number; // ms since epoch
+  expectedAt: number; // ms since epoch
+  remindersSent: number; // reminders of the current expectedAt already shown
+  routeId?: string;
+  destination?: LatLng & { name?: string };
+  departedAt?: number; // ms since epoch, first fix outside the arrival radius
+  endedAt?: number; // ms since epoch
+}
+
+/**
+ * What is due for a check-in at a given time
+ */
+export type CheckInAction =
+  | { type: 'remind'; reminder: number; overdueMs: number }
+  | { type: 'escalate' };
+
+/**
+ * What startCheckIn needs to know
+ */
+export interface CheckInRequest {
+  expectedAt: number; // ms since epoch
+  senderName: string;
+  contacts: (string | undefined)[]; // empty entries are ignored
+  units?: UnitSystem;
+  routeId?: string;
+  /**
+   * Where the walk ends; reaching it checks in
+   */
+  destination?: LatLng & { name?: string };
+  /**
+   * Source of positions for arrival detection
+   * @default device GPS
+   */
+  provider?: LocationProvider;
+}
+
+/**
+ * Raised when a check-in cannot be started or changed
+ */
+export class CheckInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckInError';
+  }
+}
+
+type CheckInListener = (checkIn: CheckIn | null) => void;
+
+const checkInSchema = object<CheckIn>({
+  id: string({ nonEmpty: true }),
+  status: oneOf(['active', 'checked-in', 'escalated'] as const),
+  senderName: string(),
+  contacts: array(string()),
+  units: optional(oneOf(['metric', 'imperial'] as const)),
+  startedAt: number(),
+  expectedAt: number(),
+  remindersSent: number({ min: 0 }),
+  routeId: optional(string()),
+  destination: optional(
+    object<LatLng & { name?: string }>({
+      lat: number({ min: -90, max: 90 }),
+      lng: number({ min: -180, max: 180 }),
+      name: optional(string()),
+    })
+  ),
+  departedAt: optional(number()),
+  endedAt: optional(number()),
+});
+
+/**
+ * New active check-in
+ *
+ * @param now - Start time, ms since epoch
+ */
+export function createCheckIn(
+  request: Omit<CheckInRequest, 'provider'>,
+  id: string,
+  now: number
+): CheckIn {
+  return {
+    id,
+    status: 'active',
+    senderName: request.senderName,
+    contacts: [...new Set(request.contacts.map(contact => contact?.trim() ?? '').filter(Boolean))],
+    ...(request.units && { units: request.units }),
+    startedAt: now,
+    expectedAt: request.expectedAt,
+    remindersSent: 0,
+    ...(request.routeId && { routeId: request.routeId }),
+    ...(request.destination && { destination: request.destination }),
+  };
+}
+
+/**
+ * What should happen now, if anything
+ *
+ * Only the latest due reminder is returned, so reminders missed while the
+ * app was closed are not shown one after another.
+ */
+export function dueCheckInAction(checkIn: CheckIn, now: number): CheckInAction | null {
+  if (checkIn.status !== 'active') return null;
+  const overdueMs = now - checkIn.expectedAt;
+  if (overdueMs >= CHECK_IN_ESCALATION_MS) return { type: 'escalate' };
+
+  let reminder = -1;
+  CHECK_IN_REMINDERS_MS.forEach((offset, index) => {
+    if (overdueMs >= offset) reminder = index;
+  });
+  return reminder >= checkIn.remindersSent ? { type: 'remind', reminder, overdueMs } : null;
+}
+
+/**
+ * When the next reminder or the escalation is due
+ *
+ * @returns Time in ms since epoch, or null once the check-in has ended
+ */
+export function nextCheckInWakeUp(checkIn: CheckIn): number | null {
+  if (checkIn.status !== 'active') return null;
+  const offset = CHECK_IN_REMINDERS_MS[checkIn.remindersSent] ?? CHECK_IN_ESCALATION_MS;
+  return checkIn.expectedAt + Math.min(offset, CHECK_IN_ESCALATION_MS);
+}
+
+/**
+ * Check-in after the action returned by dueCheckInAction was carried out
+ */
+export function applyCheckInAction(checkIn: CheckIn, action: CheckInAction, now: number): CheckIn {
+  if (action.type === 'escalate') return { ...checkIn, status: 'escalated', endedAt: now };
+  return { ...checkIn, remindersSent: Math.max(checkIn.remindersSent, action.reminder + 1) };
+}
+
+/**
+ * Move the expected arrival later; reminders start over
+ *
+ * An overdue check-in is extended from now rather than from the missed time.
+ */
+export function postponeCheckIn(checkIn: CheckIn, extraMs: number, now: number): CheckIn {
+  return {
+    ...checkIn,
+    expectedAt: Math.max(checkIn.expectedAt, now) + extraMs,
+    remindersSent: 0,
+  };
+}
+
+/**
+ * Check-in with departedAt set once a position is outside the arrival radius
+ *
+ * @returns The same check-in when nothing changed
+ */
+export function recordDeparture(checkIn: CheckIn, position: LatLng, now: number): CheckIn {
+  if (!checkIn.destination || checkIn.departedAt !== undefined) return checkIn;
+  if (haversineDistance(position, checkIn.destination) <= CHECK_IN_ARRIVAL_RADIUS_METERS) {
+    return checkIn;
+  }
+  return { ...checkIn, departedAt: now };
+}
+
+/**
+ * Whether a position is close enough to the destination to check in
+ *
+ * Only after the user has departed (recordDeparture), so starting the timer
+ * at the destination does not check in right away.
+ */
+export function hasReachedDestination(checkIn: CheckIn, position: LatLng): boolean {
+  return (
+    checkIn.destination !== undefined &&
+    checkIn.departedAt !== undefined &&
+    haversineDistance(position, checkIn.destination) <= CHECK_IN_ARRIVAL_RADIUS_METERS
+  );
+}
+
+let current: CheckIn | null = null;
+let loadPromise: Promise<void> | null = null;
+let wakeUpTimer: ReturnType<typeof setTimeout> | null = null;
+let unsubscribeWatch: (() => void) | null = null;
+let reminderToastId: string | null = null;
+const listeners = new Set<CheckInListener>();
+
+function emit(): void {
+  listeners.forEach(listener => listener(current));
+}
+
+async function update(next: CheckIn | null): Promise<void> {
+  current = next?.status === 'active' ? next : null;
+  emit();
+  try {
+    if (current) await AsyncStorage.setItem(STORAGE_KEYS.CHECK_IN, JSON.stringify(current));
+    else await AsyncStorage.removeItem(STORAGE_KEYS.CHECK_IN);
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to persist check-in', error);
+  }
+}
+
+function dismissReminder(): void {
+  if (reminderToastId) dismissNotification(reminderToastId);
+  reminderToastId = null;
+}
+
+function stopTimers(): void {
+  if (wakeUpTimer) clearTimeout(wakeUpTimer);
+  wakeUpTimer = null;
+  unsubscribeWatch?.();
+  unsubscribeWatch = null;
+}
+
+function schedule(): void {
+  if (wakeUpTimer) clearTimeout(wakeUpTimer);
+  wakeUpTimer = null;
+  const wakeUp = current && nextCheckInWakeUp(current);
+  if (wakeUp == null) return;
+  wakeUpTimer = setTimeout(() => void evaluate(), Math.max(0, wakeUp - Date.now()));
+}
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Sent outside the outbox on sign-out, which clears it
+const QUIET_REQUEST: AxiosRequestConfig = { headers: { 'X-Show-Error': 'false' }, retry: false };
+
+function toReport(checkIn: CheckIn): CheckInReport {
+  return {
+    id: checkIn.id,
+    status: checkIn.status,
+    senderName: checkIn.senderName,
+    contacts: checkIn.contacts,
+    expectedAt: new Date(checkIn.expectedAt).toISOString(),
+    escalatesAt: new Date(checkIn.expectedAt + CHECK_IN_ESCALATION_MS).toISOString(),
+    ...(checkIn.routeId && { routeId: checkIn.routeId }),
+    ...(checkIn.destination && { destination: checkIn.destination }),
+  };
+}
+
+function reminderText(checkIn: CheckIn, reminder: number): { title: string; message: string } {
+  const escalatesAt = formatTime(checkIn.expectedAt + CHECK_IN_ESCALATION_MS);
+  return {
+    title: reminder === 0 ? 'Time to check in' : 'Are you OK?',
+    message: `You expected to arrive at ${formatTime(checkIn.expectedAt)}. Check in, or your emergency contacts will be alerted at ${escalatesAt}.`,
+  };
+}
+
+const deviceNotificationIds = (checkInId: string): string[] => [
+  ...CHECK_IN_REMINDERS_MS.map((_, index) => `check-in:${checkInId}:${index}`),
+  `check-in:${checkInId}:escalation`,
+];
+
+/**
+ * Schedule the reminders and the escalation notice as OS notifications,
+ * replacing those of an earlier expected arrival
+ *
+ * @returns Whether the OS will show them
+ */
+async function scheduleDeviceNotifications(checkIn: CheckIn): Promise<boolean> {
+  await cancelLocalNotifications(deviceNotificationIds(checkIn.id));
+  return scheduleLocalNotifications([
+    ...CHECK_IN_REMINDERS_MS.map((offset, index) => {
+      const { title, message } = reminderText(checkIn, index);
+      return {
+        id: `check-in:${checkIn.id}:${index}`,
+        title,
+        body: message,
+        at: checkIn.expectedAt + offset,
+      };
+    }),
+    {
+      id: `check-in:${checkIn.id}:escalation`,
+      title: 'Missed check-in',
+      body: 'Your emergency contacts are being alerted.',
+      at: checkIn.expectedAt + CHECK_IN_ESCALATION_MS,
+    },
+  ]);
+}
+
+function showReminder(checkIn: CheckIn, action: { reminder: number }): void {
+  dismissReminder();
+  reminderToastId = notify({
+    ...reminderText(checkIn, action.reminder),
+    severity: 'warning',
+    durationMs: 0,
+    dedupeKey: `check-in:${checkIn.id}:${action.reminder}`,
+    action: { label: "I'm Safe", onPress: () => void completeCheckIn() },
+  });
+}
+
+async function escalate(checkIn: CheckIn): Promise<void> {
+  try {
+    await triggerSos({
+      senderName: checkIn.senderName,
+      contacts: checkIn.contacts,
+      units: checkIn.units,
+      reason: `Missed check-in due at ${formatTime(checkIn.expectedAt)}`,
+    });
+  } catch (error) {
+    // An SOS already in progress has alerted the same contacts
+    if (!(error instanceof SosError) && __DEV__) console.warn('Check-in escalation failed', error);
+  }
+}
+
+async function evaluate(): Promise<void> {
+  const checkIn = current;
+  if (!checkIn) return;
+  const action = dueCheckInAction(checkIn, Date.now());
+  if (!action) {
+    schedule();
+    return;
+  }
+
+  if (action.type === 'escalate') {
+    stopTimers();
+    dismissReminder();
+    const escalated = applyCheckInAction(checkIn, action, Date.now());
+    await update(escalated);
+    await enqueueMutation({ type: 'reportCheckIn', report: toReport(escalated) });
+    await escalate(checkIn);
+    return;
+  }
+  await update(applyCheckInAction(checkIn, action, Date.now()));
+  showReminder(checkIn, action);
+  schedule();
+}
+
+async function watchDestination(provider: LocationProvider): Promise<void> {
+  const checkIn = current;
+  if (!checkIn?.destination) return;
+  let arrived = false;
+  try {
+    const unsubscribe = await provider.watch(
+      fix => {
+        if (arrived || !current || current.id !== checkIn.id) return;
+        const next = recordDeparture(current, fix, fix.timestamp);
+        if (next !== current) void update(next);
+        if (hasReachedDestination(next, fix)) {
+          arrived = true;
+          void completeCheckIn().then(() =>
+            notify({ message: 'You arrived. Checked in automatically.', severity: 'success' })
+          );
+        }
+      },
+      error => {
+        if (__DEV__) console.warn('Location updates stopped during check-in', error);
+      }
+    );
+    // Ended while the provider was starting
+    if (current?.id === checkIn.id && !unsubscribeWatch) unsubscribeWatch = unsubscribe;
+    else unsubscribe();
+  } catch (error) {
+    // The timer still runs; the user checks in by hand
+    if (__DEV__) console.warn('Arrival detection unavailable for check-in', error);
+  }
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.CHECK_IN);
+        if (!raw) return;
+        current = parseWithSchema(checkInSchema, JSON.parse(raw), 'check-in');
+        emit();
+        // Catch up on what came due while the app was closed
+        await evaluate();
+        if (current) void watchDestination(createDeviceLocationProvider({ distanceInterval: 20 }));
+      } catch (error) {
+        if (__DEV__) console.warn('Discarding stored check-in', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Start a check-in timer
+ *
+ * @throws CheckInError while another check-in is active, when the
+ * expected arrival is not in the future, or when there is no emergency
+ * contact to alert
+ */
+export async function startCheckIn(request: CheckInRequest): Promise<CheckIn> {
+  await ensureLoaded();
+  if (current) throw new CheckInError('A check-in timer is already running.');
+  const now = Date.now();
+  if (request.expectedAt <= now) {
+    throw new CheckInError('Choose an arrival time in the future.');
+  }
+
+  const { provider, ...details } = request;
+  const checkIn = createCheckIn(details, createIdempotencyKey(), now);
+  if (checkIn.contacts.length === 0) {
+    throw new CheckInError('Add an emergency contact to your profile to use the check-in timer.');
+  }
+  await update(checkIn);
+  schedule();
+  void watchDestination(provider ?? createDeviceLocationProvider({ distanceInterval: 20 }));
+  await enqueueMutation({ type: 'reportCheckIn', report: toReport(checkIn) });
+  if (!(await scheduleDeviceNotifications(checkIn))) {
+    notify({
+      message:
+        "Notifications are off, so check-in reminders only appear while WayTrove is open. Your contacts are still alerted if you don't check in.",
+      severity: 'info',
+      durationMs: 8000,
+      dedupeKey: 'check-in:notifications-off',
+    });
+  }
+  return checkIn;
+}
+
+/**
+ * Give the active check-in more time
+ *
+ * @throws CheckInError when no check-in is active
+ */
+export async function extendCheckIn(extraMs: number): Promise<CheckIn> {
+  await ensureLoaded();
+  if (!current) throw new CheckInError('There is no check-in timer to extend.');
+  const next = postponeCheckIn(current, extraMs, Date.now());
+  dismissReminder();
+  await update(next);
+  schedule();
+  await enqueueMutation({ type: 'reportCheckIn', report: toReport(next) });
+  await scheduleDeviceNotifications(next);
+  return next;
+}
+
+/**
+ * Check in: the user is safe and the timer stops
+ */
+export async function completeCheckIn(): Promise<void> {
+  await ensureLoaded();
+  if (!current) return;
+  stopTimers();
+  dismissReminder();
+  const ended: CheckIn = { ...current, status: 'checked-in', endedAt: Date.now() };
+  await update(ended);
+  await cancelLocalNotifications(deviceNotificationIds(ended.id));
+  await enqueueMutation({ type: 'reportCheckIn', report: toReport(ended) });
+}
+
+/**
+ * The active check-in, if any
+ */
+export async function getCheckIn(): Promise<CheckIn | null> {
+  await ensureLoaded();
+  return current;
+}
+
+/**
+ * Listen for the check-in starting, changing and ending
+ *
+ * The listener is called with the stored check-in once it has loaded.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToCheckIn(listener: CheckInListener): () => void {
+  listeners.add(listener);
+  void ensureLoaded().then(() => {
+    if (listeners.has(listener)) listener(current);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Stop the active check-in without alerting anyone (used on sign-out)
+ *
+ * The server is told right away rather than through the outbox, which is
+ * cleared on sign-out as well; call this while the session is still valid.
+ */
+export async function clearCheckIn(): Promise<void> {
+  await ensureLoaded();
+  stopTimers();
+  dismissReminder();
+  const cleared = current;
+  await update(null);
+  if (!cleared) return;
+  await cancelLocalNotifications(deviceNotificationIds(cleared.id));
+  try {
+    await reportCheckIn(
+      toReport({ ...cleared, status: 'checked-in', endedAt: Date.now() }),
+      QUIET_REQUEST
+    );
+  } catch (error) {
+    if (__DEV__) console.warn('Could not end the check-in on the server', error);
+  }
+}
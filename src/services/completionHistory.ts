@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Completion History
+ * @purpose Record finished walks on the device and report them to the backend
+ *
+ * Each finished walk is stored with what actually happened (time taken,
+ * distance walked, the walked path and the user's rating) and is the source
+ * of the personal statistics in utils/walkStats.ts. The history is kept in
+ * AsyncStorage (STORAGE_KEYS.WALK_COMPLETIONS), newest first, and belongs to
+ * the signed-in account: it is cleared on sign-out, and syncCompletions
+ * brings it back from the server after the next sign-in.
+ *
+ * Recording a completion also queues POST /routes/:routeId/complete in the
+ * offline outbox, so it reaches the server once there is a connection. A walk
+ * is recorded as soon as it ends; a rating given afterwards is sent again
+ * with the same completion id, which the server treats as an update.
+ *
+ * @example
+ * ```ts
+ * const completion = await recordCompletion({
+ *   routeId, routeTitle, city, category,
+ *   durationSeconds: 1820, distanceMeters: 2400, path: walkedTrack,
+ * });
+ * await rateCompletion(completion.id, 5);
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AxiosRequestConfig } from 'axios';
+import { STORAGE_KEYS } from '../utils/constants';
+import { encodePolyline } from '../utils/geo';
+import type { LatLng } from '../utils/geo';
+import { array, parseWithSchema } from '../utils/schema';
+import type { CompletedWalk } from '../utils/walkStats';
+import { createIdempotencyKey } from './retryPolicy';
+import { enqueueMutation } from './offlineQueue';
+import { fetchRouteCompletions, routeCompletionSchema } from './routesService';
+
+// Syncing is a background refresh; failures are not shown to the user
+const QUIET_REQUEST: AxiosRequestConfig = { headers: { 'X-Show-Error': 'false' }, retry: false };
+
+/**
+ * Finished walk as stored in the history
+ */
+export interface WalkCompletion extends CompletedWalk {
+  id: string;
+  routeId: string;
+  routeTitle: string;
+  path?: string; // walked track, encoded polyline
+}
+
+/**
+ * What the caller knows about a walk that just finished
+ */
+export interface NewWalkCompletion {
+  routeId: string;
+  routeTitle: string;
+  city: string;
+  category: string;
+  durationSeconds: number;
+  distanceMeters: number;
+  path?: LatLng[]; // walked track, in order
+  rating?: number; // 1-5
+  completedAt?: string; // ISO date string, defaults to now
+}
+
+type CompletionListener = (completions: WalkCompletion[]) => void;
+
+let completions: WalkCompletion[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<CompletionListener>();
+
+function emit(): void {
+  const snapshot = completions.slice();
+  listeners.forEach(listener => listener(snapshot));
+}
+
+async function update(next: WalkCompletion[]): Promise<void> {
+  completions = next;
+  emit();
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.WALK_COMPLETIONS, JSON.stringify(completions));
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to persist walk completions', error);
+  }
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.WALK_COMPLETIONS);
+        if (!raw) return;
+        completions = parseWithSchema(
+          array(routeCompletionSchema),
+          JSON.parse(raw),
+          'walk completions'
+        );
+        emit();
+      } catch (error) {
+        if (__DEV__) console.warn('Discarding stored walk completions', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+// Queue the completion; repeating its id updates the one on the server
+function report(completion: WalkCompletion): Promise<void> {
+  return enqueueMutation({
+    type: 'completeRoute',
+    routeId: completion.routeId,
+    completionData: {
+      id: completion.id,
+      duration: completion.durationSeconds,
+      distance: completion.distanceMeters,
+      completedAt: completion.completedAt,
+      ...(completion.rating !== undefined && { rating: completion.rating }),
+      ...(completion.path && { path: completion.path }),
+    },
+  });
+}
+
+/**
+ * Add a finished walk to the history and report it to the backend
+ *
+ * @returns The stored completion
+ */
+export async function recordCompletion(walk: NewWalkCompletion): Promise<WalkCompletion> {
+  await ensureLoaded();
+
+  const path = walk.path && walk.path.length >= 2 ? encodePolyline(walk.path) : undefined;
+  const completion: WalkCompletion = {
+    id: createIdempotencyKey(),
+    routeId: walk.routeId,
+    routeTitle: walk.routeTitle,
+    city: walk.city,
+    category: walk.category,
+    completedAt: walk.completedAt ?? new Date().toISOString(),
+    durationSeconds: Math.max(0, Math.round(walk.durationSeconds)),
+    distanceMeters: Math.max(0, Math.round(walk.distanceMeters)),
+    ...(path && { path }),
+    ...(walk.rating !== undefined && { rating: walk.rating }),
+  };
+
+  await update([completion, ...completions]);
+  await report(completion);
+  return completion;
+}
+
+/**
+ * Add the user's rating to a recorded walk and report it to the backend
+ *
+ * Does nothing when the walk is no longer in the history.
+ */
+export async function rateCompletion(id: string, rating: number): Promise<void> {
+  await ensureLoaded();
+  const rated = completions.find(completion => completion.id === id);
+  if (!rated) return;
+
+  const next = { ...rated, rating };
+  await update(completions.map(completion => (completion === rated ? next : completion)));
+  await report(next);
+}
+
+/**
+ * Add the walks recorded on other devices or before the last sign-out
+ *
+ * Local completions are kept even when the server does not list them yet:
+ * their requests may still be waiting in the outbox.
+ *
+ * @throws ApiErrorEnvelope when the list cannot be fetched
+ */
+export async function syncCompletions(): Promise<void> {
+  await ensureLoaded();
+  const remote = await fetchRouteCompletions(QUIET_REQUEST);
+
+  const known = new Set(completions.map(completion => completion.id));
+  const added = remote.filter(completion => !known.has(completion.id));
+  if (added.length === 0) return;
+  const merged = [...added, ...completions].sort(
+    (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
+  );
+  await update(merged);
+}
+
+/**
+ * Stored completions, newest first
+ */
+export async function getCompletions(): Promise<WalkCompletion[]> {
+  await ensureLoaded();
+  return completions.slice();
+}
+
+/**
+ * Listen for changes to the history
+ *
+ * The listener is called with the stored history once it has loaded.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToCompletions(listener: CompletionListener): () => void {
+  listeners.add(listener);
+  void ensureLoaded().then(() => {
+    if (listeners.has(listener)) listener(completions.slice());
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget every completion (used on sign-out)
+ */
+export async function clearCompletions(): Promise<void> {
+  await ensureLoaded();
+  await update([]);
+}
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Format Service
+ * @purpose Locale- and unit-aware display formatting driven by user preferences
+ *
+ * createFormatter binds a unit system and a locale once and returns the
+ * formatting functions screens need: numbers, distances, elevations, speeds,
+ * durations, percentages and relative times. Screens get one for the signed-in
+ * user from useFormatter instead of defining their own helpers.
+ *
+ * - Units come from preferences.units (metric when unset); imperial distances
+ *   switch to feet below a tenth of a mile, elevations are always in feet
+ * - The locale is preferences.language, else the device locale, else
+ *   APP_CONFIG.DEFAULT_LANGUAGE. It controls digit grouping, decimal
+ *   separators and relative-time wording; unit symbols are not translated
+ * - Relative times use Intl.RelativeTimeFormat where the JS engine provides
+ *   it and fall back to the compact English form of formatTimeAgo otherwise
+ *
+ * @example
+ * ```ts
+ * const format = createFormatter({ units: 'imperial', language: 'en' });
+ * format.distance(5200);    // "3.2 mi"
+ * format.speed(1.4);        // "3.1 mph"
+ * format.relativeTime(iso); // "2 hr. ago"
+ * ```
+ */
+
+import { APP_CONFIG } from '../utils/constants';
+import { formatTimeAgo } from '../utils/formatters';
+import type { UnitSystem } from '../types';
+
+const METERS_PER_MILE = 1609.344;
+const FEET_PER_METER = 3.28084;
+const KMH_PER_MPS = 3.6;
+const MPH_PER_MPS = 2.236936;
+
+/**
+ * Preferences the formatter follows; both are optional
+ */
+export interface FormatPreferences {
+  units?: UnitSystem;
+  language?: string; // BCP 47 tag or ISO 639-1 code, e.g. "en", "fr-CA"
+}
+
+export interface Formatter {
+  readonly units: UnitSystem;
+  readonly locale: string;
+  /**
+   * Plain number with locale grouping, e.g. "12,345" or "12 345"
+   */
+  number: (value: number, fractionDigits?: number) => string;
+  /**
+   * "850 m" / "5.2 km", or "328 ft" / "3.2 mi"
+   */
+  distance: (meters: number) => string;
+  /**
+   * "150 m" / "1.2 km", or "492 ft"
+   */
+  elevation: (meters: number) => string;
+  /**
+   * "5.0 km/h", or "3.1 mph"
+   */
+  speed: (metersPerSecond: number) => string;
+  /**
+   * "< 1 min", "45 min", "1h 30m"
+   */
+  duration: (seconds: number) => string;
+  /**
+   * Fraction as a whole percentage, e.g. 0.08 → "8%"
+   */
+  percent: (fraction: number) => string;
+  /**
+   * Time relative to now (or `now`), e.g. "2 hr. ago", "yesterday"
+   */
+  relativeTime: (timestamp: string | number | Date, now?: Date) => string;
+}
+
+const RELATIVE_STEPS: { unit: Intl.RelativeTimeFormatUnit; seconds: number }[] = [
+  { unit: 'year', seconds: 31536000 },
+  { unit: 'month', seconds: 2592000 },
+  { unit: 'week', seconds: 604800 },
+  { unit: 'day', seconds: 86400 },
+  { unit: 'hour', seconds: 3600 },
+  { unit: 'minute', seconds: 60 },
+];
+
+const isValidLocale = (locale: string): boolean => {
+  try {
+    new Intl.NumberFormat(locale);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const deviceLocale = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Locale for a preferred language, falling back to the device and then the app default
+ */
+export function resolveLocale(language?: string): string {
+  const candidates = [language, deviceLocale(), APP_CONFIG.DEFAULT_LANGUAGE];
+  return (
+    candidates.find((candidate): candidate is string => !!candidate && isValidLocale(candidate)) ??
+    'en'
+  );
+}
+
+/**
+ * Create a formatter for a unit system and language
+ */
+export function createFormatter(preferences: FormatPreferences = {}): Formatter {
+  const units = preferences.units ?? 'metric';
+  const locale = resolveLocale(preferences.language);
+
+  // Intl formatters are comparatively expensive to construct, so reuse them
+  const numberFormats = new Map<number, Intl.NumberFormat>();
+  const number = (value: number, fractionDigits = 0): string => {
+    let numberFormat = numberFormats.get(fractionDigits);
+    if (!numberFormat) {
+      numberFormat = new Intl.NumberFormat(locale, {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+      });
+      numberFormats.set(fractionDigits, numberFormat);
+    }
+    return numberFormat.format(value);
+  };
+
+  const percentFormat = new Intl.NumberFormat(locale, {
+    style: 'percent',
+    maximumFractionDigits: 0,
+  });
+  const relativeFormat =
+    typeof Intl.RelativeTimeFormat === 'function'
+      ? new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'short' })
+      : null;
+
+  const distance = (meters: number): string => {
+    if (units === 'imperial') {
+      const miles = meters / METERS_PER_MILE;
+      return miles < 0.1
+        ? `${number(Math.round(meters * FEET_PER_METER))} ft`
+        : `${number(miles, 1)} mi`;
+    }
+    return meters < 1000 ? `${number(Math.round(meters))} m` : `${number(meters / 1000, 1)} km`;
+  };
+
+  const elevation = (meters: number): string => {
+    if (units === 'imperial') return `${number(Math.round(meters * FEET_PER_METER))} ft`;
+    return meters < 1000 ? `${number(Math.round(meters))} m` : `${number(meters / 1000, 1)} km`;
+  };
+
+  const speed = (metersPerSecond: number): string =>
+    units === 'imperial'
+      ? `${number(metersPerSecond * MPH_PER_MPS, 1)} mph`
+      : `${number(metersPerSecond * KMH_PER_MPS, 1)} km/h`;
+
+  const duration = (seconds: number): string => {
+    if (seconds < 60) return '< 1 min';
+    const totalMinutes = Math.round(seconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${number(minutes)} min`;
+    return minutes === 0 ? `${number(hours)}h` : `${number(hours)}h ${minutes}m`;
+  };
+
+  const relativeTime = (timestamp: string | number | Date, now: Date = new Date()): string => {
+    const time = new Date(timestamp);
+    if (!relativeFormat) return formatTimeAgo(time.toISOString());
+
+    const elapsedSeconds = Math.max(0, (now.getTime() - time.getTime()) / 1000);
+    const step = RELATIVE_STEPS.find(candidate => elapsedSeconds >= candidate.seconds);
+    if (!step) return relativeFormat.format(0, 'second'); // "now"
+    return relativeFormat.format(-Math.floor(elapsedSeconds / step.seconds), step.unit);
+  };
+
+  return {
+    units,
+    locale,
+    number,
+    distance,
+    elevation,
+    speed,
+    duration,
+    percent: fraction => percentFormat.format(fraction),
+    relativeTime,
+  };
+}
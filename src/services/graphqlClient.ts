@@ -0,0 +1,190 @@
+/**
+ * @fileoverview GraphQL Client
+ * @purpose Typed requests to the Django graphene endpoint on top of apiService
+ *
+ * Operations are declared once with defineOperation(), which ties the
+ * document to its variables type and a schema for the `data` payload.
+ * graphqlRequest() posts the document to /graphql/ and resolves with the
+ * decoded data. Responses carrying `errors[]` reject with an ApiErrorEnvelope
+ * (code GRAPHQL_ERROR) and are surfaced like any other API error; a `data`
+ * payload that does not match the operation's schema rejects with
+ * DECODE_ERROR.
+ *
+ * Operation definitions live in graphqlOperations.ts and are validated
+ * against the backend SDL (backend/schema.graphql) by the test suite.
+ *
+ * @example
+ * ```ts
+ * const { login } = await graphqlRequest(LOGIN_MUTATION, { email, password });
+ * ```
+ */
+
+import type { AxiosRequestConfig } from 'axios';
+import { post, throwApiError } from './apiService';
+import type { ApiErrorEnvelope } from './apiService';
+import {
+  array,
+  either,
+  number,
+  object,
+  optional,
+  plainObject,
+  string,
+  unknownValue,
+  formatSchemaIssues,
+} from '../utils/schema';
+import type { Schema } from '../utils/schema';
+
+// graphene-django is mounted with a trailing slash (backend/backend/urls.py)
+const GRAPHQL_ENDPOINT = '/graphql/';
+
+/**
+ * Entry of a GraphQL response's errors[]
+ */
+export interface GraphQLErrorDetail {
+  message: string;
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * ApiErrorEnvelope raised for a response with errors[]
+ */
+export interface GraphQLErrorEnvelope extends ApiErrorEnvelope {
+  code: 'GRAPHQL_ERROR';
+  data: { errors: GraphQLErrorDetail[] };
+}
+
+/**
+ * Reusable selection on a named type, spread into operations as ...Name
+ */
+export interface GraphQLFragment {
+  name: string;
+  document: string;
+}
+
+/**
+ * Query or mutation with typed variables and result
+ */
+export interface GraphQLOperation<TData, TVariables extends object = Record<string, never>> {
+  name: string;
+  document: string; // operation followed by the fragments it spreads
+  schema: Schema<TData>;
+  /** Type-only marker; never set at runtime */
+  readonly variablesType?: TVariables;
+}
+
+/**
+ * Declare a fragment
+ *
+ * @param document - e.g. "fragment UserFields on UserType { id email }"
+ */
+export function defineFragment(document: string): GraphQLFragment {
+  const match = /^\s*fragment\s+(\w+)\s+on\s+\w+/.exec(document);
+  if (!match?.[1]) throw new Error('Fragment document must start with "fragment <Name> on <Type>"');
+  return { name: match[1], document: document.trim() };
+}
+
+/**
+ * Declare a named operation
+ *
+ * @param document - Query or mutation source, e.g. "mutation Login($email: String!) { ... }"
+ * @param schema - Decoder for the response's `data`
+ * @param fragments - Fragments spread by the document
+ */
+export function defineOperation<TData, TVariables extends object = Record<string, never>>(
+  document: string,
+  schema: Schema<TData>,
+  fragments: GraphQLFragment[] = []
+): GraphQLOperation<TData, TVariables> {
+  const match = /^\s*(?:query|mutation)\s+(\w+)/.exec(document);
+  if (!match?.[1]) throw new Error('Operation document must start with "query|mutation <Name>"');
+  return {
+    name: match[1],
+    document: [document.trim(), ...fragments.map(fragment => fragment.document)].join('\n\n'),
+    schema,
+  };
+}
+
+const graphqlErrorSchema: Schema<GraphQLErrorDetail> = object<GraphQLErrorDetail>({
+  message: string(),
+  path: optional(array(either(string(), number()))),
+  extensions: optional(plainObject()),
+});
+
+const graphqlBodySchema = object<{ data?: unknown; errors?: GraphQLErrorDetail[] }>({
+  data: optional(unknownValue()),
+  errors: optional(array(graphqlErrorSchema)),
+});
+
+/**
+ * Whether a rejection came from GraphQL errors[]
+ */
+export function isGraphQLError(error: unknown): error is GraphQLErrorEnvelope {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiErrorEnvelope).error === true &&
+    (error as ApiErrorEnvelope).code === 'GRAPHQL_ERROR'
+  );
+}
+
+/**
+ * Execute an operation against the backend
+ *
+ * @param operation - Operation from defineOperation()
+ * @param variables - Variables declared by the operation
+ * @param config - Optional axios config (headers, X-Show-Error, ...)
+ * @returns The decoded `data` payload
+ * @throws ApiErrorEnvelope with code GRAPHQL_ERROR, DECODE_ERROR, or an HTTP error
+ */
+export async function graphqlRequest<TData, TVariables extends object>(
+  operation: GraphQLOperation<TData, TVariables>,
+  variables: TVariables,
+  config: AxiosRequestConfig = {}
+): Promise<TData> {
+  const res = await post(
+    GRAPHQL_ENDPOINT,
+    { query: operation.document, operationName: operation.name, variables },
+    {
+      ...config,
+      // graphene answers invalid documents with 400 and an errors[] body
+      validateStatus: status => (status >= 200 && status < 300) || status === 400,
+      schema: graphqlBodySchema,
+    }
+  );
+
+  const { data, errors } = res.data;
+  if (errors && errors.length > 0) {
+    const graphqlError: GraphQLErrorEnvelope = {
+      error: true,
+      code: 'GRAPHQL_ERROR',
+      message: errors[0]?.message ?? 'The server could not complete the request.',
+      data: { errors },
+    };
+    if (__DEV__) {
+      console.error(`❌ GraphQL Error (${operation.name}):`, errors);
+    }
+    return throwApiError(graphqlError, config);
+  }
+
+  const result = operation.schema.decode(data, 'data');
+  if (!result.ok) {
+    if (__DEV__) {
+      console.error(`❌ GraphQL Decode Error (${operation.name}):`, {
+        issues: formatSchemaIssues(result.issues, 10),
+      });
+    }
+    return throwApiError(
+      {
+        error: true,
+        code: 'DECODE_ERROR',
+        message: 'Received an unexpected response from the server.',
+        issues: result.issues,
+      },
+      config
+    );
+  }
+
+  return result.value;
+}
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview GraphQL Operations
+ * @purpose Typed documents for the graphene endpoint (backend/users/schema.py)
+ *
+ * Every operation selects users through the shared UserFields fragment, so
+ * a field added to the app's user model is requested everywhere at once.
+ * Result types mirror the SDL; graphene declares most object fields
+ * nullable, but the schemas below require what a successful response always
+ * carries (e.g. tokens after login) so missing values surface as
+ * DECODE_ERROR instead of reaching the UI.
+ *
+ * New operations must be added to GRAPHQL_OPERATIONS; the test suite validates
+ * each one against the SDL exported from graphene (backend/schema.graphql,
+ * regenerated with `npm run graphql:schema`).
+ */
+
+import { defineFragment, defineOperation } from './graphqlClient';
+import type { GraphQLOperation } from './graphqlClient';
+import { nullable, object, string } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+
+/**
+ * UserType as selected by USER_FIELDS
+ */
+export interface GraphQLUser {
+  id: string;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  avatarUrl: string | null;
+  primaryContact: string | null;
+  secondaryContact: string | null;
+  profileJson: string; // JSONString: serialized JSON object
+}
+
+/**
+ * Payload of the login and register mutations
+ */
+export interface GraphQLAuthPayload {
+  user: GraphQLUser;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export const USER_FIELDS = defineFragment(`
+  fragment UserFields on UserType {
+    id
+    username
+    email
+    firstName
+    lastName
+    avatarUrl
+    primaryContact
+    secondaryContact
+    profileJson
+  }
+`);
+
+export const graphqlUserSchema: Schema<GraphQLUser> = object<GraphQLUser>({
+  id: string({ nonEmpty: true }),
+  username: string(),
+  email: string(),
+  firstName: string(),
+  lastName: string(),
+  avatarUrl: nullable(string()),
+  primaryContact: nullable(string()),
+  secondaryContact: nullable(string()),
+  profileJson: string(),
+});
+
+const authPayloadSchema: Schema<GraphQLAuthPayload> = object<GraphQLAuthPayload>({
+  user: graphqlUserSchema,
+  accessToken: string({ nonEmpty: true }),
+  refreshToken: string({ nonEmpty: true }),
+});
+
+export const LOGIN_MUTATION: GraphQLOperation<
+  { login: GraphQLAuthPayload },
+  { email: string; password: string }
+> = defineOperation(
+  `
+  mutation Login($email: String!, $password: String!) {
+    login(email: $email, password: $password) {
+      user {
+        ...UserFields
+      }
+      accessToken
+      refreshToken
+    }
+  }
+`,
+  object<{ login: GraphQLAuthPayload }>({ login: authPayloadSchema }),
+  [USER_FIELDS]
+);
+
+export const REGISTER_MUTATION: GraphQLOperation<
+  { register: GraphQLAuthPayload },
+  { email: string; password: string; username?: string; firstName?: string; lastName?: string }
+> = defineOperation(
+  `
+  mutation Register(
+    $email: String!
+    $password: String!
+    $username: String
+    $firstName: String
+    $lastName: String
+  ) {
+    register(
+      email: $email
+      password: $password
+      username: $username
+      firstName: $firstName
+      lastName: $lastName
+    ) {
+      user {
+        ...UserFields
+      }
+      accessToken
+      refreshToken
+    }
+  }
+`,
+  object<{ register: GraphQLAuthPayload }>({ register: authPayloadSchema }),
+  [USER_FIELDS]
+);
+
+export const UPDATE_PROFILE_MUTATION: GraphQLOperation<
+  { updateProfile: { user: GraphQLUser } },
+  { avatarUrl?: string; primaryContact?: string; secondaryContact?: string }
+> = defineOperation(
+  `
+  mutation UpdateProfile($avatarUrl: String, $primaryContact: String, $secondaryContact: String) {
+    updateProfile(
+      avatarUrl: $avatarUrl
+      primaryContact: $primaryContact
+      secondaryContact: $secondaryContact
+    ) {
+      user {
+        ...UserFields
+      }
+    }
+  }
+`,
+  object<{ updateProfile: { user: GraphQLUser } }>({
+    updateProfile: object<{ user: GraphQLUser }>({ user: graphqlUserSchema }),
+  }),
+  [USER_FIELDS]
+);
+
+// me is null for anonymous requests
+export const ME_QUERY: GraphQLOperation<{ me: GraphQLUser | null }> = defineOperation(
+  `
+  query Me {
+    me {
+      ...UserFields
+    }
+  }
+`,
+  object<{ me: GraphQLUser | null }>({ me: nullable(graphqlUserSchema) }),
+  [USER_FIELDS]
+);
+
+export const GRAPHQL_OPERATIONS = [
+  LOGIN_MUTATION,
+  REGISTER_MUTATION,
+  UPDATE_PROFILE_MUTATION,
+  ME_QUERY,
+];
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Local Notifications
+ * @purpose Schedule OS notifications that reach the user while the app is in the background or closed
+ *
+ * Thin wrapper over expo-notifications for services whose timers stop when
+ * the app is suspended (the check-in timer). In-app messages go through
+ * notificationService instead; no handler is set for notifications that
+ * arrive while the app is in the foreground, so the OS does not show them
+ * on top of the in-app toast.
+ *
+ * Permission is requested the first time something is scheduled. Without it
+ * (or on web) nothing is scheduled and callers keep their in-app behaviour.
+ *
+ * @example
+ * ```ts
+ * await scheduleLocalNotifications([
+ *   { id: 'check-in:abc:0', title: 'Time to check in', body: '...', at: expectedAt },
+ * ]);
+ * await cancelLocalNotifications(['check-in:abc:0']);
+ * ```
+ */
+
+import * as Notifications from 'expo-notifications';
+
+/**
+ * Notification shown by the OS at a given time
+ */
+export interface LocalNotification {
+  id: string; // stable, so it can be replaced or cancelled
+  title: string;
+  body: string;
+  at: number; // ms since epoch
+}
+
+async function hasPermission(): Promise<boolean> {
+  const settings = await Notifications.getPermissionsAsync();
+  if (settings.granted) return true;
+  if (!settings.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/**
+ * Schedule notifications, replacing scheduled ones with the same ids
+ *
+ * Times already in the past are skipped.
+ *
+ * @returns Whether the OS will show them; false without permission or
+ * where local notifications are not supported
+ */
+export async function scheduleLocalNotifications(
+  notifications: LocalNotification[]
+): Promise<boolean> {
+  try {
+    if (!(await hasPermission())) return false;
+    const now = Date.now();
+    for (const notification of notifications) {
+      if (notification.at <= now) continue;
+      await Notifications.scheduleNotificationAsync({
+        identifier: notification.id,
+        content: { title: notification.title, body: notification.body },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: notification.at },
+      });
+    }
+    return true;
+  } catch (error) {
+    if (__DEV__) console.warn('Could not schedule local notifications', error);
+    return false;
+  }
+}
+
+/**
+ * Cancel scheduled notifications; unknown ids are ignored
+ */
+export async function cancelLocalNotifications(ids: string[]): Promise<void> {
+  await Promise.all(
+    ids.map(id =>
+      Notifications.cancelScheduledNotificationAsync(id).catch(error => {
+        if (__DEV__) console.warn('Could not cancel local notification', error);
+      })
+    )
+  );
+}
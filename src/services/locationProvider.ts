@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Location Provider
+ * @purpose Streams of location fixes from the device GPS or a simulated replay
+ *
+ * Navigation code consumes fixes through the LocationProvider interface and
+ * never calls expo-location directly, so the same engine runs against:
+ * - Device: expo-location foreground updates (asks for permission on start)
+ * - Simulated: a recorded list of fixes replayed on timers, e.g. a GPX track
+ *   (parseGpxFixes, via routeFiles.ts) or a walk generated along a route (fixesAlongPath)
+ *
+ * Set EXPO_PUBLIC_SIMULATE_LOCATION=true in a development build to replace
+ * the device GPS with a walk along the route being navigated.
+ */
+
+import * as Location from 'expo-location';
+import { cumulativeDistances, pointAlongPath } from '../utils/geo';
+import type { LatLng } from '../utils/geo';
+import { parseGpx } from './routeFiles';
+
+export const SIMULATE_LOCATION = __DEV__ && process.env.EXPO_PUBLIC_SIMULATE_LOCATION === 'true';
+
+/**
+ * Single position reading
+ */
+export interface LocationFix extends LatLng {
+  timestamp: number; // ms since epoch
+  accuracy?: number | null; // horizontal, meters
+  altitude?: number | null; // meters
+  speed?: number | null; // meters per second
+  heading?: number | null; // degrees from true north
+}
+
+export type LocationFixListener = (fix: LocationFix) => void;
+export type LocationErrorListener = (error: Error) => void;
+
+/**
+ * Source of location fixes
+ */
+export interface LocationProvider {
+  readonly kind: 'device' | 'simulated';
+  /**
+   * Start delivering fixes
+   *
+   * @returns Function that stops the stream
+   * @throws LocationPermissionError when the user denies location access
+   */
+  watch: (onFix: LocationFixListener, onError?: LocationErrorListener) => Promise<() => void>;
+}
+
+/**
+ * Raised when foreground location permission is not granted
+ */
+export class LocationPermissionError extends Error {
+  constructor(message = 'Location permission is required to navigate.') {
+    super(message);
+    this.name = 'LocationPermissionError';
+  }
+}
+
+/**
+ * Device GPS via expo-location
+ *
+ * @param options - Minimum distance (meters) and time (ms) between fixes
+ */
+export function createDeviceLocationProvider(
+  options: { distanceInterval?: number; timeInterval?: number } = {}
+): LocationProvider {
+  return {
+    kind: 'device',
+    watch: async (onFix, onError) => {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== Location.PermissionStatus.GRANTED) throw new LocationPermissionError();
+
+      const subscription = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.BestForNavigation,
+          distanceInterval: options.distanceInterval ?? 5,
+          timeInterval: options.timeInterval ?? 1000,
+        },
+        ({ coords, timestamp }) =>
+          onFix({
+            lat: coords.latitude,
+            lng: coords.longitude,
+            timestamp,
+            accuracy: coords.accuracy,
+            altitude: coords.altitude,
+            speed: coords.speed,
+            heading: coords.heading,
+          }),
+        reason => onError?.(new Error(reason))
+      );
+      return () => subscription.remove();
+    },
+  };
+}
+
+/**
+ * Replay recorded fixes, keeping the original spacing between timestamps
+ *
+ * Replayed fixes are re-stamped with the current time so consumers see a
+ * live stream.
+ *
+ * @param fixes - Fixes in chronological order
+ * @param options.speedMultiplier - 2 replays twice as fast
+ */
+export function createSimulatedLocationProvider(
+  fixes: LocationFix[],
+  options: { speedMultiplier?: number } = {}
+): LocationProvider {
+  const speedMultiplier = options.speedMultiplier ?? 1;
+
+  return {
+    kind: 'simulated',
+    watch: async onFix => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let stopped = false;
+
+      const emit = (index: number) => {
+        const fix = fixes[index];
+        if (stopped || !fix) return;
+        onFix({ ...fix, timestamp: Date.now() });
+
+        const next = fixes[index + 1];
+        if (!next) return;
+        const delay = Math.max(0, next.timestamp - fix.timestamp) / speedMultiplier;
+        timer = setTimeout(() => emit(index + 1), delay);
+      };
+
+      timer = setTimeout(() => emit(0), 0);
+      return () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+      };
+    },
+  };
+}
+
+/**
+ * First fix a provider delivers, for one-off readings such as an SOS location
+ *
+ * @param timeoutMs - How long to wait for a fix
+ * @returns The fix, or null when none arrived in time
+ * @throws LocationPermissionError when the user denies location access
+ */
+export function currentFix(
+  provider: LocationProvider,
+  timeoutMs: number
+): Promise<LocationFix | null> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let unsubscribe: (() => void) | null = null;
+
+    const settle = (fix: LocationFix | null, error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      unsubscribe?.();
+      if (error) reject(error);
+      else resolve(fix);
+    };
+
+    const timer = setTimeout(() => settle(null), timeoutMs);
+    provider
+      .watch(
+        fix => settle(fix),
+        error => settle(null, error)
+      )
+      .then(stop => {
+        // The first fix may arrive before watch() resolves
+        if (settled) stop();
+        else unsubscribe = stop;
+      })
+      .catch((error: unknown) =>
+        settle(null, error instanceof Error ? error : new Error(String(error)))
+      );
+  });
+}
+
+/**
+ * Fixes for walking a path at constant speed
+ *
+ * @param path - Path to walk
+ * @param options.speedMps - Walking speed (default 1.4 m/s)
+ * @param options.intervalMs - Time between fixes (default 1s)
+ * @throws RangeError when the speed or interval is not positive (the walk would never end)
+ */
+export function fixesAlongPath(
+  path: LatLng[],
+  options: { speedMps?: number; intervalMs?: number; startTime?: number } = {}
+): LocationFix[] {
+  const speedMps = options.speedMps ?? 1.4;
+  const intervalMs = options.intervalMs ?? 1000;
+  const startTime = options.startTime ?? Date.now();
+  if (!(speedMps > 0) || !(intervalMs > 0)) {
+    throw new RangeError(`Cannot walk a path at ${speedMps} m/s every ${intervalMs} ms`);
+  }
+  const cumulative = cumulativeDistances(path);
+  const length = cumulative[cumulative.length - 1] ?? 0;
+  const step = (speedMps * intervalMs) / 1000;
+
+  const fixes: LocationFix[] = [];
+  for (let index = 0; ; index++) {
+    const distance = Math.min(index * step, length);
+    const point = pointAlongPath(path, distance, cumulative);
+    if (!point) break;
+    fixes.push({
+      ...point,
+      timestamp: startTime + index * intervalMs,
+      accuracy: 5,
+      speed: speedMps,
+    });
+    if (distance >= length) break;
+  }
+  return fixes;
+}
+
+/**
+ * Track points of a GPX document as fixes, for replay
+ *
+ * Uses the track (or route) that parseGpx reads. Points without a time are
+ * spaced one second apart.
+ *
+ * @throws RouteFileError when the document is not GPX
+ */
+export function parseGpxFixes(gpx: string): LocationFix[] {
+  let previousTime = 0;
+  return parseGpx(gpx).track.map(({ lat, lng, elevation, time }) => {
+    const timestamp = time ?? previousTime + 1000;
+    previousTime = timestamp;
+    return { lat, lng, timestamp, altitude: elevation ?? null };
+  });
+}
@@ -0,0 +1,343 @@
+/**
+ * @fileoverview Location Sharing
+ * @purpose Time-boxed live location shares with trusted contacts
+ *
+ * A share lasts 15 minutes, an hour, or until the user arrives at the end of
+ * the route they are walking (capped at MAX_ARRIVAL_SHARE_MS). Starting one
+ * creates it on the backend, which returns the link the contacts open; the
+ * share then follows a LocationProvider and sends the latest position every
+ * POSITION_INTERVAL_MS while the position changes.
+ *
+ * The share stops by itself when it expires, when the user comes within
+ * ARRIVAL_RADIUS_METERS of the destination, when the route is completed
+ * (stopSharingForRoute) or when the server reports it ended. Position
+ * updates are not queued: a failed update is replaced by the next one.
+ *
+ * Only one share runs at a time. It is kept in AsyncStorage
+ * (STORAGE_KEYS.LOCATION_SHARE) and resumes on the device GPS after a
+ * restart until it expires; it is stopped on sign-out.
+ *
+ * @example
+ * ```ts
+ * const share = await startSharing({ mode: '1h' });
+ * await Share.share({ message: composeShareMessage(share) });
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AxiosRequestConfig } from 'axios';
+import { STORAGE_KEYS } from '../utils/constants';
+import { haversineDistance } from '../utils/geo';
+import type { LatLng } from '../utils/geo';
+import { number, object, oneOf, optional, parseWithSchema, string } from '../utils/schema';
+import { createDeviceLocationProvider } from './locationProvider';
+import type { LocationFix, LocationProvider } from './locationProvider';
+import { sendSharedPosition, startLocationShare, stopLocationShare } from './safetyService';
+import type { LocationShareEndReason, LocationShareMode } from './safetyService';
+
+export const SHARE_DURATIONS_MS: Record<Exclude<LocationShareMode, 'arrival'>, number> = {
+  '15m': 15 * 60000,
+  '1h': 60 * 60000,
+};
+export const MAX_ARRIVAL_SHARE_MS = 4 * 60 * 60000;
+const POSITION_INTERVAL_MS = 30000;
+const ARRIVAL_RADIUS_METERS = 40;
+
+// Updates are best-effort and silent; the next one replaces a failed one
+const QUIET_REQUEST: AxiosRequestConfig = { headers: { 'X-Show-Error': 'false' }, retry: false };
+
+/**
+ * Active location share
+ */
+export interface LocationShare {
+  id: string;
+  token: string;
+  shareUrl: string;
+  mode: LocationShareMode;
+  startedAt: string; // ISO date string
+  expiresAt: string; // ISO date string
+  routeId?: string;
+  destination?: LatLng & { name?: string };
+  lastSentAt?: string; // when the last position reached the server
+}
+
+export interface StartSharingOptions {
+  mode: LocationShareMode;
+  /**
+   * Route being walked; completing it stops the share
+   */
+  routeId?: string;
+  /**
+   * Where the walk ends (required for "arrival")
+   */
+  destination?: LatLng & { name?: string };
+  /**
+   * Source of positions
+   * @default device GPS
+   */
+  provider?: LocationProvider;
+}
+
+/**
+ * Raised when a share cannot be started
+ */
+export class LocationShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocationShareError';
+  }
+}
+
+type LocationShareListener = (share: LocationShare | null) => void;
+
+const shareSchema = object<LocationShare>({
+  id: string({ nonEmpty: true }),
+  token: string({ nonEmpty: true }),
+  shareUrl: string({ nonEmpty: true }),
+  mode: oneOf(['15m', '1h', 'arrival'] as const),
+  startedAt: string({ nonEmpty: true }),
+  expiresAt: string({ nonEmpty: true }),
+  routeId: optional(string()),
+  destination: optional(
+    object<LatLng & { name?: string }>({
+      lat: number({ min: -90, max: 90 }),
+      lng: number({ min: -180, max: 180 }),
+      name: optional(string()),
+    })
+  ),
+  lastSentAt: optional(string()),
+});
+
+let share: LocationShare | null = null;
+let loadPromise: Promise<void> | null = null;
+let unsubscribeWatch: (() => void) | null = null;
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+let sendTimer: ReturnType<typeof setInterval> | null = null;
+// Latest fix not yet sent, and whether a send is in flight
+let pendingFix: LocationFix | null = null;
+let isSending = false;
+const listeners = new Set<LocationShareListener>();
+
+function emit(): void {
+  listeners.forEach(listener => listener(share));
+}
+
+async function update(next: LocationShare | null): Promise<void> {
+  share = next;
+  emit();
+  try {
+    if (next) await AsyncStorage.setItem(STORAGE_KEYS.LOCATION_SHARE, JSON.stringify(next));
+    else await AsyncStorage.removeItem(STORAGE_KEYS.LOCATION_SHARE);
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to persist location share', error);
+  }
+}
+
+function stopTracking(): void {
+  unsubscribeWatch?.();
+  unsubscribeWatch = null;
+  if (expiryTimer) clearTimeout(expiryTimer);
+  expiryTimer = null;
+  if (sendTimer) clearInterval(sendTimer);
+  sendTimer = null;
+  pendingFix = null;
+}
+
+async function sendPendingFix(): Promise<void> {
+  const current = share;
+  const fix = pendingFix;
+  if (!current || !fix || isSending) return;
+
+  isSending = true;
+  pendingFix = null;
+  try {
+    const { status } = await sendSharedPosition(
+      current.id,
+      {
+        lat: fix.lat,
+        lng: fix.lng,
+        recordedAt: new Date(fix.timestamp).toISOString(),
+        ...(typeof fix.accuracy === 'number' && { accuracy: fix.accuracy }),
+      },
+      QUIET_REQUEST
+    );
+    if (share?.id !== current.id) return;
+    if (status === 'ended') {
+      await endShare('stopped', false);
+      return;
+    }
+    await update({ ...share, lastSentAt: new Date().toISOString() });
+  } catch (error) {
+    // Retry with whatever fix is newest at the next interval
+    pendingFix ??= fix;
+    if (__DEV__) console.warn('Failed to send shared position', error);
+  } finally {
+    isSending = false;
+  }
+}
+
+function handleFix(fix: LocationFix): void {
+  const current = share;
+  if (!current) return;
+  pendingFix = fix;
+
+  const lastSent = current.lastSentAt ? new Date(current.lastSentAt).getTime() : 0;
+  const arrived =
+    current.mode === 'arrival' &&
+    current.destination !== undefined &&
+    haversineDistance(fix, current.destination) <= ARRIVAL_RADIUS_METERS;
+
+  if (arrived) {
+    void sendPendingFix().then(() => endShare('arrived'));
+  } else if (Date.now() - lastSent >= POSITION_INTERVAL_MS) {
+    void sendPendingFix();
+  }
+}
+
+async function startTracking(provider: LocationProvider): Promise<void> {
+  const current = share;
+  if (!current) return;
+
+  const remaining = new Date(current.expiresAt).getTime() - Date.now();
+  expiryTimer = setTimeout(() => void endShare('expired'), Math.max(0, remaining));
+  sendTimer = setInterval(() => void sendPendingFix(), POSITION_INTERVAL_MS);
+
+  try {
+    const unsubscribe = await provider.watch(handleFix, error => {
+      if (__DEV__) console.warn('Location updates stopped while sharing', error);
+    });
+    // Stopped while the provider was starting
+    if (share?.id === current.id && expiryTimer) unsubscribeWatch = unsubscribe;
+    else unsubscribe();
+  } catch (error) {
+    await endShare('stopped');
+    throw error;
+  }
+}
+
+async function endShare(reason: LocationShareEndReason, notifyServer = true): Promise<void> {
+  const current = share;
+  if (!current) return;
+  stopTracking();
+  await update(null);
+  if (!notifyServer) return;
+  try {
+    await stopLocationShare(current.id, reason, QUIET_REQUEST);
+  } catch (error) {
+    // The server also ends the share at expiresAt
+    if (__DEV__) console.warn('Failed to stop location share', error);
+  }
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.LOCATION_SHARE);
+        if (!raw) return;
+        const stored = parseWithSchema(shareSchema, JSON.parse(raw), 'location share');
+        share = stored;
+        emit();
+        if (new Date(stored.expiresAt).getTime() <= Date.now()) {
+          await endShare('expired');
+          return;
+        }
+        await startTracking(createDeviceLocationProvider());
+      } catch (error) {
+        if (__DEV__) console.warn('Could not resume location share', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Start a location share
+ *
+ * @throws LocationShareError while another share is active, or for "arrival"
+ * without a destination
+ * @throws LocationPermissionError when location access is denied (the share
+ * is stopped again)
+ */
+export async function startSharing(options: StartSharingOptions): Promise<LocationShare> {
+  await ensureLoaded();
+  if (share) throw new LocationShareError('You are already sharing your location.');
+  if (options.mode === 'arrival' && !options.destination) {
+    throw new LocationShareError('Sharing until arrival needs a destination.');
+  }
+
+  const now = Date.now();
+  const duration =
+    options.mode === 'arrival' ? MAX_ARRIVAL_SHARE_MS : SHARE_DURATIONS_MS[options.mode];
+  const session = await startLocationShare({
+    mode: options.mode,
+    expiresAt: new Date(now + duration).toISOString(),
+    ...(options.routeId && { routeId: options.routeId }),
+    ...(options.destination && { destination: options.destination }),
+  });
+
+  const next: LocationShare = {
+    ...session,
+    mode: options.mode,
+    startedAt: new Date(now).toISOString(),
+    ...(options.routeId && { routeId: options.routeId }),
+    ...(options.destination && { destination: options.destination }),
+  };
+  await update(next);
+  await startTracking(options.provider ?? createDeviceLocationProvider({ distanceInterval: 10 }));
+  return next;
+}
+
+/**
+ * Text that invites contacts to follow a share, with its link
+ */
+export function composeShareMessage(active: LocationShare): string {
+  let span: string;
+  if (active.mode === 'arrival') {
+    span = `until I arrive at ${active.destination?.name ?? 'my destination'}`;
+  } else {
+    span = active.mode === '1h' ? 'for the next hour' : 'for the next 15 minutes';
+  }
+  return `I'm sharing my live location with you ${span}: ${active.shareUrl}`;
+}
+
+/**
+ * Stop the active share
+ */
+export async function stopSharing(): Promise<void> {
+  await ensureLoaded();
+  await endShare('stopped');
+}
+
+/**
+ * Stop the share of a route that was just completed
+ */
+export async function stopSharingForRoute(routeId: string): Promise<void> {
+  await ensureLoaded();
+  if (share?.routeId === routeId) await endShare('arrived');
+}
+
+/**
+ * The active share, if any
+ */
+export async function getLocationShare(): Promise<LocationShare | null> {
+  await ensureLoaded();
+  return share;
+}
+
+/**
+ * Listen for the share starting, updating and stopping
+ *
+ * The listener is called with the stored share once it has loaded.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToLocationShare(listener: LocationShareListener): () => void {
+  listeners.add(listener);
+  void ensureLoaded().then(() => {
+    if (listeners.has(listener)) listener(share);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
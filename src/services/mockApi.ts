@@ -0,0 +1,1113 @@
+/**
+ * @fileoverview Mock API - Axios adapter that serves assets/mocks through apiService
+ * @purpose Lets screens run against the real apiService code path (interceptors,
+ * envelope handling, error surfacing) without a backend
+ *
+ * Enable by setting EXPO_PUBLIC_USE_MOCK_API=true. apiService then installs
+ * mockAdapter on its axios instance, and every request is answered from an
+ * in-memory copy of the JSON files in src/assets/mocks.
+ *
+ * Implemented endpoints follow the contracts documented in routesService.ts,
+ * newsService.ts and safetyService.ts:
+ * - GET    /routes, /routes/featured, /routes/search, /routes/:routeId
+ * - POST   /routes, /routes/:routeId/{like,save,complete,comments}
+ * - PUT    /routes/:routeId
+ * - DELETE /routes/:routeId
+ * - GET    /routes/:routeId/comments
+ * - GET    /news, /news/trending, /news/search, /news/sources, /news/feed, /news/:newsId
+ * - POST   /news/:newsId/{save,share,flag}
+ * - POST   /auth/refresh/
+ * - POST   /graphql/ (Login, Register, Me, UpdateProfile)
+ * - GET    /users, /users/:userId
+ * - GET    /safety, /safety/neighborhood, /safety/:safetyId
+ * - POST   /safety/sos, /safety/check-ins, /safety/location-shares, /safety/location-shares/:shareId/{positions,stop}
+ * - GET    /safety/shared-locations/:token
+ * - GET    /safety-alerts, /safety-alerts/dismissed, /safety-alerts/:alertId
+ * - POST   /safety-alerts/:alertId/dismiss
+ *
+ * Latency and failures are configurable at runtime:
+ *
+ * @example
+ * ```ts
+ * configureMockApi({ minLatencyMs: 1000, maxLatencyMs: 3000 }); // slow 3G
+ * configureMockApi({ errorRate: 0.2 });                          // 20% random 500s
+ * configureMockApi({ failures: { 'GET /routes/featured': 503 } });
+ * resetMockApi();                                                // defaults + fresh data
+ * ```
+ */
+
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { Route, RouteComment, RouteCompletion } from './routesService';
+import { parseRoute, parseRoutes } from './routeModel';
+import type { NewsArticle } from './newsService';
+import type { User } from './authService';
+import type {
+  CheckInReport,
+  LocationShareSession,
+  NeighborhoodSafety,
+  SafetyAlert,
+  SharedLocation,
+  SosReport,
+} from './safetyService';
+import { SAFETY_ALERTS } from '../data/mockData';
+import { haversineDistance } from '../utils/geo';
+import { SchemaValidationError } from '../utils/schema';
+import { distanceToAlert } from '../utils/safetyAlerts';
+
+/**
+ * Whether apiService should answer requests from mock data
+ */
+export const USE_MOCK_API = process.env.EXPO_PUBLIC_USE_MOCK_API === 'true';
+
+/**
+ * Runtime configuration for latency and error injection
+ */
+export interface MockApiConfig {
+  /**
+   * Minimum simulated latency in milliseconds
+   * @default 200
+   */
+  minLatencyMs: number;
+
+  /**
+   * Maximum simulated latency in milliseconds
+   * @default 600
+   */
+  maxLatencyMs: number;
+
+  /**
+   * Probability (0-1) that any request fails with a 500
+   * @default 0
+   */
+  errorRate: number;
+
+  /**
+   * Forced failures keyed by "METHOD /path" (path without query string).
+   * Use status 0 to simulate a network error.
+   */
+  failures: Record<string, number>;
+}
+
+const DEFAULT_CONFIG: MockApiConfig = {
+  minLatencyMs: 200,
+  maxLatencyMs: 600,
+  errorRate: 0,
+  failures: {},
+};
+
+let config: MockApiConfig = { ...DEFAULT_CONFIG };
+
+interface MockDb {
+  routes: Route[];
+  news: NewsArticle[];
+  users: User[];
+  safety: NeighborhoodSafety[];
+  alerts: SafetyAlert[];
+  comments: Record<string, RouteComment[]>;
+  savedRoutes: Set<string>;
+  likedRoutes: Set<string>;
+  savedNews: Set<string>;
+  flaggedNews: Set<string>;
+  completions: RouteCompletion[]; // newest first
+  dismissedAlerts: Map<string, string>; // alert id -> dismissedAt
+  sosReports: Map<string, SosReport>;
+  checkIns: Map<string, CheckInReport>;
+  locationShares: (SharedLocation & Pick<LocationShareSession, 'id' | 'token'>)[];
+}
+
+/**
+ * Deep-copy the JSON fixtures so mutations never leak into the module cache
+ *
+ * routes.json is decoded with routeSchema, so a fixture that drifts from the
+ * canonical Route model fails loudly here instead of inside a component.
+ */
+function loadDb(): MockDb {
+  const clone = <T>(value: unknown): T => JSON.parse(JSON.stringify(value)) as T;
+  return {
+    routes: parseRoutes(clone<unknown>(require('../assets/mocks/routes.json'))),
+    news: clone<NewsArticle[]>(require('../assets/mocks/news.json')),
+    users: clone<User[]>(require('../assets/mocks/users.json')),
+    safety: clone<NeighborhoodSafety[]>(require('../assets/mocks/safety.json')),
+    alerts: clone<SafetyAlert[]>(SAFETY_ALERTS),
+    comments: {},
+    savedRoutes: new Set(),
+    likedRoutes: new Set(),
+    savedNews: new Set(),
+    flaggedNews: new Set(),
+    completions: [],
+    dismissedAlerts: new Map(),
+    sosReports: new Map(),
+    checkIns: new Map(),
+    locationShares: [],
+  };
+}
+
+let db: MockDb | null = null;
+
+const getDb = (): MockDb => {
+  if (!db) db = loadDb();
+  return db;
+};
+
+/**
+ * Merge a patch into the mock configuration
+ */
+export function configureMockApi(patch: Partial<MockApiConfig>): void {
+  config = { ...config, ...patch };
+}
+
+/**
+ * Restore default configuration and reload fixtures
+ */
+export function resetMockApi(): void {
+  config = { ...DEFAULT_CONFIG, failures: {} };
+  db = null;
+  registeredPasswords.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Request routing
+// ---------------------------------------------------------------------------
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown; // parsed JSON body, narrowed by each handler
+  authorization?: string; // Authorization header, e.g. "Bearer <token>"
+}
+
+interface MockResult {
+  status?: number;
+  message: string;
+  data: unknown;
+}
+
+class MockHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+  }
+}
+
+type Handler = (req: MockRequest) => MockResult;
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Request body as a field map; anything other than a JSON object reads as empty
+ */
+function fieldsOf(body: unknown): Fields {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as Fields) : {};
+}
+
+const stringField = (fields: Fields, key: string): string | undefined => {
+  const value = fields[key];
+  return typeof value === 'string' ? value : undefined;
+};
+
+const numberField = (fields: Fields, key: string): number | undefined => {
+  const value = fields[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+interface RouteDef {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+const table: RouteDef[] = [];
+
+/**
+ * Register a handler for a path template such as "/routes/:routeId/like"
+ */
+function on(method: string, template: string, handler: Handler): void {
+  const keys: string[] = [];
+  const source = template.replace(/:([A-Za-z]+)/g, (_match, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  table.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+}
+
+function parseQuery(search: string): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const part of search.split('&')) {
+    if (!part) continue;
+    const [rawKey, rawValue = ''] = part.split('=');
+    if (!rawKey) continue;
+    const decode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+    query[decode(rawKey)] = decode(rawValue);
+  }
+  return query;
+}
+
+const toNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toList = (value: string | undefined): string[] =>
+  value
+    ? value
+        .split(',')
+        .map(item => item.trim().toLowerCase())
+        .filter(Boolean)
+    : [];
+
+function paginate<T>(items: T[], query: Record<string, string>): T[] {
+  const limit = toNumber(query.limit) ?? 20;
+  const offset = toNumber(query.offset) ?? 0;
+  return items.slice(offset, offset + limit);
+}
+
+function findOr404<T extends { id: string }>(items: T[], id: string | undefined, label: string): T {
+  const item = items.find(candidate => candidate.id === id);
+  if (!item) throw new MockHttpError(404, `${label} not found.`);
+  return item;
+}
+
+const byDateDesc = (a: string, b: string) => new Date(b).getTime() - new Date(a).getTime();
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+function filterRoutes(routes: Route[], query: Record<string, string>): Route[] {
+  const safetyScoreMin = toNumber(query.safetyScoreMin);
+  const maxDistance = toNumber(query.maxDistance);
+  const tags = toList(query.tags);
+
+  const filtered = routes.filter(route => {
+    if (query.city && route.city.toLowerCase() !== query.city.toLowerCase()) return false;
+    if (query.category && route.category.toLowerCase() !== query.category.toLowerCase()) {
+      return false;
+    }
+    if (safetyScoreMin !== undefined && route.safetyScore < safetyScoreMin) return false;
+    if (query.difficulty && route.difficulty !== query.difficulty) return false;
+    if (maxDistance !== undefined && route.distanceMeters > maxDistance) return false;
+    if (tags.length > 0 && !tags.every(tag => route.tags.includes(tag))) return false;
+    if (query.isFeatured !== undefined && String(route.isFeatured) !== query.isFeatured) {
+      return false;
+    }
+    return true;
+  });
+
+  switch (query.sortBy) {
+    case 'popular':
+      return filtered.sort((a, b) => b.likes - a.likes);
+    case 'recent':
+      return filtered.sort((a, b) => byDateDesc(a.createdAt, b.createdAt));
+    case 'distance':
+      return filtered.sort((a, b) => a.distanceMeters - b.distanceMeters);
+    case 'rating':
+      return filtered.sort((a, b) => b.averageRating - a.averageRating);
+    default:
+      return filtered;
+  }
+}
+
+const matchesText = (text: string, fields: (string | undefined)[]) =>
+  fields.some(field => field?.toLowerCase().includes(text));
+
+on('GET', '/routes', ({ query }) => {
+  const routes = filterRoutes(getDb().routes, query);
+  return {
+    message: 'Routes retrieved',
+    data: { routes: paginate(routes, query), total: routes.length },
+  };
+});
+
+on('GET', '/routes/featured', () => ({
+  message: 'Featured routes retrieved',
+  data: { routes: getDb().routes.filter(route => route.isFeatured) },
+}));
+
+on('GET', '/routes/search', ({ query }) => {
+  const text = (query.q ?? '').toLowerCase();
+  const routes = filterRoutes(getDb().routes, query).filter(route =>
+    matchesText(text, [route.title, route.description, route.city, ...route.tags])
+  );
+  return {
+    message: 'Search results',
+    data: { routes: paginate(routes, query), total: routes.length },
+  };
+});
+
+on('GET', '/routes/:routeId', ({ params }) => ({
+  message: 'Route details retrieved',
+  data: { route: findOr404(getDb().routes, params.routeId, 'Route') },
+}));
+
+/**
+ * Validate a created or edited route, answering a 400 like the API would
+ */
+function routeFromBody(fields: Fields): Route {
+  try {
+    return parseRoute(fields);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) throw new MockHttpError(400, error.message);
+    throw error;
+  }
+}
+
+on('POST', '/routes', ({ body }) => {
+  const now = new Date().toISOString();
+  const route = routeFromBody({
+    description: '',
+    city: '',
+    category: '',
+    imageUrl: '',
+    distanceMeters: 0,
+    durationMinutes: 0,
+    elevationGain: 0,
+    difficulty: 'Easy',
+    safetyScore: 0,
+    tags: [],
+    waypoints: [],
+    isPublic: true,
+    isFeatured: false,
+    createdBy: 'user-1',
+    ...fieldsOf(body),
+    id: `route-${Date.now()}`,
+    likes: 0,
+    completions: 0,
+    reviews: 0,
+    averageRating: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  getDb().routes.unshift(route);
+  return { status: 201, message: 'Route created', data: { route } };
+});
+
+on('PUT', '/routes/:routeId', ({ params, body }) => {
+  const route = findOr404(getDb().routes, params.routeId, 'Route');
+  Object.assign(
+    route,
+    routeFromBody({
+      ...route,
+      ...fieldsOf(body),
+      id: route.id,
+      updatedAt: new Date().toISOString(),
+    })
+  );
+  return { message: 'Route updated', data: { route } };
+});
+
+on('DELETE', '/routes/:routeId', ({ params }) => {
+  const store = getDb();
+  const route = findOr404(store.routes, params.routeId, 'Route');
+  store.routes = store.routes.filter(candidate => candidate !== route);
+  return { message: 'Route deleted', data: null };
+});
+
+on('POST', '/routes/:routeId/like', ({ params, body }) => {
+  const store = getDb();
+  const route = findOr404(store.routes, params.routeId, 'Route');
+  const isLiked = Boolean(fieldsOf(body).isLiked);
+  const wasLiked = store.likedRoutes.has(route.id);
+
+  if (isLiked && !wasLiked) {
+    store.likedRoutes.add(route.id);
+    route.likes += 1;
+  } else if (!isLiked && wasLiked) {
+    store.likedRoutes.delete(route.id);
+    route.likes = Math.max(0, route.likes - 1);
+  }
+
+  return {
+    message: isLiked ? 'Route liked' : 'Route unliked',
+    data: { isLiked, likeCount: route.likes },
+  };
+});
+
+on('POST', '/routes/:routeId/save', ({ params, body }) => {
+  const store = getDb();
+  const route = findOr404(store.routes, params.routeId, 'Route');
+  const isSaved = Boolean(fieldsOf(body).isSaved);
+  if (isSaved) store.savedRoutes.add(route.id);
+  else store.savedRoutes.delete(route.id);
+  return { message: isSaved ? 'Route saved' : 'Route unsaved', data: { isSaved } };
+});
+
+// Upserts by id: the rating sent after the walk updates the same completion
+on('POST', '/routes/:routeId/complete', ({ params, body }) => {
+  const store = getDb();
+  const route = findOr404(store.routes, params.routeId, 'Route');
+  const fields = fieldsOf(body);
+  const id = stringField(fields, 'id') ?? `completion-${Date.now()}`;
+  const existing = store.completions.find(completion => completion.id === id);
+  const path = stringField(fields, 'path');
+  const rating = numberField(fields, 'rating');
+  const completion: RouteCompletion = {
+    id,
+    routeId: route.id,
+    routeTitle: route.title,
+    city: route.city,
+    category: route.category,
+    completedAt: stringField(fields, 'completedAt') ?? new Date().toISOString(),
+    durationSeconds: numberField(fields, 'duration') ?? 0,
+    distanceMeters: numberField(fields, 'distance') ?? 0,
+    ...(path && { path }),
+    ...(rating !== undefined && { rating }),
+  };
+
+  if (existing) {
+    Object.assign(existing, completion);
+  } else {
+    store.completions.unshift(completion);
+    route.completions += 1;
+  }
+  return { message: 'Route completed', data: { completionCount: route.completions } };
+});
+
+on('GET', '/routes/:routeId/comments', ({ params, query }) => {
+  const route = findOr404(getDb().routes, params.routeId, 'Route');
+  const comments = getDb().comments[route.id] ?? [];
+  return {
+    message: 'Comments retrieved',
+    data: { comments: paginate(comments, query), total: comments.length },
+  };
+});
+
+on('POST', '/routes/:routeId/comments', ({ params, body }) => {
+  const store = getDb();
+  const route = findOr404(store.routes, params.routeId, 'Route');
+  const text = stringField(fieldsOf(body), 'text')?.trim() ?? '';
+  if (!text) throw new MockHttpError(400, 'Comment text is required.');
+
+  const author = store.users[0];
+  const comment: RouteComment = {
+    id: `comment-${Date.now()}`,
+    userId: author?.id ?? 'user-1',
+    username: author?.username ?? 'walker',
+    avatar: author?.avatar,
+    text,
+    createdAt: new Date().toISOString(),
+    likes: 0,
+  };
+
+  store.comments[route.id] = [comment, ...(store.comments[route.id] ?? [])];
+  return { status: 201, message: 'Comment added', data: { comment } };
+});
+
+// ---------------------------------------------------------------------------
+// News
+// ---------------------------------------------------------------------------
+
+const trendingScore = (article: NewsArticle) =>
+  article.views +
+  article.shares * 10 -
+  (Date.now() - new Date(article.publishedAt).getTime()) / 3.6e6;
+
+function filterNews(articles: NewsArticle[], query: Record<string, string>): NewsArticle[] {
+  const sentiment = toNumber(query.sentiment);
+  const maxBias = toNumber(query.maxBias);
+  const tags = toList(query.tags);
+
+  const filtered = articles.filter(article => {
+    if (query.category && article.category.toLowerCase() !== query.category.toLowerCase()) {
+      return false;
+    }
+    if (sentiment !== undefined && article.sentiment !== sentiment) return false;
+    if (maxBias !== undefined && article.biasScore > maxBias) return false;
+    if (query.source && article.source !== query.source) return false;
+    if (tags.length > 0 && !tags.some(tag => article.tags.includes(tag))) return false;
+    if (query.isVerified !== undefined && String(article.isVerified) !== query.isVerified) {
+      return false;
+    }
+    return true;
+  });
+
+  switch (query.sortBy) {
+    case 'popular':
+      return filtered.sort((a, b) => b.views - a.views);
+    case 'trending':
+      return filtered.sort((a, b) => trendingScore(b) - trendingScore(a));
+    default:
+      return filtered.sort((a, b) => byDateDesc(a.publishedAt, b.publishedAt));
+  }
+}
+
+on('GET', '/news', ({ query }) => {
+  const articles = filterNews(getDb().news, query);
+  return {
+    message: 'News articles retrieved',
+    data: { articles: paginate(articles, query), total: articles.length },
+  };
+});
+
+on('GET', '/news/trending', ({ query }) => ({
+  message: 'Trending news retrieved',
+  data: {
+    articles: filterNews(getDb().news, { sortBy: 'trending' }).slice(
+      0,
+      toNumber(query.limit) ?? 10
+    ),
+  },
+}));
+
+on('GET', '/news/search', ({ query }) => {
+  const text = (query.q ?? '').toLowerCase();
+  const articles = filterNews(getDb().news, query).filter(article =>
+    matchesText(text, [
+      article.title,
+      article.excerpt,
+      article.content,
+      article.source,
+      ...article.tags,
+    ])
+  );
+  return {
+    message: 'Search results',
+    data: { articles: paginate(articles, query), total: articles.length },
+  };
+});
+
+on('GET', '/news/sources', () => {
+  const sources = new Map<
+    string,
+    { id: string; name: string; isVerified: boolean; category: string[] }
+  >();
+  for (const article of getDb().news) {
+    const existing = sources.get(article.source);
+    if (existing) {
+      if (!existing.category.includes(article.category)) existing.category.push(article.category);
+    } else {
+      sources.set(article.source, {
+        id: article.source.toLowerCase().replace(/\s+/g, '-'),
+        name: article.source,
+        isVerified: article.isVerified,
+        category: [article.category],
+      });
+    }
+  }
+  return { message: 'News sources retrieved', data: { sources: Array.from(sources.values()) } };
+});
+
+on('GET', '/news/feed', ({ query }) => ({
+  message: 'Personalized feed retrieved',
+  data: { articles: paginate(filterNews(getDb().news, {}), query) },
+}));
+
+on('GET', '/news/:newsId', ({ params }) => {
+  const article = findOr404(getDb().news, params.newsId, 'Article');
+  article.views += 1;
+  return { message: 'News article retrieved', data: { article } };
+});
+
+on('POST', '/news/:newsId/save', ({ params, body }) => {
+  const store = getDb();
+  const article = findOr404(store.news, params.newsId, 'Article');
+  const isSaved = Boolean(fieldsOf(body).isSaved);
+  const wasSaved = store.savedNews.has(article.id);
+
+  if (isSaved && !wasSaved) {
+    store.savedNews.add(article.id);
+    article.saves += 1;
+  } else if (!isSaved && wasSaved) {
+    store.savedNews.delete(article.id);
+    article.saves = Math.max(0, article.saves - 1);
+  }
+
+  return {
+    message: isSaved ? 'Article saved' : 'Article unsaved',
+    data: { isSaved, saveCount: article.saves },
+  };
+});
+
+on('POST', '/news/:newsId/share', ({ params }) => {
+  const article = findOr404(getDb().news, params.newsId, 'Article');
+  article.shares += 1;
+  return { message: 'Article shared', data: { shareCount: article.shares } };
+});
+
+on('POST', '/news/:newsId/flag', ({ params, body }) => {
+  const store = getDb();
+  const article = findOr404(store.news, params.newsId, 'Article');
+  if (!fieldsOf(body).reason)
+    throw new MockHttpError(400, 'A reason is required to flag an article.');
+  if (store.flaggedNews.has(article.id)) {
+    throw new MockHttpError(409, 'You have already flagged this article.');
+  }
+  store.flaggedNews.add(article.id);
+  article.flags += 1;
+  return { message: 'Article flagged for review', data: null };
+});
+
+// ---------------------------------------------------------------------------
+// Auth
+// ---------------------------------------------------------------------------
+
+const MOCK_REFRESH_PREFIX = 'mock-refresh-';
+const MOCK_ACCESS_TTL_SECONDS = 15 * 60;
+
+/**
+ * Unsigned JWT for a mock user; the exp claim drives the app's refresh timing
+ */
+function mockAccessToken(userId: string): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const exp = Math.floor(Date.now() / 1000) + MOCK_ACCESS_TTL_SECONDS;
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({ sub: userId, exp })}.mock`;
+}
+
+on('POST', '/auth/refresh', ({ body }) => {
+  const refresh = stringField(fieldsOf(body), 'refresh');
+  const userId = refresh?.startsWith(MOCK_REFRESH_PREFIX)
+    ? refresh.slice(MOCK_REFRESH_PREFIX.length)
+    : undefined;
+  if (!userId || !getDb().users.some(user => user.id === userId)) {
+    throw new MockHttpError(401, 'Token is invalid or expired');
+  }
+  return { message: 'Token refreshed', data: { access: mockAccessToken(userId) } };
+});
+
+// Every fixture account signs in with this password
+const MOCK_PASSWORD = 'demo123';
+const registeredPasswords = new Map<string, string>();
+
+/**
+ * User id of a mock access token, or null for anonymous requests
+ *
+ * Mirrors the backend's /graphql/ view: a token that is malformed or expired
+ * is rejected with a 401 so the app refreshes it and retries.
+ */
+function authenticatedUserId(authorization: string | undefined): string | null {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  try {
+    const encoded = (token.split('.')[1] ?? '').replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(encoded.padEnd(Math.ceil(encoded.length / 4) * 4, '=')));
+    if (typeof claims.sub === 'string' && typeof claims.exp === 'number') {
+      if (claims.exp * 1000 > Date.now() && getDb().users.some(user => user.id === claims.sub)) {
+        return claims.sub;
+      }
+    }
+  } catch {
+    // fall through to the 401
+  }
+  throw new MockHttpError(401, 'Invalid or expired token');
+}
+
+/**
+ * Shape graphene's UserType gives a fixture user
+ */
+function toGraphQLUser(user: User) {
+  const [firstName = '', ...rest] = user.fullName.split(' ');
+  const contacts = user.safetyPreferences?.emergencyContacts ?? [];
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName,
+    lastName: rest.join(' '),
+    avatarUrl: user.avatar ?? null,
+    primaryContact: contacts[0] ?? null,
+    secondaryContact: contacts[1] ?? null,
+    profileJson: '{}',
+  };
+}
+
+function authPayload(user: User) {
+  return {
+    user: toGraphQLUser(user),
+    accessToken: mockAccessToken(user.id),
+    refreshToken: `${MOCK_REFRESH_PREFIX}${user.id}`,
+  };
+}
+
+// Resolver errors come back in errors[] with a 200, as graphene sends them
+const graphqlError = (message: string): MockResult => ({
+  message: 'GraphQL error',
+  data: { errors: [{ message }] },
+});
+
+on('POST', '/graphql', ({ body, authorization }) => {
+  const request = fieldsOf(body);
+  const variables = fieldsOf(request.variables);
+  const operationName = stringField(request, 'operationName');
+  const userId = authenticatedUserId(authorization);
+  const users = getDb().users;
+
+  switch (operationName) {
+    case 'Login': {
+      const email = (stringField(variables, 'email') ?? '').toLowerCase();
+      const user = users.find(candidate => candidate.email.toLowerCase() === email);
+      const expected = user && (registeredPasswords.get(user.id) ?? MOCK_PASSWORD);
+      if (!user || variables.password !== expected) return graphqlError('Invalid credentials');
+      return { message: 'Login', data: { data: { login: authPayload(user) } } };
+    }
+    case 'Register': {
+      const email = (stringField(variables, 'email') ?? '').trim();
+      if (users.some(candidate => candidate.email.toLowerCase() === email.toLowerCase())) {
+        return graphqlError('Email already in use');
+      }
+      const now = new Date().toISOString();
+      const requestedUsername = stringField(variables, 'username')?.trim();
+      const user: User = {
+        id: `user-${Date.now()}`,
+        email,
+        username: requestedUsername ? requestedUsername : (email.split('@')[0] ?? email),
+        fullName: [stringField(variables, 'firstName'), stringField(variables, 'lastName')]
+          .filter(Boolean)
+          .join(' '),
+        createdAt: now,
+        updatedAt: now,
+      };
+      users.push(user);
+      registeredPasswords.set(user.id, stringField(variables, 'password') ?? '');
+      return { message: 'Register', data: { data: { register: authPayload(user) } } };
+    }
+    case 'Me': {
+      const user = users.find(candidate => candidate.id === userId);
+      return { message: 'Me', data: { data: { me: user ? toGraphQLUser(user) : null } } };
+    }
+    case 'UpdateProfile': {
+      const user = users.find(candidate => candidate.id === userId);
+      if (!user) return graphqlError('Authentication required');
+      const contacts = user.safetyPreferences?.emergencyContacts ?? [];
+      const primary = stringField(variables, 'primaryContact') ?? contacts[0];
+      const secondary = stringField(variables, 'secondaryContact') ?? contacts[1];
+      user.avatar = stringField(variables, 'avatarUrl') ?? user.avatar;
+      user.safetyPreferences = {
+        shareLocation: user.safetyPreferences?.shareLocation ?? false,
+        emergencyContacts: [primary, secondary].filter((contact): contact is string =>
+          Boolean(contact)
+        ),
+      };
+      user.updatedAt = new Date().toISOString();
+      return {
+        message: 'UpdateProfile',
+        data: { data: { updateProfile: { user: toGraphQLUser(user) } } },
+      };
+    }
+    default:
+      return graphqlError(`Unknown operation named "${operationName}".`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Users & safety
+// ---------------------------------------------------------------------------
+
+on('GET', '/users', ({ query }) => {
+  const users = getDb().users;
+  return {
+    message: 'Users retrieved',
+    data: { users: paginate(users, query), total: users.length },
+  };
+});
+
+on('GET', '/users/me/completions', () => {
+  const completions = [...getDb().completions].sort(
+    (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
+  );
+  return { message: 'Completions retrieved', data: { completions } };
+});
+
+on('GET', '/users/:userId', ({ params }) => ({
+  message: 'User retrieved',
+  data: { user: findOr404(getDb().users, params.userId, 'User') },
+}));
+
+on('GET', '/safety', ({ query }) => {
+  const neighborhood = query.neighborhood?.toLowerCase();
+  const records = getDb().safety.filter(
+    record => !neighborhood || record.location.neighborhood.toLowerCase() === neighborhood
+  );
+  return {
+    message: 'Safety data retrieved',
+    data: { records: paginate(records, query), total: records.length },
+  };
+});
+
+on('GET', '/safety/neighborhood', ({ query }) => {
+  const lat = toNumber(query.lat);
+  const lng = toNumber(query.lng);
+  if (lat === undefined || lng === undefined) {
+    throw new MockHttpError(400, 'lat and lng are required.');
+  }
+  // The closest record stands in for "the neighborhood containing the point"
+  const distanceTo = (record: NeighborhoodSafety) =>
+    haversineDistance({ lat, lng }, record.location);
+  const [record] = [...getDb().safety].sort((a, b) => distanceTo(a) - distanceTo(b));
+  if (!record) throw new MockHttpError(404, 'No safety data for this area.');
+  return { message: 'Neighborhood safety retrieved', data: { record } };
+});
+
+on('GET', '/safety/:safetyId', ({ params }) => ({
+  message: 'Safety data retrieved',
+  data: { record: findOr404(getDb().safety, params.safetyId, 'Safety record') },
+}));
+
+// Upserts by id: the resolved report of an event replaces the active one
+on('POST', '/safety/sos', ({ body }) => {
+  const report = fieldsOf(body);
+  const id = stringField(report, 'id');
+  const status = report.status;
+  if (!id || (status !== 'active' && status !== 'resolved')) {
+    throw new MockHttpError(400, 'id and status are required.');
+  }
+  // Stored as sent; the mock only checks the fields it keys and filters on
+  getDb().sosReports.set(id, report as unknown as SosReport);
+  return { message: 'SOS received', data: { id, status } };
+});
+
+on('POST', '/safety/check-ins', ({ body }) => {
+  const report = fieldsOf(body);
+  const id = stringField(report, 'id');
+  const status = report.status;
+  if (!id || (status !== 'active' && status !== 'checked-in' && status !== 'escalated')) {
+    throw new MockHttpError(400, 'id and status are required.');
+  }
+  // Stored as sent; the mock does not escalate
+  getDb().checkIns.set(id, report as unknown as CheckInReport);
+  return { message: 'Check-in saved', data: { id, status } };
+});
+
+const SHARE_URL_PREFIX = 'https://waytrove.com/share/';
+
+/**
+ * Location share by id, ended once its expiresAt has passed
+ */
+function findShare(shareId: string | undefined) {
+  const share = findOr404(getDb().locationShares, shareId, 'Location share');
+  if (share.status === 'active' && new Date(share.expiresAt).getTime() <= Date.now()) {
+    share.status = 'ended';
+    share.endReason = 'expired';
+  }
+  return share;
+}
+
+on('POST', '/safety/location-shares', ({ body, authorization }) => {
+  const fields = fieldsOf(body);
+  const mode = fields.mode;
+  const expiresAt = stringField(fields, 'expiresAt');
+  if ((mode !== '15m' && mode !== '1h' && mode !== 'arrival') || !expiresAt) {
+    throw new MockHttpError(400, 'mode and expiresAt are required.');
+  }
+  const destination = fieldsOf(fields.destination);
+  const destinationLat = numberField(destination, 'lat');
+  const destinationLng = numberField(destination, 'lng');
+  const store = getDb();
+  const userId = authenticatedUserId(authorization);
+  // Mock sign-ins send no token; the demo user stands in for them
+  const sender = store.users.find(user => user.id === userId) ?? store.users[0];
+  const id = `share-${Date.now()}`;
+  const token = Math.random().toString(36).slice(2, 12);
+  store.locationShares.push({
+    id,
+    token,
+    senderName: sender?.fullName ?? '',
+    status: 'active',
+    mode,
+    startedAt: new Date().toISOString(),
+    expiresAt,
+    destination:
+      destinationLat !== undefined && destinationLng !== undefined
+        ? { lat: destinationLat, lng: destinationLng, name: stringField(destination, 'name') }
+        : undefined,
+  });
+  return {
+    status: 201,
+    message: 'Sharing started',
+    data: { id, token, shareUrl: `${SHARE_URL_PREFIX}${token}`, expiresAt },
+  };
+});
+
+on('POST', '/safety/location-shares/:shareId/positions', ({ params, body }) => {
+  const share = findShare(params.shareId);
+  const position = fieldsOf(body);
+  const lat = numberField(position, 'lat');
+  const lng = numberField(position, 'lng');
+  if (lat === undefined || lng === undefined) {
+    throw new MockHttpError(400, 'lat and lng are required.');
+  }
+  if (share.status === 'active') {
+    share.lastPosition = {
+      lat,
+      lng,
+      accuracy: numberField(position, 'accuracy'),
+      recordedAt: stringField(position, 'recordedAt') ?? new Date().toISOString(),
+    };
+  }
+  return { message: 'Position received', data: { status: share.status } };
+});
+
+on('POST', '/safety/location-shares/:shareId/stop', ({ params, body }) => {
+  const share = findShare(params.shareId);
+  if (share.status === 'active') {
+    share.status = 'ended';
+    const reason = fieldsOf(body).reason;
+    share.endReason = reason === 'expired' || reason === 'arrived' ? reason : 'stopped';
+  }
+  return { message: 'Sharing stopped', data: { status: 'ended' } };
+});
+
+on('GET', '/safety/shared-locations/:token', ({ params }) => {
+  const match = getDb().locationShares.find(candidate => candidate.token === params.token);
+  if (!match) throw new MockHttpError(404, 'Shared location not found.');
+  const { id: _id, token: _token, lastPosition, ...share } = findShare(match.id);
+  // Ended shares no longer reveal where the sender is
+  const location: SharedLocation = share.status === 'ended' ? share : { ...share, lastPosition };
+  return { message: 'Shared location', data: location };
+});
+
+// ---------------------------------------------------------------------------
+// Safety alerts
+// ---------------------------------------------------------------------------
+
+const DEFAULT_ALERT_SEARCH_RADIUS_KM = 10;
+
+on('GET', '/safety-alerts', ({ query }) => {
+  const lat = toNumber(query.lat);
+  const lng = toNumber(query.lng);
+  const radiusMeters = (toNumber(query.radiusKm) ?? DEFAULT_ALERT_SEARCH_RADIUS_KM) * 1000;
+  const alerts = getDb().alerts.filter(alert => {
+    // Route matching is by affectedRoutes only; the app checks route paths itself
+    if (query.routeId && !alert.affectedRoutes?.includes(query.routeId)) return false;
+    if (lat === undefined || lng === undefined) return true;
+    const distance = distanceToAlert(alert, { lat, lng });
+    return distance !== null && distance <= radiusMeters;
+  });
+  return { message: 'Safety alerts retrieved', data: { alerts } };
+});
+
+on('GET', '/safety-alerts/dismissed', () => ({
+  message: 'Dismissed alerts retrieved',
+  data: { alertIds: [...getDb().dismissedAlerts.keys()] },
+}));
+
+on('GET', '/safety-alerts/:alertId', ({ params }) => ({
+  message: 'Safety alert retrieved',
+  data: { alert: findOr404(getDb().alerts, params.alertId, 'Safety alert') },
+}));
+
+on('POST', '/safety-alerts/:alertId/dismiss', ({ params }) => {
+  const store = getDb();
+  const alert = findOr404(store.alerts, params.alertId, 'Safety alert');
+  const dismissedAt = store.dismissedAlerts.get(alert.id) ?? new Date().toISOString();
+  store.dismissedAlerts.set(alert.id, dismissedAt);
+  return { message: 'Alert dismissed', data: { alertId: alert.id, dismissedAt } };
+});
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+function buildResponse(
+  requestConfig: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown
+): AxiosResponse {
+  return {
+    data,
+    status,
+    statusText: String(status),
+    headers: new AxiosHeaders({ 'content-type': 'application/json' }),
+    config: requestConfig,
+    request: {},
+  };
+}
+
+function rejectWith(
+  requestConfig: InternalAxiosRequestConfig,
+  status: number,
+  message: string
+): never {
+  if (status === 0) {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, requestConfig, {});
+  }
+
+  const response = buildResponse(requestConfig, status, { error: true, message });
+  throw new AxiosError(
+    message,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    requestConfig,
+    {},
+    response
+  );
+}
+
+/**
+ * Axios adapter that resolves requests against the mock route table
+ *
+ * @param requestConfig - Request config produced by axios
+ * @returns Response with a standard success envelope
+ */
+export async function mockAdapter(
+  requestConfig: InternalAxiosRequestConfig
+): Promise<AxiosResponse> {
+  const method = (requestConfig.method ?? 'get').toUpperCase();
+  const [rawPath = '/', search = ''] = (requestConfig.url ?? '/').split('?');
+  // Absolute URLs (e.g. baseURL already applied) are reduced to their path
+  const path = rawPath.replace(/^[a-z]+:\/\/[^/]+/i, '') || '/';
+
+  const query = parseQuery(search);
+  if (requestConfig.params) {
+    for (const [key, value] of Object.entries(requestConfig.params)) {
+      if (value !== undefined && value !== null) query[key] = String(value);
+    }
+  }
+
+  let body: unknown = requestConfig.data;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // leave non-JSON bodies untouched
+    }
+  }
+
+  const latency =
+    config.minLatencyMs + Math.random() * Math.max(0, config.maxLatencyMs - config.minLatencyMs);
+  await new Promise(resolve => setTimeout(resolve, latency));
+
+  const forcedStatus = config.failures[`${method} ${path}`];
+  if (forcedStatus !== undefined) {
+    rejectWith(requestConfig, forcedStatus, `Injected failure (${forcedStatus})`);
+  }
+  if (config.errorRate > 0 && Math.random() < config.errorRate) {
+    rejectWith(requestConfig, 500, 'Injected random server error');
+  }
+
+  for (const def of table) {
+    if (def.method !== method) continue;
+    const match = def.pattern.exec(path);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    def.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1] ?? '');
+    });
+
+    try {
+      const authHeader = requestConfig.headers?.Authorization;
+      const authorization = typeof authHeader === 'string' ? authHeader : undefined;
+      const result = def.handler({ method, path, params, query, body, authorization });
+      return buildResponse(requestConfig, result.status ?? 200, {
+        error: false,
+        message: result.message,
+        data: result.data,
+      });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        rejectWith(requestConfig, error.status, error.message);
+      }
+      throw error;
+    }
+  }
+
+  return rejectWith(requestConfig, 404, `No mock handler for ${method} ${path}`);
+}
@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Navigation Engine
+ * @purpose Turn-by-waypoint progress along a route from a stream of location fixes
+ *
+ * The engine is a plain state machine: feed it fixes with update() and it
+ * returns the current NavigationProgress. It does not subscribe to anything
+ * itself; useRouteNavigation wires it to a LocationProvider, and tests can
+ * drive it with recorded fixes directly.
+ *
+ * Per fix:
+ * - Fixes less accurate than maxAccuracyMeters are ignored
+ * - The fix is snapped to the route path, searching forward from the last
+ *   matched segment so loops and out-and-back routes do not jump ahead
+ * - Distance remaining and ETA come from the snapped position and a smoothed
+ *   speed (the route's planned pace while standing still)
+ * - Waypoints are reached inside arrivalRadiusMeters or once passed
+ * - The route is finished once every waypoint is reached and less than
+ *   arrivalRadiusMeters of the path remain; being near the finish is not
+ *   enough, as on a loop that is also where the walk starts
+ * - offRouteFixCount consecutive fixes further than offRouteThresholdMeters
+ *   from the path switch to "offRoute" and call the reroute hook, whose path
+ *   replaces the remainder of the route
+ */
+
+import { cumulativeDistances, haversineDistance, snapToPath } from '../utils/geo';
+import type { LatLng } from '../utils/geo';
+import type { Route } from '../types/route';
+import type { LocationFix } from './locationProvider';
+import { getRoutePath } from './routeModel';
+
+// Typical urban walking pace, used when a route has no planned duration
+const DEFAULT_SPEED_MPS = 1.35;
+// Below this the user is treated as standing still
+const MIN_MOVING_SPEED_MPS = 0.3;
+// Weight of the newest speed sample in the moving average
+const SPEED_SMOOTHING = 0.3;
+
+/**
+ * Stop the user should pass on the way
+ */
+export interface NavigationWaypoint extends LatLng {
+  id: string;
+  name: string;
+}
+
+/**
+ * Geometry the engine navigates along
+ */
+export interface NavigationRoute {
+  path: LatLng[]; // from start to finish, at least two points
+  waypoints: NavigationWaypoint[]; // in the order they are visited
+  plannedSpeedMps?: number;
+}
+
+export type NavigationStatus = 'navigating' | 'offRoute' | 'arrived';
+
+/**
+ * Engine output after each accepted fix
+ */
+export interface NavigationProgress {
+  status: NavigationStatus;
+  fix: LocationFix;
+  snapped: LatLng; // fix projected onto the route
+  distanceFromRoute: number; // meters
+  distanceTravelled: number; // meters along the route
+  distanceRemaining: number; // meters along the route
+  progress: number; // 0..1
+  speedMps: number; // smoothed; 0 when standing still
+  etaSeconds: number;
+  arrivalTime: number; // ms since epoch
+  nextWaypointIndex: number; // waypoints.length once all are reached
+  distanceToNextWaypoint: number | null; // meters along the route
+}
+
+export interface NavigationEngineOptions {
+  arrivalRadiusMeters?: number; // default 25
+  offRouteThresholdMeters?: number; // default 40
+  offRouteFixCount?: number; // default 3
+  maxAccuracyMeters?: number; // default 75
+  onWaypointReached?: (waypoint: NavigationWaypoint, index: number) => void;
+  onArrived?: (progress: NavigationProgress) => void;
+  onOffRoute?: (progress: NavigationProgress) => void;
+  onBackOnRoute?: (progress: NavigationProgress) => void;
+  /**
+   * Rerouting hook, called once per off-route episode
+   *
+   * @returns New path from (near) the fix to the destination, or null to keep the route
+   */
+  reroute?: (fix: LocationFix, remaining: NavigationWaypoint[]) => Promise<LatLng[] | null>;
+}
+
+export interface NavigationEngine {
+  /** Process a fix; returns null when the fix is ignored */
+  update: (fix: LocationFix) => NavigationProgress | null;
+  getProgress: () => NavigationProgress | null;
+  /** Replace the rest of the route from the current position */
+  setPath: (path: LatLng[]) => void;
+}
+
+/**
+ * Navigation geometry for a canonical Route (see getRoutePath)
+ */
+export function toNavigationRoute(route: Route): NavigationRoute {
+  return {
+    path: getRoutePath(route),
+    waypoints: route.waypoints.map(({ id, name, lat, lng }) => ({ id, name, lat, lng })),
+    plannedSpeedMps:
+      route.durationMinutes > 0 ? route.distanceMeters / (route.durationMinutes * 60) : undefined,
+  };
+}
+
+/**
+ * Create an engine for one navigation session
+ */
+export function createNavigationEngine(
+  route: NavigationRoute,
+  options: NavigationEngineOptions = {}
+): NavigationEngine {
+  const arrivalRadius = options.arrivalRadiusMeters ?? 25;
+  const offRouteThreshold = options.offRouteThresholdMeters ?? 40;
+  const offRouteFixCount = options.offRouteFixCount ?? 3;
+  const maxAccuracy = options.maxAccuracyMeters ?? 75;
+  const plannedSpeed = route.plannedSpeedMps ?? DEFAULT_SPEED_MPS;
+
+  let path = route.path;
+  let cumulative = cumulativeDistances(path);
+  // Distance covered on paths replaced by setPath()
+  let travelledBase = 0;
+  let waypointDistances: number[] = [];
+
+  let segmentIndex = 0;
+  let nextWaypointIndex = 0;
+  let offRouteCount = 0;
+  let isRerouting = false;
+  let speed = 0;
+  let previousFix: LocationFix | null = null;
+  let current: NavigationProgress | null = null;
+
+  const pathLength = () => cumulative[cumulative.length - 1] ?? 0;
+  // Segment that contains the middle of the path
+  const halfwaySegment = () => {
+    const end = cumulative.findIndex(distance => distance >= pathLength() / 2);
+    return Math.max(0, end - 1);
+  };
+
+  // Snap remaining waypoints in order so each is placed after the previous one
+  const placeWaypoints = () => {
+    let fromSegment = 0;
+    waypointDistances = route.waypoints.map((waypoint, index) => {
+      if (index < nextWaypointIndex) return -Infinity;
+      const snap = snapToPath(waypoint, path, cumulative, fromSegment);
+      fromSegment = snap?.segmentIndex ?? fromSegment;
+      return snap?.distanceAlong ?? 0;
+    });
+  };
+  placeWaypoints();
+
+  const updateSpeed = (fix: LocationFix) => {
+    let sample: number | null = null;
+    if (typeof fix.speed === 'number' && fix.speed >= 0) {
+      sample = fix.speed;
+    } else if (previousFix && fix.timestamp > previousFix.timestamp) {
+      sample =
+        haversineDistance(previousFix, fix) / ((fix.timestamp - previousFix.timestamp) / 1000);
+    }
+    if (sample !== null) {
+      speed = previousFix ? speed + SPEED_SMOOTHING * (sample - speed) : sample;
+    }
+    previousFix = fix;
+  };
+
+  const snap = (fix: LocationFix) => {
+    // A loop's finish is as close to the first fix as its start; look at the
+    // first half of the path before matching the finish
+    const toSegment = current ? undefined : halfwaySegment();
+    const ahead = snapToPath(fix, path, cumulative, Math.max(0, segmentIndex - 1), toSegment);
+    if (ahead && ahead.distanceFromPath <= offRouteThreshold) return ahead;
+    // Lost the local match; accept a match anywhere on the path
+    const anywhere = snapToPath(fix, path, cumulative);
+    return anywhere && (!ahead || anywhere.distanceFromPath < ahead.distanceFromPath)
+      ? anywhere
+      : ahead;
+  };
+
+  const requestReroute = (fix: LocationFix) => {
+    if (!options.reroute || isRerouting) return;
+    isRerouting = true;
+    options
+      .reroute(fix, route.waypoints.slice(nextWaypointIndex))
+      .then(newPath => {
+        if (newPath && newPath.length >= 2 && current?.status === 'offRoute') setPath(newPath);
+      })
+      .catch(error => {
+        if (__DEV__) console.warn('Reroute failed:', error);
+      })
+      .finally(() => {
+        isRerouting = false;
+      });
+  };
+
+  const setPath = (newPath: LatLng[]) => {
+    travelledBase = current?.distanceTravelled ?? travelledBase;
+    path = newPath;
+    cumulative = cumulativeDistances(path);
+    segmentIndex = 0;
+    offRouteCount = 0;
+    placeWaypoints();
+    if (current?.status === 'offRoute') current = { ...current, status: 'navigating' };
+  };
+
+  const update = (fix: LocationFix): NavigationProgress | null => {
+    if (current?.status === 'arrived') return current;
+    if (typeof fix.accuracy === 'number' && fix.accuracy > maxAccuracy) return null;
+
+    const snapped = snap(fix);
+    if (!snapped) return null;
+    updateSpeed(fix);
+
+    const wasOffRoute = current?.status === 'offRoute';
+    const isOff = snapped.distanceFromPath > Math.max(offRouteThreshold, fix.accuracy ?? 0);
+    offRouteCount = isOff ? offRouteCount + 1 : 0;
+    const offRoute = offRouteCount >= offRouteFixCount;
+
+    // Progress only moves forward while on the route
+    if (!isOff) segmentIndex = Math.max(segmentIndex, snapped.segmentIndex);
+    const along = isOff
+      ? Math.max(0, (current?.distanceTravelled ?? 0) - travelledBase)
+      : Math.max(snapped.distanceAlong, (current?.distanceTravelled ?? 0) - travelledBase);
+    const remaining = Math.max(0, pathLength() - along);
+
+    while (nextWaypointIndex < route.waypoints.length) {
+      const waypoint = route.waypoints[nextWaypointIndex];
+      const waypointAlong = waypointDistances[nextWaypointIndex] ?? 0;
+      if (!waypoint) break;
+      const reached =
+        haversineDistance(fix, waypoint) <= arrivalRadius || (!isOff && along >= waypointAlong);
+      if (!reached) break;
+      options.onWaypointReached?.(waypoint, nextWaypointIndex);
+      nextWaypointIndex++;
+    }
+
+    const arrived = nextWaypointIndex >= route.waypoints.length && remaining <= arrivalRadius;
+
+    const travelled = travelledBase + (arrived ? pathLength() : along);
+    const total = travelledBase + pathLength();
+    const etaSpeed = speed >= MIN_MOVING_SPEED_MPS ? speed : plannedSpeed;
+    const etaSeconds = arrived ? 0 : remaining / etaSpeed;
+    const nextWaypointAlong = waypointDistances[nextWaypointIndex];
+
+    current = {
+      status: arrived ? 'arrived' : offRoute ? 'offRoute' : 'navigating',
+      fix,
+      snapped: snapped.point,
+      distanceFromRoute: snapped.distanceFromPath,
+      distanceTravelled: travelled,
+      distanceRemaining: arrived ? 0 : remaining,
+      progress: total > 0 ? Math.min(1, travelled / total) : 1,
+      speedMps: speed >= MIN_MOVING_SPEED_MPS ? speed : 0,
+      etaSeconds,
+      arrivalTime: fix.timestamp + etaSeconds * 1000,
+      nextWaypointIndex,
+      distanceToNextWaypoint:
+        nextWaypointAlong === undefined ? null : Math.max(0, nextWaypointAlong - along),
+    };
+
+    if (arrived) {
+      options.onArrived?.(current);
+    } else if (offRoute && !wasOffRoute) {
+      options.onOffRoute?.(current);
+      requestReroute(fix);
+    } else if (!offRoute && wasOffRoute) {
+      options.onBackOnRoute?.(current);
+    }
+    return current;
+  };
+
+  return {
+    update,
+    getProgress: () => current,
+    setPath,
+  };
+}
@@ -5,7 +5,9 @@
  * All functions return ApiResponse<T> from apiService
  */
 
-// import { get, post } from './apiService';
+import type { AxiosRequestConfig } from 'axios';
+import { post } from './apiService';
+import { boolean, number, object } from '../utils/schema';
 
 /**
  * News article object shape
@@ -111,9 +113,10 @@ export async function fetchNewsDetails(_newsId: string) {
  *
  * @param newsId - News article ID
  * @param isSaved - true to save, false to unsave
- * @returns Success confirmation
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
+ * @returns Updated save status and count
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: POST /news/:newsId/save
  * - Headers: Authorization: Bearer {accessToken}
  * - Request body: { isSaved: boolean }
@@ -121,11 +124,23 @@ export async function fetchNewsDetails(_newsId: string) {
  * - Saved articles appear in user's "Saved News" section
  * - Update article's saves count
  */
-export async function saveNews(_newsId: string, _isSaved: boolean) {
-  // TODO: Replace with actual API call
-  // return post<{ isSaved: boolean; saveCount: number }>(`/news/${newsId}/save`, { isSaved });
-
-  throw new Error('saveNews() not implemented - connect to backend endpoint');
+export async function saveNews(
+  newsId: string,
+  isSaved: boolean,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ isSaved: boolean; saveCount: number }> {
+  const res = await post(
+    `/news/${encodeURIComponent(newsId)}/save`,
+    { isSaved },
+    {
+      ...requestConfig,
+      schema: object<{ isSaved: boolean; saveCount: number }>({
+        isSaved: boolean(),
+        saveCount: number({ min: 0, integer: true }),
+      }),
+    }
+  );
+  return res.data;
 }
 
 /**
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Notification Service
+ * @purpose Framework-agnostic store for non-blocking toast notifications
+ *
+ * Any module (apiService, background jobs, screens) can call notify(); the
+ * NotificationProvider subscribes to this store and renders NotificationHost.
+ *
+ * Behaviour:
+ * - Deduplication: a notification whose dedupeKey matches a visible one bumps
+ *   its count and restarts its timer instead of stacking a new toast
+ * - Cooldown: the same key is suppressed for COOLDOWN_MS after it is dismissed
+ * - Rate limit: at most RATE_LIMIT_COUNT new toasts per RATE_LIMIT_WINDOW_MS
+ * - At most MAX_VISIBLE toasts are shown; the oldest is dropped first
+ *
+ * @example
+ * ```ts
+ * notify({ message: 'Route saved', severity: 'success' });
+ * notify({
+ *   message: 'Could not load routes',
+ *   severity: 'error',
+ *   action: { label: 'Retry', onPress: refetch },
+ * });
+ * ```
+ */
+
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * Optional button rendered on the toast
+ */
+export interface NotificationAction {
+  label: string;
+  onPress: () => void;
+}
+
+/**
+ * Input accepted by notify()
+ */
+export interface NotificationInput {
+  message: string;
+  title?: string;
+  severity?: NotificationSeverity;
+  action?: NotificationAction;
+
+  /**
+   * Auto-dismiss delay in milliseconds; 0 keeps the toast until dismissed
+   * @default depends on severity (longer when an action is present)
+   */
+  durationMs?: number;
+
+  /**
+   * Key used for deduplication and cooldown
+   * @default `${severity}:${message}`
+   */
+  dedupeKey?: string;
+}
+
+/**
+ * Notification as held in the store
+ */
+export interface AppNotification {
+  id: string;
+  message: string;
+  title?: string;
+  severity: NotificationSeverity;
+  action?: NotificationAction;
+  dedupeKey: string;
+  count: number; // times this notification was raised while visible
+  createdAt: number;
+}
+
+type NotificationListener = (notifications: AppNotification[]) => void;
+
+const MAX_VISIBLE = 3;
+const COOLDOWN_MS = 5000;
+const RATE_LIMIT_WINDOW_MS = 10000;
+const RATE_LIMIT_COUNT = 5;
+
+const DEFAULT_DURATION_MS: Record<NotificationSeverity, number> = {
+  info: 3000,
+  success: 3000,
+  warning: 4000,
+  error: 5000,
+};
+const ACTION_DURATION_MS = 7000;
+
+let notifications: AppNotification[] = [];
+const listeners = new Set<NotificationListener>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+const recentlyDismissed = new Map<string, number>(); // dedupeKey -> dismissedAt
+let recentShows: number[] = [];
+let nextId = 0;
+
+function emit(): void {
+  const snapshot = notifications.slice();
+  listeners.forEach(listener => listener(snapshot));
+}
+
+function scheduleDismiss(id: string, durationMs: number): void {
+  const existing = timers.get(id);
+  if (existing) clearTimeout(existing);
+  if (durationMs <= 0) return;
+  timers.set(
+    id,
+    setTimeout(() => dismissNotification(id), durationMs)
+  );
+}
+
+/**
+ * Show a notification
+ *
+ * @param input - Message, severity and optional action
+ * @returns Notification id, or null if suppressed by cooldown/rate limit
+ */
+export function notify(input: NotificationInput): string | null {
+  const severity = input.severity ?? 'info';
+  const dedupeKey = input.dedupeKey ?? `${severity}:${input.message}`;
+  const durationMs =
+    input.durationMs ?? (input.action ? ACTION_DURATION_MS : DEFAULT_DURATION_MS[severity]);
+  const now = Date.now();
+
+  const visible = notifications.find(item => item.dedupeKey === dedupeKey);
+  if (visible) {
+    notifications = notifications.map(item =>
+      item.id === visible.id ? { ...item, count: item.count + 1, action: input.action } : item
+    );
+    scheduleDismiss(visible.id, durationMs);
+    emit();
+    return visible.id;
+  }
+
+  const dismissedAt = recentlyDismissed.get(dedupeKey);
+  if (dismissedAt !== undefined && now - dismissedAt < COOLDOWN_MS) return null;
+
+  recentShows = recentShows.filter(shownAt => now - shownAt < RATE_LIMIT_WINDOW_MS);
+  if (recentShows.length >= RATE_LIMIT_COUNT) return null;
+  recentShows.push(now);
+
+  const notification: AppNotification = {
+    id: `notification-${++nextId}`,
+    message: input.message,
+    title: input.title,
+    severity,
+    action: input.action,
+    dedupeKey,
+    count: 1,
+    createdAt: now,
+  };
+
+  notifications = [...notifications, notification];
+  while (notifications.length > MAX_VISIBLE) {
+    const [oldest] = notifications;
+    if (!oldest) break;
+    dismissNotification(oldest.id, false);
+  }
+
+  scheduleDismiss(notification.id, durationMs);
+  emit();
+  return notification.id;
+}
+
+/**
+ * Hide a notification
+ *
+ * @param id - Notification id returned by notify()
+ * @param shouldEmit - Internal: batch removals before notifying listeners
+ */
+export function dismissNotification(id: string, shouldEmit = true): void {
+  const target = notifications.find(item => item.id === id);
+  if (!target) return;
+
+  const timer = timers.get(id);
+  if (timer) clearTimeout(timer);
+  timers.delete(id);
+
+  recentlyDismissed.set(target.dedupeKey, Date.now());
+  notifications = notifications.filter(item => item.id !== id);
+  if (shouldEmit) emit();
+}
+
+/**
+ * Hide every visible notification
+ */
+export function clearNotifications(): void {
+  timers.forEach(timer => clearTimeout(timer));
+  timers.clear();
+  notifications = [];
+  emit();
+}
+
+/**
+ * Current notifications, oldest first
+ */
+export function getNotifications(): AppNotification[] {
+  return notifications.slice();
+}
+
+/**
+ * Subscribe to notification changes
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToNotifications(listener: NotificationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,411 @@
+/**
+ * @fileoverview Offline Queue
+ * @purpose Persistent outbox for social mutations triggered without connectivity
+ *
+ * Likes, saves, comments, completions, SOS reports, check-in timers and alert
+ * dismissals are queued here instead of being sent directly. Screens apply the change to
+ * local state optimistically, enqueue the mutation and read its sync status
+ * back through useOfflineQueue.
+ *
+ * Behaviour:
+ * - Entries are persisted in AsyncStorage (STORAGE_KEYS.OFFLINE_QUEUE) and
+ *   survive app restarts
+ * - Replay is strictly in enqueue order, one request at a time
+ * - Toggles collapse: like then unlike of the same route cancels out, and a
+ *   repeated toggle replaces the queued one. Comments, completions, SOS
+ *   reports, check-ins and alert dismissals are never collapsed
+ * - Network errors, 5xx, 408 and 429 keep the entry pending and stop the
+ *   flush; a timer retries with exponential backoff. A 401 waits for the next
+ *   trigger (the session is refreshed or the user signs out)
+ * - Any other 4xx marks the entry failed; failed entries stay in the outbox
+ *   until retried or discarded and do not block later entries
+ * - A flush is triggered on enqueue, when the app returns to the foreground
+ *   and by the backoff timer
+ *
+ * Every replay carries an Idempotency-Key that is stable for the entry, so a
+ * request that reached the server before the connection dropped is not
+ * applied twice.
+ *
+ * @example
+ * ```ts
+ * setIsLiked(true); // optimistic
+ * await enqueueMutation({ type: 'likeRoute', routeId, isLiked: true });
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import type { AxiosRequestConfig } from 'axios';
+import { STORAGE_KEYS } from '../utils/constants';
+import { likeRoute, saveRoute, completeRoute, addRouteComment } from './routesService';
+import type { RouteCompletionData } from './routesService';
+import { saveNews } from './newsService';
+import { dismissSafetyAlert, reportCheckIn, reportSos } from './safetyService';
+import type { CheckInReport, SosReport } from './safetyService';
+import { createIdempotencyKey } from './retryPolicy';
+import { notify } from './notificationService';
+import type { ApiErrorEnvelope } from './apiService';
+
+/**
+ * Mutations the outbox knows how to replay
+ */
+export type OutboxMutation =
+  | { type: 'likeRoute'; routeId: string; isLiked: boolean }
+  | { type: 'saveRoute'; routeId: string; isSaved: boolean }
+  | { type: 'completeRoute'; routeId: string; completionData?: RouteCompletionData }
+  | { type: 'addRouteComment'; routeId: string; text: string }
+  | { type: 'saveNews'; newsId: string; isSaved: boolean }
+  | { type: 'reportSos'; report: SosReport }
+  | { type: 'reportCheckIn'; report: CheckInReport }
+  | { type: 'dismissSafetyAlert'; alertId: string };
+
+export type OutboxEntryStatus = 'pending' | 'failed';
+
+/**
+ * Sync status of a route or article as shown by the sync badge
+ */
+export type OutboxSyncStatus = OutboxEntryStatus | 'synced';
+
+/**
+ * Queued mutation as persisted in AsyncStorage
+ */
+export interface OutboxEntry {
+  id: string;
+  mutation: OutboxMutation;
+  status: OutboxEntryStatus;
+  attempts: number;
+  lastError?: string;
+  idempotencyKey: string;
+  createdAt: number; // epoch milliseconds
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+const TRANSIENT_STATUSES = [408, 429];
+
+let entries: OutboxEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+let inFlightId: string | null = null;
+let backoffTimer: ReturnType<typeof setTimeout> | null = null;
+let backoffAttempt = 0;
+const listeners = new Set<OutboxListener>();
+
+function emit(): void {
+  const snapshot = entries.slice();
+  listeners.forEach(listener => listener(snapshot));
+}
+
+async function persist(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(entries));
+  } catch (e) {
+    // Keep working from memory; the entries are lost only if the app is killed
+    if (__DEV__) console.warn('Failed to persist offline queue', e);
+  }
+}
+
+function update(next: OutboxEntry[]): Promise<void> {
+  entries = next;
+  emit();
+  return persist();
+}
+
+function handleAppStateChange(state: AppStateStatus): void {
+  if (state === 'active') void flushOutbox();
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    AppState.addEventListener('change', handleAppStateChange);
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE);
+        const stored = raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+        entries = stored;
+        emit();
+      } catch (e) {
+        if (__DEV__) console.warn('Failed to load offline queue', e);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Route, article, SOS event, check-in or alert a mutation applies to, e.g. "route:abc" or "news:42"
+ */
+export function outboxTargetKey(mutation: OutboxMutation): string {
+  switch (mutation.type) {
+    case 'saveNews':
+      return `news:${mutation.newsId}`;
+    case 'reportSos':
+      return `sos:${mutation.report.id}`;
+    case 'reportCheckIn':
+      return `check-in:${mutation.report.id}`;
+    case 'dismissSafetyAlert':
+      return `alert:${mutation.alertId}`;
+    default:
+      return `route:${mutation.routeId}`;
+  }
+}
+
+/**
+ * Key of the on/off state a toggle mutation sets, or null for append-only mutations
+ */
+function toggleKey(mutation: OutboxMutation): string | null {
+  switch (mutation.type) {
+    case 'likeRoute':
+    case 'saveRoute':
+    case 'saveNews':
+      return `${mutation.type}:${outboxTargetKey(mutation)}`;
+    default:
+      return null;
+  }
+}
+
+function toggleValue(mutation: OutboxMutation): boolean | null {
+  switch (mutation.type) {
+    case 'likeRoute':
+      return mutation.isLiked;
+    case 'saveRoute':
+    case 'saveNews':
+      return mutation.isSaved;
+    default:
+      return null;
+  }
+}
+
+function describeMutation(mutation: OutboxMutation): string {
+  switch (mutation.type) {
+    case 'likeRoute':
+      return mutation.isLiked ? 'like' : 'unlike';
+    case 'saveRoute':
+    case 'saveNews':
+      return mutation.isSaved ? 'save' : 'unsave';
+    case 'completeRoute':
+      return 'completion';
+    case 'addRouteComment':
+      return 'comment';
+    case 'reportSos':
+      return 'emergency alert';
+    case 'reportCheckIn':
+      return 'check-in timer';
+    case 'dismissSafetyAlert':
+      return 'alert dismissal';
+  }
+}
+
+function execute(mutation: OutboxMutation, config: AxiosRequestConfig): Promise<unknown> {
+  switch (mutation.type) {
+    case 'likeRoute':
+      return likeRoute(mutation.routeId, mutation.isLiked, config);
+    case 'saveRoute':
+      return saveRoute(mutation.routeId, mutation.isSaved, config);
+    case 'completeRoute':
+      return completeRoute(mutation.routeId, mutation.completionData, config);
+    case 'addRouteComment':
+      return addRouteComment(mutation.routeId, mutation.text, config);
+    case 'saveNews':
+      return saveNews(mutation.newsId, mutation.isSaved, config);
+    case 'reportSos':
+      return reportSos(mutation.report, config);
+    case 'reportCheckIn':
+      return reportCheckIn(mutation.report, config);
+    case 'dismissSafetyAlert':
+      return dismissSafetyAlert(mutation.alertId, config);
+  }
+}
+
+function scheduleBackoff(): void {
+  if (backoffTimer) return;
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** backoffAttempt);
+  backoffAttempt += 1;
+  backoffTimer = setTimeout(() => {
+    backoffTimer = null;
+    void flushOutbox();
+  }, delay);
+}
+
+function clearBackoff(): void {
+  if (backoffTimer) clearTimeout(backoffTimer);
+  backoffTimer = null;
+  backoffAttempt = 0;
+}
+
+/**
+ * Add a mutation to the outbox and try to send it right away
+ *
+ * Collapses with a queued toggle on the same target: the opposite value
+ * removes both, the same value replaces the queued entry.
+ */
+export async function enqueueMutation(mutation: OutboxMutation): Promise<void> {
+  await ensureLoaded();
+
+  const key = toggleKey(mutation);
+  const existing = key
+    ? entries.find(entry => entry.id !== inFlightId && toggleKey(entry.mutation) === key)
+    : undefined;
+
+  let next = entries;
+  if (existing) {
+    next = entries.filter(entry => entry.id !== existing.id);
+  }
+
+  const cancelsOut =
+    existing?.status === 'pending' && toggleValue(existing.mutation) !== toggleValue(mutation);
+
+  if (!cancelsOut) {
+    const entry: OutboxEntry = {
+      id: createIdempotencyKey(),
+      mutation,
+      status: 'pending',
+      attempts: 0,
+      idempotencyKey: createIdempotencyKey(),
+      createdAt: Date.now(),
+    };
+    next = [...next, entry];
+  }
+
+  await update(next);
+  void flushOutbox();
+}
+
+/**
+ * Replay pending entries in order until the outbox is empty or a request
+ * fails transiently. Concurrent calls share the same flush.
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushPromise) return flushPromise;
+
+  flushPromise = (async () => {
+    await ensureLoaded();
+
+    for (;;) {
+      const entry = entries.find(item => item.status === 'pending');
+      if (!entry) {
+        clearBackoff();
+        return;
+      }
+
+      inFlightId = entry.id;
+      try {
+        await execute(entry.mutation, {
+          headers: { 'X-Show-Error': 'false' },
+          idempotencyKey: entry.idempotencyKey,
+          retry: false,
+        });
+        inFlightId = null;
+        backoffAttempt = 0;
+        await update(entries.filter(item => item.id !== entry.id));
+      } catch (error) {
+        inFlightId = null;
+        const { statusCode, message } = error as ApiErrorEnvelope;
+        const failure = { attempts: entry.attempts + 1, lastError: message };
+
+        if (statusCode === 401) {
+          await update(
+            entries.map(item => (item.id === entry.id ? { ...item, ...failure } : item))
+          );
+          return;
+        }
+
+        if (!statusCode || statusCode >= 500 || TRANSIENT_STATUSES.includes(statusCode)) {
+          await update(
+            entries.map(item => (item.id === entry.id ? { ...item, ...failure } : item))
+          );
+          scheduleBackoff();
+          return;
+        }
+
+        await update(
+          entries.map(item =>
+            item.id === entry.id ? { ...item, ...failure, status: 'failed' } : item
+          )
+        );
+        notify({
+          title: "Couldn't sync",
+          message: `Your ${describeMutation(entry.mutation)} was rejected: ${message}`,
+          severity: 'warning',
+          dedupeKey: `outbox:${entry.id}`,
+          action: { label: 'Retry', onPress: () => void retryFailedMutations(entry.id) },
+        });
+      }
+    }
+  })().finally(() => {
+    flushPromise = null;
+  });
+
+  return flushPromise;
+}
+
+/**
+ * Move failed entries back to pending and flush
+ *
+ * @param id - Entry to retry; all failed entries when omitted
+ */
+export async function retryFailedMutations(id?: string): Promise<void> {
+  await ensureLoaded();
+  await update(
+    entries.map(entry =>
+      entry.status === 'failed' && (id === undefined || entry.id === id)
+        ? { ...entry, status: 'pending' }
+        : entry
+    )
+  );
+  return flushOutbox();
+}
+
+/**
+ * Drop an entry without sending it (the caller should roll back its
+ * optimistic change)
+ */
+export async function discardMutation(id: string): Promise<void> {
+  await ensureLoaded();
+  if (id === inFlightId) return;
+  await update(entries.filter(entry => entry.id !== id));
+}
+
+/**
+ * Remove every queued entry, e.g. on sign out
+ */
+export async function clearOutbox(): Promise<void> {
+  await ensureLoaded();
+  clearBackoff();
+  await update([]);
+}
+
+/**
+ * Current outbox entries in replay order
+ */
+export function getOutboxEntries(): OutboxEntry[] {
+  return entries.slice();
+}
+
+/**
+ * Aggregate sync status of a target: failed wins over pending
+ *
+ * @param outbox - Entries to inspect (usually from useOfflineQueue)
+ * @param target - Key from outboxTargetKey(), e.g. "route:abc"
+ */
+export function getTargetSyncStatus(outbox: OutboxEntry[], target: string): OutboxSyncStatus {
+  const related = outbox.filter(entry => outboxTargetKey(entry.mutation) === target);
+  if (related.some(entry => entry.status === 'failed')) return 'failed';
+  return related.length > 0 ? 'pending' : 'synced';
+}
+
+/**
+ * Subscribe to outbox changes; loads persisted entries on first use
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  void ensureLoaded().then(() => flushOutbox());
+  return () => {
+    listeners.delete(listener);
+  };
+}
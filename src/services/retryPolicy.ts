@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Retry Policy
+ * @purpose Decide whether a failed request should be retried and how long to wait
+ *
+ * Used by the apiService response interceptor. Only idempotent requests are
+ * retried by default (GET, HEAD, OPTIONS, PUT, DELETE); POST and PATCH are
+ * retried only when they carry an Idempotency-Key header so the backend can
+ * deduplicate replays.
+ *
+ * Retried failures:
+ * - Network errors and timeouts (no response)
+ * - 502, 503, 504
+ * - 429, waiting for Retry-After when the server sends it
+ *
+ * Delays use exponential backoff with full jitter:
+ *   delay = random(0, min(maxDelayMs, baseDelayMs * 2^attempt))
+ */
+
+import type { AxiosError, AxiosRequestConfig } from 'axios';
+import { API_CONFIG } from '../utils/constants';
+
+/**
+ * Header that marks a POST/PATCH as safe to replay
+ */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Per-request retry configuration
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of retries after the first attempt
+   * @default API_CONFIG.RETRY_ATTEMPTS
+   */
+  attempts: number;
+
+  /**
+   * Backoff base delay in milliseconds
+   * @default 500
+   */
+  baseDelayMs: number;
+
+  /**
+   * Upper bound for a single backoff delay (also caps Retry-After)
+   * @default 10000
+   */
+  maxDelayMs: number;
+
+  /**
+   * HTTP status codes that trigger a retry
+   * @default [429, 502, 503, 504]
+   */
+  retryOnStatus: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: API_CONFIG.RETRY_ATTEMPTS,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryOnStatus: [429, 502, 503, 504],
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/**
+ * Resolve the effective policy for a request, or null if retries are disabled
+ */
+export function resolveRetryPolicy(config: AxiosRequestConfig): RetryPolicy | null {
+  if (config.retry === false) return null;
+
+  const method = (config.method ?? 'get').toLowerCase();
+  const hasIdempotencyKey = Boolean(
+    config.headers && (config.headers as Record<string, unknown>)[IDEMPOTENCY_HEADER]
+  );
+  if (!IDEMPOTENT_METHODS.includes(method) && !hasIdempotencyKey) return null;
+
+  return { ...DEFAULT_RETRY_POLICY, ...(config.retry ?? {}) };
+}
+
+/**
+ * Whether the error is worth retrying under the given policy
+ */
+export function isRetryableError(error: AxiosError, policy: RetryPolicy): boolean {
+  if (error.code === 'ERR_CANCELED') return false;
+  if (!error.response) return true; // network error or timeout
+  return policy.retryOnStatus.includes(error.response.status);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ *
+ * @returns Delay in milliseconds, or null if absent/invalid
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = new Date(String(value)).getTime();
+  return Number.isFinite(date) ? Math.max(0, date - now) : null;
+}
+
+/**
+ * Compute the wait before retry number `attempt` (0-based)
+ *
+ * @param attempt - Number of retries already made
+ * @param policy - Effective retry policy
+ * @param error - The failed request, used to honor Retry-After
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, error?: AxiosError): number {
+  const retryAfter = parseRetryAfter(error?.response?.headers?.['retry-after']);
+  if (retryAfter !== null) return Math.min(retryAfter, policy.maxDelayMs);
+
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Generate a key for opting a POST/PATCH into retries
+ *
+ * @example
+ * post('/routes', data, { idempotencyKey: createIdempotencyKey() });
+ */
+export function createIdempotencyKey(): string {
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${Date.now().toString(36)}-${random}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Route File Transfer
+ * @purpose Pick GPX/KML files from the device and share exported ones
+ *
+ * The device side of routeFiles.ts: the document picker for imports, and a
+ * file in the cache directory handed to the system share sheet for exports.
+ * Parsing and serialization stay in routeFiles.ts.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { ROUTE_FILE_MIME_TYPES, serializeRouteFile } from './routeFiles';
+import type { RouteFile, RouteFileFormat } from './routeFiles';
+
+// iOS identifies shared files by uniform type identifier rather than MIME type
+const ROUTE_FILE_UTIS: Record<RouteFileFormat, string> = {
+  gpx: 'com.topografix.gpx',
+  kml: 'com.google.earth.kml',
+};
+
+/**
+ * File chosen by the user
+ */
+export interface PickedRouteFile {
+  name: string;
+  contents: string;
+}
+
+/**
+ * Let the user choose a GPX or KML file
+ *
+ * Any file type is selectable because most platforms do not know the GPX
+ * MIME type; the contents are checked when the file is parsed.
+ *
+ * @returns The file, or null when the picker was cancelled
+ */
+export async function pickRouteFile(): Promise<PickedRouteFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: '*/*',
+    copyToCacheDirectory: true,
+  });
+  const asset = result.canceled ? undefined : result.assets[0];
+  if (!asset) return null;
+
+  // Web pickers hand back a browser File instead of a readable URI
+  const contents = asset.file ? await asset.file.text() : await new File(asset.uri).text();
+  return { name: asset.name, contents };
+}
+
+const toFileName = (name: string, format: RouteFileFormat): string => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'route'}.${format}`;
+};
+
+/**
+ * Export a route file through the system share sheet
+ *
+ * @throws Error when sharing files is not supported on this platform
+ */
+export async function shareRouteFile(file: RouteFile, format: RouteFileFormat): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device.');
+  }
+
+  const exported = new File(Paths.cache, toFileName(file.name, format));
+  if (exported.exists) exported.delete();
+  exported.create();
+  exported.write(serializeRouteFile(file, format));
+
+  await Sharing.shareAsync(exported.uri, {
+    mimeType: ROUTE_FILE_MIME_TYPES[format],
+    UTI: ROUTE_FILE_UTIS[format],
+    dialogTitle: `Export ${format.toUpperCase()}`,
+  });
+}
@@ -0,0 +1,457 @@
+/**
+ * @fileoverview Route Files
+ * @purpose Convert between GPX/KML documents and routes
+ *
+ * Everything here is pure TypeScript (no React Native or Expo imports) so
+ * it runs in unit tests against fixture files. Picking and sharing files on
+ * the device lives in routeFileTransfer.ts.
+ *
+ * Both formats are read into a RouteFile: a track, named waypoints and the
+ * document name/description.
+ * - GPX: track points (<trkpt>) from every track and segment in order,
+ *   falling back to route points (<rtept>); waypoints from <wpt>, falling
+ *   back to named route points
+ * - KML: every <LineString> and <gx:Track> in document order; waypoints from
+ *   Placemarks with a <Point>
+ *
+ * routeDraftFromFile turns a RouteFile into the body for
+ * routesService.createRoute, and routeFileFromRoute goes the other way for
+ * export. Tracks with timestamps (a completed walk) keep them in both formats.
+ */
+
+import { climbTotals } from '../utils/elevation';
+import { encodePolyline, pathLength, simplifyPath, toGeoJSONLineString } from '../utils/geo';
+import type { ElevatedLatLng, LatLng } from '../utils/geo';
+import {
+  childElement,
+  childElements,
+  descendants,
+  escapeXml,
+  parseXml,
+  textContent,
+  XmlParseError,
+} from '../utils/xml';
+import type { XmlElement } from '../utils/xml';
+import type { Route, RouteWaypoint } from '../types/route';
+import { getRoutePath } from './routeModel';
+
+export type RouteFileFormat = 'gpx' | 'kml';
+
+export const ROUTE_FILE_MIME_TYPES: Record<RouteFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+/**
+ * Track point with optional elevation and time
+ */
+export interface RouteFilePoint extends ElevatedLatLng {
+  time?: number; // ms since epoch
+}
+
+/**
+ * Named point of interest
+ */
+export interface RouteFileWaypoint extends LatLng {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Format-independent contents of a GPX or KML document
+ */
+export interface RouteFile {
+  name: string;
+  description: string;
+  track: RouteFilePoint[];
+  waypoints: RouteFileWaypoint[];
+}
+
+/**
+ * Raised when a file cannot be read as a route
+ */
+export class RouteFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RouteFileError';
+  }
+}
+
+// Tolerance for the stored polyline; well below GPS accuracy
+const POLYLINE_TOLERANCE_METERS = 1;
+
+const readNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const readTime = (value: string): number | undefined => {
+  const parsed = value ? Date.parse(value) : NaN;
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const isValidPosition = (lat: number | undefined, lng: number | undefined) =>
+  lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const withOptional = (
+  point: LatLng,
+  elevation: number | undefined,
+  time: number | undefined
+): RouteFilePoint => ({
+  ...point,
+  ...(elevation !== undefined && { elevation }),
+  ...(time !== undefined && { time }),
+});
+
+const parseDocument = (contents: string, format: RouteFileFormat): XmlElement => {
+  let root: XmlElement;
+  try {
+    root = parseXml(contents);
+  } catch (error) {
+    if (error instanceof XmlParseError) {
+      throw new RouteFileError(`This is not a valid ${format.toUpperCase()} file.`);
+    }
+    throw error;
+  }
+  if (root.name !== format) {
+    throw new RouteFileError(`This is not a valid ${format.toUpperCase()} file.`);
+  }
+  return root;
+};
+
+/**
+ * Guess the format from the file name, then from the root element
+ *
+ * @returns The format, or null when it is neither GPX nor KML
+ */
+export function detectRouteFileFormat(contents: string, fileName?: string): RouteFileFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml') return extension;
+  const rootName = /<(?:[\w-]+:)?(gpx|kml)[\s>]/i.exec(contents)?.[1]?.toLowerCase();
+  return rootName === 'gpx' || rootName === 'kml' ? rootName : null;
+}
+
+const readGpxPoint = (element: XmlElement): RouteFilePoint | null => {
+  const lat = readNumber(element.attributes.lat);
+  const lng = readNumber(element.attributes.lon);
+  if (!isValidPosition(lat, lng)) return null;
+  return withOptional(
+    { lat: lat ?? 0, lng: lng ?? 0 },
+    readNumber(textContent(childElement(element, 'ele'))),
+    readTime(textContent(childElement(element, 'time')))
+  );
+};
+
+const readGpxWaypoint = (element: XmlElement, index: number): RouteFileWaypoint | null => {
+  const point = readGpxPoint(element);
+  if (!point) return null;
+  const description = textContent(childElement(element, 'desc'));
+  return {
+    lat: point.lat,
+    lng: point.lng,
+    name: textContent(childElement(element, 'name')) || `Waypoint ${index + 1}`,
+    ...(description && { description }),
+  };
+};
+
+/**
+ * Read a GPX 1.0/1.1 document
+ *
+ * @throws RouteFileError when the document is not GPX
+ */
+export function parseGpx(contents: string): RouteFile {
+  const root = parseDocument(contents, 'gpx');
+  const metadata = childElement(root, 'metadata');
+  const tracks = childElements(root, 'trk');
+  const routes = childElements(root, 'rte');
+
+  const trackPoints = tracks
+    .flatMap(track => descendants(track, 'trkpt'))
+    .map(readGpxPoint)
+    .filter((point): point is RouteFilePoint => point !== null);
+  const routePoints = routes.flatMap(route => childElements(route, 'rtept'));
+  const track =
+    trackPoints.length > 0
+      ? trackPoints
+      : routePoints.map(readGpxPoint).filter((point): point is RouteFilePoint => point !== null);
+
+  let waypoints = childElements(root, 'wpt').map(readGpxWaypoint);
+  if (waypoints.length === 0 && trackPoints.length > 0) {
+    waypoints = routePoints
+      .filter(point => textContent(childElement(point, 'name')))
+      .map(readGpxWaypoint);
+  }
+
+  const first = tracks[0] ?? routes[0];
+  return {
+    name:
+      textContent(childElement(metadata ?? root, 'name')) ||
+      (first ? textContent(childElement(first, 'name')) : ''),
+    description:
+      textContent(childElement(metadata ?? root, 'desc')) ||
+      (first ? textContent(childElement(first, 'desc')) : ''),
+    track,
+    waypoints: waypoints.filter((point): point is RouteFileWaypoint => point !== null),
+  };
+}
+
+// KML tuples are "lng,lat[,alt]"; gx:coord uses spaces instead of commas
+const readKmlTuple = (tuple: string): RouteFilePoint | null => {
+  const [lng, lat, altitude] = tuple.split(/[\s,]+/).map(readNumber);
+  if (!isValidPosition(lat, lng)) return null;
+  return withOptional({ lat: lat ?? 0, lng: lng ?? 0 }, altitude, undefined);
+};
+
+const readKmlCoordinates = (element: XmlElement | undefined): RouteFilePoint[] =>
+  textContent(element)
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(readKmlTuple)
+    .filter((point): point is RouteFilePoint => point !== null);
+
+const readKmlTrack = (element: XmlElement): RouteFilePoint[] => {
+  const times = childElements(element, 'when').map(when => readTime(textContent(when)));
+  return childElements(element, 'coord').flatMap((coord, index) => {
+    const point = readKmlTuple(textContent(coord));
+    return point ? [withOptional(point, point.elevation, times[index])] : [];
+  });
+};
+
+/**
+ * Read a KML 2.2 document (including gx:Track from Google Earth)
+ *
+ * @throws RouteFileError when the document is not KML
+ */
+export function parseKml(contents: string): RouteFile {
+  const root = parseDocument(contents, 'kml');
+  const container = childElement(root, 'Document') ?? childElement(root, 'Folder') ?? root;
+
+  const track: RouteFilePoint[] = [];
+  const collectLines = (element: XmlElement) => {
+    childElements(element).forEach(child => {
+      if (child.name === 'LineString')
+        track.push(...readKmlCoordinates(childElement(child, 'coordinates')));
+      else if (child.name === 'Track') track.push(...readKmlTrack(child));
+      else collectLines(child);
+    });
+  };
+  collectLines(root);
+
+  const waypoints = descendants(root, 'Placemark').flatMap(placemark => {
+    const point = descendants(placemark, 'Point')[0];
+    const position = point && readKmlCoordinates(childElement(point, 'coordinates'))[0];
+    if (!position) return [];
+    const description = textContent(childElement(placemark, 'description'));
+    return [
+      {
+        lat: position.lat,
+        lng: position.lng,
+        name: textContent(childElement(placemark, 'name')) || 'Waypoint',
+        ...(description && { description }),
+      },
+    ];
+  });
+
+  const line = descendants(root, 'Placemark').find(
+    placemark =>
+      descendants(placemark, 'LineString').length + descendants(placemark, 'Track').length > 0
+  );
+  return {
+    name:
+      textContent(childElement(container, 'name')) ||
+      (line ? textContent(childElement(line, 'name')) : ''),
+    description:
+      textContent(childElement(container, 'description')) ||
+      (line ? textContent(childElement(line, 'description')) : ''),
+    track,
+    waypoints,
+  };
+}
+
+/**
+ * Read a GPX or KML document
+ *
+ * @param contents - File contents
+ * @param format - Format, when known; otherwise detected from the contents
+ * @throws RouteFileError for unknown formats and malformed files
+ */
+export function parseRouteFile(contents: string, format?: RouteFileFormat): RouteFile {
+  const resolved = format ?? detectRouteFileFormat(contents);
+  if (resolved === 'gpx') return parseGpx(contents);
+  if (resolved === 'kml') return parseKml(contents);
+  throw new RouteFileError('Only GPX and KML files can be imported.');
+}
+
+/**
+ * Body for routesService.createRoute from an imported file
+ *
+ * Distance, elevation gain, start/end points, waypoints and the geometry
+ * (polyline and GeoJSON, with elevation) come from the file; duration only
+ * when the track is timed, otherwise the backend estimates it.
+ *
+ * @param file - Parsed file
+ * @param overrides - Fields the user filled in (title, city, category, ...)
+ * @throws RouteFileError when the file has no usable path
+ */
+export function routeDraftFromFile(
+  file: RouteFile,
+  overrides: Partial<Route> = {}
+): Partial<Route> {
+  // A file with only waypoints still describes a route through them
+  const track: RouteFilePoint[] = file.track.length >= 2 ? file.track : file.waypoints;
+  const first = track[0];
+  const last = track[track.length - 1];
+  if (!first || !last || track.length < 2) {
+    throw new RouteFileError('The file does not contain a track or route.');
+  }
+
+  const simplified = simplifyPath(track, POLYLINE_TOLERANCE_METERS);
+  const times = track.flatMap(point => (point.time === undefined ? [] : [point.time]));
+  const elapsed = (times[times.length - 1] ?? 0) - (times[0] ?? 0);
+  const waypoints: RouteWaypoint[] = file.waypoints.map(
+    ({ lat, lng, name, description }, index) => ({
+      id: `wpt-${index + 1}`,
+      name,
+      lat,
+      lng,
+      ...(description && { description }),
+    })
+  );
+
+  return {
+    title: file.name || 'Imported route',
+    description: file.description,
+    distanceMeters: Math.round(pathLength(track)),
+    ...(elapsed > 0 && { durationMinutes: Math.round(elapsed / 60000) }),
+    elevationGain: Math.round(
+      climbTotals(track.flatMap(({ elevation }) => (elevation === undefined ? [] : [elevation])))
+        .ascent
+    ),
+    tags: ['imported'],
+    geojson: { ...toGeoJSONLineString(simplified) },
+    polyline: encodePolyline(simplified),
+    startPoint: { lat: first.lat, lng: first.lng, address: '' },
+    endPoint: { lat: last.lat, lng: last.lng, address: '' },
+    waypoints,
+    isPublic: false,
+    ...overrides,
+  };
+}
+
+/**
+ * RouteFile for exporting a route
+ *
+ * @param route - Route to export
+ * @param track - Recorded track of a completed walk; defaults to the route path
+ */
+export function routeFileFromRoute(route: Route, track?: RouteFilePoint[]): RouteFile {
+  return {
+    name: route.title,
+    description: route.description,
+    track: track ?? getRoutePath(route),
+    waypoints: route.waypoints.map(({ lat, lng, name, description }) => ({
+      lat,
+      lng,
+      name,
+      ...(description && { description }),
+    })),
+  };
+}
+
+const formatCoordinate = (value: number) => String(Number(value.toFixed(7)));
+const formatTime = (time: number) => new Date(time).toISOString();
+
+const gpxPoint = (tag: string, point: RouteFilePoint, extra = ''): string => {
+  const elevation = point.elevation !== undefined ? `<ele>${point.elevation}</ele>` : '';
+  const time = point.time !== undefined ? `<time>${formatTime(point.time)}</time>` : '';
+  const position = `lat="${formatCoordinate(point.lat)}" lon="${formatCoordinate(point.lng)}"`;
+  return `<${tag} ${position}>${elevation}${time}${extra}</${tag}>`;
+};
+
+/**
+ * Write a RouteFile as GPX 1.1
+ */
+export function serializeGpx(file: RouteFile): string {
+  const name = escapeXml(file.name);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="WayTrove" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    ...(file.description ? [`    <desc>${escapeXml(file.description)}</desc>`] : []),
+    '  </metadata>',
+    ...file.waypoints.map(waypoint => {
+      const description = waypoint.description
+        ? `<desc>${escapeXml(waypoint.description)}</desc>`
+        : '';
+      return `  ${gpxPoint('wpt', waypoint, `<name>${escapeXml(waypoint.name)}</name>${description}`)}`;
+    }),
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <trkseg>',
+    ...file.track.map(point => `      ${gpxPoint('trkpt', point)}`),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+const kmlTuple = (point: RouteFilePoint, separator: string) =>
+  [point.lng, point.lat, ...(point.elevation !== undefined ? [point.elevation] : [])]
+    .map(formatCoordinate)
+    .join(separator);
+
+/**
+ * Write a RouteFile as KML 2.2
+ *
+ * Timed tracks are written as a gx:Track so the times survive the round trip.
+ */
+export function serializeKml(file: RouteFile): string {
+  const isTimed = file.track.length > 0 && file.track.every(point => point.time !== undefined);
+  const geometry = isTimed
+    ? [
+        '      <gx:Track>',
+        ...file.track.map(point => `        <when>${formatTime(point.time ?? 0)}</when>`),
+        ...file.track.map(point => `        <gx:coord>${kmlTuple(point, ' ')}</gx:coord>`),
+        '      </gx:Track>',
+      ]
+    : [
+        '      <LineString>',
+        '        <tessellate>1</tessellate>',
+        `        <coordinates>${file.track.map(point => kmlTuple(point, ',')).join(' ')}</coordinates>`,
+        '      </LineString>',
+      ];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(file.name)}</name>`,
+    ...(file.description ? [`    <description>${escapeXml(file.description)}</description>`] : []),
+    '    <Placemark>',
+    `      <name>${escapeXml(file.name)}</name>`,
+    ...geometry,
+    '    </Placemark>',
+    ...file.waypoints.flatMap(waypoint => [
+      '    <Placemark>',
+      `      <name>${escapeXml(waypoint.name)}</name>`,
+      ...(waypoint.description
+        ? [`      <description>${escapeXml(waypoint.description)}</description>`]
+        : []),
+      `      <Point><coordinates>${kmlTuple(waypoint, ',')}</coordinates></Point>`,
+      '    </Placemark>',
+    ]),
+    '  </Document>',
+    '</kml>',
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Write a RouteFile in the given format
+ */
+export function serializeRouteFile(file: RouteFile, format: RouteFileFormat): string {
+  return format === 'gpx' ? serializeGpx(file) : serializeKml(file);
+}
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Route Model
+ * @purpose Runtime validation for the canonical Route and adapters from legacy route shapes
+ *
+ * routesService decodes every route payload with routeSchema before it
+ * reaches the cache or a screen, and the mock API validates
+ * assets/mocks/routes.json on load, so the backend, the mocks and the
+ * components cannot drift apart silently.
+ *
+ * Legacy shapes still in the tree:
+ * - LegacyTravelRoute (types/route.ts) - original scaffold type
+ * - FeaturedRoute, ExploreItem (data/mockData.ts) - static screen mocks
+ *
+ * Legacy mocks carry no coordinates; their start/end points are placed at
+ * 0,0 with the display location as the address, and they should not be fed
+ * to map or navigation code.
+ */
+
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  nullable,
+  plainObject,
+  string,
+  parseWithSchema,
+} from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import type {
+  Route,
+  RouteDifficulty,
+  RoutePoint,
+  RouteWaypoint,
+  LegacyTravelRoute,
+} from '../types/route';
+import type { FeaturedRoute, ExploreItem } from '../data/mockData';
+import { decodePolyline, pathFromGeoJSON } from '../utils/geo';
+import type { ElevatedLatLng } from '../utils/geo';
+
+export const ROUTE_DIFFICULTIES = ['Easy', 'Moderate', 'Hard'] as const;
+
+const latitude = number({ min: -90, max: 90 });
+const longitude = number({ min: -180, max: 180 });
+
+export const routePointSchema: Schema<RoutePoint> = object<RoutePoint>({
+  lat: latitude,
+  lng: longitude,
+  address: string(),
+});
+
+export const routeWaypointSchema: Schema<RouteWaypoint> = object<RouteWaypoint>({
+  id: string({ nonEmpty: true }),
+  name: string(),
+  lat: latitude,
+  lng: longitude,
+  description: optional(string()),
+  icon: optional(string()),
+});
+
+export const routeSchema: Schema<Route> = object<Route>({
+  id: string({ nonEmpty: true }),
+  title: string({ nonEmpty: true }),
+  description: string(),
+  city: string(),
+  category: string(),
+  imageUrl: string(),
+  distanceMeters: number({ min: 0 }),
+  durationMinutes: number({ min: 0 }),
+  elevationGain: number({ min: 0 }),
+  difficulty: oneOf(ROUTE_DIFFICULTIES),
+  safetyScore: number({ min: 0, max: 100 }),
+  tags: array(string()),
+  geojson: optional(nullable(plainObject())),
+  polyline: optional(string()),
+  startPoint: routePointSchema,
+  endPoint: routePointSchema,
+  waypoints: array(routeWaypointSchema),
+  likes: number({ min: 0, integer: true }),
+  completions: number({ min: 0, integer: true }),
+  reviews: number({ min: 0, integer: true }),
+  averageRating: number({ min: 0, max: 5 }),
+  createdBy: string(),
+  createdAt: string(),
+  updatedAt: string(),
+  isPublic: boolean(),
+  isFeatured: boolean(),
+});
+
+/**
+ * Validate a single route payload
+ *
+ * @throws SchemaValidationError listing every invalid field
+ */
+export function parseRoute(input: unknown): Route {
+  return parseWithSchema(routeSchema, input, 'Route');
+}
+
+/**
+ * Validate an array of route payloads
+ *
+ * @throws SchemaValidationError with paths such as "[3].startPoint.lat"
+ */
+export function parseRoutes(input: unknown): Route[] {
+  return parseWithSchema(array(routeSchema), input, 'Route list');
+}
+
+/**
+ * Path of a route for maps, navigation and the elevation profile
+ *
+ * Prefers the GeoJSON line, the only geometry that carries per-point
+ * elevation, then the encoded polyline, and falls back to the start point,
+ * waypoints and end point in order.
+ */
+export function getRoutePath(route: Route): ElevatedLatLng[] {
+  const geojsonPath = route.geojson ? pathFromGeoJSON(route.geojson) : null;
+  if (geojsonPath && geojsonPath.length >= 2) return geojsonPath;
+
+  if (route.polyline) {
+    try {
+      const path = decodePolyline(route.polyline);
+      if (path.length >= 2) return path;
+    } catch (error) {
+      if (__DEV__) console.warn(`Route ${route.id} has an invalid polyline:`, error);
+    }
+  }
+
+  return [route.startPoint, ...route.waypoints, route.endPoint].map(({ lat, lng }) => ({
+    lat,
+    lng,
+  }));
+}
+
+/**
+ * Map lowercase legacy difficulty labels onto the canonical three levels
+ */
+export function toRouteDifficulty(value: string): RouteDifficulty {
+  switch (value.toLowerCase()) {
+    case 'easy':
+      return 'Easy';
+    case 'moderate':
+      return 'Moderate';
+    default:
+      return 'Hard'; // challenging, extreme, hard
+  }
+}
+
+// Legacy safety.level is a risk level: low risk means a high safety score
+const SAFETY_SCORE_BY_RISK: Record<LegacyTravelRoute['safety']['level'], number> = {
+  low: 90,
+  medium: 70,
+  high: 40,
+};
+
+const placeholderPoint = (address: string): RoutePoint => ({ lat: 0, lng: 0, address });
+
+/**
+ * Convert the original scaffold route type
+ */
+export function fromLegacyTravelRoute(legacy: LegacyTravelRoute): Route {
+  const { coordinates, name, region, country } = legacy.location;
+  const point: RoutePoint = {
+    lat: coordinates.latitude,
+    lng: coordinates.longitude,
+    address: [name, region, country].filter(Boolean).join(', '),
+  };
+  const hours =
+    legacy.duration.unit === 'days' ? legacy.duration.estimated * 24 : legacy.duration.estimated;
+
+  return {
+    id: legacy.id,
+    title: legacy.title,
+    description: legacy.description,
+    city: name,
+    category: legacy.activities[0] ?? 'Urban',
+    imageUrl: legacy.images[0] ?? '',
+    distanceMeters: Math.round((legacy.distance ?? 0) * 1000),
+    durationMinutes: Math.round(hours * 60),
+    elevationGain: 0,
+    difficulty: toRouteDifficulty(legacy.difficulty),
+    safetyScore: SAFETY_SCORE_BY_RISK[legacy.safety.level],
+    tags: legacy.tags,
+    startPoint: point,
+    endPoint: point,
+    waypoints: [],
+    likes: 0,
+    completions: 0,
+    reviews: legacy.rating.count,
+    averageRating: legacy.rating.average,
+    createdBy: legacy.creator.id,
+    createdAt: legacy.createdAt,
+    updatedAt: legacy.updatedAt,
+    isPublic: true,
+    isFeatured: false,
+  };
+}
+
+/**
+ * Convert a HomeScreen featured-route mock
+ */
+export function fromFeaturedRoute(item: FeaturedRoute): Route {
+  const now = new Date().toISOString();
+  return {
+    id: item.id,
+    title: item.title,
+    description: '',
+    city: item.location,
+    category: item.tags[0] ?? 'Urban',
+    imageUrl: item.thumbnailUrl,
+    distanceMeters: item.distanceMeters,
+    durationMinutes: item.estimatedMinutes,
+    elevationGain: 0,
+    difficulty: toRouteDifficulty(item.difficulty),
+    safetyScore: 0,
+    tags: item.tags,
+    startPoint: placeholderPoint(item.location),
+    endPoint: placeholderPoint(item.location),
+    waypoints: [],
+    likes: item.savedCount,
+    completions: 0,
+    reviews: 0,
+    averageRating: item.rating,
+    createdBy: '',
+    createdAt: now,
+    updatedAt: now,
+    isPublic: true,
+    isFeatured: true,
+  };
+}
+
+/**
+ * Convert an ExploreScreen mock item
+ *
+ * @returns Route, or null for items of type "place"
+ */
+export function fromExploreItem(item: ExploreItem): Route | null {
+  if (item.type !== 'route') return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: item.id,
+    title: item.title,
+    description: item.description,
+    city: item.location,
+    category: item.tags[0] ?? 'Urban',
+    imageUrl: item.thumbnailUrl,
+    distanceMeters: item.distanceMeters,
+    durationMinutes: item.estimatedMinutes ?? 0,
+    elevationGain: 0,
+    difficulty: 'Easy',
+    safetyScore: item.safetyScore,
+    tags: item.tags,
+    startPoint: placeholderPoint(item.location),
+    endPoint: placeholderPoint(item.location),
+    waypoints: [],
+    likes: 0,
+    completions: 0,
+    reviews: 0,
+    averageRating: item.rating,
+    createdBy: '',
+    createdAt: now,
+    updatedAt: now,
+    isPublic: true,
+    isFeatured: false,
+  };
+}
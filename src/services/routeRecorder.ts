@@ -0,0 +1,362 @@
+/**
+ * @fileoverview Route Recorder
+ * @purpose Capture a walk from location fixes and turn it into a new route
+ *
+ * A RouteRecording is a plain, serializable value; the functions below
+ * return updated copies so it can live in React state and be written to
+ * AsyncStorage as-is. useRouteRecording wires it to a LocationProvider.
+ *
+ * - Every resume starts a new segment, so distance walked while paused is
+ *   not counted and the route does not jump between the two positions
+ * - Fixes less accurate than MAX_FIX_ACCURACY_METERS, and fixes closer than
+ *   MIN_STEP_METERS to the last recorded point, are dropped
+ * - Duration is the time spent recording, excluding pauses. A recording
+ *   restored after the app was killed counts the time it was closed, since
+ *   the walk usually went on
+ * - The recording in progress is persisted under STORAGE_KEYS.ROUTE_RECORDING,
+ *   tagged with ROUTE_RECORDING_VERSION; stored recordings with another
+ *   version are discarded
+ *
+ * @example
+ * ```ts
+ * let recording = createRecording(Date.now());
+ * recording = addFix(recording, fix);
+ * const route = await createRoute(recordingDraft(recording, details, Date.now()));
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../utils/constants';
+import { haversineDistance, pathLength } from '../utils/geo';
+import { climbTotals } from '../utils/elevation';
+import {
+  array,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseWithSchema,
+  string,
+} from '../utils/schema';
+import { routeDraftFromFile } from './routeFiles';
+import type { RouteFilePoint } from './routeFiles';
+import type { LocationFix } from './locationProvider';
+import type { Route } from '../types/route';
+
+export const ROUTE_RECORDING_VERSION = 1;
+
+// Worse fixes are mostly indoor or urban-canyon noise
+const MAX_FIX_ACCURACY_METERS = 50;
+// Standing still should not add a zig-zag of GPS jitter to the route
+const MIN_STEP_METERS = 3;
+
+export type RecordingStatus = 'recording' | 'paused';
+
+/**
+ * Named point dropped by the user while recording
+ */
+export interface RecordedWaypoint {
+  id: string;
+  name: string;
+  note?: string;
+  lat: number;
+  lng: number;
+  elevation?: number; // meters
+  time: number; // ms since epoch
+}
+
+export interface RouteRecording {
+  version: number;
+  startedAt: number; // ms since epoch
+  status: RecordingStatus;
+  segments: RouteFilePoint[][]; // one per recording stretch, in order
+  waypoints: RecordedWaypoint[];
+  activeMs: number; // recorded time before the current stretch
+  resumedAt: number | null; // start of the current stretch; null while paused
+}
+
+/**
+ * Totals shown while recording and submitted with the route
+ */
+export interface RecordingStats {
+  distanceMeters: number;
+  durationMs: number;
+  elevationGain: number; // meters
+  pointCount: number;
+}
+
+/**
+ * Details the user fills in when saving the recording
+ */
+export interface RecordingDetails {
+  title: string;
+  description?: string;
+  category: string;
+  isPublic: boolean;
+  city?: string;
+}
+
+/**
+ * Raised when a recording cannot be extended or saved
+ */
+export class RouteRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RouteRecordingError';
+  }
+}
+
+/**
+ * Start a new recording
+ *
+ * @param now - Start time, ms since epoch
+ */
+export function createRecording(now: number): RouteRecording {
+  return {
+    version: ROUTE_RECORDING_VERSION,
+    startedAt: now,
+    status: 'recording',
+    segments: [[]],
+    waypoints: [],
+    activeMs: 0,
+    resumedAt: now,
+  };
+}
+
+const recordedPoints = (recording: RouteRecording): RouteFilePoint[] => recording.segments.flat();
+
+/**
+ * Last recorded point, or null before the first accepted fix
+ */
+export function lastRecordedPoint(recording: RouteRecording): RouteFilePoint | null {
+  const points = recordedPoints(recording);
+  return points[points.length - 1] ?? null;
+}
+
+/**
+ * Whether a fix is accurate enough to record or to place a waypoint at
+ */
+export function isUsableFix(fix: LocationFix): boolean {
+  return (fix.accuracy ?? 0) <= MAX_FIX_ACCURACY_METERS;
+}
+
+/**
+ * Append a fix to the current segment
+ *
+ * @returns The updated recording, or the same one when the fix is dropped
+ */
+export function addFix(recording: RouteRecording, fix: LocationFix): RouteRecording {
+  if (recording.status !== 'recording' || !isUsableFix(fix)) return recording;
+
+  const segments = recording.segments.length > 0 ? recording.segments : [[]];
+  const current = segments[segments.length - 1] ?? [];
+  const previous = current[current.length - 1];
+  if (previous && haversineDistance(previous, fix) < MIN_STEP_METERS) return recording;
+
+  const point: RouteFilePoint = {
+    lat: fix.lat,
+    lng: fix.lng,
+    time: fix.timestamp,
+    ...(typeof fix.altitude === 'number' && { elevation: fix.altitude }),
+  };
+  return { ...recording, segments: [...segments.slice(0, -1), [...current, point]] };
+}
+
+/**
+ * Stop counting time and distance until resumed
+ */
+export function pauseRecording(recording: RouteRecording, now: number): RouteRecording {
+  if (recording.status === 'paused') return recording;
+  return {
+    ...recording,
+    status: 'paused',
+    activeMs: recording.activeMs + Math.max(0, now - (recording.resumedAt ?? now)),
+    resumedAt: null,
+  };
+}
+
+/**
+ * Continue recording in a new segment
+ */
+export function resumeRecording(recording: RouteRecording, now: number): RouteRecording {
+  if (recording.status === 'recording') return recording;
+  const last = recording.segments[recording.segments.length - 1];
+  return {
+    ...recording,
+    status: 'recording',
+    // Reuse an empty segment instead of stacking them on repeated pauses
+    segments: last && last.length === 0 ? recording.segments : [...recording.segments, []],
+    resumedAt: now,
+  };
+}
+
+/**
+ * Drop a named waypoint at a position
+ *
+ * @param position - Usually the latest fix; falls back to the last recorded point
+ * @throws RouteRecordingError when there is no position yet
+ */
+export function addRecordedWaypoint(
+  recording: RouteRecording,
+  waypoint: { name: string; note?: string },
+  position: LocationFix | null,
+  now: number
+): RouteRecording {
+  const last = lastRecordedPoint(recording);
+  const at =
+    position && isUsableFix(position)
+      ? {
+          lat: position.lat,
+          lng: position.lng,
+          elevation: typeof position.altitude === 'number' ? position.altitude : undefined,
+        }
+      : last;
+  if (!at) throw new RouteRecordingError('Waiting for your location. Try again in a moment.');
+
+  const name = waypoint.name.trim() || `Waypoint ${recording.waypoints.length + 1}`;
+  const note = waypoint.note?.trim();
+  const recorded: RecordedWaypoint = {
+    id: `wpt-${recording.waypoints.length + 1}`,
+    name,
+    lat: at.lat,
+    lng: at.lng,
+    time: now,
+    ...(note && { note }),
+    ...(at.elevation !== undefined && { elevation: at.elevation }),
+  };
+  return { ...recording, waypoints: [...recording.waypoints, recorded] };
+}
+
+/**
+ * Distance, active duration and climb of a recording
+ *
+ * @param now - Current time, for the duration of a running stretch
+ */
+export function recordingStats(recording: RouteRecording, now: number): RecordingStats {
+  const points = recordedPoints(recording);
+  const running = recording.resumedAt === null ? 0 : Math.max(0, now - recording.resumedAt);
+  return {
+    distanceMeters: recording.segments.reduce((total, segment) => total + pathLength(segment), 0),
+    durationMs: recording.activeMs + running,
+    elevationGain: climbTotals(
+      points.flatMap(({ elevation }) => (elevation === undefined ? [] : [elevation]))
+    ).ascent,
+    pointCount: points.length,
+  };
+}
+
+/**
+ * Route payload for POST /routes from a finished recording
+ *
+ * Geometry, start/end points and waypoints are built the same way as for an
+ * imported GPX track (routeDraftFromFile); distance and duration come from
+ * recordingStats so gaps between segments are not counted.
+ *
+ * @throws RouteRecordingError when fewer than two points were recorded
+ */
+export function recordingDraft(
+  recording: RouteRecording,
+  details: RecordingDetails,
+  now: number
+): Partial<Route> {
+  const track = recordedPoints(recording);
+  if (track.length < 2) {
+    throw new RouteRecordingError('Walk a little further before saving; no path was recorded yet.');
+  }
+
+  const stats = recordingStats(recording, now);
+  const description = details.description?.trim() ?? '';
+  return routeDraftFromFile(
+    {
+      name: details.title,
+      description,
+      track,
+      waypoints: recording.waypoints.map(({ lat, lng, name, note }) => ({
+        lat,
+        lng,
+        name,
+        ...(note && { description: note }),
+      })),
+    },
+    {
+      title: details.title.trim() || 'Recorded walk',
+      description,
+      category: details.category,
+      isPublic: details.isPublic,
+      distanceMeters: Math.round(stats.distanceMeters),
+      durationMinutes: Math.max(1, Math.round(stats.durationMs / 60000)),
+      elevationGain: Math.round(stats.elevationGain),
+      tags: ['recorded'],
+      ...(details.city && { city: details.city }),
+    }
+  );
+}
+
+const pointSchema = object<RouteFilePoint>({
+  lat: number({ min: -90, max: 90 }),
+  lng: number({ min: -180, max: 180 }),
+  elevation: optional(number()),
+  time: optional(number()),
+});
+
+const recordingSchema = object<RouteRecording>({
+  version: number({ integer: true }),
+  startedAt: number(),
+  status: oneOf(['recording', 'paused']),
+  segments: array(array(pointSchema)),
+  waypoints: array(
+    object<RecordedWaypoint>({
+      id: string({ nonEmpty: true }),
+      name: string(),
+      note: optional(string()),
+      lat: number({ min: -90, max: 90 }),
+      lng: number({ min: -180, max: 180 }),
+      elevation: optional(number()),
+      time: number(),
+    })
+  ),
+  activeMs: number({ min: 0 }),
+  resumedAt: nullable(number()),
+});
+
+/**
+ * Persist the recording in progress
+ */
+export async function saveRecording(recording: RouteRecording): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.ROUTE_RECORDING, JSON.stringify(recording));
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to save route recording:', error);
+  }
+}
+
+/**
+ * Load the recording left in progress by a previous run
+ *
+ * @returns The recording, or null when there is none or it cannot be read
+ */
+export async function loadRecording(): Promise<RouteRecording | null> {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEYS.ROUTE_RECORDING);
+    if (!json) return null;
+
+    const recording = parseWithSchema(recordingSchema, JSON.parse(json), 'route recording');
+    if (recording.version !== ROUTE_RECORDING_VERSION) {
+      await clearRecording();
+      return null;
+    }
+    return recording;
+  } catch (error) {
+    if (__DEV__) console.warn('Discarding stored route recording:', error);
+    await clearRecording();
+    return null;
+  }
+}
+
+/**
+ * Forget the stored recording (after saving or discarding it, or on sign-out)
+ */
+export async function clearRecording(): Promise<void> {
+  await AsyncStorage.removeItem(STORAGE_KEYS.ROUTE_RECORDING).catch(() => undefined);
+}
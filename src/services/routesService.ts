@@ -2,71 +2,210 @@
  * @fileoverview Routes Service
  * @purpose Handles walking route discovery, details, navigation, and user interactions
  *
- * All functions return ApiResponse<T> from apiService
+ * All functions resolve to the `data` payload of the apiService success envelope.
+ * Every payload is decoded with a schema (routeSchema from routeModel.ts for
+ * routes) before it is cached or returned; a malformed response rejects with
+ * an ApiErrorEnvelope whose code is DECODE_ERROR.
+ * Read endpoints are cached in memory and AsyncStorage via cacheService; any
+ * mutation invalidates the cached route lists.
  */
 
-// import { get, post, put, del } from './apiService';
+import type { AxiosRequestConfig } from 'axios';
+import { get, post, put, del } from './apiService';
+import { withCache, invalidateCache } from './cacheService';
+import type { CacheOptions } from './cacheService';
+import { routeSchema } from './routeModel';
+import {
+  RouteFileError,
+  detectRouteFileFormat,
+  parseRouteFile,
+  routeDraftFromFile,
+} from './routeFiles';
+import { array, boolean, either, map, number, object, optional, string } from '../utils/schema';
+import type { Schema } from '../utils/schema';
+import type { Route } from '../types/route';
+
+export type { Route };
+
+/**
+ * Sort orders supported by GET /routes
+ */
+export type RouteSortBy = 'popular' | 'recent' | 'distance' | 'rating';
+
+/**
+ * Filters accepted by fetchRoutes (mirrors GET /routes query params)
+ */
+export interface RouteFilters {
+  city?: string;
+  category?: string;
+  safetyScoreMin?: number; // 0-100
+  difficulty?: Route['difficulty'];
+  maxDistance?: number; // in meters
+  tags?: string[];
+  isFeatured?: boolean;
+  sortBy?: RouteSortBy;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Paginated route list payload
+ */
+export interface RouteListResult {
+  routes: Route[];
+  total: number;
+}
+
+/**
+ * Route comment shape returned by the comments endpoints
+ */
+export interface RouteComment {
+  id: string;
+  userId: string;
+  username: string;
+  avatar?: string;
+  text: string;
+  createdAt: string;
+  likes: number;
+}
+
+/**
+ * Optional details sent with POST /routes/:routeId/complete
+ */
+export interface RouteCompletionData {
+  id?: string; // client-generated; sending it again updates that completion
+  duration?: number; // seconds
+  distance?: number; // meters
+  rating?: number; // 1-5
+  comment?: string;
+  path?: string; // walked track, encoded polyline
+  completedAt?: string; // ISO date string; the request may be replayed later
+}
 
 /**
- * Route object shape
+ * Completed walk as listed by GET /users/me/completions
  */
-export interface Route {
+export interface RouteCompletion {
   id: string;
-  title: string;
-  description: string;
+  routeId: string;
+  routeTitle: string;
   city: string;
-  category: string; // e.g., "Scenic", "Historic", "Parks", "Urban"
-  imageUrl: string;
+  category: string;
+  completedAt: string; // ISO date string
+  durationSeconds: number;
   distanceMeters: number;
-  durationMinutes: number;
-  elevationGain: number; // in meters
-  difficulty: 'Easy' | 'Moderate' | 'Hard';
-  safetyScore: number; // 0-100
-  tags: string[];
-
-  // Geographical data
-  geojson?: any; // GeoJSON object for route path
-  polyline?: string; // Encoded polyline string (Google format)
-  startPoint: {
-    lat: number;
-    lng: number;
-    address: string;
-  };
-  endPoint: {
-    lat: number;
-    lng: number;
-    address: string;
-  };
-  waypoints: {
-    id: string;
-    name: string;
-    lat: number;
-    lng: number;
-    description?: string;
-    icon?: string;
-  }[];
-
-  // Community stats
-  likes: number;
-  completions: number;
-  reviews: number;
-  averageRating: number; // 0-5
+  path?: string; // walked track, encoded polyline
+  rating?: number; // 1-5
+}
 
-  // Metadata
-  createdBy: string; // User ID
-  createdAt: string;
-  updatedAt: string;
-  isPublic: boolean;
-  isFeatured: boolean;
+export const routeCompletionSchema: Schema<RouteCompletion> = object<RouteCompletion>({
+  id: string({ nonEmpty: true }),
+  routeId: string({ nonEmpty: true }),
+  routeTitle: string(),
+  city: string(),
+  category: string(),
+  completedAt: string({ nonEmpty: true }),
+  durationSeconds: number({ min: 0 }),
+  distanceMeters: number({ min: 0 }),
+  path: optional(string()),
+  rating: optional(number({ min: 1, max: 5, integer: true })),
+});
+
+export const routeCommentSchema: Schema<RouteComment> = object<RouteComment>({
+  id: string({ nonEmpty: true }),
+  userId: string(),
+  username: string(),
+  avatar: optional(string()),
+  text: string(),
+  createdAt: string(),
+  likes: number({ min: 0, integer: true }),
+});
+
+const ROUTES_CACHE_PREFIX = 'routes';
+
+const routePayloadSchema = object<{ route: Route }>({ route: routeSchema });
+
+/**
+ * List payload; also accepts backends that omit `total` or return a bare array
+ */
+const routeListPayloadSchema: Schema<RouteListResult> = either(
+  map(array(routeSchema), routes => ({ routes, total: routes.length })),
+  map(
+    object<{ routes: Route[]; total?: number }>({
+      routes: array(routeSchema),
+      total: optional(number({ min: 0, integer: true })),
+    }),
+    ({ routes, total }) => ({ routes, total: total ?? routes.length })
+  )
+);
+
+const likePayloadSchema = object<{ isLiked: boolean; likeCount: number }>({
+  isLiked: boolean(),
+  likeCount: number({ min: 0, integer: true }),
+});
+
+const savePayloadSchema = object<{ isSaved: boolean }>({ isSaved: boolean() });
+
+const completionPayloadSchema = object<{ completionCount: number }>({
+  completionCount: number({ min: 0, integer: true }),
+});
+
+const completionListPayloadSchema = object<{ completions: RouteCompletion[] }>({
+  completions: array(routeCompletionSchema),
+});
+
+const commentListPayloadSchema = object<{ comments: RouteComment[]; total: number }>({
+  comments: array(routeCommentSchema),
+  total: number({ min: 0, integer: true }),
+});
+
+const featuredPayloadSchema = object<{ routes: Route[] }>({ routes: array(routeSchema) });
+
+const commentPayloadSchema = object<{ comment: RouteComment }>({ comment: routeCommentSchema });
+
+/**
+ * Serialize route filters into a query string
+ *
+ * Keys are emitted in a fixed order so the result doubles as a cache key.
+ * Empty strings, empty tag lists and undefined values are omitted; tags are
+ * comma-separated.
+ *
+ * @param filters - Route filters
+ * @returns Query string without the leading "?"
+ *
+ * @example
+ * serializeRouteFilters({ city: 'San Francisco', tags: ['paved', 'dog-friendly'] })
+ * // "city=San+Francisco&tags=paved%2Cdog-friendly"
+ */
+export function serializeRouteFilters(filters: RouteFilters = {}): string {
+  const params = new URLSearchParams();
+
+  if (filters.city) params.append('city', filters.city);
+  if (filters.category) params.append('category', filters.category);
+  if (filters.safetyScoreMin !== undefined) {
+    params.append('safetyScoreMin', String(filters.safetyScoreMin));
+  }
+  if (filters.difficulty) params.append('difficulty', filters.difficulty);
+  if (filters.maxDistance !== undefined) {
+    params.append('maxDistance', String(filters.maxDistance));
+  }
+  if (filters.tags && filters.tags.length > 0) params.append('tags', filters.tags.join(','));
+  if (filters.isFeatured !== undefined) params.append('isFeatured', String(filters.isFeatured));
+  if (filters.sortBy) params.append('sortBy', filters.sortBy);
+  if (filters.limit !== undefined) params.append('limit', String(filters.limit));
+  if (filters.offset !== undefined) params.append('offset', String(filters.offset));
+
+  return params.toString();
 }
 
 /**
  * Fetch routes with optional filters
  *
  * @param filters - Query parameters for filtering routes
- * @returns Array of route objects
+ * @param options - Cache options (pass forceRefresh for pull-to-refresh)
+ * @returns Page of routes and the total match count
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: GET /routes
  * - Query params:
  *   - city?: string (e.g., "San Francisco")
@@ -82,27 +221,17 @@ export interface Route {
  * - Response: { error: false, message: "Routes retrieved", data: { routes: Route[], total: number } }
  * - Example: GET /routes?city=San+Francisco&category=Scenic&safetyScoreMin=70&sortBy=popular&limit=10
  */
-export async function fetchRoutes(_filters?: {
-  city?: string;
-  category?: string;
-  safetyScoreMin?: number;
-  difficulty?: string;
-  maxDistance?: number;
-  tags?: string[];
-  isFeatured?: boolean;
-  sortBy?: string;
-  limit?: number;
-  offset?: number;
-}) {
-  // TODO: Replace with actual API call
-  // const params = new URLSearchParams();
-  // if (filters?.city) params.append('city', filters.city);
-  // if (filters?.category) params.append('category', filters.category);
-  // ... add other filters
-  // return get<{ routes: Route[]; total: number }>(`/routes?${params.toString()}`);
-
-  throw new Error(
-    'fetchRoutes() not implemented - connect to backend endpoint'
+export async function fetchRoutes(
+  filters: RouteFilters = {},
+  options: CacheOptions = {}
+): Promise<RouteListResult> {
+  const query = serializeRouteFilters(filters);
+  const url = query ? `/routes?${query}` : '/routes';
+
+  return withCache(
+    `${ROUTES_CACHE_PREFIX}:list:${query}`,
+    async () => (await get(url, { schema: routeListPayloadSchema })).data,
+    options
   );
 }
 
@@ -110,9 +239,10 @@ export async function fetchRoutes(_filters?: {
  * Get detailed information for a specific route
  *
  * @param routeId - Route ID
+ * @param options - Cache options
  * @returns Route object with full details
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: GET /routes/:routeId
  * - Response: { error: false, message: "Route details retrieved", data: { route: Route } }
  * - Error codes:
@@ -120,12 +250,16 @@ export async function fetchRoutes(_filters?: {
  * - Include geojson or polyline data for map rendering
  * - Include all waypoints and community stats
  */
-export async function fetchRouteDetails(_routeId: string) {
-  // TODO: Replace with actual API call
-  // return get<{ route: Route }>(`/routes/${routeId}`);
-
-  throw new Error(
-    'fetchRouteDetails() not implemented - connect to backend endpoint'
+export async function fetchRouteDetails(
+  routeId: string,
+  options: CacheOptions = {}
+): Promise<Route> {
+  return withCache(
+    `${ROUTES_CACHE_PREFIX}:detail:${routeId}`,
+    async () =>
+      (await get(`/routes/${encodeURIComponent(routeId)}`, { schema: routePayloadSchema })).data
+        .route,
+    options
   );
 }
 
@@ -135,7 +269,7 @@ export async function fetchRouteDetails(_routeId: string) {
  * @param routeData - Route creation data
  * @returns Created route object
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: POST /routes
  * - Headers: Authorization: Bearer {accessToken}
  * - Request body: Omit<Route, 'id' | 'likes' | 'completions' | 'reviews' | 'averageRating' | 'createdAt' | 'updatedAt'>
@@ -144,13 +278,33 @@ export async function fetchRouteDetails(_routeId: string) {
  * - Backend calculates distanceMeters, durationMinutes based on geojson
  * - Set createdBy to authenticated user ID
  */
-export async function createRoute(_routeData: Partial<Route>) {
-  // TODO: Replace with actual API call
-  // return post<{ route: Route }>('/routes', routeData);
+export async function createRoute(routeData: Partial<Route>): Promise<Route> {
+  const res = await post('/routes', routeData, { schema: routePayloadSchema });
+  await invalidateCache(ROUTES_CACHE_PREFIX);
+  return res.data.route;
+}
 
-  throw new Error(
-    'createRoute() not implemented - connect to backend endpoint'
-  );
+/**
+ * Create a route from a GPX or KML file
+ *
+ * @param contents - File contents
+ * @param fileName - Original file name, used to tell GPX from KML
+ * @param overrides - Fields entered by the user (title, city, category, ...)
+ * @returns Created route object
+ * @throws RouteFileError when the file is not a readable GPX/KML route
+ *
+ * Distance, elevation gain, start/end points, waypoints and geometry are
+ * derived from the file (see routeDraftFromFile); the request is the same
+ * POST /routes as createRoute.
+ */
+export async function importRouteFile(
+  contents: string,
+  fileName?: string,
+  overrides: Partial<Route> = {}
+): Promise<Route> {
+  const format = detectRouteFileFormat(contents, fileName);
+  if (!format) throw new RouteFileError('Only GPX and KML files can be imported.');
+  return createRoute(routeDraftFromFile(parseRouteFile(contents, format), overrides));
 }
 
 /**
@@ -160,7 +314,7 @@ export async function createRoute(_routeData: Partial<Route>) {
  * @param updates - Partial route object with fields to update
  * @returns Updated route object
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: PUT /routes/:routeId
  * - Headers: Authorization: Bearer {accessToken}
  * - Request body: Partial<Route>
@@ -170,13 +324,12 @@ export async function createRoute(_routeData: Partial<Route>) {
  *   - 404: Route not found
  * - Only route creator can update
  */
-export async function updateRoute(_routeId: string, _updates: Partial<Route>) {
-  // TODO: Replace with actual API call
-  // return put<{ route: Route }>(`/routes/${routeId}`, updates);
-
-  throw new Error(
-    'updateRoute() not implemented - connect to backend endpoint'
-  );
+export async function updateRoute(routeId: string, updates: Partial<Route>): Promise<Route> {
+  const res = await put(`/routes/${encodeURIComponent(routeId)}`, updates, {
+    schema: routePayloadSchema,
+  });
+  await invalidateCache(ROUTES_CACHE_PREFIX);
+  return res.data.route;
 }
 
 /**
@@ -185,7 +338,7 @@ export async function updateRoute(_routeId: string, _updates: Partial<Route>) {
  * @param routeId - Route ID
  * @returns Success confirmation
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: DELETE /routes/:routeId
  * - Headers: Authorization: Bearer {accessToken}
  * - Response: { error: false, message: "Route deleted", data: null }
@@ -194,13 +347,9 @@ export async function updateRoute(_routeId: string, _updates: Partial<Route>) {
  *   - 404: Route not found
  * - Only route creator can delete
  */
-export async function deleteRoute(_routeId: string) {
-  // TODO: Replace with actual API call
-  // return del(`/routes/${routeId}`);
-
-  throw new Error(
-    'deleteRoute() not implemented - connect to backend endpoint'
-  );
+export async function deleteRoute(routeId: string): Promise<void> {
+  await del<null>(`/routes/${encodeURIComponent(routeId)}`);
+  await invalidateCache(ROUTES_CACHE_PREFIX);
 }
 
 /**
@@ -208,9 +357,10 @@ export async function deleteRoute(_routeId: string) {
  *
  * @param routeId - Route ID
  * @param isLiked - true to like, false to unlike
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
  * @returns Updated like status and count
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: POST /routes/:routeId/like
  * - Headers: Authorization: Bearer {accessToken}
  * - Request body: { isLiked: boolean }
@@ -218,11 +368,18 @@ export async function deleteRoute(_routeId: string) {
  * - One user can only like once per route
  * - Track user's liked routes for "My Likes" section
  */
-export async function likeRoute(_routeId: string, _isLiked: boolean) {
-  // TODO: Replace with actual API call
-  // return post<{ isLiked: boolean; likeCount: number }>(`/routes/${routeId}/like`, { isLiked });
-
-  throw new Error('likeRoute() not implemented - connect to backend endpoint');
+export async function likeRoute(
+  routeId: string,
+  isLiked: boolean,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ isLiked: boolean; likeCount: number }> {
+  const res = await post(
+    `/routes/${encodeURIComponent(routeId)}/like`,
+    { isLiked },
+    { ...requestConfig, schema: likePayloadSchema }
+  );
+  await invalidateCache(ROUTES_CACHE_PREFIX);
+  return res.data;
 }
 
 /**
@@ -230,20 +387,27 @@ export async function likeRoute(_routeId: string, _isLiked: boolean) {
  *
  * @param routeId - Route ID
  * @param isSaved - true to save, false to unsave
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
  * @returns Success confirmation
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: POST /routes/:routeId/save
  * - Headers: Authorization: Bearer {accessToken}
  * - Request body: { isSaved: boolean }
  * - Response: { error: false, message: "Route saved/unsaved", data: { isSaved: boolean } }
  * - Saved routes appear in user's "Saved Routes" section
  */
-export async function saveRoute(_routeId: string, _isSaved: boolean) {
-  // TODO: Replace with actual API call
-  // return post<{ isSaved: boolean }>(`/routes/${routeId}/save`, { isSaved });
-
-  throw new Error('saveRoute() not implemented - connect to backend endpoint');
+export async function saveRoute(
+  routeId: string,
+  isSaved: boolean,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ isSaved: boolean }> {
+  const res = await post(
+    `/routes/${encodeURIComponent(routeId)}/save`,
+    { isSaved },
+    { ...requestConfig, schema: savePayloadSchema }
+  );
+  return res.data;
 }
 
 /**
@@ -251,32 +415,57 @@ export async function saveRoute(_routeId: string, _isSaved: boolean) {
  *
  * @param routeId - Route ID
  * @param completionData - Completion details
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
  * @returns Success confirmation and updated completion count
  *
- * TODO: Backend Integration
+ * Screens do not call this directly: completionHistory.recordCompletion
+ * stores the walk locally and queues this request in the offline outbox.
+ *
+ * Backend Contract:
  * - Endpoint: POST /routes/:routeId/complete
  * - Headers: Authorization: Bearer {accessToken}
- * - Request body: { duration?: number, distance?: number, rating?: number (1-5), comment?: string }
+ * - Request body: { id?: string, duration?: number (s), distance?: number (m), rating?: number (1-5),
+ *   comment?: string, path?: string (encoded polyline), completedAt?: string (ISO) }
  * - Response: { error: false, message: "Route completed", data: { completionCount: number } }
- * - Track completion in user's history
+ * - Track completion in user's history, with the route's title, city and category
+ * - Upserts by id: a request repeating an id (a replay, or the rating added
+ *   after the walk) updates that completion and does not count it again
  * - Update route's completions count
  * - Optional: Award badges/achievements
  */
 export async function completeRoute(
-  _routeId: string,
-  _completionData?: {
-    duration?: number;
-    distance?: number;
-    rating?: number;
-    comment?: string;
-  }
-) {
-  // TODO: Replace with actual API call
-  // return post<{ completionCount: number }>(`/routes/${routeId}/complete`, completionData);
+  routeId: string,
+  completionData?: RouteCompletionData,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ completionCount: number }> {
+  const res = await post(`/routes/${encodeURIComponent(routeId)}/complete`, completionData ?? {}, {
+    ...requestConfig,
+    schema: completionPayloadSchema,
+  });
+  await invalidateCache(ROUTES_CACHE_PREFIX);
+  return res.data;
+}
 
-  throw new Error(
-    'completeRoute() not implemented - connect to backend endpoint'
-  );
+/**
+ * Fetch the signed-in user's completed walks, on any device
+ *
+ * @param requestConfig - Extra axios config
+ * @returns Completions, newest first
+ *
+ * Backend Contract:
+ * - Endpoint: GET /users/me/completions
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Response: { error: false, message: "Completions retrieved", data: { completions: RouteCompletion[] } }
+ * - Sorted by completedAt, newest first
+ */
+export async function fetchRouteCompletions(
+  requestConfig?: AxiosRequestConfig
+): Promise<RouteCompletion[]> {
+  const res = await get('/users/me/completions', {
+    ...requestConfig,
+    schema: completionListPayloadSchema,
+  });
+  return res.data.completions;
 }
 
 /**
@@ -287,23 +476,22 @@ export async function completeRoute(
  * @param offset - Pagination offset
  * @returns Array of comments
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: GET /routes/:routeId/comments
  * - Query params: limit (default 20), offset (default 0)
  * - Response: { error: false, message: "Comments retrieved", data: { comments: Comment[], total: number } }
  * - Comment shape: { id, userId, username, avatar, text, createdAt, likes }
  */
 export async function fetchRouteComments(
-  _routeId: string,
-  _limit = 20,
-  _offset = 0
-) {
-  // TODO: Replace with actual API call
-  // return get<{ comments: any[]; total: number }>(`/routes/${routeId}/comments?limit=${limit}&offset=${offset}`);
-
-  throw new Error(
-    'fetchRouteComments() not implemented - connect to backend endpoint'
-  );
+  routeId: string,
+  limit = 20,
+  offset = 0
+): Promise<{ comments: RouteComment[]; total: number }> {
+  const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+  const res = await get(`/routes/${encodeURIComponent(routeId)}/comments?${params.toString()}`, {
+    schema: commentListPayloadSchema,
+  });
+  return res.data;
 }
 
 /**
@@ -311,41 +499,46 @@ export async function fetchRouteComments(
  *
  * @param routeId - Route ID
  * @param text - Comment text
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
  * @returns Created comment object
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: POST /routes/:routeId/comments
  * - Headers: Authorization: Bearer {accessToken}
  * - Request body: { text: string }
  * - Response: { error: false, message: "Comment added", data: { comment: Comment } }
  * - Backend should include user info in response for optimistic UI updates
  */
-export async function addRouteComment(_routeId: string, _text: string) {
-  // TODO: Replace with actual API call
-  // return post<{ comment: any }>(`/routes/${routeId}/comments`, { text });
-
-  throw new Error(
-    'addRouteComment() not implemented - connect to backend endpoint'
+export async function addRouteComment(
+  routeId: string,
+  text: string,
+  requestConfig?: AxiosRequestConfig
+): Promise<RouteComment> {
+  const res = await post(
+    `/routes/${encodeURIComponent(routeId)}/comments`,
+    { text },
+    { ...requestConfig, schema: commentPayloadSchema }
   );
+  return res.data.comment;
 }
 
 /**
  * Get featured routes for home screen
  *
+ * @param options - Cache options
  * @returns Array of featured routes
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: GET /routes/featured
  * - Response: { error: false, message: "Featured routes retrieved", data: { routes: Route[] } }
  * - Return 5-10 curated routes with high quality
  * - Should be cached and updated periodically
  */
-export async function fetchFeaturedRoutes() {
-  // TODO: Replace with actual API call
-  // return get<{ routes: Route[] }>('/routes/featured');
-
-  throw new Error(
-    'fetchFeaturedRoutes() not implemented - connect to backend endpoint'
+export async function fetchFeaturedRoutes(options: CacheOptions = {}): Promise<Route[]> {
+  return withCache(
+    `${ROUTES_CACHE_PREFIX}:featured`,
+    async () => (await get('/routes/featured', { schema: featuredPayloadSchema })).data.routes,
+    options
   );
 }
 
@@ -354,9 +547,9 @@ export async function fetchFeaturedRoutes() {
  *
  * @param query - Search query string
  * @param filters - Optional additional filters
- * @returns Array of matching routes
+ * @returns Page of matching routes and the total match count
  *
- * TODO: Backend Integration
+ * Backend Contract:
  * - Endpoint: GET /routes/search
  * - Query params: q (query string), city?, category?, limit?, offset?
  * - Response: { error: false, message: "Search results", data: { routes: Route[], total: number } }
@@ -365,21 +558,13 @@ export async function fetchFeaturedRoutes() {
  * - Example: GET /routes/search?q=golden+gate&city=San+Francisco
  */
 export async function searchRoutes(
-  _query: string,
-  _filters?: {
-    city?: string;
-    category?: string;
-    limit?: number;
-    offset?: number;
-  }
-) {
-  // TODO: Replace with actual API call
-  // const params = new URLSearchParams({ q: query });
-  // if (filters?.city) params.append('city', filters.city);
-  // ... add other filters
-  // return get<{ routes: Route[]; total: number }>(`/routes/search?${params.toString()}`);
-
-  throw new Error(
-    'searchRoutes() not implemented - connect to backend endpoint'
-  );
+  query: string,
+  filters: Pick<RouteFilters, 'city' | 'category' | 'limit' | 'offset'> = {}
+): Promise<RouteListResult> {
+  const params = serializeRouteFilters(filters);
+  const search = new URLSearchParams({ q: query.trim() }).toString();
+  const res = await get(`/routes/search?${params ? `${search}&${params}` : search}`, {
+    schema: routeListPayloadSchema,
+  });
+  return res.data;
 }
@@ -0,0 +1,622 @@
+/**
+ * @fileoverview Safety Service
+ * @purpose Backend endpoints of the safety companion: SOS reports, check-in
+ * timers, live location shares, safety alerts and neighborhood safety stats
+ *
+ * All functions resolve to the `data` payload of the apiService success
+ * envelope, decoded with a schema; a malformed response rejects with an
+ * ApiErrorEnvelope whose code is DECODE_ERROR.
+ * Alerts and neighborhood stats are cached in memory and AsyncStorage via
+ * cacheService. Which alerts the user dismissed is kept on the device by
+ * alertDismissals.ts, which syncs it with the endpoints below.
+ */
+
+import type { AxiosRequestConfig } from 'axios';
+import { get, post } from './apiService';
+import { withCache } from './cacheService';
+import type { CacheOptions } from './cacheService';
+import {
+  array,
+  boolean,
+  map,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from '../utils/schema';
+import { API_ENDPOINTS } from '../utils/constants';
+import type { SafetyAlert } from '../types';
+
+export type { SafetyAlert };
+
+export type SosReportStatus = 'active' | 'resolved';
+
+export type SosLogType =
+  | 'triggered'
+  | 'cancelled'
+  | 'activated'
+  | 'located'
+  | 'location-unavailable'
+  | 'contacts-notified'
+  | 'resolved';
+
+/**
+ * Timestamped step of an SOS event
+ */
+export interface SosLogEntry {
+  type: SosLogType;
+  at: string; // ISO date string
+  detail?: string;
+}
+
+/**
+ * SOS event as sent to POST /safety/sos
+ */
+export interface SosReport {
+  id: string;
+  status: SosReportStatus;
+  triggeredAt: string; // ISO date string
+  location?: { lat: number; lng: number; accuracy?: number };
+  contacts: string[]; // phone numbers that were notified
+  log: SosLogEntry[];
+}
+
+const sosReceiptSchema = object<{ id: string; status: SosReportStatus }>({
+  id: string({ nonEmpty: true }),
+  status: oneOf(['active', 'resolved'] as const),
+});
+
+/**
+ * Report an SOS event, or an update to one
+ *
+ * @param report - Current state of the event
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
+ * @returns The stored event id and status
+ *
+ * Screens do not call this directly: sosService queues it in the offline
+ * outbox when an SOS is sent and again when it is resolved.
+ *
+ * Backend Contract:
+ * - Endpoint: POST /safety/sos
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Request body: { id, status: "active" | "resolved", triggeredAt, location?: { lat, lng, accuracy? },
+ *   contacts: string[], log: { type, at, detail? }[] }
+ * - Response: { error: false, message: "SOS received", data: { id: string, status: string } }
+ * - Upserts by id: the resolved report of an event replaces the active one
+ * - Active events are escalated to the safety team
+ */
+export async function reportSos(
+  report: SosReport,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ id: string; status: SosReportStatus }> {
+  const res = await post('/safety/sos', report, { ...requestConfig, schema: sosReceiptSchema });
+  return res.data;
+}
+
+export type CheckInReportStatus = 'active' | 'checked-in' | 'escalated';
+
+/**
+ * Check-in timer as sent to POST /safety/check-ins
+ */
+export interface CheckInReport {
+  id: string;
+  status: CheckInReportStatus;
+  senderName: string;
+  contacts: string[]; // phone numbers to alert
+  expectedAt: string; // ISO date string
+  escalatesAt: string; // ISO date string
+  routeId?: string;
+  destination?: { lat: number; lng: number; name?: string };
+}
+
+const checkInReceiptSchema = object<{ id: string; status: CheckInReportStatus }>({
+  id: string({ nonEmpty: true }),
+  status: oneOf(['active', 'checked-in', 'escalated'] as const),
+});
+
+/**
+ * Register a check-in timer with the server, or an update to one
+ *
+ * @param report - Current state of the timer
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
+ * @returns The stored timer id and status
+ *
+ * Screens do not call this directly: checkInService queues it in the offline
+ * outbox when a timer starts, is extended and ends.
+ *
+ * Backend Contract:
+ * - Endpoint: POST /safety/check-ins
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Request body: { id, status: "active" | "checked-in" | "escalated", senderName, contacts: string[],
+ *   expectedAt, escalatesAt, routeId?, destination?: { lat, lng, name? } }
+ * - Response: { error: false, message: "Check-in saved", data: { id: string, status: string } }
+ * - Upserts by id: an extension moves escalatesAt, an ended timer is no longer escalated
+ * - A timer still active at escalatesAt is escalated by the server: the contacts are
+ *   texted, so a missed check-in is reported even when the app is closed
+ */
+export async function reportCheckIn(
+  report: CheckInReport,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ id: string; status: CheckInReportStatus }> {
+  const res = await post('/safety/check-ins', report, {
+    ...requestConfig,
+    schema: checkInReceiptSchema,
+  });
+  return res.data;
+}
+
+export type LocationShareMode = '15m' | '1h' | 'arrival';
+
+export type LocationShareEndReason = 'stopped' | 'expired' | 'arrived';
+
+/**
+ * Position sent to the viewers of a location share
+ */
+export interface SharedPosition {
+  lat: number;
+  lng: number;
+  accuracy?: number; // meters
+  recordedAt: string; // ISO date string
+}
+
+/**
+ * Location share as created by POST /safety/location-shares
+ */
+export interface LocationShareSession {
+  id: string;
+  token: string; // opaque, identifies the share to viewers
+  shareUrl: string; // link for the contacts, opens the viewer
+  expiresAt: string; // ISO date string
+}
+
+/**
+ * Location share as seen by a viewer
+ */
+export interface SharedLocation {
+  senderName: string;
+  status: 'active' | 'ended';
+  mode: LocationShareMode;
+  startedAt: string;
+  expiresAt: string;
+  endReason?: LocationShareEndReason;
+  destination?: { lat: number; lng: number; name?: string };
+  lastPosition?: SharedPosition;
+}
+
+const positionSchema = object<SharedPosition>({
+  lat: number({ min: -90, max: 90 }),
+  lng: number({ min: -180, max: 180 }),
+  accuracy: optional(number({ min: 0 })),
+  recordedAt: string({ nonEmpty: true }),
+});
+
+const shareSessionSchema = object<LocationShareSession>({
+  id: string({ nonEmpty: true }),
+  token: string({ nonEmpty: true }),
+  shareUrl: string({ nonEmpty: true }),
+  expiresAt: string({ nonEmpty: true }),
+});
+
+const shareStatusSchema = object<{ status: SharedLocation['status'] }>({
+  status: oneOf(['active', 'ended'] as const),
+});
+
+const sharedLocationSchema = object<SharedLocation>({
+  senderName: string(),
+  status: oneOf(['active', 'ended'] as const),
+  mode: oneOf(['15m', '1h', 'arrival'] as const),
+  startedAt: string({ nonEmpty: true }),
+  expiresAt: string({ nonEmpty: true }),
+  endReason: optional(oneOf(['stopped', 'expired', 'arrived'] as const)),
+  destination: optional(
+    object<{ lat: number; lng: number; name?: string }>({
+      lat: number({ min: -90, max: 90 }),
+      lng: number({ min: -180, max: 180 }),
+      name: optional(string()),
+    })
+  ),
+  lastPosition: optional(positionSchema),
+});
+
+/**
+ * Start sharing the user's location
+ *
+ * @param request - How long to share and, until arrival, where to
+ * @returns The share with its link
+ *
+ * Backend Contract:
+ * - Endpoint: POST /safety/location-shares
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Request body: { mode: "15m" | "1h" | "arrival", expiresAt: string (ISO), routeId?: string,
+ *   destination?: { lat, lng, name? } }
+ * - Response: { error: false, message: "Sharing started", data: { id, token, shareUrl, expiresAt } }
+ * - The server may shorten expiresAt; the returned value is authoritative
+ */
+export async function startLocationShare(request: {
+  mode: LocationShareMode;
+  expiresAt: string;
+  routeId?: string;
+  destination?: { lat: number; lng: number; name?: string };
+}): Promise<LocationShareSession> {
+  const res = await post('/safety/location-shares', request, { schema: shareSessionSchema });
+  return res.data;
+}
+
+/**
+ * Send the latest position of an active share
+ *
+ * @returns Whether the share is still active (a share stopped from another
+ * device or by the server reports "ended")
+ *
+ * Backend Contract:
+ * - Endpoint: POST /safety/location-shares/:id/positions
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Request body: { lat, lng, accuracy?, recordedAt }
+ * - Response: { error: false, message: "Position received", data: { status: "active" | "ended" } }
+ */
+export async function sendSharedPosition(
+  shareId: string,
+  position: SharedPosition,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ status: SharedLocation['status'] }> {
+  const res = await post(
+    `/safety/location-shares/${encodeURIComponent(shareId)}/positions`,
+    position,
+    {
+      ...requestConfig,
+      schema: shareStatusSchema,
+    }
+  );
+  return res.data;
+}
+
+/**
+ * End a location share; viewers see it as ended with the reason
+ *
+ * Backend Contract:
+ * - Endpoint: POST /safety/location-shares/:id/stop
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Request body: { reason: "stopped" | "expired" | "arrived" }
+ * - Response: { error: false, message: "Sharing stopped", data: { status: "ended" } }
+ */
+export async function stopLocationShare(
+  shareId: string,
+  reason: LocationShareEndReason,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ status: SharedLocation['status'] }> {
+  const res = await post(
+    `/safety/location-shares/${encodeURIComponent(shareId)}/stop`,
+    { reason },
+    { ...requestConfig, schema: shareStatusSchema }
+  );
+  return res.data;
+}
+
+/**
+ * Look up a location share from the token in its link
+ *
+ * @param requestConfig - Extra axios config (the viewer polls quietly)
+ *
+ * Backend Contract:
+ * - Endpoint: GET /safety/shared-locations/:token
+ * - No authentication: anyone with the link can view
+ * - Response: { error: false, message: "Shared location", data: SharedLocation }
+ * - 404 when the token is unknown; ended shares are returned without lastPosition
+ */
+export async function fetchSharedLocation(
+  token: string,
+  requestConfig?: AxiosRequestConfig
+): Promise<SharedLocation> {
+  const res = await get(`/safety/shared-locations/${encodeURIComponent(token)}`, {
+    ...requestConfig,
+    schema: sharedLocationSchema,
+  });
+  return res.data;
+}
+
+const SAFETY_CACHE_PREFIX = 'safety';
+
+/**
+ * Filters accepted by fetchSafetyAlerts (mirrors GET /safety-alerts query params)
+ */
+export interface SafetyAlertFilters {
+  lat?: number;
+  lng?: number;
+  radiusKm?: number; // only with lat and lng
+  routeId?: string;
+}
+
+export type LightingQuality = 'poor' | 'fair' | 'good' | 'excellent';
+
+export type FootTraffic = 'low' | 'moderate' | 'high' | 'very_high';
+
+/**
+ * Short notice published for a neighborhood
+ */
+export interface NeighborhoodAdvisory {
+  type: string; // e.g. "advisory", "warning", "weather"
+  message: string;
+  severity: 'low' | 'medium' | 'high';
+  issuedAt: string; // ISO date string
+}
+
+/**
+ * Safety statistics of the neighborhood around a point
+ */
+export interface NeighborhoodSafety {
+  id: string;
+  location: { lat: number; lng: number; address: string; neighborhood: string };
+  safetyScore: number; // 0-100
+  crimeStats: { totalIncidents: number; violent: number; property: number; other: number };
+  period: string; // window of crimeStats, e.g. "last_30_days"
+  lightingQuality: LightingQuality;
+  footTraffic: FootTraffic;
+  securityCameras: number;
+  policeStations: { name: string; distance: number; address: string }[]; // distance in km
+  emergencyServices: { type: string; name: string; distance: number }[]; // distance in km
+  alerts: NeighborhoodAdvisory[];
+  lastUpdated: string; // ISO date string
+}
+
+const latitude = () => number({ min: -90, max: 90 });
+const longitude = () => number({ min: -180, max: 180 });
+const count = () => number({ min: 0, integer: true });
+
+const safetyAlertSchema = object<SafetyAlert>({
+  id: string({ nonEmpty: true }),
+  title: string(),
+  description: string(),
+  severity: oneOf(['info', 'warning', 'danger', 'critical'] as const),
+  type: oneOf([
+    'weather',
+    'political',
+    'health',
+    'natural_disaster',
+    'security',
+    'transportation',
+  ] as const),
+  location: object<SafetyAlert['location']>({
+    name: string(),
+    coordinates: optional(
+      object<{ latitude: number; longitude: number }>({
+        latitude: latitude(),
+        longitude: longitude(),
+      })
+    ),
+    radius: optional(number({ min: 0 })),
+    country: string(),
+    regions: optional(array(string())),
+  }),
+  validFrom: string({ nonEmpty: true }),
+  // Indefinite alerts may come with validUntil: null
+  validUntil: map(optional(nullable(string())), value => value ?? undefined),
+  source: object<SafetyAlert['source']>({ name: string(), url: optional(string()) }),
+  recommendations: array(string()),
+  affectedRoutes: optional(array(string())),
+  isActive: boolean(),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const alertListPayloadSchema = object<{ alerts: SafetyAlert[] }>({
+  alerts: array(safetyAlertSchema),
+});
+
+const alertPayloadSchema = object<{ alert: SafetyAlert }>({ alert: safetyAlertSchema });
+
+const dismissalPayloadSchema = object<{ alertId: string; dismissedAt: string }>({
+  alertId: string({ nonEmpty: true }),
+  dismissedAt: string({ nonEmpty: true }),
+});
+
+const dismissedListPayloadSchema = object<{ alertIds: string[] }>({
+  alertIds: array(string({ nonEmpty: true })),
+});
+
+const neighborhoodSafetySchema = object<NeighborhoodSafety>({
+  id: string({ nonEmpty: true }),
+  location: object<NeighborhoodSafety['location']>({
+    lat: latitude(),
+    lng: longitude(),
+    address: string(),
+    neighborhood: string(),
+  }),
+  safetyScore: number({ min: 0, max: 100 }),
+  crimeStats: object<NeighborhoodSafety['crimeStats']>({
+    totalIncidents: count(),
+    violent: count(),
+    property: count(),
+    other: count(),
+  }),
+  period: string(),
+  lightingQuality: oneOf(['poor', 'fair', 'good', 'excellent'] as const),
+  footTraffic: oneOf(['low', 'moderate', 'high', 'very_high'] as const),
+  securityCameras: count(),
+  policeStations: array(
+    object<NeighborhoodSafety['policeStations'][number]>({
+      name: string(),
+      distance: number({ min: 0 }),
+      address: string(),
+    })
+  ),
+  emergencyServices: array(
+    object<NeighborhoodSafety['emergencyServices'][number]>({
+      type: string(),
+      name: string(),
+      distance: number({ min: 0 }),
+    })
+  ),
+  alerts: array(
+    object<NeighborhoodAdvisory>({
+      type: string(),
+      message: string(),
+      severity: oneOf(['low', 'medium', 'high'] as const),
+      issuedAt: string({ nonEmpty: true }),
+    })
+  ),
+  lastUpdated: string({ nonEmpty: true }),
+});
+
+const neighborhoodPayloadSchema = object<{ record: NeighborhoodSafety }>({
+  record: neighborhoodSafetySchema,
+});
+
+/**
+ * Serialize alert filters into a query string
+ *
+ * Keys are emitted in a fixed order so the result doubles as a cache key.
+ * radiusKm is dropped unless both lat and lng are given.
+ *
+ * @returns Query string without the leading "?"
+ */
+export function serializeSafetyAlertFilters(filters: SafetyAlertFilters = {}): string {
+  const params = new URLSearchParams();
+
+  if (filters.lat !== undefined && filters.lng !== undefined) {
+    params.append('lat', String(filters.lat));
+    params.append('lng', String(filters.lng));
+    if (filters.radiusKm !== undefined) params.append('radiusKm', String(filters.radiusKm));
+  }
+  if (filters.routeId) params.append('routeId', filters.routeId);
+
+  return params.toString();
+}
+
+/**
+ * Fetch safety alerts
+ *
+ * @param filters - Area or route to limit the alerts to
+ * @param options - Cache options
+ * @returns Alerts, including expired ones the server still lists (callers
+ * check validity with utils/safetyAlerts.ts)
+ *
+ * Backend Contract:
+ * - Endpoint: GET /safety-alerts
+ * - Query params:
+ *   - lat?, lng?: number (center of the area; both or neither)
+ *   - radiusKm?: number (default 10, only with lat/lng)
+ *   - routeId?: string (alerts listing the route in affectedRoutes or crossing its path)
+ * - Response: { error: false, message: "Safety alerts retrieved", data: { alerts: SafetyAlert[] } }
+ * - Example: GET /safety-alerts?lat=37.7749&lng=-122.4194&radiusKm=5
+ */
+export async function fetchSafetyAlerts(
+  filters: SafetyAlertFilters = {},
+  options: CacheOptions = {}
+): Promise<SafetyAlert[]> {
+  const query = serializeSafetyAlertFilters(filters);
+  const url = query ? `${API_ENDPOINTS.SAFETY_ALERTS}?${query}` : API_ENDPOINTS.SAFETY_ALERTS;
+
+  return withCache(
+    `${SAFETY_CACHE_PREFIX}:alerts:${query}`,
+    async () => (await get(url, { schema: alertListPayloadSchema })).data.alerts,
+    options
+  );
+}
+
+/**
+ * Get a single safety alert
+ *
+ * @param alertId - Alert ID
+ * @param options - Cache options
+ *
+ * Backend Contract:
+ * - Endpoint: GET /safety-alerts/:alertId
+ * - Response: { error: false, message: "Safety alert retrieved", data: { alert: SafetyAlert } }
+ * - Error codes:
+ *   - 404: Alert not found
+ */
+export async function fetchSafetyAlert(
+  alertId: string,
+  options: CacheOptions = {}
+): Promise<SafetyAlert> {
+  return withCache(
+    `${SAFETY_CACHE_PREFIX}:alert:${alertId}`,
+    async () =>
+      (
+        await get(`${API_ENDPOINTS.SAFETY_ALERTS}/${encodeURIComponent(alertId)}`, {
+          schema: alertPayloadSchema,
+        })
+      ).data.alert,
+    options
+  );
+}
+
+/**
+ * Record that the user dismissed an alert
+ *
+ * @param requestConfig - Extra axios config (used by the offline outbox for replays)
+ *
+ * Screens do not call this directly: alertDismissals.dismissAlert hides the
+ * alert on the device and queues this request in the offline outbox.
+ *
+ * Backend Contract:
+ * - Endpoint: POST /safety-alerts/:alertId/dismiss
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Response: { error: false, message: "Alert dismissed", data: { alertId: string, dismissedAt: string } }
+ * - Idempotent: dismissing again keeps the first dismissedAt
+ * - 404 when the alert does not exist
+ */
+export async function dismissSafetyAlert(
+  alertId: string,
+  requestConfig?: AxiosRequestConfig
+): Promise<{ alertId: string; dismissedAt: string }> {
+  const res = await post(
+    `${API_ENDPOINTS.SAFETY_ALERTS}/${encodeURIComponent(alertId)}/dismiss`,
+    {},
+    { ...requestConfig, schema: dismissalPayloadSchema }
+  );
+  return res.data;
+}
+
+/**
+ * Fetch the ids of the alerts the user dismissed, on any device
+ *
+ * @param requestConfig - Extra axios config
+ *
+ * Backend Contract:
+ * - Endpoint: GET /safety-alerts/dismissed
+ * - Headers: Authorization: Bearer {accessToken}
+ * - Response: { error: false, message: "Dismissed alerts retrieved", data: { alertIds: string[] } }
+ * - Dismissals of alerts that have ended may be dropped by the server
+ */
+export async function fetchDismissedAlertIds(
+  requestConfig?: AxiosRequestConfig
+): Promise<string[]> {
+  const res = await get(`${API_ENDPOINTS.SAFETY_ALERTS}/dismissed`, {
+    ...requestConfig,
+    schema: dismissedListPayloadSchema,
+  });
+  return res.data.alertIds;
+}
+
+/**
+ * Get safety statistics of the neighborhood around a point
+ *
+ * @param lat - Latitude
+ * @param lng - Longitude
+ * @param options - Cache options
+ *
+ * Backend Contract:
+ * - Endpoint: GET /safety/neighborhood
+ * - Query params: lat: number, lng: number
+ * - Response: { error: false, message: "Neighborhood safety retrieved", data: { record: NeighborhoodSafety } }
+ * - Returns the neighborhood containing the point, or the closest one covered
+ * - 404 when no neighborhood is covered near the point
+ */
+export async function fetchNeighborhoodSafety(
+  lat: number,
+  lng: number,
+  options: CacheOptions = {}
+): Promise<NeighborhoodSafety> {
+  const query = new URLSearchParams({ lat: String(lat), lng: String(lng) }).toString();
+
+  return withCache(
+    `${SAFETY_CACHE_PREFIX}:neighborhood:${query}`,
+    async () =>
+      (await get(`/safety/neighborhood?${query}`, { schema: neighborhoodPayloadSchema })).data
+        .record,
+    options
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Secure Token Store
+ * @purpose Pluggable storage backends for the persisted auth token pair
+ *
+ * tokenStorage.ts reads and writes tokens through the active SecureTokenStore,
+ * so apiService and AuthContext never touch the storage medium directly.
+ *
+ * Backends:
+ * - Keychain: expo-secure-store (iOS Keychain / Android Keystore). Used
+ *   whenever the platform supports it.
+ * - Encrypted AsyncStorage: AES-256-GCM ciphertext in AsyncStorage, for
+ *   platforms without a keychain (web). The key is random per install and
+ *   kept in a separate AsyncStorage entry, so this protects the tokens from
+ *   anything that only sees the token entry (logs, storage dumps), not from
+ *   an attacker with full access to the app's storage.
+ * - In-memory: nothing persisted; for tests and previews via setTokenStore().
+ *
+ * Migration:
+ * Earlier builds kept tokens as plaintext JSON under STORAGE_KEYS.AUTH_TOKENS.
+ * The first time the store is resolved, those tokens are copied into the
+ * selected backend and the plaintext entry is deleted.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { STORAGE_KEYS } from '../utils/constants';
+
+/**
+ * Persisted token pair
+ */
+export interface StoredTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string; // ISO date string
+}
+
+/**
+ * Storage backend for the token pair
+ */
+export interface SecureTokenStore {
+  readonly kind: 'keychain' | 'encrypted' | 'memory';
+  read: () => Promise<StoredTokens | null>;
+  write: (tokens: StoredTokens) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+const KEYCHAIN_KEY = 'waytrove.auth_tokens';
+
+const GCM_NONCE_BYTES = 12;
+const KEY_BYTES = 32;
+
+const parseTokens = (json: string | null): StoredTokens | null => {
+  if (!json) return null;
+  const parsed = JSON.parse(json) as Partial<StoredTokens> | null;
+  return parsed?.accessToken ? (parsed as StoredTokens) : null;
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * Keychain-backed store (expo-secure-store)
+ */
+export function createKeychainTokenStore(): SecureTokenStore {
+  const options: SecureStore.SecureStoreOptions = {
+    keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  };
+
+  return {
+    kind: 'keychain',
+    read: async () => parseTokens(await SecureStore.getItemAsync(KEYCHAIN_KEY, options)),
+    write: tokens => SecureStore.setItemAsync(KEYCHAIN_KEY, JSON.stringify(tokens), options),
+    clear: () => SecureStore.deleteItemAsync(KEYCHAIN_KEY, options),
+  };
+}
+
+/**
+ * AES-256-GCM encrypted AsyncStorage store
+ *
+ * Stored value: "<base64 nonce>.<base64 ciphertext+tag>". A value that fails
+ * to decrypt (tampered, or the key entry was lost) reads as no tokens.
+ */
+export function createEncryptedTokenStore(): SecureTokenStore {
+  let keyPromise: Promise<Uint8Array> | null = null;
+
+  const loadKey = (): Promise<Uint8Array> => {
+    keyPromise ??= (async () => {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS_KEY);
+      if (stored) return fromBase64(stored);
+
+      const key = getRandomBytes(KEY_BYTES);
+      await AsyncStorage.setItem(STORAGE_KEYS.AUTH_TOKENS_KEY, toBase64(key));
+      return key;
+    })().catch(error => {
+      keyPromise = null;
+      throw error;
+    });
+    return keyPromise;
+  };
+
+  return {
+    kind: 'encrypted',
+    read: async () => {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS_ENCRYPTED);
+      if (!stored) return null;
+
+      const [nonce, ciphertext] = stored.split('.');
+      if (!nonce || !ciphertext) return null;
+      try {
+        const key = await loadKey();
+        return parseTokens(
+          bytesToUtf8(gcm(key, fromBase64(nonce)).decrypt(fromBase64(ciphertext)))
+        );
+      } catch (error) {
+        if (__DEV__) console.warn('Stored tokens could not be decrypted', error);
+        return null;
+      }
+    },
+    write: async tokens => {
+      const key = await loadKey();
+      const nonce = getRandomBytes(GCM_NONCE_BYTES);
+      const ciphertext = gcm(key, nonce).encrypt(utf8ToBytes(JSON.stringify(tokens)));
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.AUTH_TOKENS_ENCRYPTED,
+        `${toBase64(nonce)}.${toBase64(ciphertext)}`
+      );
+    },
+    clear: () => AsyncStorage.removeItem(STORAGE_KEYS.AUTH_TOKENS_ENCRYPTED),
+  };
+}
+
+/**
+ * Non-persistent store for tests
+ *
+ * @param initial - Tokens the store starts with
+ */
+export function createMemoryTokenStore(initial: StoredTokens | null = null): SecureTokenStore {
+  let current = initial ? { ...initial } : null;
+
+  return {
+    kind: 'memory',
+    read: async () => (current ? { ...current } : null),
+    write: async tokens => {
+      current = { ...tokens };
+    },
+    clear: async () => {
+      current = null;
+    },
+  };
+}
+
+/**
+ * Move plaintext tokens from earlier builds into the store
+ *
+ * Tokens already in the store win. If the store cannot be written the
+ * plaintext entry is kept and the migration runs again on the next launch.
+ */
+export async function migratePlaintextTokens(store: SecureTokenStore): Promise<void> {
+  const plaintext = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKENS);
+  if (plaintext === null) return;
+
+  try {
+    const tokens = parseTokens(plaintext);
+    if (tokens && !(await store.read())) await store.write(tokens);
+  } catch (error) {
+    if (__DEV__) console.warn('Could not migrate stored tokens', error);
+    return;
+  }
+  await AsyncStorage.removeItem(STORAGE_KEYS.AUTH_TOKENS);
+}
+
+let activeStore: Promise<SecureTokenStore> | null = null;
+
+/**
+ * Resolve the store for this device (keychain when available) and run the
+ * plaintext migration once
+ */
+export function getTokenStore(): Promise<SecureTokenStore> {
+  activeStore ??= (async () => {
+    const hasKeychain = await SecureStore.isAvailableAsync().catch(() => false);
+    const store = hasKeychain ? createKeychainTokenStore() : createEncryptedTokenStore();
+    await migratePlaintextTokens(store);
+    return store;
+  })().catch(error => {
+    activeStore = null;
+    throw error;
+  });
+  return activeStore;
+}
+
+/**
+ * Replace the active store (e.g. createMemoryTokenStore() in tests)
+ */
+export function setTokenStore(store: SecureTokenStore): void {
+  activeStore = Promise.resolve(store);
+}
@@ -0,0 +1,421 @@
+/**
+ * @fileoverview SOS Service
+ * @purpose Emergency alert workflow: countdown, contact notification, backend report, resolution
+ *
+ * An SOS goes through these states:
+ * - countdown: SOS_COUNTDOWN_MS to cancel an accidental press; the location
+ *   is already being read so it is ready when the countdown ends
+ * - active: the emergency contacts get an SMS with a map link to the user's
+ *   location (the share sheet when SMS is unavailable or there are no
+ *   contacts) and POST /safety/sos is queued in the offline outbox
+ * - resolved: the user confirmed they are safe; the same contacts are told
+ *   and the resolution is reported
+ * - cancelled: stopped during the countdown; nothing left the device
+ *
+ * Every step is added to the event's log with a timestamp. Events are kept
+ * in AsyncStorage (STORAGE_KEYS.SOS_EVENTS), newest first, so an active SOS
+ * survives an app restart; a countdown interrupted by a restart is cancelled.
+ * The history belongs to the signed-in account and is cleared on sign-out.
+ *
+ * @example
+ * ```ts
+ * await triggerSos({ senderName: user.name, contacts: [user.primaryContact] });
+ * // ...later
+ * await resolveSos();
+ * ```
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Linking, Platform, Share } from 'react-native';
+import { STORAGE_KEYS } from '../utils/constants';
+import { mapsLink } from '../utils/geo';
+import { array, number, object, oneOf, optional, parseWithSchema, string } from '../utils/schema';
+import { createDeviceLocationProvider, currentFix } from './locationProvider';
+import type { LocationFix, LocationProvider } from './locationProvider';
+import { createIdempotencyKey } from './retryPolicy';
+import { enqueueMutation } from './offlineQueue';
+import { createFormatter } from './formatService';
+import type { SosLogEntry, SosLogType, SosReport } from './safetyService';
+import type { UnitSystem } from '../types';
+
+export const SOS_COUNTDOWN_MS = 5000;
+const LOCATION_TIMEOUT_MS = 15000;
+const MAX_STORED_EVENTS = 20;
+
+export type SosStatus = 'countdown' | 'active' | 'resolved' | 'cancelled';
+
+/**
+ * SOS event as stored on the device
+ */
+export interface SosEvent {
+  id: string;
+  status: SosStatus;
+  senderName: string;
+  contacts: string[]; // phone numbers, as entered in the profile
+  units?: UnitSystem; // for distances in the message; metric when unset
+  triggeredAt: string; // ISO date string
+  activatesAt: string; // end of the countdown, or when the SOS was sent early
+  location?: { lat: number; lng: number; accuracy?: number };
+  log: SosLogEntry[];
+}
+
+/**
+ * What triggerSos needs to know about the user
+ */
+export interface SosRequest {
+  senderName: string;
+  contacts: (string | undefined)[]; // empty entries are ignored
+  /**
+   * Unit system of the user's preferences
+   * @default metric
+   */
+  units?: UnitSystem;
+  /**
+   * Why the SOS was raised when the user did not press the button (logged)
+   */
+  reason?: string;
+  /**
+   * Source of the location fix
+   * @default device GPS
+   */
+  provider?: LocationProvider;
+}
+
+/**
+ * Raised when an SOS action does not fit the current state
+ */
+export class SosError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SosError';
+  }
+}
+
+type SosListener = (events: SosEvent[]) => void;
+
+const logEntrySchema = object<SosLogEntry>({
+  type: oneOf([
+    'triggered',
+    'cancelled',
+    'activated',
+    'located',
+    'location-unavailable',
+    'contacts-notified',
+    'resolved',
+  ] as const),
+  at: string({ nonEmpty: true }),
+  detail: optional(string()),
+});
+
+const eventSchema = object<SosEvent>({
+  id: string({ nonEmpty: true }),
+  status: oneOf(['countdown', 'active', 'resolved', 'cancelled'] as const),
+  senderName: string(),
+  contacts: array(string()),
+  units: optional(oneOf(['metric', 'imperial'] as const)),
+  triggeredAt: string({ nonEmpty: true }),
+  activatesAt: string({ nonEmpty: true }),
+  location: optional(
+    object<{ lat: number; lng: number; accuracy?: number }>({
+      lat: number({ min: -90, max: 90 }),
+      lng: number({ min: -180, max: 180 }),
+      accuracy: optional(number({ min: 0 })),
+    })
+  ),
+  log: array(logEntrySchema),
+});
+
+let events: SosEvent[] = [];
+let loadPromise: Promise<void> | null = null;
+let countdownTimer: ReturnType<typeof setTimeout> | null = null;
+// Location reading started with the countdown of the current event
+let pendingLocation: { eventId: string; fix: Promise<LocationFix | null> } | null = null;
+const listeners = new Set<SosListener>();
+
+function emit(): void {
+  const snapshot = events.slice();
+  listeners.forEach(listener => listener(snapshot));
+}
+
+async function update(next: SosEvent[]): Promise<void> {
+  events = next.slice(0, MAX_STORED_EVENTS);
+  emit();
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.SOS_EVENTS, JSON.stringify(events));
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to persist SOS events', error);
+  }
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.SOS_EVENTS);
+        if (!raw) return;
+        const stored = parseWithSchema(array(eventSchema), JSON.parse(raw), 'SOS events');
+        // The countdown timer did not survive the restart
+        events = stored.map(event =>
+          event.status === 'countdown'
+            ? withLog({ ...event, status: 'cancelled' }, 'cancelled', 'App closed during countdown')
+            : event
+        );
+        emit();
+      } catch (error) {
+        if (__DEV__) console.warn('Discarding stored SOS events', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+function withLog(event: SosEvent, type: SosLogType, detail?: string): SosEvent {
+  const entry: SosLogEntry = { type, at: new Date().toISOString(), ...(detail && { detail }) };
+  return { ...event, log: [...event.log, entry] };
+}
+
+function findEvent(id: string): SosEvent | undefined {
+  return events.find(event => event.id === id);
+}
+
+function replaceEvent(next: SosEvent): Promise<void> {
+  return update(events.map(event => (event.id === next.id ? next : event)));
+}
+
+function clearCountdown(): void {
+  if (countdownTimer) clearTimeout(countdownTimer);
+  countdownTimer = null;
+}
+
+const toReport = (event: SosEvent): SosReport => ({
+  id: event.id,
+  status: event.status === 'resolved' ? 'resolved' : 'active',
+  triggeredAt: event.triggeredAt,
+  contacts: event.contacts,
+  log: event.log,
+  ...(event.location && { location: event.location }),
+});
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Text sent to the contacts when an SOS becomes active
+ */
+export function composeSosMessage(event: SosEvent): string {
+  const { location } = event;
+  const accuracy =
+    location?.accuracy !== undefined
+      ? ` (within ${createFormatter({ units: event.units }).distance(location.accuracy)})`
+      : '';
+  const where = location
+    ? `My location: ${mapsLink(location)}${accuracy}.`
+    : 'My location could not be determined.';
+  return `SOS from ${event.senderName}: I need help. ${where} Sent at ${formatTime(event.activatesAt)} from WayTrove.`;
+}
+
+/**
+ * Text sent to the same contacts once the user is safe
+ */
+export function composeSafeMessage(event: SosEvent): string {
+  return `${event.senderName} is safe now. Please disregard the SOS sent at ${formatTime(event.activatesAt)}.`;
+}
+
+/**
+ * Open the SMS composer for the contacts, or the share sheet when SMS is
+ * unavailable or there is nobody to text
+ *
+ * @returns How the message was handed over
+ */
+async function notifyContacts(contacts: string[], message: string): Promise<'sms' | 'share'> {
+  const recipients = contacts.map(contact => contact.replace(/[^\d+]/g, '')).filter(Boolean);
+  if (recipients.length > 0) {
+    const separator = Platform.OS === 'ios' ? '&' : '?';
+    const url = `sms:${recipients.join(',')}${separator}body=${encodeURIComponent(message)}`;
+    try {
+      if (await Linking.canOpenURL(url)) {
+        await Linking.openURL(url);
+        return 'sms';
+      }
+    } catch (error) {
+      if (__DEV__) console.warn('Could not open the SMS composer', error);
+    }
+  }
+  await Share.share({ message });
+  return 'share';
+}
+
+async function activate(id: string): Promise<void> {
+  clearCountdown();
+  const started = findEvent(id);
+  if (!started || started.status !== 'countdown') return;
+  await replaceEvent(
+    withLog({ ...started, status: 'active', activatesAt: new Date().toISOString() }, 'activated')
+  );
+
+  let location: SosEvent['location'];
+  let locationFailure = 'No fix in time';
+  try {
+    const fix = pendingLocation?.eventId === id ? await pendingLocation.fix : null;
+    if (fix) {
+      location = { lat: fix.lat, lng: fix.lng };
+      if (typeof fix.accuracy === 'number') location.accuracy = fix.accuracy;
+    }
+  } catch (error) {
+    locationFailure = error instanceof Error ? error.message : String(error);
+  }
+  if (pendingLocation?.eventId === id) pendingLocation = null;
+
+  // The SOS may have been resolved or cleared while the location was read
+  const latest = findEvent(id);
+  if (!latest) return;
+  let event = location
+    ? withLog({ ...latest, location }, 'located')
+    : withLog(latest, 'location-unavailable', locationFailure);
+  await replaceEvent(event);
+  if (event.status !== 'active') return;
+  await enqueueMutation({ type: 'reportSos', report: toReport(event) });
+
+  try {
+    const channel = await notifyContacts(event.contacts, composeSosMessage(event));
+    event = withLog(findEvent(id) ?? event, 'contacts-notified', channel);
+  } catch (error) {
+    if (__DEV__) console.warn('Could not notify SOS contacts', error);
+    event = withLog(findEvent(id) ?? event, 'contacts-notified', 'failed');
+  }
+  await replaceEvent(event);
+}
+
+/**
+ * The SOS in countdown or active, if any
+ */
+export function currentSos(list: SosEvent[]): SosEvent | null {
+  const latest = list[0];
+  return latest && (latest.status === 'countdown' || latest.status === 'active') ? latest : null;
+}
+
+/**
+ * Start the countdown of a new SOS
+ *
+ * @throws SosError while another SOS is in countdown or active, or when
+ * there is no emergency contact to alert
+ */
+export async function triggerSos(request: SosRequest): Promise<SosEvent> {
+  await ensureLoaded();
+  if (currentSos(events)) throw new SosError('An SOS is already in progress.');
+
+  const now = Date.now();
+  const contacts = [
+    ...new Set(request.contacts.map(contact => contact?.trim() ?? '').filter(Boolean)),
+  ];
+  if (contacts.length === 0) {
+    throw new SosError('Add an emergency contact to your profile so an SOS can reach someone.');
+  }
+  const event = withLog(
+    {
+      id: createIdempotencyKey(),
+      status: 'countdown',
+      senderName: request.senderName,
+      contacts,
+      ...(request.units && { units: request.units }),
+      triggeredAt: new Date(now).toISOString(),
+      activatesAt: new Date(now + SOS_COUNTDOWN_MS).toISOString(),
+      log: [],
+    },
+    'triggered',
+    request.reason
+  );
+
+  const provider = request.provider ?? createDeviceLocationProvider();
+  pendingLocation = { eventId: event.id, fix: currentFix(provider, LOCATION_TIMEOUT_MS) };
+  // Handled in activate(); avoid an unhandled rejection when cancelled
+  pendingLocation.fix.catch(() => undefined);
+
+  await update([event, ...events]);
+  clearCountdown();
+  countdownTimer = setTimeout(() => void activate(event.id), SOS_COUNTDOWN_MS);
+  return event;
+}
+
+/**
+ * Skip the rest of the countdown
+ */
+export async function sendSosNow(): Promise<void> {
+  await ensureLoaded();
+  const event = currentSos(events);
+  if (event?.status === 'countdown') await activate(event.id);
+}
+
+/**
+ * Stop an SOS during its countdown; nothing is sent
+ *
+ * @throws SosError once the SOS is active (resolve it instead)
+ */
+export async function cancelSos(): Promise<void> {
+  await ensureLoaded();
+  const event = currentSos(events);
+  if (!event) return;
+  if (event.status !== 'countdown') {
+    throw new SosError('The SOS has already been sent. Let your contacts know you are safe.');
+  }
+  clearCountdown();
+  pendingLocation = null;
+  await replaceEvent(withLog({ ...event, status: 'cancelled' }, 'cancelled'));
+}
+
+/**
+ * Mark the active SOS as resolved and tell the same contacts
+ */
+export async function resolveSos(): Promise<void> {
+  await ensureLoaded();
+  const active = currentSos(events);
+  if (active?.status !== 'active') return;
+
+  let event = withLog({ ...active, status: 'resolved' }, 'resolved');
+  await replaceEvent(event);
+  await enqueueMutation({ type: 'reportSos', report: toReport(event) });
+
+  try {
+    const channel = await notifyContacts(event.contacts, composeSafeMessage(event));
+    event = withLog(findEvent(event.id) ?? event, 'contacts-notified', channel);
+  } catch (error) {
+    if (__DEV__) console.warn('Could not notify SOS contacts', error);
+    event = withLog(findEvent(event.id) ?? event, 'contacts-notified', 'failed');
+  }
+  await replaceEvent(event);
+}
+
+/**
+ * Stored SOS events, newest first
+ */
+export async function getSosEvents(): Promise<SosEvent[]> {
+  await ensureLoaded();
+  return events.slice();
+}
+
+/**
+ * Listen for SOS changes
+ *
+ * The listener is called with the stored events once they have loaded.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToSos(listener: SosListener): () => void {
+  listeners.add(listener);
+  void ensureLoaded().then(() => {
+    if (listeners.has(listener)) listener(events.slice());
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget every SOS event and stop a running countdown (used on sign-out)
+ */
+export async function clearSosEvents(): Promise<void> {
+  await ensureLoaded();
+  clearCountdown();
+  pendingLocation = null;
+  await update([]);
+}
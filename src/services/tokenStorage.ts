@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Token Storage
+ * @purpose Read/write the persisted auth token pair through the active SecureTokenStore
+ *
+ * The storage backend (keychain, encrypted AsyncStorage or in-memory) is
+ * chosen in secureTokenStore.ts; this module adds expiry handling on top.
+ *
+ * Tokens are stored with an absolute `expiresAt` (ISO string) so expiry can be
+ * checked without knowing when they were issued. Backends return a relative
+ * `expiresIn` (seconds); storeTokens converts it on write. The GraphQL auth
+ * mutations return neither, so the expiry is then read from the JWT `exp`
+ * claim.
+ */
+
+import { getTokenStore } from './secureTokenStore';
+import type { StoredTokens } from './secureTokenStore';
+
+export type { StoredTokens };
+
+/**
+ * Token payload as returned by auth endpoints
+ */
+export interface TokenInput {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number; // seconds until access token expires
+  expiresAt?: string; // ISO date string
+}
+
+/**
+ * Treat tokens as expired slightly early so requests don't race the deadline
+ */
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+/**
+ * Expiry of a JWT from its `exp` claim, or undefined for opaque/malformed tokens
+ *
+ * The signature is not checked; the value is only used to schedule a refresh.
+ */
+export function getJwtExpiry(token: string): string | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) return undefined;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const { exp } = JSON.parse(atob(padded)) as { exp?: unknown };
+    return typeof exp === 'number' ? new Date(exp * 1000).toISOString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Load the stored token pair, or null if none/invalid
+ */
+export async function readStoredTokens(): Promise<StoredTokens | null> {
+  const store = await getTokenStore();
+  return store.read();
+}
+
+/**
+ * Persist a token pair, keeping the existing refresh token if none is supplied
+ *
+ * @param tokens - Tokens from a login, register or refresh response
+ * @returns The tokens as stored
+ */
+export async function storeTokens(tokens: TokenInput): Promise<StoredTokens | null> {
+  if (!tokens.accessToken) return null;
+
+  const previous = tokens.refreshToken ? null : await readStoredTokens().catch(() => null);
+  const expiresAt =
+    tokens.expiresAt ??
+    (tokens.expiresIn !== undefined
+      ? new Date(Date.now() + tokens.expiresIn * 1000).toISOString()
+      : getJwtExpiry(tokens.accessToken));
+
+  const stored: StoredTokens = {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken ?? previous?.refreshToken,
+    expiresAt,
+  };
+
+  const store = await getTokenStore();
+  await store.write(stored);
+  return stored;
+}
+
+/**
+ * Remove stored tokens (sign-out or failed refresh)
+ */
+export async function clearStoredTokens(): Promise<void> {
+  const store = await getTokenStore();
+  await store.clear();
+}
+
+/**
+ * Whether the access token is past (or about to pass) its expiry
+ *
+ * Tokens without an expiresAt are assumed valid until the server rejects them.
+ */
+export function isAccessTokenExpired(tokens: StoredTokens, now: number = Date.now()): boolean {
+  if (!tokens.expiresAt) return false;
+  const expiresAt = new Date(tokens.expiresAt).getTime();
+  return Number.isFinite(expiresAt) && expiresAt - EXPIRY_SKEW_MS <= now;
+}
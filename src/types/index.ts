@@ -4,8 +4,12 @@
  * @inputs None (type definitions only)
  * @outputs TypeScript interfaces and types for core app entities
  *
+ * Entities read from the API are decoded against schemas kept next to the
+ * service that fetches them (Route: services/routeModel.ts, SafetyAlert:
+ * services/safetyService.ts). User and Post are not fetched in these shapes
+ * (authService decodes its own session user), so they have none.
+ *
  * TODO: Ensure types match Django REST API response schemas
- * TODO: Add validation schemas using libraries like Yup or Zod
  * TODO: Update types as API contracts are finalized with backend team
  */
 
@@ -41,6 +45,11 @@ export type MainStackParamList = {
 
 // Core Entity Types
 
+/**
+ * Measurement system for displayed distances and elevations
+ */
+export type UnitSystem = 'metric' | 'imperial';
+
 /**
  * User - Represents a user account in the WayTrove system
  * Used for authentication, profile management, and personalization
@@ -55,7 +64,7 @@ export interface User {
   bio?: string;
   location?: string;
   preferences: {
-    units: 'metric' | 'imperial'; // Distance/temperature units
+    units: UnitSystem; // Distance/temperature units
     language: string; // ISO language code
     notifications: {
       safetyAlerts: boolean;
@@ -72,50 +81,14 @@ export interface User {
   updatedAt: string; // ISO date string
 }
 
-/**
- * Route - Represents a travel route or destination
- * Core entity for travel planning and discovery features
- */
-export interface Route {
-  id: string;
-  title: string;
-  description: string;
-  images: string[]; // Array of image URLs
-  location: {
-    name: string; // Human-readable location name
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
-    country: string;
-    region?: string;
-  };
-  difficulty: 'easy' | 'moderate' | 'challenging' | 'extreme';
-  duration: {
-    estimated: number; // in hours
-    unit: 'hours' | 'days';
-  };
-  distance?: number; // in kilometers
-  activities: string[]; // hiking, photography, cultural, adventure, etc.
-  tags: string[]; // nature, urban, historical, family-friendly, etc.
-  rating: {
-    average: number; // 1-5 stars
-    count: number; // number of reviews
-  };
-  safety: {
-    level: 'low' | 'medium' | 'high'; // risk level
-    lastUpdated: string; // ISO date string
-    alerts: string[]; // current safety concerns
-  };
-  creator: {
-    id: string;
-    username: string;
-    avatar?: string;
-  };
-  isBookmarked?: boolean; // user-specific field
-  createdAt: string;
-  updatedAt: string;
-}
+// Route - canonical walking route model (see ./route.ts)
+export type {
+  Route,
+  RouteDifficulty,
+  RoutePoint,
+  RouteWaypoint,
+  LegacyTravelRoute,
+} from './route';
 
 /**
  * Post - Represents user-generated content about travel experiences
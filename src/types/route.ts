@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Route Domain Model - Canonical walking route types
+ * @purpose Single source of truth for route data across services, screens, and mocks
+ * @inputs None (type definitions only)
+ * @outputs Route and related types
+ *
+ * The shape mirrors the backend /routes contract and assets/mocks/routes.json.
+ * Runtime validation lives in services/routeModel.ts (routeSchema), together
+ * with adapters from the older shapes listed at the bottom of this file.
+ */
+
+export type RouteDifficulty = 'Easy' | 'Moderate' | 'Hard';
+
+/**
+ * Start or end point of a route
+ */
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+  address: string;
+}
+
+/**
+ * Point of interest along a route
+ */
+export interface RouteWaypoint {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  description?: string;
+  icon?: string;
+}
+
+/**
+ * Route - A walking route as returned by the backend
+ */
+export interface Route {
+  id: string;
+  title: string;
+  description: string;
+  city: string;
+  category: string; // e.g., "Scenic", "Historic", "Parks", "Urban"
+  imageUrl: string;
+  distanceMeters: number;
+  durationMinutes: number;
+  elevationGain: number; // in meters
+  difficulty: RouteDifficulty;
+  safetyScore: number; // 0-100
+  tags: string[];
+
+  // Geographical data
+  geojson?: Record<string, unknown> | null; // GeoJSON route path; [lng, lat, elevation] per point
+  polyline?: string; // Encoded polyline string (Google format)
+  startPoint: RoutePoint;
+  endPoint: RoutePoint;
+  waypoints: RouteWaypoint[];
+
+  // Community stats
+  likes: number;
+  completions: number;
+  reviews: number;
+  averageRating: number; // 0-5
+
+  // Metadata
+  createdBy: string; // User ID
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+  isPublic: boolean;
+  isFeatured: boolean;
+}
+
+/**
+ * Travel route/destination shape from the original app scaffold
+ *
+ * @deprecated Use Route; convert with fromLegacyTravelRoute()
+ */
+export interface LegacyTravelRoute {
+  id: string;
+  title: string;
+  description: string;
+  images: string[]; // Array of image URLs
+  location: {
+    name: string; // Human-readable location name
+    coordinates: {
+      latitude: number;
+      longitude: number;
+    };
+    country: string;
+    region?: string;
+  };
+  difficulty: 'easy' | 'moderate' | 'challenging' | 'extreme';
+  duration: {
+    estimated: number; // in hours
+    unit: 'hours' | 'days';
+  };
+  distance?: number; // in kilometers
+  activities: string[]; // hiking, photography, cultural, adventure, etc.
+  tags: string[]; // nature, urban, historical, family-friendly, etc.
+  rating: {
+    average: number; // 1-5 stars
+    count: number; // number of reviews
+  };
+  safety: {
+    level: 'low' | 'medium' | 'high'; // risk level
+    lastUpdated: string; // ISO date string
+    alerts: string[]; // current safety concerns
+  };
+  creator: {
+    id: string;
+    username: string;
+    avatar?: string;
+  };
+  isBookmarked?: boolean; // user-specific field
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,90 @@
+import { decodePolyline, encodePolyline, pathLength, simplifyPath, snapToPath } from '../geo';
+import type { LatLng } from '../geo';
+
+const ORIGIN = { lat: 48.8566, lng: 2.3522 };
+
+// Point the given meters north and east of ORIGIN
+const offset = (north: number, east: number): LatLng => ({
+  lat: ORIGIN.lat + north / 111320,
+  lng: ORIGIN.lng + east / (111320 * Math.cos((ORIGIN.lat * Math.PI) / 180)),
+});
+
+// Example from Google's encoded polyline algorithm documentation
+const GOOGLE_PATH = [
+  { lat: 38.5, lng: -120.2 },
+  { lat: 40.7, lng: -120.95 },
+  { lat: 43.252, lng: -126.453 },
+];
+const GOOGLE_POLYLINE = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+
+// Wobbly walk east with a detour north in the middle
+const WALK = Array.from({ length: 60 }, (_, index) =>
+  offset(
+    (index >= 25 && index < 35 ? 80 : 0) + Math.sin(index * 1.7) * 2,
+    index * 20 + Math.cos(index * 2.3) * 2
+  )
+);
+
+describe('encodePolyline / decodePolyline', () => {
+  it('matches the reference encoding', () => {
+    expect(encodePolyline(GOOGLE_PATH)).toBe(GOOGLE_POLYLINE);
+    const decoded = decodePolyline(GOOGLE_POLYLINE);
+    expect(decoded).toHaveLength(GOOGLE_PATH.length);
+    decoded.forEach((point, index) => {
+      expect(point.lat).toBeCloseTo(GOOGLE_PATH[index]?.lat ?? NaN, 5);
+      expect(point.lng).toBeCloseTo(GOOGLE_PATH[index]?.lng ?? NaN, 5);
+    });
+  });
+
+  it.each([5, 6])('round-trips a path to within precision %i', precision => {
+    const decoded = decodePolyline(encodePolyline(WALK, precision), precision);
+    const tolerance = 0.5 / 10 ** precision;
+    expect(decoded).toHaveLength(WALK.length);
+    decoded.forEach((point, index) => {
+      expect(Math.abs(point.lat - (WALK[index]?.lat ?? NaN))).toBeLessThanOrEqual(tolerance);
+      expect(Math.abs(point.lng - (WALK[index]?.lng ?? NaN))).toBeLessThanOrEqual(tolerance);
+    });
+  });
+
+  it('round-trips an empty path', () => {
+    expect(encodePolyline([])).toBe('');
+    expect(decodePolyline('')).toEqual([]);
+  });
+
+  it('rejects a truncated polyline', () => {
+    expect(() => decodePolyline(GOOGLE_POLYLINE.slice(0, -2))).toThrow('Truncated');
+  });
+});
+
+describe('simplifyPath', () => {
+  it('keeps every point of paths too short to simplify', () => {
+    const pair = [offset(0, 0), offset(0, 100)];
+    const simplified = simplifyPath(pair, 10);
+    expect(simplified).toEqual(pair);
+    expect(simplified).not.toBe(pair);
+  });
+
+  it('reduces a straight line to its ends', () => {
+    const line = Array.from({ length: 10 }, (_, index) => offset(0, index * 50));
+    expect(simplifyPath(line, 1)).toEqual([line[0], line[9]]);
+  });
+
+  it.each([1, 5, 25])('stays within %i m of every dropped point', tolerance => {
+    const simplified = simplifyPath(WALK, tolerance);
+    expect(simplified[0]).toBe(WALK[0]);
+    expect(simplified[simplified.length - 1]).toBe(WALK[WALK.length - 1]);
+    expect(simplified.every(point => WALK.includes(point))).toBe(true);
+    WALK.forEach(point => {
+      expect(snapToPath(point, simplified)?.distanceFromPath).toBeLessThanOrEqual(tolerance);
+    });
+  });
+
+  it('drops more points as the tolerance grows but keeps the detour', () => {
+    const fine = simplifyPath(WALK, 1);
+    const coarse = simplifyPath(WALK, 25);
+    expect(coarse.length).toBeLessThan(fine.length);
+    // Both ends plus the four corners of the detour
+    expect(coarse.length).toBeGreaterThanOrEqual(6);
+    expect(pathLength(coarse)).toBeGreaterThan(WALK.length * 20 + 2 * 80 - 100);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  computeWalkStats,
+  periodStart,
+  walkBreakdown,
+  walkBuckets,
+  walkStreaks,
+} from '../walkStats';
+import type { CompletedWalk } from '../walkStats';
+
+// Wednesday 14 October 2026, 18:00 local time
+const NOW = new Date(2026, 9, 14, 18);
+
+// Walk finished at 10:00 local time on the given day of 2026 (month is 0-based)
+const walk = (
+  month: number,
+  day: number,
+  overrides: Partial<CompletedWalk> = {}
+): CompletedWalk => ({
+  completedAt: new Date(2026, month, day, 10).toISOString(),
+  distanceMeters: 2000,
+  durationSeconds: 1800,
+  city: 'Paris',
+  category: 'Culture',
+  ...overrides,
+});
+
+describe('periodStart', () => {
+  it('starts weeks on Monday and months on the 1st', () => {
+    expect(periodStart('week', NOW)).toEqual(new Date(2026, 9, 12));
+    expect(periodStart('month', NOW)).toEqual(new Date(2026, 9, 1));
+    expect(periodStart('all', NOW)).toBeNull();
+  });
+
+  it('keeps Sunday in the week that started the Monday before', () => {
+    expect(periodStart('week', new Date(2026, 9, 18, 23))).toEqual(new Date(2026, 9, 12));
+  });
+});
+
+describe('walkStreaks', () => {
+  it('counts consecutive days, with several walks a day counted once', () => {
+    const walks = [walk(9, 1), walk(9, 2), walk(9, 2), walk(9, 3), walk(9, 12), walk(9, 13)];
+    expect(walkStreaks(walks, NOW)).toEqual({ current: 2, longest: 3 });
+  });
+
+  it('keeps the current streak alive until a full day passes without a walk', () => {
+    const walks = [walk(9, 11), walk(9, 12)];
+    expect(walkStreaks(walks, new Date(2026, 9, 13, 23)).current).toBe(2);
+    expect(walkStreaks(walks, new Date(2026, 9, 14, 0, 30)).current).toBe(0);
+  });
+
+  it('continues across months', () => {
+    expect(walkStreaks([walk(8, 30), walk(9, 1)], NOW).longest).toBe(2);
+    expect(walkStreaks([walk(8, 29), walk(9, 1)], NOW).longest).toBe(1);
+  });
+
+  it('is zero without walks', () => {
+    expect(walkStreaks([], NOW)).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('walkBreakdown', () => {
+  it('groups by city, most walks first, then by distance', () => {
+    const walks = [
+      walk(9, 1, { city: 'Lyon', distanceMeters: 500 }),
+      walk(9, 2, { city: 'Paris' }),
+      walk(9, 3, { city: 'Nice', distanceMeters: 3000 }),
+      walk(9, 4, { city: 'Paris' }),
+    ];
+    expect(walkBreakdown(walks, 'city')).toEqual([
+      { key: 'Paris', walks: 2, distanceMeters: 4000, durationSeconds: 3600 },
+      { key: 'Nice', walks: 1, distanceMeters: 3000, durationSeconds: 1800 },
+      { key: 'Lyon', walks: 1, distanceMeters: 500, durationSeconds: 1800 },
+    ]);
+  });
+
+  it('puts walks without a category under Other', () => {
+    const walks = [walk(9, 1, { category: ' ' }), walk(9, 2, { category: '' })];
+    expect(walkBreakdown(walks, 'category')).toEqual([
+      { key: 'Other', walks: 2, distanceMeters: 4000, durationSeconds: 3600 },
+    ]);
+  });
+});
+
+describe('walkBuckets', () => {
+  it('has one bar per weekday, Monday first', () => {
+    const buckets = walkBuckets([walk(9, 12), walk(9, 14), walk(9, 14)], 'week', NOW);
+    expect(buckets.map(bucket => bucket.label)).toEqual(['M', 'T', 'W', 'T', 'F', 'S', 'S']);
+    expect(buckets.map(bucket => bucket.walks)).toEqual([1, 0, 2, 0, 0, 0, 0]);
+    expect(buckets[2]?.distanceMeters).toBe(4000);
+  });
+
+  it('has one bar per day of the month, labelled every week', () => {
+    const buckets = walkBuckets([walk(9, 31)], 'month', NOW);
+    expect(buckets).toHaveLength(31);
+    expect(buckets.filter(bucket => bucket.label).map(bucket => bucket.label)).toEqual([
+      '1',
+      '8',
+      '15',
+      '22',
+      '29',
+    ]);
+    expect(buckets[30]?.walks).toBe(1);
+  });
+
+  it('covers the last twelve months for all time and skips older walks', () => {
+    const buckets = walkBuckets([walk(9, 1), walk(0, 1)], 'all', NOW);
+    expect(buckets.map(bucket => bucket.label).join('')).toBe('NDJFMAMJJASO');
+    expect(buckets[11]?.walks).toBe(1);
+    expect(buckets[2]?.walks).toBe(1);
+
+    const older = walkBuckets([walk(9, 1)], 'all', new Date(2027, 10, 1));
+    expect(older.every(bucket => bucket.walks === 0)).toBe(true);
+  });
+});
+
+describe('computeWalkStats', () => {
+  const history = [
+    walk(9, 14, { rating: 5 }),
+    walk(9, 13, { rating: 4, city: 'Lyon' }),
+    walk(9, 5, { rating: 1 }),
+    walk(8, 20),
+  ];
+
+  it('totals and rates only the walks in the period', () => {
+    const week = computeWalkStats(history, 'week', NOW);
+    expect(week.totals).toEqual({ walks: 2, distanceMeters: 4000, durationSeconds: 3600 });
+    expect(week.averageRating).toBe(4.5);
+    expect(week.byCity.map(entry => entry.key)).toEqual(['Paris', 'Lyon']);
+
+    const month = computeWalkStats(history, 'month', NOW);
+    expect(month.totals.walks).toBe(3);
+    expect(month.averageRating).toBeCloseTo(10 / 3);
+
+    expect(computeWalkStats(history, 'all', NOW).totals.walks).toBe(4);
+  });
+
+  it('uses the whole history for streaks', () => {
+    const week = computeWalkStats(history, 'week', NOW);
+    expect(week.streaks).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('has no average rating without rated walks', () => {
+    expect(computeWalkStats([walk(9, 14)], 'week', NOW).averageRating).toBeNull();
+    expect(computeWalkStats([], 'week', NOW).totals.walks).toBe(0);
+  });
+});
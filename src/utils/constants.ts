@@ -15,7 +15,19 @@ export const STORAGE_KEYS = {
   AUTH: '@waytrove_auth',
   HAS_SEEN_ONBOARDING: '@waytrove_has_seen_onboarding',
   USER_PROFILE: '@waytrove_user_profile',
-  AUTH_TOKENS: '@waytrove_auth_tokens',
+  AUTH_TOKENS: '@waytrove_auth_tokens', // plaintext, pre-secure storage (migrated on launch)
+  AUTH_TOKENS_ENCRYPTED: '@waytrove_auth_tokens_encrypted',
+  AUTH_TOKENS_KEY: '@waytrove_auth_tokens_key',
+  API_CACHE: '@waytrove_api_cache',
+  OFFLINE_QUEUE: '@waytrove_offline_queue',
+  NAVIGATION_STATE: '@waytrove_navigation_state',
+  ROUTE_RECORDING: '@waytrove_route_recording',
+  WALK_COMPLETIONS: '@waytrove_walk_completions',
+  SOS_EVENTS: '@waytrove_sos_events',
+  LOCATION_SHARE: '@waytrove_location_share',
+  CHECK_IN: '@waytrove_check_in',
+  DISMISSED_ALERTS: '@waytrove_dismissed_alerts',
+  RETAINED_ACCOUNT: '@waytrove_retained_account', // user whose data outlived an expired session
 } as const;
 
 // API Configuration
@@ -31,7 +43,7 @@ export const API_ENDPOINTS = {
   LOGIN: '/auth/login',
   REGISTER: '/auth/register',
   LOGOUT: '/auth/logout',
-  REFRESH_TOKEN: '/auth/refresh',
+  REFRESH_TOKEN: '/auth/refresh/',
   PROFILE: '/auth/profile',
 
   // Destinations & Routes
@@ -60,6 +72,8 @@ export const APP_CONFIG = {
   BUILD_NUMBER: 1,
   SUPPORTED_LANGUAGES: ['en', 'es', 'fr', 'de', 'ja'] as const,
   DEFAULT_LANGUAGE: 'en',
+  // Names shown in the language setting, each in its own language
+  LANGUAGE_NAMES: { en: 'English', es: 'Español', fr: 'Français', de: 'Deutsch', ja: '日本語' },
 } as const;
 
 // Map Configuration
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Elevation Utilities
+ * @purpose Elevation profile of a path: ascent/descent, grades and steep sections
+ *
+ * Input is a path whose points may carry an elevation (ElevatedLatLng, e.g.
+ * from getRoutePath on a route with 3D GeoJSON). Points without an elevation
+ * still count towards the distance but are not sampled.
+ *
+ * - Ascent/descent ignore swings smaller than noiseMeters, which would
+ *   otherwise add up GPS and terrain-model jitter on flat ground
+ * - Grades are measured over at least gradeWindowMeters of horizontal
+ *   distance, so a single noisy point does not produce a 40% "wall"
+ * - Steep sections are runs of windows at or above steepGrade in the same
+ *   direction, bridging gaps shorter than one window
+ */
+
+import { cumulativeDistances } from './geo';
+import type { ElevatedLatLng, LatLng } from './geo';
+
+/**
+ * Elevation at a distance along the path
+ */
+export interface ElevationSample extends LatLng {
+  distance: number; // meters from the start of the path
+  elevation: number; // meters
+}
+
+/**
+ * Continuous stretch steeper than the steep grade
+ */
+export interface SteepSection {
+  startDistance: number; // meters along the path
+  endDistance: number;
+  grade: number; // steepest window in the section; negative when downhill
+}
+
+export interface ElevationProfile {
+  samples: ElevationSample[];
+  totalDistance: number; // meters, including points without elevation
+  ascent: number; // meters
+  descent: number; // meters, positive
+  minElevation: number;
+  maxElevation: number;
+  maxGrade: number; // steepest window; negative when it is downhill
+  maxGradeDistance: number; // where that window starts
+  steepSections: SteepSection[];
+}
+
+export interface ElevationProfileOptions {
+  noiseMeters?: number; // default 3
+  gradeWindowMeters?: number; // default 50
+  steepGrade?: number; // rise over run, default 0.1 (10%)
+}
+
+/**
+ * Total ascent and descent of a series of elevations
+ *
+ * @param elevations - Elevations in path order, meters
+ * @param noiseMeters - Swings smaller than this are ignored
+ */
+export function climbTotals(
+  elevations: number[],
+  noiseMeters = 3
+): { ascent: number; descent: number } {
+  let ascent = 0;
+  let descent = 0;
+  let reference = elevations[0];
+
+  elevations.forEach(elevation => {
+    if (reference === undefined) return;
+    const change = elevation - reference;
+    if (Math.abs(change) < noiseMeters) return;
+    if (change > 0) ascent += change;
+    else descent -= change;
+    reference = elevation;
+  });
+
+  return { ascent, descent };
+}
+
+/**
+ * Grade of the window starting at each sample
+ *
+ * The window ends at the first sample at least windowMeters further on.
+ * Samples too close to the end for a full window reuse the last full
+ * window's grade; a path shorter than one window gets a single grade.
+ */
+const windowGrades = (samples: ElevationSample[], windowMeters: number): number[] => {
+  const grades: number[] = [];
+  let end = 0;
+  samples.forEach((sample, index) => {
+    end = Math.max(end, index + 1);
+    while (
+      end < samples.length - 1 &&
+      (samples[end]?.distance ?? 0) - sample.distance < windowMeters
+    ) {
+      end++;
+    }
+    const last = samples[end];
+    const run = last ? last.distance - sample.distance : 0;
+    const previous = grades[grades.length - 1];
+    if (last && run >= windowMeters) grades.push((last.elevation - sample.elevation) / run);
+    else if (previous !== undefined) grades.push(previous);
+    else grades.push(last && run > 0 ? (last.elevation - sample.elevation) / run : 0);
+  });
+  return grades;
+};
+
+/**
+ * Compute the elevation profile of a path
+ *
+ * @returns The profile, or null when fewer than two points have an elevation
+ */
+export function computeElevationProfile(
+  path: ElevatedLatLng[],
+  options: ElevationProfileOptions = {}
+): ElevationProfile | null {
+  const noiseMeters = options.noiseMeters ?? 3;
+  const gradeWindowMeters = options.gradeWindowMeters ?? 50;
+  const steepGrade = options.steepGrade ?? 0.1;
+
+  const cumulative = cumulativeDistances(path);
+  const samples = path.flatMap(({ lat, lng, elevation }, index): ElevationSample[] =>
+    elevation === undefined || !Number.isFinite(elevation)
+      ? []
+      : [{ lat, lng, elevation, distance: cumulative[index] ?? 0 }]
+  );
+  if (samples.length < 2) return null;
+
+  const elevations = samples.map(sample => sample.elevation);
+  const { ascent, descent } = climbTotals(elevations, noiseMeters);
+  const grades = windowGrades(samples, gradeWindowMeters);
+
+  let maxGrade = 0;
+  let maxGradeDistance = 0;
+  const steepSections: SteepSection[] = [];
+  grades.forEach((grade, index) => {
+    const start = samples[index];
+    const next = samples[index + 1];
+    if (!start) return;
+    if (Math.abs(grade) > Math.abs(maxGrade)) {
+      maxGrade = grade;
+      maxGradeDistance = start.distance;
+    }
+    if (!next || Math.abs(grade) < steepGrade) return;
+
+    // Extend the previous section in the same direction across gaps shorter
+    // than a window, so noise around the threshold does not split it up
+    const current = steepSections[steepSections.length - 1];
+    if (
+      current &&
+      start.distance - current.endDistance < gradeWindowMeters &&
+      Math.sign(current.grade) === Math.sign(grade)
+    ) {
+      current.endDistance = next.distance;
+      if (Math.abs(grade) > Math.abs(current.grade)) current.grade = grade;
+    } else {
+      steepSections.push({ startDistance: start.distance, endDistance: next.distance, grade });
+    }
+  });
+
+  return {
+    samples,
+    totalDistance: cumulative[cumulative.length - 1] ?? 0,
+    ascent,
+    descent,
+    minElevation: elevations.reduce((min, elevation) => Math.min(min, elevation)),
+    maxElevation: elevations.reduce((max, elevation) => Math.max(max, elevation)),
+    maxGrade,
+    maxGradeDistance,
+    steepSections,
+  };
+}
+
+/**
+ * Interpolated sample at a distance along the profile (clamped to its ends)
+ */
+export function elevationAt(profile: ElevationProfile, distance: number): ElevationSample | null {
+  const { samples } = profile;
+  const first = samples[0];
+  if (!first) return null;
+  if (distance <= first.distance) return first;
+
+  for (let index = 1; index < samples.length; index++) {
+    const to = samples[index];
+    const from = samples[index - 1];
+    if (!to || !from || distance > to.distance) continue;
+    const t =
+      to.distance === from.distance
+        ? 0
+        : (distance - from.distance) / (to.distance - from.distance);
+    return {
+      lat: from.lat + (to.lat - from.lat) * t,
+      lng: from.lng + (to.lng - from.lng) * t,
+      elevation: from.elevation + (to.elevation - from.elevation) * t,
+      distance,
+    };
+  }
+  return samples[samples.length - 1] ?? first;
+}
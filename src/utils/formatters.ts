@@ -1,64 +1,15 @@
 /**
  * @fileoverview Formatting Utilities
- * @purpose Consistent formatting for distances, durations, and timestamps
+ * @purpose Consistent formatting for timestamps, scores, ratings and text
  *
  * These helper functions provide user-friendly display formatting for:
- * - Distance (meters → "5.2 km" or "850 m")
- * - Duration (seconds → "1h 30m" or "45 min")
  * - Time ago (ISO timestamp → "2h ago" or "3d ago")
- */
-
-/**
- * Format distance in meters to human-readable string
- *
- * @param meters - Distance in meters
- * @returns Formatted distance string (e.g., "5.2 km" or "850 m")
+ * - Safety scores, ratings, counts and percentages
+ * - Truncated text
  *
- * @example
- * formatDistance(5200)  // "5.2 km"
- * formatDistance(850)   // "850 m"
- * formatDistance(1000)  // "1.0 km"
- * formatDistance(42195) // "42.2 km" (marathon distance)
+ * Distances, elevations, speeds and durations depend on the user's unit and
+ * language preferences; format them with useFormatter (services/formatService.ts).
  */
-export function formatDistance(meters: number): string {
-  if (meters < 1000) {
-    return `${Math.round(meters)} m`;
-  }
-
-  const kilometers = meters / 1000;
-  return `${kilometers.toFixed(1)} km`;
-}
-
-/**
- * Format duration in seconds to human-readable string
- *
- * @param seconds - Duration in seconds
- * @returns Formatted duration string (e.g., "1h 30m" or "45 min")
- *
- * @example
- * formatDuration(3600)   // "1h"
- * formatDuration(5400)   // "1h 30m"
- * formatDuration(2700)   // "45 min"
- * formatDuration(90)     // "2 min"
- * formatDuration(45)     // "< 1 min"
- */
-export function formatDuration(seconds: number): string {
-  if (seconds < 60) {
-    return '< 1 min';
-  }
-
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.round((seconds % 3600) / 60);
-
-  if (hours > 0) {
-    if (minutes === 0) {
-      return `${hours}h`;
-    }
-    return `${hours}h ${minutes}m`;
-  }
-
-  return `${minutes} min`;
-}
 
 /**
  * Format ISO timestamp to relative time string
@@ -112,26 +63,6 @@ export function formatTimeAgo(timestamp: string): string {
   return `${diffYears}y ago`;
 }
 
-/**
- * Format elevation gain in meters with appropriate unit
- *
- * @param meters - Elevation gain in meters
- * @returns Formatted elevation string (e.g., "150 m" or "1.2 km")
- *
- * @example
- * formatElevation(150)   // "150 m"
- * formatElevation(1200)  // "1.2 km"
- * formatElevation(50)    // "50 m"
- */
-export function formatElevation(meters: number): string {
-  if (meters < 1000) {
-    return `${Math.round(meters)} m`;
-  }
-
-  const kilometers = meters / 1000;
-  return `${kilometers.toFixed(1)} km`;
-}
-
 /**
  * Format safety score (0-100) to descriptive label
  *
@@ -228,16 +159,17 @@ export function truncateText(text: string, maxLength: number): string {
  *
  * 1. Route Card Display
  * ----------------------
- * const RouteCard = ({ route }) => (
- *   <View>
- *     <Text>{formatDistance(route.distanceMeters)}</Text>
- *     <Text>{formatDuration(route.durationMinutes * 60)}</Text>
- *     <Text>{formatElevation(route.elevationGain)}</Text>
- *     <Text>{formatSafetyLevel(route.safetyScore)}</Text>
- *     <Text>{formatRating(route.averageRating)}</Text>
- *     <Text>{formatNumber(route.likes)} likes</Text>
- *   </View>
- * );
+ * const RouteCard = ({ route }) => {
+ *   const format = useFormatter();
+ *   return (
+ *     <View>
+ *       <Text>{format.distance(route.distanceMeters)}</Text>
+ *       <Text>{formatSafetyLevel(route.safetyScore)}</Text>
+ *       <Text>{formatRating(route.averageRating)}</Text>
+ *       <Text>{formatNumber(route.likes)} likes</Text>
+ *     </View>
+ *   );
+ * };
  *
  *
  * 2. News Article Timestamp
@@ -257,32 +189,12 @@ export function truncateText(text: string, maxLength: number): string {
  *   <View>
  *     <Text>{route.title}</Text>
  *     <Text>{truncateText(route.description, 100)}</Text>
- *     <Text>
- *       {formatDistance(route.distanceMeters)} ·
- *       {formatDuration(route.durationMinutes * 60)} ·
- *       {formatSafetyLevel(route.safetyScore)}
- *     </Text>
+ *     <Text>{formatSafetyLevel(route.safetyScore)}</Text>
  *   </View>
  * );
  *
  *
- * 4. User Stats Display
- * ----------------------
- * const UserProfile = ({ user }) => {
- *   const totalDistance = user.completedRoutes.reduce(
- *     (sum, route) => sum + route.distanceMeters, 0
- *   );
- *
- *   return (
- *     <View>
- *       <Text>{formatDistance(totalDistance)} walked</Text>
- *       <Text>{formatNumber(user.completedRoutes.length)} routes completed</Text>
- *     </View>
- *   );
- * };
- *
- *
- * 5. Safety Dashboard
+ * 4. Safety Dashboard
  * --------------------
  * const SafetyScore = ({ neighborhood }) => (
  *   <View>
@@ -0,0 +1,413 @@
+/**
+ * @fileoverview Geo Utilities
+ * @purpose Distance and path geometry on WGS84 coordinates
+ *
+ * - Distances: haversine, cumulative distance and length of a path
+ * - Snapping: closest point on a segment or path, point at a distance
+ * - Shape: bounding box, Douglas-Peucker simplification
+ * - Formats: Google encoded polylines and GeoJSON LineStrings (elevation is
+ *   kept as the third coordinate), map links
+ *
+ * Distances use the haversine formula on a spherical Earth, which is within
+ * ~0.5% of the ellipsoid for the walking distances this app deals with.
+ * Snapping projects onto each segment in a local equirectangular plane,
+ * which is accurate for segments up to a few kilometres.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Coordinate with an optional elevation in meters
+ */
+export interface ElevatedLatLng extends LatLng {
+  elevation?: number;
+}
+
+/**
+ * Rectangle enclosing a set of points
+ */
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * GeoJSON position: [longitude, latitude] with optional elevation
+ */
+export type GeoJSONPosition = [number, number] | [number, number, number];
+
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: GeoJSONPosition[];
+}
+
+// IUGG mean Earth radius
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function haversineDistance(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Distance from the start of the path to each vertex
+ *
+ * @returns Array the length of `path`; the last entry is the path length
+ */
+export function cumulativeDistances(path: LatLng[]): number[] {
+  const distances: number[] = [];
+  let total = 0;
+  path.forEach((point, index) => {
+    const previous = path[index - 1];
+    if (previous) total += haversineDistance(previous, point);
+    distances.push(total);
+  });
+  return distances;
+}
+
+/**
+ * Length of a path in meters
+ */
+export function pathLength(path: LatLng[]): number {
+  const cumulative = cumulativeDistances(path);
+  return cumulative[cumulative.length - 1] ?? 0;
+}
+
+/**
+ * Smallest box containing every point, or null for an empty path
+ *
+ * Paths crossing the antimeridian get a box spanning the long way round.
+ */
+export function boundingBox(path: LatLng[]): BoundingBox | null {
+  if (path.length === 0) return null;
+  return path.reduce<BoundingBox>(
+    (box, { lat, lng }) => ({
+      south: Math.min(box.south, lat),
+      west: Math.min(box.west, lng),
+      north: Math.max(box.north, lat),
+      east: Math.max(box.east, lng),
+    }),
+    { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity }
+  );
+}
+
+/**
+ * Closest point on a path to a given point
+ */
+export interface PathSnap {
+  point: LatLng;
+  segmentIndex: number; // segment from path[segmentIndex] to path[segmentIndex + 1]
+  distanceAlong: number; // meters from the start of the path to `point`
+  distanceFromPath: number; // meters from the input point to `point`
+}
+
+/**
+ * Fraction along a segment (0..1) of the point closest to `point`
+ */
+function projectOntoSegment(point: LatLng, start: LatLng, end: LatLng): number {
+  const cosLat = Math.cos(toRadians(start.lat));
+  const dx = (end.lng - start.lng) * cosLat;
+  const dy = end.lat - start.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0;
+
+  const px = (point.lng - start.lng) * cosLat;
+  const py = point.lat - start.lat;
+  return Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSquared));
+}
+
+/**
+ * Closest point on the segment start-end
+ *
+ * @returns The point, its fraction along the segment and its distance in meters
+ */
+export function snapToSegment(
+  point: LatLng,
+  start: LatLng,
+  end: LatLng
+): { point: LatLng; fraction: number; distance: number } {
+  const fraction = projectOntoSegment(point, start, end);
+  const snapped = {
+    lat: start.lat + (end.lat - start.lat) * fraction,
+    lng: start.lng + (end.lng - start.lng) * fraction,
+  };
+  return { point: snapped, fraction, distance: haversineDistance(point, snapped) };
+}
+
+/**
+ * Snap a point to the closest position on a path
+ *
+ * @param point - Point to snap
+ * @param path - Path vertices (at least one)
+ * @param cumulative - cumulativeDistances(path), when already computed
+ * @param fromSegment - First segment to consider (inclusive)
+ * @param toSegment - Last segment to consider (inclusive)
+ * @returns Closest position, or null for an empty path
+ */
+export function snapToPath(
+  point: LatLng,
+  path: LatLng[],
+  cumulative: number[] = cumulativeDistances(path),
+  fromSegment = 0,
+  toSegment = path.length - 2
+): PathSnap | null {
+  const first = path[0];
+  if (!first) return null;
+  if (path.length === 1) {
+    return {
+      point: first,
+      segmentIndex: 0,
+      distanceAlong: 0,
+      distanceFromPath: haversineDistance(point, first),
+    };
+  }
+
+  let best: PathSnap | null = null;
+  const last = Math.min(toSegment, path.length - 2);
+  for (let index = Math.max(0, fromSegment); index <= last; index++) {
+    const start = path[index];
+    const end = path[index + 1];
+    if (!start || !end) continue;
+
+    const snapped = snapToSegment(point, start, end);
+    if (!best || snapped.distance < best.distanceFromPath) {
+      const segmentStart = cumulative[index] ?? 0;
+      const segmentEnd = cumulative[index + 1] ?? segmentStart;
+      best = {
+        point: snapped.point,
+        segmentIndex: index,
+        distanceAlong: segmentStart + (segmentEnd - segmentStart) * snapped.fraction,
+        distanceFromPath: snapped.distance,
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Point at a given distance along a path (clamped to its ends)
+ *
+ * @param path - Path vertices (at least one)
+ * @param distance - Meters from the start of the path
+ * @param cumulative - cumulativeDistances(path), when already computed
+ */
+export function pointAlongPath(
+  path: LatLng[],
+  distance: number,
+  cumulative: number[] = cumulativeDistances(path)
+): LatLng | null {
+  const first = path[0];
+  if (!first) return null;
+  if (distance <= 0) return first;
+
+  for (let index = 1; index < path.length; index++) {
+    const end = cumulative[index] ?? 0;
+    if (distance > end) continue;
+
+    const start = cumulative[index - 1] ?? 0;
+    const from = path[index - 1] ?? first;
+    const to = path[index] ?? first;
+    const t = end === start ? 0 : (distance - start) / (end - start);
+    return { lat: from.lat + (to.lat - from.lat) * t, lng: from.lng + (to.lng - from.lng) * t };
+  }
+  return path[path.length - 1] ?? first;
+}
+
+/**
+ * Douglas-Peucker simplification
+ *
+ * @param path - Path to simplify
+ * @param toleranceMeters - Maximum distance between the result and any dropped point
+ * @returns Subset of `path` keeping the first and last points
+ */
+export function simplifyPath<T extends LatLng>(path: T[], toleranceMeters: number): T[] {
+  if (path.length <= 2) return [...path];
+
+  const keep = new Array<boolean>(path.length).fill(false);
+  keep[0] = true;
+  keep[path.length - 1] = true;
+
+  // Explicit stack instead of recursion; recorded tracks can be long
+  const ranges: [number, number][] = [[0, path.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop() ?? [0, 0];
+    const start = path[first];
+    const end = path[last];
+    if (!start || !end) continue;
+
+    let farthest = -1;
+    let maxDistance = toleranceMeters;
+    for (let index = first + 1; index < last; index++) {
+      const point = path[index];
+      if (!point) continue;
+      const { distance } = snapToSegment(point, start, end);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = index;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return path.filter((_, index) => keep[index]);
+}
+
+/**
+ * Decode a Google encoded polyline
+ *
+ * @param encoded - Polyline string
+ * @param precision - Decimal places encoded (5 for Google, 6 for OSRM/Valhalla)
+ * @throws Error when the string is truncated
+ */
+export function decodePolyline(encoded: string, precision = 5): LatLng[] {
+  const factor = 10 ** precision;
+  const path: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) throw new Error('Truncated encoded polyline');
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    path.push({ lat: lat / factor, lng: lng / factor });
+  }
+  return path;
+}
+
+/**
+ * Encode a path as a Google encoded polyline
+ *
+ * @param path - Points to encode
+ * @param precision - Decimal places to keep (5 for Google, 6 for OSRM/Valhalla)
+ */
+export function encodePolyline(path: LatLng[], precision = 5): string {
+  const factor = 10 ** precision;
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  const writeValue = (value: number) => {
+    let remaining = value < 0 ? ~(value << 1) : value << 1;
+    while (remaining >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+      remaining >>= 5;
+    }
+    encoded += String.fromCharCode(remaining + 63);
+  };
+
+  path.forEach(({ lat, lng }) => {
+    const roundedLat = Math.round(lat * factor);
+    const roundedLng = Math.round(lng * factor);
+    writeValue(roundedLat - previousLat);
+    writeValue(roundedLng - previousLng);
+    previousLat = roundedLat;
+    previousLng = roundedLng;
+  });
+  return encoded;
+}
+
+/**
+ * GeoJSON LineString for a path, with elevations where the points have them
+ */
+export function toGeoJSONLineString(path: ElevatedLatLng[]): GeoJSONLineString {
+  return {
+    type: 'LineString',
+    coordinates: path.map(({ lat, lng, elevation }) =>
+      elevation === undefined ? [lng, lat] : [lng, lat, elevation]
+    ),
+  };
+}
+
+const isPosition = (value: unknown): value is GeoJSONPosition =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number' &&
+  Math.abs(value[1]) <= 90 &&
+  Math.abs(value[0]) <= 180;
+
+const toPath = (coordinates: unknown): ElevatedLatLng[] | null =>
+  Array.isArray(coordinates) && coordinates.every(isPosition)
+    ? coordinates.map(([lng, lat, elevation]) =>
+        typeof elevation === 'number' ? { lat, lng, elevation } : { lat, lng }
+      )
+    : null;
+
+/**
+ * Path from GeoJSON
+ *
+ * Accepts a LineString or MultiLineString (parts joined in order), or a
+ * Feature / FeatureCollection whose first line geometry is used. Positions
+ * with a third coordinate keep it as the point's elevation.
+ *
+ * @returns The path, or null when the value holds no valid line
+ */
+export function pathFromGeoJSON(value: unknown): ElevatedLatLng[] | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const geojson = value as {
+    type?: unknown;
+    coordinates?: unknown;
+    geometry?: unknown;
+    features?: unknown;
+  };
+
+  switch (geojson.type) {
+    case 'LineString':
+      return toPath(geojson.coordinates);
+    case 'MultiLineString': {
+      if (!Array.isArray(geojson.coordinates)) return null;
+      const parts = geojson.coordinates.map(toPath);
+      return parts.every(part => part !== null) ? parts.flat() : null;
+    }
+    case 'Feature':
+      return pathFromGeoJSON(geojson.geometry);
+    case 'FeatureCollection': {
+      if (!Array.isArray(geojson.features)) return null;
+      for (const feature of geojson.features) {
+        const path = pathFromGeoJSON(feature);
+        if (path) return path;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Map link for a point that opens on any phone, with or without the app
+ */
+export function mapsLink(point: LatLng): string {
+  return `https://maps.google.com/?q=${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+}
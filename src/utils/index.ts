@@ -11,6 +11,18 @@ export * from './constants';
 // Export formatters
 export * from './formatters';
 
+// Export geo helpers
+export * from './geo';
+
+// Export elevation profile helpers
+export * from './elevation';
+
+// Export walk statistics
+export * from './walkStats';
+
+// Export safety alert matching
+export * from './safetyAlerts';
+
 // TODO: Add form validation functions for email, password, phone number
 // TODO: Add AsyncStorage key constants (@waytrove_theme, @waytrove_auth, @waytrove_has_seen_onboarding)
 // TODO: Add API endpoint constants for Django backend integration
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Safety Alert Matching
+ * @purpose Which safety alerts apply to a position or a route, most urgent first
+ *
+ * An alert applies when it is active (isActive and inside its
+ * validFrom/validUntil window) and either:
+ * - its area comes within the given distance of the position or the route
+ *   path (the area is a circle of location.radius km around
+ *   location.coordinates, DEFAULT_ALERT_RADIUS_KM when no radius is given), or
+ * - the route is listed in its affectedRoutes
+ *
+ * Distances are measured to the edge of the area, so 0 means inside it.
+ * Matches are ranked by severity, then distance, then the newest alert, and
+ * deduplicated: the same id, or the same type and title over the same area
+ * (as published by more than one source), is kept once at its most severe.
+ */
+
+import type { SafetyAlert } from '../types';
+import { haversineDistance, snapToPath } from './geo';
+import type { LatLng } from './geo';
+
+export const DEFAULT_ALERT_RADIUS_KM = 0.25;
+// Areas whose centers are closer than this are treated as the same place
+const SAME_AREA_METERS = 100;
+
+export type SafetyAlertSeverity = SafetyAlert['severity'];
+
+const SEVERITY_RANK: Record<SafetyAlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  danger: 2,
+  critical: 3,
+};
+
+/**
+ * Alert that applies, with how far away it is
+ */
+export interface SafetyAlertMatch {
+  alert: SafetyAlert;
+  distanceMeters: number; // to the edge of the area; 0 when inside or listed for the route
+}
+
+/**
+ * Route as seen by the matcher
+ */
+export interface AlertRoute {
+  id: string;
+  path: LatLng[];
+}
+
+/**
+ * Whether an alert is in force at a given time
+ *
+ * @param now - ms since epoch
+ */
+export function isAlertActive(alert: SafetyAlert, now: number): boolean {
+  if (!alert.isActive) return false;
+  const from = new Date(alert.validFrom).getTime();
+  if (Number.isFinite(from) && now < from) return false;
+  if (!alert.validUntil) return true;
+  const until = new Date(alert.validUntil).getTime();
+  return !Number.isFinite(until) || now < until;
+}
+
+/**
+ * Center of the alert's area, when it has one
+ */
+export function alertCenter(alert: SafetyAlert): LatLng | null {
+  const { coordinates } = alert.location;
+  return coordinates ? { lat: coordinates.latitude, lng: coordinates.longitude } : null;
+}
+
+/**
+ * Radius of the alert's area in meters
+ */
+export function alertRadiusMeters(alert: SafetyAlert): number {
+  return (alert.location.radius ?? DEFAULT_ALERT_RADIUS_KM) * 1000;
+}
+
+/**
+ * Meters from a point to the edge of the alert's area (0 inside it)
+ *
+ * @returns null when the alert has no coordinates
+ */
+export function distanceToAlert(alert: SafetyAlert, point: LatLng): number | null {
+  const center = alertCenter(alert);
+  if (!center) return null;
+  return Math.max(0, haversineDistance(point, center) - alertRadiusMeters(alert));
+}
+
+/**
+ * Meters from the closest point of a path to the edge of the alert's area
+ *
+ * @returns null when the alert has no coordinates or the path is empty
+ */
+export function distanceFromPathToAlert(alert: SafetyAlert, path: LatLng[]): number | null {
+  const center = alertCenter(alert);
+  const snap = center && snapToPath(center, path);
+  if (!snap) return null;
+  return Math.max(0, snap.distanceFromPath - alertRadiusMeters(alert));
+}
+
+/**
+ * Most urgent first: severity, then distance, then the newest alert
+ */
+export function compareAlertMatches(a: SafetyAlertMatch, b: SafetyAlertMatch): number {
+  return (
+    SEVERITY_RANK[b.alert.severity] - SEVERITY_RANK[a.alert.severity] ||
+    a.distanceMeters - b.distanceMeters ||
+    new Date(b.alert.validFrom).getTime() - new Date(a.alert.validFrom).getTime()
+  );
+}
+
+function isSameAlert(a: SafetyAlert, b: SafetyAlert): boolean {
+  if (a.id === b.id) return true;
+  if (a.type !== b.type || a.title.trim().toLowerCase() !== b.title.trim().toLowerCase()) {
+    return false;
+  }
+  const centerA = alertCenter(a);
+  const centerB = alertCenter(b);
+  if (!centerA || !centerB) return a.location.name === b.location.name;
+  return haversineDistance(centerA, centerB) <= SAME_AREA_METERS;
+}
+
+/**
+ * Rank matches and keep one per alert
+ *
+ * The first of a group of duplicates in ranked order is kept, which is the
+ * most severe and closest.
+ */
+export function rankAlertMatches(matches: SafetyAlertMatch[]): SafetyAlertMatch[] {
+  const ranked = [...matches].sort(compareAlertMatches);
+  return ranked.filter(
+    (match, index) => !ranked.slice(0, index).some(kept => isSameAlert(kept.alert, match.alert))
+  );
+}
+
+/**
+ * Active alerts within a distance of a position
+ *
+ * @param withinMeters - Maximum distance to the edge of an alert's area
+ * @param now - ms since epoch
+ */
+export function matchAlertsNear(
+  alerts: SafetyAlert[],
+  position: LatLng,
+  withinMeters: number,
+  now: number
+): SafetyAlertMatch[] {
+  const matches: SafetyAlertMatch[] = [];
+  alerts.forEach(alert => {
+    if (!isAlertActive(alert, now)) return;
+    const distanceMeters = distanceToAlert(alert, position);
+    if (distanceMeters !== null && distanceMeters <= withinMeters) {
+      matches.push({ alert, distanceMeters });
+    }
+  });
+  return rankAlertMatches(matches);
+}
+
+/**
+ * Active alerts whose area a route passes through (or within a buffer of),
+ * or that list the route as affected
+ *
+ * @param bufferMeters - How close the path must come to an area
+ * @param now - ms since epoch
+ */
+export function matchAlertsForRoute(
+  alerts: SafetyAlert[],
+  route: AlertRoute,
+  bufferMeters: number,
+  now: number
+): SafetyAlertMatch[] {
+  const matches: SafetyAlertMatch[] = [];
+  alerts.forEach(alert => {
+    if (!isAlertActive(alert, now)) return;
+    if (alert.affectedRoutes?.includes(route.id)) {
+      matches.push({ alert, distanceMeters: 0 });
+      return;
+    }
+    const distanceMeters = distanceFromPathToAlert(alert, route.path);
+    if (distanceMeters !== null && distanceMeters <= bufferMeters) {
+      matches.push({ alert, distanceMeters });
+    }
+  });
+  return rankAlertMatches(matches);
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Schema Utilities
+ * @purpose Minimal runtime decoders for validating untrusted data (API payloads, mocks, storage)
+ *
+ * A schema checks an unknown value and either returns it typed or lists every
+ * problem with its field path (e.g. "routes[2].startPoint.lat"). Object
+ * schemas keep only the declared keys, so extra backend fields never leak
+ * into the domain model.
+ *
+ * Schemas for an existing interface are declared with object<T>(), which makes
+ * the compiler check that every field is covered with a compatible decoder.
+ *
+ * @example
+ * ```ts
+ * const pointSchema = object<{ lat: number; lng: number }>({
+ *   lat: number({ min: -90, max: 90 }),
+ *   lng: number({ min: -180, max: 180 }),
+ * });
+ *
+ * const result = pointSchema.decode(json);
+ * if (!result.ok) console.warn(formatSchemaIssues(result.issues));
+ *
+ * const point = parseWithSchema(pointSchema, json, 'Point'); // throws on failure
+ * ```
+ */
+
+/**
+ * Single validation failure
+ */
+export interface SchemaIssue {
+  path: string; // "" for the root value
+  message: string;
+}
+
+export type DecodeResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+/**
+ * Runtime decoder for values of type T
+ */
+export interface Schema<T> {
+  decode: (input: unknown, path?: string) => DecodeResult<T>;
+}
+
+/**
+ * Type produced by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Thrown by parseWithSchema when a value does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(label: string, issues: SchemaIssue[]) {
+    super(`Invalid ${label}: ${formatSchemaIssues(issues)}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+const ok = <T>(value: T): DecodeResult<T> => ({ ok: true, value });
+const fail = <T>(path: string, message: string): DecodeResult<T> => ({
+  ok: false,
+  issues: [{ path, message }],
+});
+
+const describe = (input: unknown): string =>
+  input === null ? 'null' : Array.isArray(input) ? 'array' : typeof input;
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    decode: (input, path = '') => {
+      if (typeof input !== 'string') return fail(path, `expected string, got ${describe(input)}`);
+      if (options.nonEmpty && input.trim() === '') return fail(path, 'must not be empty');
+      return ok(input);
+    },
+  };
+}
+
+export function number(
+  options: { min?: number; max?: number; integer?: boolean } = {}
+): Schema<number> {
+  return {
+    decode: (input, path = '') => {
+      if (typeof input !== 'number' || !Number.isFinite(input)) {
+        return fail(path, `expected number, got ${describe(input)}`);
+      }
+      if (options.integer && !Number.isInteger(input)) return fail(path, 'must be an integer');
+      if (options.min !== undefined && input < options.min) {
+        return fail(path, `must be >= ${options.min}`);
+      }
+      if (options.max !== undefined && input > options.max) {
+        return fail(path, `must be <= ${options.max}`);
+      }
+      return ok(input);
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    decode: (input, path = '') =>
+      typeof input === 'boolean'
+        ? ok(input)
+        : fail(path, `expected boolean, got ${describe(input)}`),
+  };
+}
+
+/**
+ * One of a fixed set of primitive values
+ */
+export function oneOf<const T extends readonly (string | number | boolean)[]>(
+  values: T
+): Schema<T[number]> {
+  return {
+    decode: (input, path = '') =>
+      values.includes(input as T[number])
+        ? ok(input as T[number])
+        : fail(path, `expected one of ${values.map(v => JSON.stringify(v)).join(', ')}`),
+  };
+}
+
+/**
+ * Accepts any value without checking it
+ */
+export function unknownValue(): Schema<unknown> {
+  return { decode: input => ok(input) };
+}
+
+/**
+ * Any non-array object, kept as-is
+ */
+export function plainObject(): Schema<Record<string, unknown>> {
+  return {
+    decode: (input, path = '') =>
+      typeof input === 'object' && input !== null && !Array.isArray(input)
+        ? ok(input as Record<string, unknown>)
+        : fail(path, `expected object, got ${describe(input)}`),
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    decode: (input, path = '') => {
+      if (!Array.isArray(input)) return fail(path, `expected array, got ${describe(input)}`);
+
+      const values: T[] = [];
+      const issues: SchemaIssue[] = [];
+      input.forEach((element, index) => {
+        const result = item.decode(element, `${path}[${index}]`);
+        if (result.ok) values.push(result.value);
+        else issues.push(...result.issues);
+      });
+      return issues.length > 0 ? { ok: false, issues } : ok(values);
+    },
+  };
+}
+
+/**
+ * Object with a known set of keys; undeclared keys are dropped
+ */
+export function object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    decode: (input, path = '') => {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return fail(path, `expected object, got ${describe(input)}`);
+      }
+
+      const source = input as Record<string, unknown>;
+      const value: Record<string, unknown> = {};
+      const issues: SchemaIssue[] = [];
+      (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+        const result = shape[key].decode(source[key], joinPath(path, key));
+        if (!result.ok) issues.push(...result.issues);
+        else if (result.value !== undefined) value[key] = result.value;
+      });
+      return issues.length > 0 ? { ok: false, issues } : ok(value as T);
+    },
+  };
+}
+
+/**
+ * Allows the value to be missing (undefined)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    decode: (input, path = '') =>
+      input === undefined ? ok(undefined) : schema.decode(input, path),
+  };
+}
+
+/**
+ * Allows the value to be null
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    decode: (input, path = '') => (input === null ? ok(null) : schema.decode(input, path)),
+  };
+}
+
+/**
+ * Transform a decoded value (e.g. normalize field names)
+ */
+export function map<T, U>(schema: Schema<T>, transform: (value: T) => U): Schema<U> {
+  return {
+    decode: (input, path = '') => {
+      const result = schema.decode(input, path);
+      return result.ok ? ok(transform(result.value)) : result;
+    },
+  };
+}
+
+/**
+ * Try `first`, then `second`; issues are reported against `second`, which
+ * should be the documented shape
+ */
+export function either<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return {
+    decode: (input, path = '') => {
+      const result = first.decode(input, path);
+      return result.ok ? result : second.decode(input, path);
+    },
+  };
+}
+
+/**
+ * Human-readable summary, e.g. "startPoint.lat: expected number, got string"
+ */
+export function formatSchemaIssues(issues: SchemaIssue[], limit = 3): string {
+  const shown = issues
+    .slice(0, limit)
+    .map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+  const more = issues.length > limit ? ` (+${issues.length - limit} more)` : '';
+  return `${shown.join('; ')}${more}`;
+}
+
+/**
+ * Decode a value or throw SchemaValidationError
+ *
+ * @param schema - Schema to check against
+ * @param input - Untrusted value
+ * @param label - Name used in the error message (e.g. "Route")
+ */
+export function parseWithSchema<T>(schema: Schema<T>, input: unknown, label: string): T {
+  const result = schema.decode(input);
+  if (!result.ok) throw new SchemaValidationError(label, result.issues);
+  return result.value;
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Walk Statistics
+ * @purpose Totals, streaks, breakdowns and chart buckets from completed walks
+ *
+ * Periods and days follow the device's local time: a week starts on Monday,
+ * a month on its 1st. Streaks count consecutive calendar days with at least
+ * one walk and always use the whole history; the current streak is still
+ * alive until a full day passes without a walk.
+ */
+
+/**
+ * Minimum a completed walk needs for the statistics
+ */
+export interface CompletedWalk {
+  completedAt: string; // ISO date string
+  distanceMeters: number;
+  durationSeconds: number;
+  city: string;
+  category: string;
+  rating?: number; // 1-5
+}
+
+export type StatsPeriod = 'week' | 'month' | 'all';
+
+export interface WalkTotals {
+  walks: number;
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+export interface WalkStreaks {
+  current: number; // days
+  longest: number; // days
+}
+
+export interface WalkBreakdownEntry extends WalkTotals {
+  key: string; // city or category
+}
+
+/**
+ * Bar of the activity chart
+ */
+export interface WalkChartBucket {
+  label: string; // short axis label; empty for unlabeled bars
+  start: number; // ms since epoch
+  distanceMeters: number;
+  walks: number;
+}
+
+export interface WalkStats {
+  period: StatsPeriod;
+  totals: WalkTotals;
+  averageRating: number | null; // of rated walks in the period
+  streaks: WalkStreaks;
+  byCity: WalkBreakdownEntry[]; // most walked first
+  byCategory: WalkBreakdownEntry[];
+  buckets: WalkChartBucket[]; // days of the week, days of the month, or the last 12 months
+}
+
+const DAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+const MONTH_LABELS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+const MS_PER_DAY = 86400000;
+// Label every nth day of the month so the axis stays readable
+const MONTH_LABEL_EVERY = 7;
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Calendar day number, unaffected by daylight saving changes
+const dayNumber = (date: Date): number =>
+  Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY);
+
+/**
+ * Start of the period containing `now`, or null for all time
+ */
+export function periodStart(period: StatsPeriod, now: Date): Date | null {
+  if (period === 'all') return null;
+  if (period === 'month') return new Date(now.getFullYear(), now.getMonth(), 1);
+  const today = startOfDay(now);
+  const daysSinceMonday = (today.getDay() + 6) % 7;
+  return new Date(today.getFullYear(), today.getMonth(), today.getDate() - daysSinceMonday);
+}
+
+const totalsOf = (walks: CompletedWalk[]): WalkTotals => ({
+  walks: walks.length,
+  distanceMeters: walks.reduce((sum, walk) => sum + walk.distanceMeters, 0),
+  durationSeconds: walks.reduce((sum, walk) => sum + walk.durationSeconds, 0),
+});
+
+/**
+ * Streaks of consecutive days with a walk
+ */
+export function walkStreaks(walks: CompletedWalk[], now: Date): WalkStreaks {
+  const days = [...new Set(walks.map(walk => dayNumber(new Date(walk.completedAt))))].sort(
+    (a, b) => a - b
+  );
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day - (days[index - 1] ?? day) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const today = dayNumber(now);
+  const last = days[days.length - 1];
+  // A streak ending yesterday can still be continued today
+  const current = last !== undefined && today - last <= 1 ? run : 0;
+  return { current, longest };
+}
+
+/**
+ * Totals grouped by city or category, most walked first
+ */
+export function walkBreakdown(
+  walks: CompletedWalk[],
+  key: 'city' | 'category'
+): WalkBreakdownEntry[] {
+  const groups = new Map<string, CompletedWalk[]>();
+  walks.forEach(walk => {
+    const name = walk[key].trim() || 'Other';
+    groups.set(name, [...(groups.get(name) ?? []), walk]);
+  });
+  return [...groups.entries()]
+    .map(([name, group]) => ({ key: name, ...totalsOf(group) }))
+    .sort((a, b) => b.walks - a.walks || b.distanceMeters - a.distanceMeters);
+}
+
+const bucketStarts = (period: StatsPeriod, now: Date): { label: string; start: Date }[] => {
+  if (period === 'week') {
+    const monday = periodStart('week', now) ?? now;
+    return DAY_LABELS.map((label, index) => ({
+      label,
+      start: new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + index),
+    }));
+  }
+  if (period === 'month') {
+    const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+    return Array.from({ length: daysInMonth }, (_, index) => ({
+      label: index % MONTH_LABEL_EVERY === 0 ? String(index + 1) : '',
+      start: new Date(now.getFullYear(), now.getMonth(), index + 1),
+    }));
+  }
+  return Array.from({ length: 12 }, (_, index) => {
+    const start = new Date(now.getFullYear(), now.getMonth() - 11 + index, 1);
+    return { label: MONTH_LABELS[start.getMonth()] ?? '', start };
+  });
+};
+
+/**
+ * Distance and walk count per bar of the activity chart
+ */
+export function walkBuckets(
+  walks: CompletedWalk[],
+  period: StatsPeriod,
+  now: Date
+): WalkChartBucket[] {
+  const buckets = bucketStarts(period, now).map(({ label, start }) => ({
+    label,
+    start: start.getTime(),
+    distanceMeters: 0,
+    walks: 0,
+  }));
+
+  walks.forEach(walk => {
+    const time = new Date(walk.completedAt).getTime();
+    // Buckets are in order; the walk belongs to the last one starting before it
+    let bucket: WalkChartBucket | undefined;
+    for (const candidate of buckets) {
+      if (candidate.start > time) break;
+      bucket = candidate;
+    }
+    if (!bucket) return;
+    bucket.distanceMeters += walk.distanceMeters;
+    bucket.walks += 1;
+  });
+
+  return buckets;
+}
+
+/**
+ * Statistics of the walks in a period
+ *
+ * @param now - Reference time (default: the current time)
+ */
+export function computeWalkStats(
+  walks: CompletedWalk[],
+  period: StatsPeriod,
+  now: Date = new Date()
+): WalkStats {
+  const start = periodStart(period, now)?.getTime() ?? -Infinity;
+  const inPeriod = walks.filter(walk => new Date(walk.completedAt).getTime() >= start);
+  const ratings = inPeriod.flatMap(walk => (walk.rating === undefined ? [] : [walk.rating]));
+
+  return {
+    period,
+    totals: totalsOf(inPeriod),
+    averageRating:
+      ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+    streaks: walkStreaks(walks, now),
+    byCity: walkBreakdown(inPeriod, 'city'),
+    byCategory: walkBreakdown(inPeriod, 'category'),
+    buckets: walkBuckets(inPeriod, period, now),
+  };
+}
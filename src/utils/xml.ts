@@ -0,0 +1,172 @@
+/**
+ * @fileoverview XML Utilities
+ * @purpose Small dependency-free XML reader and writer for route files (GPX, KML)
+ *
+ * parseXml builds a plain element tree and is deliberately forgiving: it
+ * skips the prolog, comments, processing instructions and doctypes, decodes
+ * the predefined and numeric entities, keeps CDATA as text, and closes any
+ * elements left open at the end of the document. It does not validate and
+ * does not resolve namespaces; element and attribute names are stored
+ * without their prefix ("gx:coord" becomes "coord").
+ */
+
+/**
+ * Element node of a parsed document
+ */
+export interface XmlElement {
+  name: string; // local name, without namespace prefix
+  attributes: Record<string, string>; // keyed by local name
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+/**
+ * Raised when the input contains no root element
+ */
+export class XmlParseError extends Error {
+  constructor(message = 'The document is not valid XML.') {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const MAX_CODE_POINT = 0x10ffff;
+
+const fromCharacterReference = (codePoint: number, entity: string): string => {
+  if (codePoint > MAX_CODE_POINT) {
+    throw new XmlParseError(`The document has an invalid character reference ${entity}.`);
+  }
+  return String.fromCodePoint(codePoint);
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return fromCharacterReference(parseInt(code.slice(2), 16), entity);
+    }
+    if (code.startsWith('#')) return fromCharacterReference(parseInt(code.slice(1), 10), entity);
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    const [, name = '', doubleQuoted, singleQuoted] = match;
+    attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Parse an XML document into its root element
+ *
+ * @throws XmlParseError when no root element is found
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const pattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][\s\S]*?>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>/g;
+  let position = 0;
+
+  const appendText = (text: string) => {
+    if (text.trim()) stack[stack.length - 1]?.children.push(text);
+  };
+
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    appendText(decodeEntities(source.slice(position, match.index)));
+    position = pattern.lastIndex;
+
+    const [token, cdata, closing, rawName, rawAttributes = '', selfClosing] = match;
+    if (cdata !== undefined) {
+      stack[stack.length - 1]?.children.push(cdata);
+      continue;
+    }
+    if (!rawName || token.startsWith('<!') || token.startsWith('<?')) continue;
+
+    const name = localName(rawName);
+    if (closing) {
+      // Pop up to the matching element; unmatched closing tags are ignored
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: XmlElement = { name, attributes: parseAttributes(rawAttributes), children: [] };
+    stack[stack.length - 1]?.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+  appendText(decodeEntities(source.slice(position)));
+
+  const documentElement = root.children.find(
+    (child): child is XmlElement => typeof child !== 'string'
+  );
+  if (!documentElement) throw new XmlParseError();
+  return documentElement;
+}
+
+/**
+ * Direct child elements, optionally filtered by local name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== 'string' && (name === undefined || child.name === name)
+  );
+}
+
+/**
+ * First direct child element with the given local name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * Every descendant element with the given local name, in document order
+ */
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    childElements(node).forEach(child => {
+      if (child.name === name) found.push(child);
+      visit(child);
+    });
+  };
+  visit(element);
+  return found;
+}
+
+/**
+ * Concatenated, trimmed text of an element and its descendants
+ */
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) return '';
+  const collect = (node: XmlElement): string =>
+    node.children.map(child => (typeof child === 'string' ? child : collect(child))).join('');
+  return collect(element).trim();
+}
+
+/**
+ * Escape text for use in element content or a quoted attribute
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}